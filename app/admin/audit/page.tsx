@@ -0,0 +1,69 @@
+/**
+ * Audit Log Page - Protected Route
+ *
+ * Access logs across every entry, with filters, exports and per-user
+ * activity timelines (admins only). `userId`, `from` and `to` in the query
+ * string preselect filters, for links from security alerts.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { isAdmin } from '@/lib/api/auth-server'
+import Link from 'next/link'
+import Logo from '@/components/Logo'
+import AuditLogExplorer from '@/components/AuditLogExplorer'
+
+// Force dynamic rendering - requires authentication
+export const dynamic = 'force-dynamic'
+
+export default async function AuditLogPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ userId?: string; from?: string; to?: string }>
+}) {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/auth/login')
+  }
+
+  if (!(await isAdmin(user.id))) {
+    redirect('/dashboard')
+  }
+
+  const { userId, from, to } = await searchParams
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/dashboard"
+              className="text-slate-600 hover:text-slate-900 text-sm font-medium flex items-center gap-1"
+            >
+              ← Back
+            </Link>
+            <div className="h-6 w-px bg-slate-300 mx-2"></div>
+            <Logo size="sm" showText={true} />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-slate-900 mb-2">Audit Log</h1>
+          <p className="text-slate-600">
+            Every access to every entry. Filter, follow a user&apos;s activity, and export the result for compliance reviews.
+          </p>
+        </div>
+
+        <AuditLogExplorer initialFilter={{ userId, from, to }} />
+      </main>
+    </div>
+  )
+}
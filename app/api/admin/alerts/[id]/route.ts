@@ -0,0 +1,124 @@
+/**
+ * API Route: /api/admin/alerts/[id]
+ *
+ * Moves a security alert along its workflow (PATCH, admin only):
+ * open → acknowledged, and open or acknowledged → resolved with an
+ * optional note. Admins cannot close alerts about their own activity.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+
+const MAX_NOTE_LENGTH = 2000
+
+/**
+ * Statuses each status can move to
+ */
+const TRANSITIONS: Record<string, string[]> = {
+  open: ['acknowledged', 'resolved'],
+  acknowledged: ['resolved'],
+  resolved: [],
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can review security alerts', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const { id: alertId } = await params
+    const body = await request.json().catch(() => ({}))
+    const status = body.status
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null
+
+    if (status !== 'acknowledged' && status !== 'resolved') {
+      return NextResponse.json(
+        { error: 'status must be acknowledged or resolved' },
+        { status: 400 }
+      )
+    }
+
+    if (note && note.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Note must be at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const { data: alert, error: fetchError } = await supabase
+      .from('security_alerts')
+      .select('id, user_id, status')
+      .eq('id', alertId)
+      .single()
+
+    if (fetchError || !alert) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!TRANSITIONS[alert.status]?.includes(status)) {
+      return NextResponse.json(
+        { error: `This alert is already ${alert.status}` },
+        { status: 409 }
+      )
+    }
+
+    if (alert.user_id === user.id) {
+      return NextResponse.json(
+        { error: 'You cannot review alerts about your own activity' },
+        { status: 403 }
+      )
+    }
+
+    const now = new Date().toISOString()
+    const { data, error } = await supabase
+      .from('security_alerts')
+      .update(status === 'acknowledged'
+        ? { status, acknowledged_by: user.id, acknowledged_at: now }
+        : { status, resolved_by: user.id, resolved_at: now, resolution_note: note })
+      .eq('id', alertId)
+      .eq('status', alert.status)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating security alert:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: status === 'acknowledged' ? 'Alert acknowledged' : 'Alert resolved',
+      data
+    })
+  } catch (error) {
+    console.error('PATCH /api/admin/alerts/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
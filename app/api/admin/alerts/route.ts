@@ -0,0 +1,89 @@
+/**
+ * API Route: /api/admin/alerts
+ *
+ * Security alerts raised by anomaly detection, newest first (admin only).
+ * `?status=active` (the default) lists open and acknowledged alerts;
+ * `?status=open|acknowledged|resolved` one status and `?status=all` all.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+
+const STATUS_FILTERS = ['active', 'all', 'open', 'acknowledged', 'resolved']
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can review security alerts', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const status = request.nextUrl.searchParams.get('status') || 'active'
+    if (!STATUS_FILTERS.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${STATUS_FILTERS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    let query = supabase
+      .from('security_alerts')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(200)
+
+    if (status === 'active') {
+      query = query.in('status', ['open', 'acknowledged'])
+    } else if (status !== 'all') {
+      query = query.eq('status', status)
+    }
+
+    const { data: alerts, error } = await query
+
+    if (error) {
+      console.error('Error fetching security alerts:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    // Emails for display
+    const userIds = [...new Set((alerts || []).flatMap(alert => [alert.user_id, alert.acknowledged_by, alert.resolved_by]).filter(Boolean))]
+    const { data: users } = userIds.length > 0
+      ? await supabase.from('user_roles').select('user_id, email').in('user_id', userIds)
+      : { data: [] as { user_id: string; email: string }[] }
+
+    const emailOf = (id: string | null) => users?.find(u => u.user_id === id)?.email || null
+
+    return NextResponse.json({
+      success: true,
+      data: (alerts || []).map(alert => ({
+        ...alert,
+        user_email: emailOf(alert.user_id),
+        acknowledged_by_email: emailOf(alert.acknowledged_by),
+        resolved_by_email: emailOf(alert.resolved_by),
+      })),
+    })
+  } catch (error) {
+    console.error('GET /api/admin/alerts error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
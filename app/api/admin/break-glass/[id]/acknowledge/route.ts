@@ -0,0 +1,100 @@
+/**
+ * API Route: /api/admin/break-glass/[id]/acknowledge
+ *
+ * Records that an admin has reviewed a break-glass grant and the accesses
+ * made under it (POST, admin only). Acknowledging an unexpired grant also
+ * ends it, so access never outlives its review.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can review break-glass access', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const { id: grantId } = await params
+    const body = await request.json().catch(() => ({}))
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null
+
+    const { data: grant, error: fetchError } = await supabase
+      .from('break_glass_grants')
+      .select('id, user_id, expires_at, acknowledged_at')
+      .eq('id', grantId)
+      .single()
+
+    if (fetchError || !grant) {
+      return NextResponse.json(
+        { error: 'Break-glass grant not found' },
+        { status: 404 }
+      )
+    }
+
+    if (grant.acknowledged_at) {
+      return NextResponse.json(
+        { error: 'This break-glass grant has already been acknowledged' },
+        { status: 409 }
+      )
+    }
+
+    if (grant.user_id === user.id) {
+      return NextResponse.json(
+        { error: 'You cannot acknowledge your own break-glass access' },
+        { status: 403 }
+      )
+    }
+
+    const now = new Date()
+    const { data, error } = await supabase
+      .from('break_glass_grants')
+      .update({
+        acknowledged_by: user.id,
+        acknowledged_at: now.toISOString(),
+        review_note: note,
+        expires_at: new Date(grant.expires_at) > now ? now.toISOString() : grant.expires_at,
+      })
+      .eq('id', grantId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error acknowledging break-glass grant:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Break-glass access acknowledged',
+      data
+    })
+  } catch (error) {
+    console.error('POST /api/admin/break-glass/[id]/acknowledge error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
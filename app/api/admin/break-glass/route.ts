@@ -0,0 +1,90 @@
+/**
+ * API Route: /api/admin/break-glass
+ *
+ * Break-glass review queue, newest first (admin only). `?status=pending`
+ * (the default) lists grants awaiting acknowledgement; `?status=all`
+ * includes acknowledged ones. Each grant comes with the number of
+ * accesses made under it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can review break-glass access', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const status = request.nextUrl.searchParams.get('status') || 'pending'
+
+    let query = supabase
+      .from('break_glass_grants')
+      .select('*, knowledge_entries(title)')
+      .order('created_at', { ascending: false })
+      .limit(200)
+
+    if (status === 'pending') {
+      query = query.is('acknowledged_at', null)
+    }
+
+    const { data: grants, error } = await query
+
+    if (error) {
+      console.error('Error fetching break-glass grants:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    const grantIds = (grants || []).map(grant => grant.id)
+    const userIds = [...new Set((grants || []).flatMap(grant => [grant.user_id, grant.acknowledged_by]).filter(Boolean))]
+
+    // Accesses flagged with each grant, and emails for display
+    const [{ data: uses }, { data: users }] = await Promise.all([
+      grantIds.length > 0
+        ? supabase.from('access_logs').select('break_glass_grant_id').in('break_glass_grant_id', grantIds)
+        : Promise.resolve({ data: [] as { break_glass_grant_id: string }[] }),
+      userIds.length > 0
+        ? supabase.from('user_roles').select('user_id, email').in('user_id', userIds)
+        : Promise.resolve({ data: [] as { user_id: string; email: string }[] }),
+    ])
+
+    const emailOf = (id: string | null) => users?.find(u => u.user_id === id)?.email || null
+    const now = new Date()
+
+    return NextResponse.json({
+      success: true,
+      data: (grants || []).map(({ knowledge_entries: entry, ...grant }) => ({
+        ...grant,
+        entry_title: (entry as { title: string } | null)?.title || 'Deleted entry',
+        user_email: emailOf(grant.user_id) || grant.user_id,
+        acknowledged_by_email: emailOf(grant.acknowledged_by),
+        uses: uses?.filter(use => use.break_glass_grant_id === grant.id).length || 0,
+        is_active: new Date(grant.expires_at) > now,
+      })),
+    })
+  } catch (error) {
+    console.error('GET /api/admin/break-glass error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
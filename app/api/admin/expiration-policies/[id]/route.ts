@@ -0,0 +1,142 @@
+/**
+ * API Route: /api/admin/expiration-policies/[id]
+ *
+ * PATCH: Change a policy (admin only)
+ * DELETE: Delete a policy (admin only). Expiration dates it already set
+ * are kept.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { parseExpirationPolicy } from '@/lib/api/expiration-policies-server'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can manage expiration policies', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const { id: policyId } = await params
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('expiration_policies')
+      .select('*')
+      .eq('id', policyId)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Expiration policy not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = parseExpirationPolicy(body, existing)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('expiration_policies')
+      .update({
+        ...parsed.policy,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', policyId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating expiration policy:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Expiration policy updated',
+      data
+    })
+  } catch (error) {
+    console.error('PATCH /api/admin/expiration-policies/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can manage expiration policies', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const { id: policyId } = await params
+
+    const { error } = await supabase
+      .from('expiration_policies')
+      .delete()
+      .eq('id', policyId)
+
+    if (error) {
+      console.error('Error deleting expiration policy:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Expiration policy deleted'
+    })
+  } catch (error) {
+    console.error('DELETE /api/admin/expiration-policies/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * API Route: /api/admin/expiration-policies/apply
+ *
+ * Applies automatic expiry to existing entries (POST, admin only). Each
+ * entry's latest expiration date is counted from its last update; entries
+ * with no date or a later one are brought forward. New and updated
+ * entries get this on save, so this is only needed after a policy changes.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { getExpirationPolicies } from '@/lib/api/expiration-policies-server'
+import { recordBaselineVersion, recordEntryVersion } from '@/lib/api/versions-server'
+import { applyExpirationPolicy, resolveExpirationPolicy } from '@/lib/utils/expiration-policy'
+
+const BATCH_SIZE = 1000
+
+export async function POST() {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can manage expiration policies', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const policies = (await getExpirationPolicies(supabase)).filter(policy => policy.enabled && policy.expire_after_days)
+    let updated = 0
+
+    if (policies.length > 0) {
+      for (let offset = 0; ; offset += BATCH_SIZE) {
+        const { data: entries, error } = await supabase
+          .from('knowledge_entries')
+          .select('*')
+          .is('deleted_at', null)
+          .order('created_at', { ascending: true })
+          .range(offset, offset + BATCH_SIZE - 1)
+
+        if (error) {
+          console.error('Error fetching entries:', error)
+          return NextResponse.json(
+            { error: error.message },
+            { status: 500 }
+          )
+        }
+
+        for (const entry of entries || []) {
+          const expirationDate = applyExpirationPolicy(
+            resolveExpirationPolicy(policies, entry),
+            entry.expiration_date,
+            new Date(entry.updated_at || entry.created_at)
+          )
+          if (expirationDate === entry.expiration_date) continue
+
+          // updated_at is left alone: it is what the date is counted from
+          await recordBaselineVersion(supabase, entry)
+          const { data, error: updateError } = await supabase
+            .from('knowledge_entries')
+            .update({ expiration_date: expirationDate })
+            .eq('id', entry.id)
+            .select()
+            .single()
+
+          if (updateError) {
+            console.error(`Error applying expiration policy to entry ${entry.id}:`, updateError)
+            continue
+          }
+
+          await recordEntryVersion(supabase, data, user.id, 'update')
+          updated++
+        }
+
+        if (!entries || entries.length < BATCH_SIZE) break
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Expiration policies applied to ${updated} ${updated === 1 ? 'entry' : 'entries'}`,
+      updated
+    })
+  } catch (error) {
+    console.error('POST /api/admin/expiration-policies/apply error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * API Route: /api/admin/expiration-policies
+ *
+ * GET: Every expiration policy, highest priority first (admin only)
+ * POST: Create a policy (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { getExpirationPolicies, parseExpirationPolicy } from '@/lib/api/expiration-policies-server'
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can manage expiration policies', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getExpirationPolicies(supabase),
+    })
+  } catch (error) {
+    console.error('GET /api/admin/expiration-policies error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can manage expiration policies', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = parseExpirationPolicy(body)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('expiration_policies')
+      .insert({
+        ...parsed.policy,
+        created_by: user.id,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating expiration policy:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Expiration policy created',
+      data
+    })
+  } catch (error) {
+    console.error('POST /api/admin/expiration-policies error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
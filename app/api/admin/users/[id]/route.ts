@@ -0,0 +1,152 @@
+/**
+ * API Route: /api/admin/users/[id]
+ *
+ * Changes a user's role and/or account status (admin only).
+ * `status: 'active'` approves a pending account or reactivates a
+ * deactivated one; `status: 'deactivated'` blocks sign-in and ends the
+ * user's sessions. A new role also caps the user's workspace roles, which
+ * entry access uses. Every change is recorded in the role audit trail.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { adminOnlyResponse, capWorkspaceRoles, recordRoleChange } from '@/lib/api/admin-server'
+
+const VALID_ROLES = ['admin', 'manager', 'member', 'viewer']
+const VALID_STATUSES = ['active', 'deactivated']
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return adminOnlyResponse()
+    }
+
+    const { id: targetId } = await params
+    const body = await request.json()
+    const { role, status } = body
+
+    if (role === undefined && status === undefined) {
+      return NextResponse.json(
+        { error: 'role or status is required' },
+        { status: 400 }
+      )
+    }
+
+    if (role !== undefined && !VALID_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: 'Invalid role' },
+        { status: 400 }
+      )
+    }
+
+    if (status !== undefined && !VALID_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: 'status must be active or deactivated' },
+        { status: 400 }
+      )
+    }
+
+    // Admins cannot lock themselves out
+    if (targetId === user.id) {
+      return NextResponse.json(
+        { error: 'You cannot change your own role or status' },
+        { status: 400 }
+      )
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('user_roles')
+      .select('user_id, role, status')
+      .eq('user_id', targetId)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    // Cap workspace roles first so a failed demotion never leaves the user
+    // with their old access
+    if (role !== undefined && role !== existing.role) {
+      try {
+        await capWorkspaceRoles(supabase, targetId, role)
+      } catch (capError) {
+        console.error('Error capping workspace roles:', capError)
+        return NextResponse.json(
+          { error: 'Failed to cap workspace roles; the role was not changed' },
+          { status: 500 }
+        )
+      }
+    }
+
+    const updates: Record<string, string> = { updated_at: new Date().toISOString() }
+    if (role !== undefined) updates.role = role
+    if (status !== undefined) updates.status = status
+
+    const { data, error } = await supabase
+      .from('user_roles')
+      .update(updates)
+      .eq('user_id', targetId)
+      .select('user_id, email, full_name, role, status, created_at')
+      .single()
+
+    if (error) {
+      console.error('Error updating user:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (role !== undefined && role !== existing.role) {
+      await recordRoleChange(supabase, {
+        userId: targetId,
+        changedBy: user.id,
+        action: 'role_change',
+        oldRole: existing.role,
+        newRole: role,
+      })
+    }
+
+    if (status !== undefined && status !== existing.status) {
+      await recordRoleChange(supabase, {
+        userId: targetId,
+        changedBy: user.id,
+        action: status === 'deactivated'
+          ? 'deactivate'
+          : existing.status === 'pending' ? 'approve' : 'reactivate',
+        oldRole: existing.role,
+        newRole: data.role,
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'User updated successfully',
+      data
+    })
+  } catch (error) {
+    console.error('PATCH /api/admin/users/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * API Route: /api/admin/users/[id]/sign-out
+ *
+ * Ends every session of a user (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { adminOnlyResponse, recordRoleChange, revokeUserSessions } from '@/lib/api/admin-server'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return adminOnlyResponse()
+    }
+
+    const { id: targetId } = await params
+
+    const { data: target } = await supabase
+      .from('user_roles')
+      .select('user_id, role')
+      .eq('user_id', targetId)
+      .maybeSingle()
+
+    if (!target) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await revokeUserSessions(supabase, targetId))) {
+      return NextResponse.json(
+        { error: 'Failed to sign out user' },
+        { status: 500 }
+      )
+    }
+
+    await recordRoleChange(supabase, {
+      userId: targetId,
+      changedBy: user.id,
+      action: 'sign_out',
+      oldRole: target.role,
+      newRole: target.role,
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'User signed out of all sessions'
+    })
+  } catch (error) {
+    console.error('POST /api/admin/users/[id]/sign-out error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * API Route: /api/admin/users/audit
+ *
+ * Role and account change history, newest first (admin only).
+ * Optional `?userId=` limits the history to one user.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { adminOnlyResponse } from '@/lib/api/admin-server'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return adminOnlyResponse()
+    }
+
+    const userId = request.nextUrl.searchParams.get('userId')
+
+    let query = supabase
+      .from('role_audit_logs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(200)
+
+    if (userId) {
+      query = query.eq('user_id', userId)
+    }
+
+    const { data: changes, error } = await query
+
+    if (error) {
+      console.error('Error fetching role changes:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    // Resolve emails for display
+    const userIds = [...new Set((changes || []).flatMap(change => [change.user_id, change.changed_by]).filter(Boolean))]
+    const { data: users } = userIds.length > 0
+      ? await supabase.from('user_roles').select('user_id, email').in('user_id', userIds)
+      : { data: [] as { user_id: string; email: string }[] }
+
+    const emailOf = (id: string | null) => users?.find(u => u.user_id === id)?.email || null
+
+    return NextResponse.json({
+      success: true,
+      data: (changes || []).map(change => ({
+        ...change,
+        user_email: emailOf(change.user_id) || change.user_id,
+        changed_by_email: emailOf(change.changed_by),
+      })),
+    })
+  } catch (error) {
+    console.error('GET /api/admin/users/audit error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
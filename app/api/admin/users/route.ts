@@ -0,0 +1,53 @@
+/**
+ * API Route: /api/admin/users
+ *
+ * Lists every user with their role and account status (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { adminOnlyResponse } from '@/lib/api/admin-server'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return adminOnlyResponse()
+    }
+
+    const { data, error } = await supabase
+      .from('user_roles')
+      .select('user_id, email, full_name, role, status, created_at')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching users:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: data || []
+    })
+  } catch (error) {
+    console.error('GET /api/admin/users error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
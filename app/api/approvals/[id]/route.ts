@@ -0,0 +1,138 @@
+/**
+ * API Route: /api/approvals/[id]
+ *
+ * Approves or denies a pending reveal or export request (POST
+ * `{ decision: 'approve' | 'deny', note? }`). Approvers cannot decide
+ * their own requests. An approval can be used once within
+ * REVEAL_WINDOW_MINUTES; every decision is recorded in the access logs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { forbiddenResponse } from '@/lib/api/access-control'
+import { tryLogEntryAccess } from '@/lib/api/access-log-server'
+import { getWorkspaceRole } from '@/lib/api/workspaces-server'
+import {
+  REVEAL_REQUEST_COLUMNS,
+  REVEAL_WINDOW_MINUTES,
+  canApproveReveal,
+  toRevealRequests,
+} from '@/lib/api/approvals-server'
+
+const VALID_DECISIONS = ['approve', 'deny']
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: requestId } = await params
+    const body = await request.json()
+    const { decision } = body
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null
+
+    if (!VALID_DECISIONS.includes(decision)) {
+      return NextResponse.json(
+        { error: 'decision must be approve or deny' },
+        { status: 400 }
+      )
+    }
+
+    const { data: revealRequest, error: fetchError } = await supabase
+      .from('reveal_requests')
+      .select(REVEAL_REQUEST_COLUMNS)
+      .eq('id', requestId)
+      .single()
+
+    if (fetchError || !revealRequest || !revealRequest.knowledge_entries) {
+      return NextResponse.json(
+        { error: 'Request not found' },
+        { status: 404 }
+      )
+    }
+
+    if (revealRequest.status !== 'pending') {
+      return NextResponse.json(
+        { error: `This request has already been ${revealRequest.status}` },
+        { status: 409 }
+      )
+    }
+
+    if (revealRequest.requested_by === user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden: You cannot decide your own request', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const approverRole = await getWorkspaceRole(revealRequest.workspace_id, user.id)
+    if (!canApproveReveal(revealRequest.knowledge_entries, approverRole)) {
+      return forbiddenResponse('view')
+    }
+
+    const now = new Date()
+    const approved = decision === 'approve'
+
+    // Only a still-pending request is updated, so two approvers cannot both decide
+    const { data: decided, error } = await supabase
+      .from('reveal_requests')
+      .update({
+        status: approved ? 'approved' : 'denied',
+        decided_by: user.id,
+        decided_at: now.toISOString(),
+        decision_note: note,
+        expires_at: approved ? new Date(now.getTime() + REVEAL_WINDOW_MINUTES * 60 * 1000).toISOString() : null,
+      })
+      .eq('id', requestId)
+      .eq('status', 'pending')
+      .select(REVEAL_REQUEST_COLUMNS)
+
+    if (error) {
+      console.error('Error deciding reveal request:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!decided || decided.length === 0) {
+      return NextResponse.json(
+        { error: 'This request has already been decided' },
+        { status: 409 }
+      )
+    }
+
+    await tryLogEntryAccess(supabase, request.headers, {
+      entryId: revealRequest.entry_id,
+      userId: user.id,
+      action: approved ? 'approval_granted' : 'approval_denied',
+    })
+
+    const [updated] = await toRevealRequests(supabase, decided)
+
+    return NextResponse.json({
+      success: true,
+      message: approved
+        ? `Approved. The requester can use it once within ${REVEAL_WINDOW_MINUTES} minutes.`
+        : 'Request denied',
+      data: updated
+    })
+  } catch (error) {
+    console.error('POST /api/approvals/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * API Route: /api/approvals
+ *
+ * Approvals inbox (GET): pending reveal and export requests the current
+ * user can decide (as a workspace admin or manager who can see the
+ * entry's classification), the user's own requests, and the
+ * classifications currently under dual control.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getUserWorkspaces } from '@/lib/api/workspaces-server'
+import {
+  REVEAL_REQUEST_COLUMNS,
+  canApproveReveal,
+  getDualControlClassifications,
+  toRevealRequests,
+} from '@/lib/api/approvals-server'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const approverWorkspaces = (await getUserWorkspaces(user.id))
+      .filter(workspace => workspace.role === 'admin' || workspace.role === 'manager')
+
+    const [{ data: mine, error: mineError }, { data: pending, error: pendingError }] = await Promise.all([
+      supabase
+        .from('reveal_requests')
+        .select(REVEAL_REQUEST_COLUMNS)
+        .eq('requested_by', user.id)
+        .order('created_at', { ascending: false })
+        .limit(50),
+      approverWorkspaces.length > 0
+        ? supabase
+            .from('reveal_requests')
+            .select(REVEAL_REQUEST_COLUMNS)
+            .eq('status', 'pending')
+            .neq('requested_by', user.id)
+            .in('workspace_id', approverWorkspaces.map(workspace => workspace.id))
+            .order('created_at', { ascending: true })
+        : Promise.resolve({ data: [], error: null }),
+    ])
+
+    if (mineError || pendingError) {
+      console.error('Error fetching approvals:', mineError || pendingError)
+      return NextResponse.json(
+        { error: (mineError || pendingError)!.message },
+        { status: 500 }
+      )
+    }
+
+    // Only requests on entries the approver's role can see
+    const toReview = (pending || []).filter(row => {
+      const role = approverWorkspaces.find(workspace => workspace.id === row.workspace_id)?.role || null
+      return !!row.knowledge_entries && canApproveReveal(row.knowledge_entries, role)
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        toReview: await toRevealRequests(supabase, toReview),
+        mine: await toRevealRequests(supabase, mine || []),
+      },
+      dualControl: await getDualControlClassifications(supabase),
+    })
+  } catch (error) {
+    console.error('GET /api/approvals error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * API Route: /api/approvals/settings
+ *
+ * Chooses which classifications are under dual control (PUT
+ * `{ classifications }`, admin only). An empty list turns dual control off.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { DUAL_CONTROL_CLASSIFICATIONS } from '@/lib/api/approvals'
+import { DUAL_CONTROL_SETTING } from '@/lib/api/approvals-server'
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can change dual control', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const { classifications } = await request.json()
+    if (
+      !Array.isArray(classifications) ||
+      classifications.some(value => !DUAL_CONTROL_CLASSIFICATIONS.includes(value))
+    ) {
+      return NextResponse.json(
+        { error: `classifications must be a list of: ${DUAL_CONTROL_CLASSIFICATIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('app_settings')
+      .upsert({
+        key: DUAL_CONTROL_SETTING,
+        value: [...new Set(classifications)],
+        updated_by: user.id,
+        updated_at: new Date().toISOString(),
+      })
+
+    if (error) {
+      console.error('Error updating dual control setting:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: classifications.length > 0
+        ? `Dual control is on for ${classifications.join(' and ')} entries`
+        : 'Dual control is off',
+      classifications
+    })
+  } catch (error) {
+    console.error('PUT /api/approvals/settings error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
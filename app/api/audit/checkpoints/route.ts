@@ -0,0 +1,65 @@
+/**
+ * API Route: /api/audit/checkpoints
+ *
+ * Signed checkpoints of the access log chain, newest first, with the
+ * public key that verifies them (admin only). Auditors can keep copies
+ * and check them against the chain independently.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { getCheckpointPublicKey } from '@/lib/utils/audit-chain'
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can view audit checkpoints', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const { data: checkpoints, error } = await supabase
+      .from('audit_checkpoints')
+      .select('*')
+      .order('last_seq', { ascending: false })
+      .limit(200)
+
+    if (error) {
+      console.error('Error fetching audit checkpoints:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    const publicKey = getCheckpointPublicKey()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        public_key: publicKey.pem,
+        key_id: publicKey.keyId,
+        checkpoints: checkpoints || []
+      }
+    })
+  } catch (error) {
+    console.error('GET /api/audit/checkpoints error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * API Route: /api/audit/export
+ *
+ * Downloads every access log record matching the /api/audit filters,
+ * oldest first (admin only). `?format=csv` (default) or `jsonl` for JSON
+ * Lines. Records keep their chain hashes so an export can be checked
+ * against /api/audit/verify later.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { findAuditLogs, parseAuditFilter } from '@/lib/api/audit-server'
+import type { AuditExportFormat, AuditLogRecord } from '@/lib/api/audit'
+
+const BATCH_SIZE = 1000
+
+/**
+ * Larger exports must be narrowed down with filters
+ */
+const MAX_EXPORT_ROWS = 100000
+
+const CSV_COLUMNS: (keyof AuditLogRecord)[] = [
+  'seq',
+  'accessed_at',
+  'action',
+  'outcome',
+  'accessed_by',
+  'user_email',
+  'entry_id',
+  'entry_title',
+  'entry_classification',
+  'ip_address',
+  'user_agent',
+  'request_id',
+  'break_glass_grant_id',
+  'prev_hash',
+  'entry_prev_hash',
+  'record_hash',
+]
+
+/**
+ * Quote a CSV field, and defuse values a spreadsheet would run as a formula
+ */
+function csvField(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value)
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can export the audit log', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const format = (searchParams.get('format') || 'csv') as AuditExportFormat
+    if (!['csv', 'jsonl'].includes(format)) {
+      return NextResponse.json(
+        { error: 'format must be csv or jsonl' },
+        { status: 400 }
+      )
+    }
+
+    const parsed = parseAuditFilter(searchParams)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    // Oldest first, so records written during the export do not shift the pages
+    const first = await findAuditLogs(supabase, parsed.filter, { offset: 0, limit: BATCH_SIZE }, 'oldest')
+    if (first.total > MAX_EXPORT_ROWS) {
+      return NextResponse.json(
+        { error: `${first.total} records match; narrow the filters to at most ${MAX_EXPORT_ROWS}` },
+        { status: 400 }
+      )
+    }
+
+    const records = [...first.logs]
+    while (records.length < first.total) {
+      const { logs } = await findAuditLogs(
+        supabase,
+        parsed.filter,
+        { offset: records.length, limit: BATCH_SIZE },
+        'oldest'
+      )
+      if (logs.length === 0) break
+      records.push(...logs)
+    }
+
+    const body = format === 'csv'
+      ? [
+          CSV_COLUMNS.join(','),
+          ...records.map(record => CSV_COLUMNS.map(column => csvField(record[column])).join(',')),
+        ].join('\r\n') + '\r\n'
+      : records.map(record => JSON.stringify(record)).join('\n') + (records.length > 0 ? '\n' : '')
+
+    const filename = `audit-log-${new Date().toISOString().split('T')[0]}.${format}`
+
+    console.log(`Audit log export by ${user.id}: ${records.length} records as ${format}`)
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error('GET /api/audit/export error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
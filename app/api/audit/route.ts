@@ -0,0 +1,74 @@
+/**
+ * API Route: /api/audit
+ *
+ * Access logs across every entry, newest first, one page at a time
+ * (admin only). Filters: `userId`, `action`, `entryId`, `classification`,
+ * `from`, `to` and `ip` (matches addresses starting with the value).
+ * Paging: `page` (from 1) and `pageSize` (up to 200, default 50).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { findAuditLogs, parseAuditFilter } from '@/lib/api/audit-server'
+import { AUDIT_PAGE_SIZE } from '@/lib/api/audit'
+
+const MAX_PAGE_SIZE = 200
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can view the audit log', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const parsed = parseAuditFilter(searchParams)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(searchParams.get('pageSize') || String(AUDIT_PAGE_SIZE)) || AUDIT_PAGE_SIZE)
+    )
+
+    const { logs, total } = await findAuditLogs(supabase, parsed.filter, {
+      offset: (page - 1) * pageSize,
+      limit: pageSize,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        logs,
+        total,
+        page,
+        pageSize,
+      }
+    })
+  } catch (error) {
+    console.error('GET /api/audit error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
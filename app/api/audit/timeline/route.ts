@@ -0,0 +1,93 @@
+/**
+ * API Route: /api/audit/timeline
+ *
+ * One user's activity grouped by day (UTC), most recent first (admin
+ * only). Requires `userId`; the other /api/audit filters narrow it down.
+ * Covers the user's latest 1000 matching records.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { findAuditLogs, parseAuditFilter } from '@/lib/api/audit-server'
+import type { AuditTimelineDay } from '@/lib/api/audit'
+
+const TIMELINE_LIMIT = 1000
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can view the audit log', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const parsed = parseAuditFilter(request.nextUrl.searchParams)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const userId = parsed.filter.userId
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'userId is required' },
+        { status: 400 }
+      )
+    }
+
+    const { logs, total } = await findAuditLogs(supabase, parsed.filter, { offset: 0, limit: TIMELINE_LIMIT })
+
+    // Logs are newest first, so days come out most recent first
+    const days: AuditTimelineDay[] = []
+    for (const log of logs) {
+      const date = new Date(log.accessed_at).toISOString().split('T')[0]
+      let day = days[days.length - 1]
+      if (!day || day.date !== date) {
+        day = { date, total: 0, actions: {}, events: [] }
+        days.push(day)
+      }
+      day.total++
+      day.actions[log.action] = (day.actions[log.action] || 0) + 1
+      day.events.push(log)
+    }
+
+    const { data: profile } = await supabase
+      .from('user_roles')
+      .select('email')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        user_id: userId,
+        user_email: profile?.email || 'Unknown User',
+        total,
+        first_seen: logs[logs.length - 1]?.accessed_at || null,
+        last_seen: logs[0]?.accessed_at || null,
+        days,
+      }
+    })
+  } catch (error) {
+    console.error('GET /api/audit/timeline error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
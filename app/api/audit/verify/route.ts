@@ -0,0 +1,54 @@
+/**
+ * API Route: /api/audit/verify
+ *
+ * Walks the access log hash chain and checks every signed checkpoint
+ * (admin only). Responds 200 with `valid: false` and the list of breaks
+ * when the chain has been tampered with.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { verifyAuditChain } from '@/lib/api/audit-server'
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can verify the audit log', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const result = await verifyAuditChain(supabase)
+
+    if (!result.valid) {
+      console.warn(
+        `Audit chain verification failed: ${result.breaks.length} break(s), ` +
+        `${result.checkpoint_failures.length} checkpoint failure(s)`
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    console.error('GET /api/audit/verify error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * API Route: /api/calendar/feed
+ *
+ * Public iCalendar feed of credential expirations for calendar apps,
+ * authenticated by the `?token=` of the user's feed (no session). Lists
+ * the entries the user would see in /api/entries/expiring, in every
+ * workspace they belong to, without any content.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { buildExpirationFeed, getFeedOwner } from '@/lib/api/calendar-server'
+
+// Never cache: revoking a token must take effect on the next refresh
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token')
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = createAdminClient()
+
+    const userId = await getFeedOwner(supabase, token)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or revoked calendar feed token' },
+        { status: 401 }
+      )
+    }
+
+    const calendar = await buildExpirationFeed(supabase, userId)
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="vaultboard-expirations.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('GET /api/calendar/feed error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * API Route: /api/calendar/token
+ *
+ * The current user's calendar feed token. GET returns whether a feed
+ * exists, POST creates it or replaces its token (returning the new feed
+ * URL once), DELETE revokes it.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { generateFeedToken, getFeedUrl } from '@/lib/api/calendar-server'
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: feed, error } = await supabase
+      .from('calendar_feed_tokens')
+      .select('created_at, last_used_at')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching calendar feed:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        enabled: !!feed,
+        created_at: feed?.created_at || null,
+        last_used_at: feed?.last_used_at || null,
+      },
+    })
+  } catch (error) {
+    console.error('GET /api/calendar/token error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST() {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // One token per user: a new one replaces (and revokes) the old one
+    const { token, tokenHash } = generateFeedToken()
+    const { data: feed, error } = await supabase
+      .from('calendar_feed_tokens')
+      .upsert(
+        { user_id: user.id, token_hash: tokenHash, created_at: new Date().toISOString(), last_used_at: null },
+        { onConflict: 'user_id' }
+      )
+      .select('created_at, last_used_at')
+      .single()
+
+    if (error) {
+      console.error('Error creating calendar feed:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Calendar feed created',
+      data: {
+        enabled: true,
+        created_at: feed.created_at,
+        last_used_at: feed.last_used_at,
+        url: getFeedUrl(token),
+      },
+    })
+  } catch (error) {
+    console.error('POST /api/calendar/token error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE() {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('calendar_feed_tokens')
+      .delete()
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('Error revoking calendar feed:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Calendar feed revoked'
+    })
+  } catch (error) {
+    console.error('DELETE /api/calendar/token error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Cron Job: Audit Checkpoint
+ *
+ * Signs the current head of the access log hash chain and stores it in
+ * audit_checkpoints. Skips the run when nothing has been logged since the
+ * last checkpoint. Runs with the service role, as a cron request has no
+ * session to read the logs or write checkpoints with.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { createAuditCheckpoint } from '@/lib/api/audit-server'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify Vercel Cron Secret
+    const authHeader = request.headers.get('authorization')
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = createAdminClient()
+    const checkpoint = await createAuditCheckpoint(supabase)
+
+    if (checkpoint) {
+      console.log(`Audit checkpoint at seq ${checkpoint.last_seq} (${checkpoint.record_count} records, key ${checkpoint.key_id})`)
+    } else {
+      console.log('Audit checkpoint skipped: no new log records')
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      checkpoint,
+    })
+  } catch (error) {
+    console.error('Audit checkpoint error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
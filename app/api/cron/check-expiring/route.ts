@@ -2,15 +2,24 @@
  * Vercel Cron Job: Check Expiring Credentials Daily
  * 
  * This endpoint is called by Vercel Cron (9 AM UTC daily)
- * Logs expiring credentials for notification purposes
- * 
- * Note: To enable email notifications, integrate with a service like:
- * - Resend, SendGrid, Mailgun, or AWS SES
+ * Sends expiration digests to entry owners and admins on their chosen
+ * notification channels (see lib/api/notifications-server.ts), and opens
+ * rotation tasks for entries in their critical or expired window. Runs
+ * with the service role, as a cron request has no session.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
-import { conditionalDecrypt } from '@/lib/utils/encryption'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { ExpiringEntry, sendExpirationDigests } from '@/lib/api/notifications-server'
+import { getExpirationPolicies } from '@/lib/api/expiration-policies-server'
+import { generateRotationTasks, RotationCandidate } from '@/lib/api/rotation-tasks-server'
+import {
+  getDaysUntilExpiration,
+  getExpiryStatus,
+  getExpiryWindows,
+  getLookaheadDays,
+  resolveExpirationPolicy,
+} from '@/lib/utils/expiration-policy'
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,17 +32,21 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    const supabase = await createClient()
+    const supabase = createAdminClient()
+
+    // Look as far ahead as the widest warning window of any policy
+    const policies = await getExpirationPolicies(supabase)
 
     const now = new Date()
     const futureDate = new Date()
-    futureDate.setDate(futureDate.getDate() + 14) // Check 14 days ahead
+    futureDate.setDate(futureDate.getDate() + getLookaheadDays(policies, 'warning_days'))
 
     // Query entries with expiration dates
     const { data: entries, error } = await supabase
       .from('knowledge_entries')
-      .select('id, title, category, expiration_date, user_id')
+      .select('id, title, category, classification, tags, expiration_date, user_id, workspace_id, rotator_id')
       .not('expiration_date', 'is', null)
+      .is('deleted_at', null)
       .lte('expiration_date', futureDate.toISOString())
       .order('expiration_date', { ascending: true })
 
@@ -45,31 +58,47 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Categorize entries
-    const expired: any[] = []
-    const critical: any[] = []
-    const warning: any[] = []
+    // Categorize entries under their policies (the notice window is not notified)
+    const expiring: ExpiringEntry[] = []
+    const rotationCandidates: RotationCandidate[] = []
 
     entries.forEach(entry => {
-      const expirationDate = new Date(entry.expiration_date!)
-      const daysUntilExpiration = Math.ceil(
-        (expirationDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
-      )
+      const daysUntilExpiration = getDaysUntilExpiration(entry.expiration_date!, now)
+      const windows = getExpiryWindows(resolveExpirationPolicy(policies, entry))
+      const bucket = getExpiryStatus(daysUntilExpiration, windows)
 
-      if (daysUntilExpiration < 0) {
-        expired.push({ ...entry, daysUntilExpiration })
-      } else if (daysUntilExpiration <= 7) {
-        critical.push({ ...entry, daysUntilExpiration })
-      } else if (daysUntilExpiration <= 14) {
-        warning.push({ ...entry, daysUntilExpiration })
+      if (bucket && bucket !== 'notice') {
+        expiring.push({
+          id: entry.id,
+          title: entry.title,
+          category: entry.category,
+          user_id: entry.user_id,
+          expiration_date: entry.expiration_date!,
+          daysUntilExpiration,
+          bucket,
+        })
+      }
+
+      if (bucket === 'critical' || bucket === 'expired') {
+        rotationCandidates.push({
+          id: entry.id,
+          workspace_id: entry.workspace_id,
+          user_id: entry.user_id,
+          rotator_id: entry.rotator_id,
+          expiration_date: entry.expiration_date!,
+        })
       }
     })
 
+    const expired = expiring.filter(entry => entry.bucket === 'expired')
+    const critical = expiring.filter(entry => entry.bucket === 'critical')
+    const warning = expiring.filter(entry => entry.bucket === 'warning')
+
     // Log results (for Vercel logs)
     console.log('=== Daily Credential Expiration Check ===')
     console.log(`Expired: ${expired.length}`)
-    console.log(`Critical (≤7 days): ${critical.length}`)
-    console.log(`Warning (≤14 days): ${warning.length}`)
+    console.log(`Critical: ${critical.length}`)
+    console.log(`Warning: ${warning.length}`)
 
     if (expired.length > 0) {
       console.log('Expired entries:', expired.map(e => `${e.title} (${e.category})`))
@@ -78,9 +107,11 @@ export async function GET(request: NextRequest) {
       console.log('Critical entries:', critical.map(e => `${e.title} (${e.daysUntilExpiration}d)`))
     }
 
-    // TODO: Send email notifications
-    // Example: Use Resend, SendGrid, or other email service
-    // await sendExpirationNotifications(expired, critical, warning)
+    const rotation = await generateRotationTasks(supabase, rotationCandidates, now)
+    console.log(`Rotation tasks: ${rotation.created} opened, ${rotation.reopened} reopened after snoozing`)
+
+    const notifications = await sendExpirationDigests(supabase, expiring, now)
+    console.log(`Digests: ${notifications.delivered} delivered, ${notifications.failed} failed, ${notifications.upToDate} users already notified`)
 
     return NextResponse.json({
       success: true,
@@ -91,6 +122,8 @@ export async function GET(request: NextRequest) {
         warning: warning.length,
         total: entries.length,
       },
+      notifications,
+      rotation,
       message: 'Expiration check completed. Check logs for details.',
     })
   } catch (error) {
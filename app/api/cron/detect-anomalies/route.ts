@@ -0,0 +1,42 @@
+/**
+ * Cron Job: Detect Anomalies
+ *
+ * Runs the anomaly rules over recent access logs and raises security
+ * alerts for admins to review. Alerts already raised for the same window
+ * are not repeated. Runs with the service role, as a cron request has no
+ * session to read the logs with.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { detectAnomalies } from '@/lib/api/anomalies-server'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify Vercel Cron Secret
+    const authHeader = request.headers.get('authorization')
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = createAdminClient()
+    const result = await detectAnomalies(supabase)
+
+    console.log(`Anomaly detection: ${result.scanned} log records scanned, ${result.raised} alerts raised`)
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...result,
+    })
+  } catch (error) {
+    console.error('Anomaly detection error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Cron Job: Purge Trashed Entries
+ *
+ * Permanently deletes entries that have been in the trash longer than
+ * TRASH_RETENTION_DAYS (default 30). Versions are removed with the entry;
+ * every purge is recorded in access_logs with action 'purge'. Runs with
+ * the service role, as a cron request has no session.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getTrashRetentionDays } from '@/lib/api/trash-server'
+import { logEntryAccess } from '@/lib/api/access-log-server'
+
+const BATCH_SIZE = 100
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify Vercel Cron Secret
+    const authHeader = request.headers.get('authorization')
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = createAdminClient()
+    const retentionDays = getTrashRetentionDays()
+
+    const cutoff = new Date()
+    cutoff.setDate(cutoff.getDate() - retentionDays)
+
+    let purged = 0
+    let unlogged = 0
+    const failed: string[] = []
+
+    // Process in batches until no expired trash remains
+    while (true) {
+      let query = supabase
+        .from('knowledge_entries')
+        .select('id, title, deleted_at')
+        .not('deleted_at', 'is', null)
+        .lt('deleted_at', cutoff.toISOString())
+        .order('deleted_at', { ascending: true })
+        .limit(BATCH_SIZE)
+
+      // Skip entries that already failed (or were not deleted) so the loop terminates
+      if (failed.length > 0) {
+        query = query.not('id', 'in', `(${failed.join(',')})`)
+      }
+
+      const { data: entries, error } = await query
+
+      if (error) {
+        console.error('Database error:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch trashed entries' },
+          { status: 500 }
+        )
+      }
+
+      if (!entries || entries.length === 0) break
+
+      for (const entry of entries) {
+        const { data: deleted, error: deleteError } = await supabase
+          .from('knowledge_entries')
+          .delete()
+          .eq('id', entry.id)
+          .not('deleted_at', 'is', null)
+          .select('id')
+
+        if (deleteError || !deleted || deleted.length === 0) {
+          console.error(`Failed to purge entry ${entry.id}:`, deleteError || 'no row deleted')
+          failed.push(entry.id)
+          continue
+        }
+
+        // access_logs.entry_id has no foreign key, so this survives the purge
+        try {
+          await logEntryAccess(supabase, request.headers, { entryId: entry.id, userId: null, action: 'purge' })
+        } catch (logError) {
+          console.error(logError)
+          unlogged++
+        }
+
+        console.log(`Purged entry ${entry.id} (${entry.title}), deleted ${entry.deleted_at}`)
+        purged++
+      }
+    }
+
+    console.log('=== Trash Purge ===')
+    console.log(`Retention: ${retentionDays} days`)
+    console.log(`Purged: ${purged}, Failed: ${failed.length}, Unlogged: ${unlogged}`)
+
+    // A purge without its audit record must not pass unnoticed
+    if (unlogged > 0) {
+      console.error(`${unlogged} purged entries have no purge record in access_logs`)
+    }
+
+    return NextResponse.json({
+      success: failed.length === 0 && unlogged === 0,
+      timestamp: new Date().toISOString(),
+      summary: {
+        retentionDays,
+        purged,
+        failed: failed.length,
+        unlogged,
+      },
+    }, { status: unlogged > 0 ? 500 : 200 })
+  } catch (error) {
+    console.error('Trash purge error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Cron Job: Rotate Master Encryption Key
+ *
+ * Re-wraps every entry and version snapshot data key under the active
+ * master key version.
+ * Entry content is never decrypted - only the wrapped data keys change.
+ *
+ * Runs with the service role: a cron request has no session, so row-level
+ * security would hide every entry from it.
+ *
+ * To rotate: add the new key to ENCRYPTION_MASTER_KEYS, point
+ * ENCRYPTION_ACTIVE_KEY_VERSION at it, then run this job. Retire the old
+ * key once a run reports no failures and no stale keys.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getActiveKeyVersion, rewrapDataKey } from '@/lib/utils/encryption'
+
+const BATCH_SIZE = 100
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+/**
+ * A row holding a wrapped data key (`entry_id` only on version snapshots)
+ */
+interface WrappedKeyRow {
+  id: string
+  entry_id?: string
+  encrypted_data_key: string
+  key_version: number
+}
+
+/**
+ * Re-wrap stale data keys in one table
+ *
+ * Wrapped keys are bound to the entry id, which is `entry_id` on
+ * version snapshots and `id` on entries.
+ *
+ * @returns Rotated count and ids of failed rows, or null if rows could not be fetched
+ */
+async function rotateTable(
+  supabase: AdminClient,
+  table: 'knowledge_entries' | 'entry_versions',
+  activeVersion: number
+): Promise<{ rotated: number; failed: string[] } | null> {
+  const columns = table === 'entry_versions'
+    ? 'id, entry_id, encrypted_data_key, key_version'
+    : 'id, encrypted_data_key, key_version'
+  let rotated = 0
+  const failed: string[] = []
+
+  // Process in batches until no stale data keys remain
+  while (true) {
+    let query = supabase
+      .from(table)
+      .select(columns)
+      .not('encrypted_data_key', 'is', null)
+      .neq('key_version', activeVersion)
+      .order('id', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    // Skip rows that already failed so the loop terminates
+    if (failed.length > 0) {
+      query = query.not('id', 'in', `(${failed.join(',')})`)
+    }
+
+    const { data: rows, error } = await query.overrideTypes<WrappedKeyRow[], { merge: false }>()
+
+    if (error) {
+      console.error(`Database error reading ${table}:`, error)
+      return null
+    }
+
+    if (!rows || rows.length === 0) break
+
+    for (const row of rows) {
+      try {
+        const { encryptedDataKey, keyVersion } = rewrapDataKey(
+          row.encrypted_data_key,
+          row.key_version,
+          row.entry_id ?? row.id,
+          activeVersion
+        )
+
+        const { error: updateError } = await supabase
+          .from(table)
+          .update({ encrypted_data_key: encryptedDataKey, key_version: keyVersion })
+          .eq('id', row.id)
+          .eq('key_version', row.key_version)
+
+        if (updateError) throw updateError
+        rotated++
+      } catch (rotateError) {
+        console.error(`Failed to rotate data key for ${table} row ${row.id}:`, rotateError)
+        failed.push(row.id)
+      }
+    }
+  }
+
+  return { rotated, failed }
+}
+
+/**
+ * Count rows of a table whose data key is still wrapped under an older
+ * master key version
+ *
+ * @returns The count, or null if it could not be read
+ */
+async function countStaleKeys(
+  supabase: AdminClient,
+  table: 'knowledge_entries' | 'entry_versions',
+  activeVersion: number
+): Promise<number | null> {
+  const { count, error } = await supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .not('encrypted_data_key', 'is', null)
+    .neq('key_version', activeVersion)
+
+  if (error) {
+    console.error(`Database error counting stale keys in ${table}:`, error)
+    return null
+  }
+
+  return count || 0
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify Vercel Cron Secret
+    const authHeader = request.headers.get('authorization')
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabase = createAdminClient()
+    const activeVersion = getActiveKeyVersion()
+
+    // Version snapshots keep their own wrapped data keys, so rotate both tables
+    const entries = await rotateTable(supabase, 'knowledge_entries', activeVersion)
+    const versions = await rotateTable(supabase, 'entry_versions', activeVersion)
+
+    if (!entries || !versions) {
+      return NextResponse.json(
+        { error: 'Failed to fetch entries for key rotation' },
+        { status: 500 }
+      )
+    }
+
+    const rotated = entries.rotated + versions.rotated
+    const failed = [...entries.failed, ...versions.failed]
+
+    // Every stale key left must be one that failed; anything else means the
+    // job did not see all rows, and the old key must not be retired
+    const staleEntries = await countStaleKeys(supabase, 'knowledge_entries', activeVersion)
+    const staleVersions = await countStaleKeys(supabase, 'entry_versions', activeVersion)
+    if (staleEntries === null || staleVersions === null) {
+      return NextResponse.json(
+        { error: 'Failed to verify key rotation' },
+        { status: 500 }
+      )
+    }
+    const stale = staleEntries + staleVersions
+    const unseen = stale - failed.length
+
+    // Sensitive entries still using the legacy passphrase format are
+    // migrated to envelope encryption the next time they are saved
+    const { count: legacy } = await supabase
+      .from('knowledge_entries')
+      .select('id', { count: 'exact', head: true })
+      .eq('is_sensitive', true)
+      .is('encrypted_data_key', null)
+
+    console.log('=== Master Key Rotation ===')
+    console.log(`Active key version: ${activeVersion}`)
+    console.log(`Rotated: ${rotated}, Failed: ${failed.length}, Stale: ${stale}, Legacy: ${legacy || 0}`)
+
+    if (unseen > 0) {
+      console.error(`Key rotation did not reach ${unseen} rows with an older key version`)
+    }
+
+    return NextResponse.json({
+      success: failed.length === 0 && unseen === 0,
+      timestamp: new Date().toISOString(),
+      summary: {
+        activeKeyVersion: activeVersion,
+        rotated,
+        versionsRotated: versions.rotated,
+        failed: failed.length,
+        stale,
+        legacy: legacy || 0,
+      },
+    }, { status: unseen > 0 ? 500 : 200 })
+  } catch (error) {
+    console.error('Key rotation error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
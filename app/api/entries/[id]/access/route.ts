@@ -6,7 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { getUserRole } from '@/lib/api/auth-server'
+import { getEntryRole } from '@/lib/api/access-control'
 
 export async function GET(
   request: NextRequest,
@@ -26,20 +26,12 @@ export async function GET(
 
     const { id: entryId } = await params
 
-    // Check if user is admin or manager
-    const userRole = await getUserRole(user.id)
-    if (!userRole || !['admin', 'manager'].includes(userRole)) {
-      return NextResponse.json(
-        { error: 'Forbidden: Only admins and managers can view access logs' },
-        { status: 403 }
-      )
-    }
-
     // Verify entry exists
     const { data: entry, error: entryError } = await supabase
       .from('knowledge_entries')
-      .select('id')
+      .select('id, workspace_id')
       .eq('id', entryId)
+      .is('deleted_at', null)
       .single()
 
     if (entryError || !entry) {
@@ -49,6 +41,15 @@ export async function GET(
       )
     }
 
+    // Check if user is admin or manager in the entry's workspace
+    const userRole = await getEntryRole(entry, user.id)
+    if (!userRole || !['admin', 'manager'].includes(userRole)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins and managers can view access logs' },
+        { status: 403 }
+      )
+    }
+
     // Fetch access logs with user information
     const { data: logs, error: logsError } = await supabase
       .from('access_logs')
@@ -58,7 +59,10 @@ export async function GET(
         accessed_at,
         ip_address,
         user_agent,
-        accessed_by
+        accessed_by,
+        break_glass_grant_id,
+        outcome,
+        request_id
       `)
       .eq('entry_id', entryId)
       .order('accessed_at', { ascending: false })
@@ -98,6 +102,8 @@ export async function GET(
       total_updates: logs?.filter(log => log.action === 'update').length || 0,
       total_deletes: logs?.filter(log => log.action === 'delete').length || 0,
       total_exports: logs?.filter(log => log.action === 'export').length || 0,
+      break_glass_uses: logs?.filter(log => log.break_glass_grant_id).length || 0,
+      denied_attempts: logs?.filter(log => log.outcome === 'denied').length || 0,
       unique_users: new Set(userIds).size,
       last_accessed_at: logs?.[0]?.accessed_at || null,
     }
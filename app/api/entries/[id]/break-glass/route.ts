@@ -0,0 +1,144 @@
+/**
+ * API Route: /api/entries/[id]/break-glass
+ *
+ * Grants time-boxed emergency view access to a restricted entry (POST).
+ * The caller must give a justification; the grant is logged, emailed to
+ * admins and stays in the review queue until an admin acknowledges it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { authorizeEntry, getEntryRole } from '@/lib/api/access-control'
+import { tryLogEntryAccess } from '@/lib/api/access-log-server'
+import { canRequestBreakGlass, getActiveBreakGlassGrant } from '@/lib/api/break-glass-server'
+import { notifyAdminsOfBreakGlass } from '@/lib/api/notifications-server'
+import { BREAK_GLASS_DURATIONS, DEFAULT_BREAK_GLASS_MINUTES } from '@/lib/api/break-glass'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId } = await params
+
+    const { data: entry, error: fetchError } = await supabase
+      .from('knowledge_entries')
+      .select('id, title, workspace_id, user_id, classification, is_sensitive, is_client_encrypted')
+      .eq('id', entryId)
+      .is('deleted_at', null)
+      .single()
+
+    if (fetchError || !entry) {
+      return NextResponse.json(
+        { error: 'Entry not found' },
+        { status: 404 }
+      )
+    }
+
+    const userRole = await getEntryRole(entry, user.id)
+    if (!canRequestBreakGlass(entry, user.id, userRole)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Break-glass access is only available for restricted entries', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    if (await getActiveBreakGlassGrant(entryId, user.id)) {
+      return NextResponse.json(
+        { error: 'You already have break-glass access to this entry' },
+        { status: 409 }
+      )
+    }
+
+    if (await authorizeEntry(entry, user.id, 'view')) {
+      return NextResponse.json(
+        { error: 'You already have access to this entry' },
+        { status: 409 }
+      )
+    }
+
+    const body = await request.json()
+    const justification = typeof body.justification === 'string' ? body.justification.trim() : ''
+    const durationMinutes = body.duration_minutes ?? DEFAULT_BREAK_GLASS_MINUTES
+
+    if (justification.length < 10) {
+      return NextResponse.json(
+        { error: 'A justification of at least 10 characters is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!(BREAK_GLASS_DURATIONS as readonly number[]).includes(durationMinutes)) {
+      return NextResponse.json(
+        { error: `duration_minutes must be one of: ${BREAK_GLASS_DURATIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date()
+    const { data: grant, error } = await supabase
+      .from('break_glass_grants')
+      .insert({
+        entry_id: entryId,
+        workspace_id: entry.workspace_id,
+        user_id: user.id,
+        justification,
+        expires_at: new Date(now.getTime() + durationMinutes * 60 * 1000).toISOString(),
+        created_at: now.toISOString(),
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating break-glass grant:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    // Log the break-glass itself; later accesses are flagged with the grant id
+    await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'break_glass', breakGlassGrantId: grant.id })
+
+    // Pending grants are also on the admin dashboard; a failed notice does not undo the grant
+    let notified = 0
+    try {
+      notified = await notifyAdminsOfBreakGlass(supabase, {
+        grantId: grant.id,
+        entryId,
+        entryTitle: entry.title,
+        userId: user.id,
+        userEmail: user.email || null,
+        justification,
+        expiresAt: grant.expires_at,
+      })
+    } catch (notifyError) {
+      console.error('Error notifying admins of break-glass access:', notifyError)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: notified > 0
+        ? 'Break-glass access granted. Admins have been notified.'
+        : 'Break-glass access granted. Admins will review it.',
+      data: grant
+    }, { status: 201 })
+  } catch (error) {
+    console.error('POST /api/entries/[id]/break-glass error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,22 @@
 /**
  * API Route: /api/entries/[id]/export
  * 
- * Export entry as JSON or text
+ * Export entry as JSON or text. Entries under dual control need an
+ * approved export request (`?approval=`), which the download uses up.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { getUserRole } from '@/lib/api/auth-server'
-import { conditionalDecrypt } from '@/lib/utils/encryption'
+import { authorizeEntry, forbiddenResponse } from '@/lib/api/access-control'
+import { logEntryAccess, tryLogEntryAccess } from '@/lib/api/access-log-server'
+import {
+  approvalRequiredResponse,
+  consumeRevealApproval,
+  getDualControlClassifications,
+  requiresRevealApproval,
+} from '@/lib/api/approvals-server'
+import { conditionalDecrypt, decryptEntryFields, DecryptionError } from '@/lib/utils/encryption'
+import { formatFieldValue, getFieldSchema, getSensitiveFieldKeys, EntryFields } from '@/lib/utils/entry-fields'
 
 export async function GET(
   request: NextRequest,
@@ -34,6 +43,7 @@ export async function GET(
       .from('knowledge_entries')
       .select('*')
       .eq('id', entryId)
+      .is('deleted_at', null)
       .single()
 
     if (error || !entry) {
@@ -44,28 +54,53 @@ export async function GET(
     }
 
     // Check if user can view this entry
-    const userRole = await getUserRole(user.id)
-    
-    // Decrypt content if sensitive
-    const decryptedContent = entry.is_sensitive 
-      ? conditionalDecrypt(entry.content, entry.is_sensitive)
-      : entry.content
+    if (!(await authorizeEntry(entry, user.id, 'view'))) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'export', outcome: 'denied' })
+      return forbiddenResponse('view')
+    }
+
+    if (requiresRevealApproval(entry, user.id, await getDualControlClassifications(supabase))) {
+      const approvalId = searchParams.get('approval')
+      if (
+        !approvalId ||
+        !['json', 'txt'].includes(format) ||
+        !(await consumeRevealApproval(supabase, approvalId, entryId, user.id, 'export'))
+      ) {
+        await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'export', outcome: 'denied' })
+        return approvalRequiredResponse()
+      }
+    }
+
+    // Decrypt sensitive content and fields
+    let decryptedContent: string
+    let decryptedFields: EntryFields | null
+    try {
+      // Client-encrypted entries are exported as ciphertext
+      decryptedContent = entry.is_sensitive && !entry.is_client_encrypted
+        ? conditionalDecrypt(entry.content, entry.is_sensitive, entry)
+        : entry.content
+      decryptedFields = decryptEntryFields(entry.fields, getSensitiveFieldKeys(entry.category), entry)
+    } catch (decryptError) {
+      if (!(decryptError instanceof DecryptionError)) throw decryptError
+      console.error(`Failed to decrypt entry ${entryId} for export:`, decryptError)
+      return NextResponse.json(
+        { error: 'Failed to decrypt entry content', code: 'DECRYPTION_FAILED' },
+        { status: 500 }
+      )
+    }
     
-    // Log the export action
-    await supabase.from('access_logs').insert({
-      entry_id: entryId,
-      accessed_by: user.id,
-      action: 'export',
-      accessed_at: new Date().toISOString(),
-    })
+    // Log the export action; nothing is exported without a record of it
+    await logEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'export' })
 
     // Export as JSON
     if (format === 'json') {
       const exportData = {
         title: entry.title,
         content: decryptedContent,
+        fields: decryptedFields,
         category: entry.category,
         classification: entry.classification,
+        client_encrypted: !!entry.is_client_encrypted,
         tags: entry.tags,
         created_at: entry.created_at,
         updated_at: entry.updated_at,
@@ -83,13 +118,20 @@ export async function GET(
 
     // Export as text
     if (format === 'txt') {
+      const fieldsText = decryptedFields
+        ? getFieldSchema(entry.category)
+            .filter(field => decryptedFields![field.key] !== undefined)
+            .map(field => `${field.label}:\n${formatFieldValue(decryptedFields![field.key])}`)
+            .join('\n\n')
+        : ''
+
       const textContent = `
 VAULTBOARD ENTRY EXPORT
 =======================
 
 Title: ${entry.title}
 Category: ${entry.category}
-Classification: ${entry.classification}
+Classification: ${entry.classification}${entry.is_client_encrypted ? ' (client-encrypted - decrypt with your vault)' : ''}
 Tags: ${entry.tags?.join(', ') || 'None'}
 
 Created: ${new Date(entry.created_at).toLocaleString()}
@@ -99,9 +141,9 @@ Exported By: ${user.email}
 
 ---
 
-CONTENT:
+${fieldsText ? `FIELDS:\n\n${fieldsText}\n\n` : ''}CONTENT:
 
-${decryptedContent}
+${decryptedContent || 'None'}
 
 ---
 
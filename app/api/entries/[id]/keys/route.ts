@@ -0,0 +1,303 @@
+/**
+ * API Route: /api/entries/[id]/keys
+ *
+ * Wrapped entry keys for zero-knowledge (client-encrypted) entries.
+ * GET returns the caller's wrapped key (and the recipient list for the owner),
+ * POST lets the owner share the entry key with more recipients,
+ * DELETE lets the owner revoke a recipient.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { authorizeEntry, forbiddenResponse } from '@/lib/api/access-control'
+import { parseKeyGrants } from '@/lib/api/entries-server'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId } = await params
+
+    // Verify entry exists and is client-encrypted
+    const { data: entry, error: entryError } = await supabase
+      .from('knowledge_entries')
+      .select('id, workspace_id, user_id, classification, is_sensitive, is_client_encrypted')
+      .eq('id', entryId)
+      .is('deleted_at', null)
+      .single()
+
+    if (entryError || !entry) {
+      return NextResponse.json(
+        { error: 'Entry not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await authorizeEntry(entry, user.id, 'view'))) {
+      return forbiddenResponse('view')
+    }
+
+    if (!entry.is_client_encrypted) {
+      return NextResponse.json(
+        { error: 'Entry is not client-encrypted' },
+        { status: 400 }
+      )
+    }
+
+    const { data: grants, error: grantsError } = await supabase
+      .from('entry_key_grants')
+      .select('user_id, wrapped_key, granted_by, created_at')
+      .eq('entry_id', entryId)
+
+    if (grantsError) {
+      console.error('Error fetching entry key grants:', grantsError)
+      return NextResponse.json(
+        { error: grantsError.message },
+        { status: 500 }
+      )
+    }
+
+    const ownGrant = grants?.find(grant => grant.user_id === user.id)
+    if (!ownGrant) {
+      return NextResponse.json(
+        { error: 'Forbidden: This entry has not been shared with you' },
+        { status: 403 }
+      )
+    }
+
+    // Only the owner sees who else holds a key
+    let recipients: { user_id: string; email: string | null; created_at: string }[] | undefined
+    if (entry.user_id === user.id) {
+      const userIds = grants.map(grant => grant.user_id)
+      const { data: keys } = await supabase
+        .from('user_vault_keys')
+        .select('user_id, email')
+        .in('user_id', userIds)
+
+      recipients = grants.map(grant => ({
+        user_id: grant.user_id,
+        email: keys?.find(key => key.user_id === grant.user_id)?.email || null,
+        created_at: grant.created_at,
+      }))
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        wrapped_key: ownGrant.wrapped_key,
+        recipients,
+      }
+    })
+  } catch (error) {
+    console.error('GET /api/entries/[id]/keys error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId } = await params
+
+    const { data: entry, error: entryError } = await supabase
+      .from('knowledge_entries')
+      .select('id, workspace_id, user_id, is_client_encrypted')
+      .eq('id', entryId)
+      .is('deleted_at', null)
+      .single()
+
+    if (entryError || !entry) {
+      return NextResponse.json(
+        { error: 'Entry not found' },
+        { status: 404 }
+      )
+    }
+
+    if (entry.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only the owner can share this entry' },
+        { status: 403 }
+      )
+    }
+
+    if (!entry.is_client_encrypted) {
+      return NextResponse.json(
+        { error: 'Entry is not client-encrypted' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const parsed = parseKeyGrants(body.grants)
+    if ('error' in parsed || parsed.value.length === 0) {
+      return NextResponse.json(
+        { error: 'grants must be a non-empty array of { user_id, wrapped_key }' },
+        { status: 400 }
+      )
+    }
+    const grants = parsed.value
+
+    // Keys are only shared within the entry's workspace
+    const grantees = [...new Set(grants.map(grant => grant.user_id))]
+    const { data: members, error: memberError } = await supabase
+      .from('workspace_members')
+      .select('user_id')
+      .eq('workspace_id', entry.workspace_id)
+      .in('user_id', grantees)
+
+    if (memberError) {
+      console.error('Error checking key grant recipients:', memberError)
+      return NextResponse.json(
+        { error: memberError.message },
+        { status: 500 }
+      )
+    }
+    if ((members || []).length !== grantees.length) {
+      return NextResponse.json(
+        { error: 'Entry keys can only be shared with members of the workspace' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('entry_key_grants')
+      .upsert(
+        grants.map(grant => ({
+          entry_id: entryId,
+          user_id: grant.user_id,
+          wrapped_key: grant.wrapped_key,
+          granted_by: user.id,
+          created_at: new Date().toISOString(),
+        })),
+        { onConflict: 'entry_id,user_id' }
+      )
+
+    if (error) {
+      console.error('Error sharing entry key:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Entry shared successfully'
+    })
+  } catch (error) {
+    console.error('POST /api/entries/[id]/keys error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId } = await params
+    const recipientId = request.nextUrl.searchParams.get('userId')
+
+    if (!recipientId) {
+      return NextResponse.json(
+        { error: 'userId is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data: entry, error: entryError } = await supabase
+      .from('knowledge_entries')
+      .select('id, user_id')
+      .eq('id', entryId)
+      .is('deleted_at', null)
+      .single()
+
+    if (entryError || !entry) {
+      return NextResponse.json(
+        { error: 'Entry not found' },
+        { status: 404 }
+      )
+    }
+
+    if (entry.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only the owner can revoke access' },
+        { status: 403 }
+      )
+    }
+
+    if (recipientId === user.id) {
+      return NextResponse.json(
+        { error: 'The owner cannot revoke their own key' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('entry_key_grants')
+      .delete()
+      .eq('entry_id', entryId)
+      .eq('user_id', recipientId)
+
+    if (error) {
+      console.error('Error revoking entry key:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Access revoked successfully'
+    })
+  } catch (error) {
+    console.error('DELETE /api/entries/[id]/keys error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * API Route: /api/entries/[id]/permissions
+ *
+ * Per-entry sharing grants that override the classification defaults.
+ * GET lists the grants (and the groups available for sharing),
+ * POST grants `read` or `read_write` to a role, user or group,
+ * DELETE revokes a grant. Only the creator or an admin can manage grants.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { canManageEntryAccess, forbiddenResponse, getEntryRole } from '@/lib/api/access-control'
+
+const VALID_ROLES = ['admin', 'manager', 'member', 'viewer']
+const VALID_PERMISSIONS = ['read', 'read_write']
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId } = await params
+
+    const { data: entry, error: entryError } = await supabase
+      .from('knowledge_entries')
+      .select('id, workspace_id, user_id, classification, is_sensitive')
+      .eq('id', entryId)
+      .is('deleted_at', null)
+      .single()
+
+    if (entryError || !entry) {
+      return NextResponse.json(
+        { error: 'Entry not found' },
+        { status: 404 }
+      )
+    }
+
+    const userRole = await getEntryRole(entry, user.id)
+    if (!canManageEntryAccess(entry, user.id, userRole)) {
+      return forbiddenResponse('share')
+    }
+
+    const [{ data: grants, error: grantsError }, { data: groups }] = await Promise.all([
+      supabase
+        .from('entry_access_controls')
+        .select('*')
+        .eq('entry_id', entryId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('user_groups')
+        .select('id, name')
+        .order('name', { ascending: true }),
+    ])
+
+    if (grantsError) {
+      console.error('Error fetching entry grants:', grantsError)
+      return NextResponse.json(
+        { error: grantsError.message },
+        { status: 500 }
+      )
+    }
+
+    // Resolve user and group names for display
+    const userIds = (grants || []).map(grant => grant.user_id).filter(Boolean)
+    const { data: users } = userIds.length > 0
+      ? await supabase.from('user_roles').select('user_id, email').in('user_id', userIds)
+      : { data: [] as { user_id: string; email: string }[] }
+
+    const data = (grants || []).map(grant => {
+      if (grant.user_id) {
+        return {
+          ...grant,
+          subject_type: 'user',
+          label: users?.find(u => u.user_id === grant.user_id)?.email || grant.user_id,
+        }
+      }
+      if (grant.group_id) {
+        return {
+          ...grant,
+          subject_type: 'group',
+          label: groups?.find(group => group.id === grant.group_id)?.name || grant.group_id,
+        }
+      }
+      return { ...grant, subject_type: 'role', label: grant.allowed_role }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data,
+      groups: groups || [],
+    })
+  } catch (error) {
+    console.error('GET /api/entries/[id]/permissions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId } = await params
+
+    const { data: entry, error: entryError } = await supabase
+      .from('knowledge_entries')
+      .select('id, workspace_id, user_id, classification, is_sensitive')
+      .eq('id', entryId)
+      .is('deleted_at', null)
+      .single()
+
+    if (entryError || !entry) {
+      return NextResponse.json(
+        { error: 'Entry not found' },
+        { status: 404 }
+      )
+    }
+
+    const userRole = await getEntryRole(entry, user.id)
+    if (!canManageEntryAccess(entry, user.id, userRole)) {
+      return forbiddenResponse('share')
+    }
+
+    const body = await request.json()
+    const { subject_type, subject, permission } = body
+
+    if (!VALID_PERMISSIONS.includes(permission)) {
+      return NextResponse.json(
+        { error: 'permission must be read or read_write' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof subject !== 'string' || !subject.trim()) {
+      return NextResponse.json(
+        { error: 'subject is required' },
+        { status: 400 }
+      )
+    }
+
+    // Resolve the subject to exactly one of allowed_role, user_id or group_id
+    const grantSubject: { allowed_role: string | null; user_id: string | null; group_id: string | null } = {
+      allowed_role: null,
+      user_id: null,
+      group_id: null,
+    }
+
+    if (subject_type === 'role') {
+      if (!VALID_ROLES.includes(subject)) {
+        return NextResponse.json(
+          { error: 'Invalid role' },
+          { status: 400 }
+        )
+      }
+      grantSubject.allowed_role = subject
+    } else if (subject_type === 'user') {
+      const { data: target } = await supabase
+        .from('user_roles')
+        .select('user_id')
+        .eq('email', subject.trim())
+        .maybeSingle()
+
+      if (!target) {
+        return NextResponse.json(
+          { error: 'No user found with that email' },
+          { status: 404 }
+        )
+      }
+      if (target.user_id === entry.user_id) {
+        return NextResponse.json(
+          { error: 'The owner already has full access' },
+          { status: 400 }
+        )
+      }
+      grantSubject.user_id = target.user_id
+    } else if (subject_type === 'group') {
+      const { data: group } = await supabase
+        .from('user_groups')
+        .select('id')
+        .eq('id', subject)
+        .maybeSingle()
+
+      if (!group) {
+        return NextResponse.json(
+          { error: 'Group not found' },
+          { status: 404 }
+        )
+      }
+      grantSubject.group_id = group.id
+    } else {
+      return NextResponse.json(
+        { error: 'subject_type must be role, user or group' },
+        { status: 400 }
+      )
+    }
+
+    // One grant per subject: change the permission of an existing grant
+    let existingQuery = supabase
+      .from('entry_access_controls')
+      .select('id')
+      .eq('entry_id', entryId)
+    for (const [column, value] of Object.entries(grantSubject)) {
+      existingQuery = value === null ? existingQuery.is(column, null) : existingQuery.eq(column, value)
+    }
+    const { data: existing } = await existingQuery.maybeSingle()
+
+    const { data, error } = existing
+      ? await supabase
+          .from('entry_access_controls')
+          .update({ permission, granted_by: user.id })
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await supabase
+          .from('entry_access_controls')
+          .insert({
+            entry_id: entryId,
+            ...grantSubject,
+            permission,
+            granted_by: user.id,
+            created_at: new Date().toISOString(),
+          })
+          .select()
+          .single()
+
+    if (error) {
+      console.error('Error granting entry access:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Entry shared successfully',
+      data
+    })
+  } catch (error) {
+    console.error('POST /api/entries/[id]/permissions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId } = await params
+    const grantId = request.nextUrl.searchParams.get('grantId')
+
+    if (!grantId) {
+      return NextResponse.json(
+        { error: 'grantId is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data: entry, error: entryError } = await supabase
+      .from('knowledge_entries')
+      .select('id, workspace_id, user_id, classification, is_sensitive')
+      .eq('id', entryId)
+      .is('deleted_at', null)
+      .single()
+
+    if (entryError || !entry) {
+      return NextResponse.json(
+        { error: 'Entry not found' },
+        { status: 404 }
+      )
+    }
+
+    const userRole = await getEntryRole(entry, user.id)
+    if (!canManageEntryAccess(entry, user.id, userRole)) {
+      return forbiddenResponse('share')
+    }
+
+    const { error } = await supabase
+      .from('entry_access_controls')
+      .delete()
+      .eq('id', grantId)
+      .eq('entry_id', entryId)
+
+    if (error) {
+      console.error('Error revoking entry access:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Access revoked successfully'
+    })
+  } catch (error) {
+    console.error('DELETE /api/entries/[id]/permissions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * API Route: /api/entries/[id]/restore
+ *
+ * Restores a deleted entry from the trash; requires the same access as
+ * deleting it
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { authorizeEntry } from '@/lib/api/access-control'
+import { tryLogEntryAccess } from '@/lib/api/access-log-server'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId } = await params
+
+    const { data: entry, error: fetchError } = await supabase
+      .from('knowledge_entries')
+      .select('id, workspace_id, user_id, classification, is_sensitive, is_client_encrypted')
+      .eq('id', entryId)
+      .not('deleted_at', 'is', null)
+      .single()
+
+    if (fetchError || !entry) {
+      return NextResponse.json(
+        { error: 'Entry not found in trash' },
+        { status: 404 }
+      )
+    }
+
+    // Same rule as deleting: the role matrix decides, owners included
+    if (!(await authorizeEntry(entry, user.id, 'delete'))) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'restore', outcome: 'denied' })
+      return NextResponse.json(
+        { error: 'Forbidden: You do not have permission to restore this entry', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('knowledge_entries')
+      .update({ deleted_at: null, deleted_by: null })
+      .eq('id', entryId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error restoring entry:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    // Log the restore action
+    await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'restore' })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Entry restored from trash',
+      data: { id: data.id, title: data.title }
+    })
+  } catch (error) {
+    console.error('POST /api/entries/[id]/restore error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * API Route: /api/entries/[id]/reveal-requests
+ *
+ * Dual-control requests for an entry. GET lists the current user's own
+ * requests for the entry; POST asks approvers for permission to reveal or
+ * export it. Every request is recorded in the access logs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { authorizeEntry, forbiddenResponse } from '@/lib/api/access-control'
+import { tryLogEntryAccess } from '@/lib/api/access-log-server'
+import {
+  REVEAL_REQUEST_COLUMNS,
+  getDualControlClassifications,
+  requiresRevealApproval,
+  toRevealRequests,
+} from '@/lib/api/approvals-server'
+
+const VALID_ACTIONS = ['reveal', 'export']
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId } = await params
+
+    const { data: requests, error } = await supabase
+      .from('reveal_requests')
+      .select(REVEAL_REQUEST_COLUMNS)
+      .eq('entry_id', entryId)
+      .eq('requested_by', user.id)
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    if (error) {
+      console.error('Error fetching reveal requests:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await toRevealRequests(supabase, requests || [])
+    })
+  } catch (error) {
+    console.error('GET /api/entries/[id]/reveal-requests error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId } = await params
+
+    const { data: entry, error: fetchError } = await supabase
+      .from('knowledge_entries')
+      .select('id, workspace_id, user_id, classification, is_sensitive, is_client_encrypted')
+      .eq('id', entryId)
+      .is('deleted_at', null)
+      .single()
+
+    if (fetchError || !entry) {
+      return NextResponse.json(
+        { error: 'Entry not found' },
+        { status: 404 }
+      )
+    }
+
+    // Approval only lifts dual control; it never widens who can see the entry
+    if (!(await authorizeEntry(entry, user.id, 'view'))) {
+      return forbiddenResponse('view')
+    }
+
+    if (!requiresRevealApproval(entry, user.id, await getDualControlClassifications(supabase))) {
+      return NextResponse.json(
+        { error: 'This entry does not require approval' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const { action } = body
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : ''
+
+    if (!VALID_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: 'action must be reveal or export' },
+        { status: 400 }
+      )
+    }
+
+    if (!reason) {
+      return NextResponse.json(
+        { error: 'A reason is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data: pending } = await supabase
+      .from('reveal_requests')
+      .select('id')
+      .eq('entry_id', entryId)
+      .eq('requested_by', user.id)
+      .eq('action', action)
+      .eq('status', 'pending')
+      .limit(1)
+
+    if (pending && pending.length > 0) {
+      return NextResponse.json(
+        { error: `You already have a pending ${action} request for this entry` },
+        { status: 409 }
+      )
+    }
+
+    const { data: created, error } = await supabase
+      .from('reveal_requests')
+      .insert({
+        entry_id: entryId,
+        workspace_id: entry.workspace_id,
+        requested_by: user.id,
+        action,
+        reason,
+        status: 'pending',
+        created_at: new Date().toISOString(),
+      })
+      .select(REVEAL_REQUEST_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error('Error creating reveal request:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'approval_requested' })
+
+    const [revealRequest] = await toRevealRequests(supabase, [created])
+
+    return NextResponse.json({
+      success: true,
+      message: 'Approval requested',
+      data: revealRequest
+    }, { status: 201 })
+  } catch (error) {
+    console.error('POST /api/entries/[id]/reveal-requests error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
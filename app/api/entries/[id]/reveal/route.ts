@@ -0,0 +1,97 @@
+/**
+ * API Route: /api/entries/[id]/reveal
+ *
+ * Serves the decrypted content and fields of an entry under dual control
+ * (POST `{ requestId }`). The approved reveal request is used up by this
+ * call, so the content is served once; the reveal is logged.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { authorizeEntry, forbiddenResponse } from '@/lib/api/access-control'
+import { consumeRevealApproval } from '@/lib/api/approvals-server'
+import { logEntryAccess, tryLogEntryAccess } from '@/lib/api/access-log-server'
+import { conditionalDecrypt, decryptEntryFields, DecryptionError } from '@/lib/utils/encryption'
+import { getSensitiveFieldKeys } from '@/lib/utils/entry-fields'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId } = await params
+    const { requestId } = await request.json()
+
+    if (typeof requestId !== 'string' || !requestId) {
+      return NextResponse.json(
+        { error: 'requestId is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data: entry, error } = await supabase
+      .from('knowledge_entries')
+      .select('*')
+      .eq('id', entryId)
+      .is('deleted_at', null)
+      .single()
+
+    if (error || !entry) {
+      return NextResponse.json(
+        { error: 'Entry not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await authorizeEntry(entry, user.id, 'view'))) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'reveal', outcome: 'denied' })
+      return forbiddenResponse('view')
+    }
+
+    if (!(await consumeRevealApproval(supabase, requestId, entryId, user.id, 'reveal'))) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'reveal', outcome: 'denied' })
+      return NextResponse.json(
+        { error: 'This approval is not valid: it was denied, already used or has expired', code: 'APPROVAL_REQUIRED' },
+        { status: 403 }
+      )
+    }
+
+    let content: string
+    let fields
+    try {
+      content = conditionalDecrypt(entry.content, entry.is_sensitive, entry)
+      fields = decryptEntryFields(entry.fields, getSensitiveFieldKeys(entry.category), entry)
+    } catch (decryptError) {
+      if (!(decryptError instanceof DecryptionError)) throw decryptError
+      console.error(`Failed to decrypt entry ${entryId} for reveal:`, decryptError)
+      return NextResponse.json(
+        { error: 'Failed to decrypt entry content', code: 'DECRYPTION_FAILED' },
+        { status: 500 }
+      )
+    }
+
+    await logEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'reveal' })
+
+    return NextResponse.json({
+      success: true,
+      data: { content, fields }
+    })
+  } catch (error) {
+    console.error('POST /api/entries/[id]/reveal error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
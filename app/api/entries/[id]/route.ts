@@ -6,8 +6,17 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { getUserRole } from '@/lib/api/auth-server'
-import { conditionalEncrypt, conditionalDecrypt } from '@/lib/utils/encryption'
+import { authorizeEntry, forbiddenResponse } from '@/lib/api/access-control'
+import { recordBaselineVersion, recordEntryVersion } from '@/lib/api/versions-server'
+import { resolveEntryExpiration } from '@/lib/api/expiration-policies-server'
+import { completeRotationTask, getActiveRotationTask, hasSecretChanged, ROTATOR_ROLES } from '@/lib/api/rotation-tasks-server'
+import { getWorkspaceRole } from '@/lib/api/workspaces-server'
+import { logEntryAccess, tryLogEntryAccess } from '@/lib/api/access-log-server'
+import { approvalRequiredResponse, getDualControlClassifications, requiresRevealApproval } from '@/lib/api/approvals-server'
+import { encryptEntryUpdate } from '@/lib/api/entries-server'
+import { conditionalDecrypt, decryptEntryFields, DecryptionError } from '@/lib/utils/encryption'
+import { getSensitiveFieldKeys, validateEntryFields } from '@/lib/utils/entry-fields'
+import { CLIENT_CIPHERTEXT_PREFIX } from '@/lib/utils/vault-crypto'
 
 export async function GET(
   request: NextRequest,
@@ -32,6 +41,7 @@ export async function GET(
       .from('knowledge_entries')
       .select('*')
       .eq('id', entryId)
+      .is('deleted_at', null)
       .single()
 
     if (error) {
@@ -42,15 +52,40 @@ export async function GET(
       )
     }
 
+    // Check role and classification access
+    if (!(await authorizeEntry(data, user.id, 'view'))) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'view', outcome: 'denied' })
+      return forbiddenResponse('view')
+    }
+
+    // Under dual control the content is only served through an approved reveal
+    if (requiresRevealApproval(data, user.id, await getDualControlClassifications(supabase))) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'view', outcome: 'denied' })
+      return approvalRequiredResponse()
+    }
+
+    // Nothing is served without a record of it
+    await logEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'view' })
+
     // Update last_accessed_at
     await supabase
       .from('knowledge_entries')
       .update({ last_accessed_at: new Date().toISOString() })
       .eq('id', entryId)
 
-    // Decrypt content if sensitive
-    if (data.is_sensitive && data.content) {
-      data.content = conditionalDecrypt(data.content, data.is_sensitive)
+    // Decrypt sensitive content and fields (client-encrypted content is decrypted in the browser)
+    if (!data.is_client_encrypted) {
+      try {
+        data.content = conditionalDecrypt(data.content, data.is_sensitive, data)
+        data.fields = decryptEntryFields(data.fields, getSensitiveFieldKeys(data.category), data)
+      } catch (decryptError) {
+        if (!(decryptError instanceof DecryptionError)) throw decryptError
+        console.error(`Failed to decrypt entry ${entryId}:`, decryptError)
+        return NextResponse.json(
+          { error: 'Failed to decrypt entry content', code: 'DECRYPTION_FAILED' },
+          { status: 500 }
+        )
+      }
     }
 
     return NextResponse.json({
@@ -87,11 +122,183 @@ export async function PUT(
     // Parse request body
     const body = await request.json()
     
-    // Encrypt content if it's being updated and entry is sensitive
-    if (body.content && body.is_sensitive) {
-      body.content = conditionalEncrypt(body.content, body.is_sensitive)
+    // Key material is managed by the encryption layer only
+    delete body.encrypted_data_key
+    delete body.key_version
+
+    // Client-side encryption is fixed when the entry is created
+    delete body.is_client_encrypted
+
+    // Trash state is only changed through DELETE and the trash restore route
+    delete body.deleted_at
+    delete body.deleted_by
+
+    // Entries stay in the workspace they were created in
+    delete body.workspace_id
+
+    // Saving with a rotation task completes it once the rotation is checked
+    const rotationTaskId = body.rotation_task_id
+    delete body.rotation_task_id
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('knowledge_entries')
+      .select('*')
+      .eq('id', entryId)
+      .is('deleted_at', null)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Entry not found' },
+        { status: 404 }
+      )
+    }
+
+    // Check role, classification and per-entry grant access
+    if (!(await authorizeEntry(existing, user.id, 'edit'))) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'update', outcome: 'denied' })
+      return forbiddenResponse('edit')
+    }
+
+    // Editors cannot move an entry to a classification they could not edit
+    if (body.classification && !(await authorizeEntry({ ...existing, classification: body.classification }, user.id, 'edit'))) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'update', outcome: 'denied' })
+      return forbiddenResponse('edit')
+    }
+
+    const rotationTask = rotationTaskId ? await getActiveRotationTask(supabase, rotationTaskId) : null
+    if (rotationTaskId && rotationTask?.entry_id !== entryId) {
+      return NextResponse.json(
+        { error: 'Rotation task not found or already done' },
+        { status: 404 }
+      )
+    }
+
+    // Designated rotators must be able to edit the entry's workspace
+    if (body.rotator_id && body.rotator_id !== existing.rotator_id) {
+      const rotatorRole = await getWorkspaceRole(existing.workspace_id, body.rotator_id)
+      if (!rotatorRole || !ROTATOR_ROLES.includes(rotatorRole)) {
+        return NextResponse.json(
+          { error: 'rotator_id must be a workspace member who can edit entries' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Whether the save changes the secret (only checked for rotations)
+    let secretChanged = false
+
+    // A sensitivity left out of the update is kept
+    const isSensitive: boolean = body.is_sensitive ?? existing.is_sensitive
+
+    if (existing.is_client_encrypted) {
+      // The server cannot read this content - only accept browser ciphertext
+      if (body.content && !String(body.content).startsWith(CLIENT_CIPHERTEXT_PREFIX)) {
+        return NextResponse.json(
+          { error: 'Client-encrypted content must be encrypted in the browser' },
+          { status: 400 }
+        )
+      }
+      if (body.classification && body.classification !== 'restricted') {
+        return NextResponse.json(
+          { error: 'Client-encrypted entries must remain restricted' },
+          { status: 400 }
+        )
+      }
+      if (body.fields) {
+        return NextResponse.json(
+          { error: 'Structured fields are not supported for client-encrypted entries' },
+          { status: 400 }
+        )
+      }
+      body.is_sensitive = true
+      secretChanged = body.content !== undefined && body.content !== existing.content
+    } else if (body.content !== undefined || body.fields !== undefined || isSensitive !== existing.is_sensitive) {
+      const category = body.category || existing.category
+
+      // Fields belong to a category schema, so they must be resent when it changes
+      if (body.fields === undefined && existing.fields && category !== existing.category) {
+        return NextResponse.json(
+          { error: 'fields must be provided when changing the category of a structured entry' },
+          { status: 400 }
+        )
+      }
+
+      if (body.fields) {
+        const result = validateEntryFields(category, body.fields)
+        if (!result.valid) {
+          return NextResponse.json(
+            { error: result.error },
+            { status: 400 }
+          )
+        }
+        body.fields = result.fields
+      }
+
+      // Encrypt sensitive content and fields, reusing the entry's data key if it has one
+      let encrypted
+      try {
+        // Rotations are compared in plaintext against the current secret
+        if (rotationTask) {
+          secretChanged = hasSecretChanged(
+            {
+              content: conditionalDecrypt(existing.content, existing.is_sensitive, existing),
+              fields: decryptEntryFields(existing.fields, getSensitiveFieldKeys(existing.category), existing),
+            },
+            { content: body.content, fields: body.fields },
+            getSensitiveFieldKeys(category)
+          )
+        }
+
+        encrypted = encryptEntryUpdate(
+          entryId,
+          existing,
+          { content: body.content, fields: body.fields, is_sensitive: isSensitive },
+          getSensitiveFieldKeys(category)
+        )
+      } catch (keyError) {
+        if (!(keyError instanceof DecryptionError)) throw keyError
+        console.error(`Failed to unwrap data key for entry ${entryId}:`, keyError)
+        return NextResponse.json(
+          { error: 'Failed to decrypt entry content', code: 'DECRYPTION_FAILED' },
+          { status: 500 }
+        )
+      }
+
+      Object.assign(body, encrypted)
     }
     
+    // Expiration policies cap the date, counting from this update
+    body.expiration_date = await resolveEntryExpiration(
+      supabase,
+      {
+        category: body.category || existing.category,
+        classification: body.classification || existing.classification,
+        tags: body.tags || existing.tags,
+      },
+      body.expiration_date !== undefined ? body.expiration_date : existing.expiration_date
+    )
+
+    // A rotation replaces the secret and moves the expiration date on
+    if (rotationTask) {
+      if (!secretChanged) {
+        return NextResponse.json(
+          { error: 'Update the secret to mark the credential as rotated' },
+          { status: 400 }
+        )
+      }
+
+      const renewed = !!body.expiration_date &&
+        new Date(body.expiration_date) > new Date() &&
+        (!existing.expiration_date || new Date(body.expiration_date) > new Date(existing.expiration_date))
+      if (!renewed) {
+        return NextResponse.json(
+          { error: 'Set a later expiration date to mark the credential as rotated' },
+          { status: 400 }
+        )
+      }
+    }
+
     const updates = {
       ...body,
       updated_at: new Date().toISOString()
@@ -103,6 +310,9 @@ export async function PUT(
     delete updates.created_at
     delete updates.created_by
 
+    // Keep the pre-change state of entries that predate version history
+    await recordBaselineVersion(supabase, existing)
+
     // Update entry
     const { data, error } = await supabase
       .from('knowledge_entries')
@@ -119,17 +329,18 @@ export async function PUT(
       )
     }
 
+    await recordEntryVersion(supabase, data, user.id, 'update')
+
+    if (rotationTask) {
+      await completeRotationTask(supabase, rotationTask.id, user.id)
+    }
+
     // Log the update action
-    await supabase.from('access_logs').insert({
-      entry_id: entryId,
-      accessed_by: user.id,
-      action: 'update',
-      accessed_at: new Date().toISOString(),
-    })
+    await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'update' })
 
     return NextResponse.json({
       success: true,
-      message: 'Entry updated successfully',
+      message: rotationTask ? 'Credential rotated successfully' : 'Entry updated successfully',
       data
     })
   } catch (error) {
@@ -159,14 +370,12 @@ export async function DELETE(
 
     const { id: entryId } = await params
 
-    // Get user role for permission check
-    const userRole = await getUserRole(user.id)
-
     // Check if entry exists and get owner
     const { data: entry, error: fetchError } = await supabase
       .from('knowledge_entries')
-      .select('user_id')
+      .select('id, workspace_id, user_id, classification, is_sensitive')
       .eq('id', entryId)
+      .is('deleted_at', null)
       .single()
 
     if (fetchError) {
@@ -177,25 +386,18 @@ export async function DELETE(
     }
 
     // Check permissions: only creator or admin can delete
-    if (entry.user_id !== user.id && userRole !== 'admin') {
-      return NextResponse.json(
-        { error: 'Forbidden: You can only delete your own entries' },
-        { status: 403 }
-      )
+    if (!(await authorizeEntry(entry, user.id, 'delete'))) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'delete', outcome: 'denied' })
+      return forbiddenResponse('delete')
     }
 
-    // Log the delete action before deleting
-    await supabase.from('access_logs').insert({
-      entry_id: entryId,
-      accessed_by: user.id,
-      action: 'delete',
-      accessed_at: new Date().toISOString(),
-    })
-
-    // Delete entry
+    // Move entry to the trash; it is purged after the retention period
     const { error } = await supabase
       .from('knowledge_entries')
-      .delete()
+      .update({
+        deleted_at: new Date().toISOString(),
+        deleted_by: user.id,
+      })
       .eq('id', entryId)
 
     if (error) {
@@ -206,9 +408,12 @@ export async function DELETE(
       )
     }
 
+    // Log the delete action
+    await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'delete' })
+
     return NextResponse.json({
       success: true,
-      message: 'Entry deleted successfully'
+      message: 'Entry moved to trash'
     })
   } catch (error) {
     console.error('DELETE /api/entries/[id] error:', error)
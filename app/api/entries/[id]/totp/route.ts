@@ -0,0 +1,108 @@
+/**
+ * API Route: /api/entries/[id]/totp
+ *
+ * Returns the current TOTP code for a credential entry's MFA seed.
+ * The seed itself never leaves the server; every retrieval is logged.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { checkEntryAccess, forbiddenResponse } from '@/lib/api/access-control'
+import { logEntryAccess, tryLogEntryAccess } from '@/lib/api/access-log-server'
+import { approvalRequiredResponse, entryRequiresRevealApproval } from '@/lib/api/approvals-server'
+import { decryptEntryFields, DecryptionError } from '@/lib/utils/encryption'
+import { getSensitiveFieldKeys } from '@/lib/utils/entry-fields'
+import { generateTotp, parseTotpSecret } from '@/lib/utils/totp'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId } = await params
+
+    // Check role and classification access
+    const canView = await checkEntryAccess(entryId, user.id, 'view')
+    if (!canView) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'totp', outcome: 'denied' })
+      return forbiddenResponse('view')
+    }
+
+    if (await entryRequiresRevealApproval(supabase, entryId, user.id)) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'totp', outcome: 'denied' })
+      return approvalRequiredResponse()
+    }
+
+    const { data: entry, error } = await supabase
+      .from('knowledge_entries')
+      .select('id, category, fields, encrypted_data_key, key_version')
+      .eq('id', entryId)
+      .is('deleted_at', null)
+      .single()
+
+    if (error || !entry) {
+      return NextResponse.json(
+        { error: 'Entry not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!entry.fields?.totp) {
+      return NextResponse.json(
+        { error: 'Entry has no TOTP secret' },
+        { status: 404 }
+      )
+    }
+
+    let secret: string
+    try {
+      const fields = decryptEntryFields(entry.fields, getSensitiveFieldKeys(entry.category), entry)
+      secret = fields!.totp as string
+    } catch (decryptError) {
+      if (!(decryptError instanceof DecryptionError)) throw decryptError
+      console.error(`Failed to decrypt TOTP secret for entry ${entryId}:`, decryptError)
+      return NextResponse.json(
+        { error: 'Failed to decrypt entry content', code: 'DECRYPTION_FAILED' },
+        { status: 500 }
+      )
+    }
+
+    let totp
+    try {
+      totp = generateTotp(parseTotpSecret(secret))
+    } catch (parseError: any) {
+      return NextResponse.json(
+        { error: parseError.message || 'Invalid TOTP secret' },
+        { status: 422 }
+      )
+    }
+
+    // Log the code retrieval; no code is served without a record of it
+    await logEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'totp' })
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: totp
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    console.error('GET /api/entries/[id]/totp error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
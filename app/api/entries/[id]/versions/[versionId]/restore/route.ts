@@ -0,0 +1,126 @@
+/**
+ * API Route: /api/entries/[id]/versions/[versionId]/restore
+ *
+ * Restores an entry to a previous version. The restore is recorded as a
+ * new version, so it can itself be undone.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { authorizeEntry, forbiddenResponse } from '@/lib/api/access-control'
+import { tryLogEntryAccess } from '@/lib/api/access-log-server'
+import { pickSnapshot, recordBaselineVersion, recordEntryVersion } from '@/lib/api/versions-server'
+import { resolveEntryExpiration } from '@/lib/api/expiration-policies-server'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId, versionId } = await params
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('knowledge_entries')
+      .select('*')
+      .eq('id', entryId)
+      .is('deleted_at', null)
+      .single()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Entry not found' },
+        { status: 404 }
+      )
+    }
+
+    // Check role, classification and per-entry grant access
+    if (!(await authorizeEntry(existing, user.id, 'edit'))) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'restore', outcome: 'denied' })
+      return forbiddenResponse('edit')
+    }
+
+    const { data: version, error: versionError } = await supabase
+      .from('entry_versions')
+      .select('*')
+      .eq('id', versionId)
+      .eq('entry_id', entryId)
+      .single()
+
+    if (versionError || !version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    // Editors cannot restore a classification they could not edit
+    if (!(await authorizeEntry({ ...existing, classification: version.classification }, user.id, 'edit'))) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'restore', outcome: 'denied' })
+      return forbiddenResponse('edit')
+    }
+
+    // Client-side encryption is fixed when the entry is created
+    if (!!version.is_client_encrypted !== !!existing.is_client_encrypted) {
+      return NextResponse.json(
+        { error: 'Cannot restore a version with a different encryption mode' },
+        { status: 400 }
+      )
+    }
+
+    await recordBaselineVersion(supabase, existing)
+
+    // Ciphertexts are bound to the entry id, so the snapshot is restored as stored.
+    // An old expiration date is still capped by the current policy.
+    const snapshot = pickSnapshot(version)
+    const { data, error } = await supabase
+      .from('knowledge_entries')
+      .update({
+        ...snapshot,
+        expiration_date: await resolveEntryExpiration(
+          supabase,
+          { category: snapshot.category, classification: snapshot.classification, tags: snapshot.tags },
+          snapshot.expiration_date
+        ),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', entryId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error restoring entry version:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    await recordEntryVersion(supabase, data, user.id, 'restore', version.version_number)
+
+    // Log the restore action
+    await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'restore' })
+
+    return NextResponse.json({
+      success: true,
+      message: `Entry restored to version ${version.version_number}`,
+      data
+    })
+  } catch (error) {
+    console.error('POST /api/entries/[id]/versions/[versionId]/restore error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * API Route: /api/entries/[id]/versions/[versionId]
+ *
+ * Fetches a single version with its content decrypted
+ * (client-encrypted versions are returned as ciphertext)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { checkEntryAccess, forbiddenResponse } from '@/lib/api/access-control'
+import { logEntryAccess, tryLogEntryAccess } from '@/lib/api/access-log-server'
+import { approvalRequiredResponse, entryRequiresRevealApproval } from '@/lib/api/approvals-server'
+import { conditionalDecrypt, decryptEntryFields, DecryptionError } from '@/lib/utils/encryption'
+import { getSensitiveFieldKeys } from '@/lib/utils/entry-fields'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId, versionId } = await params
+
+    const canView = await checkEntryAccess(entryId, user.id, 'view')
+    if (!canView) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'view', outcome: 'denied' })
+      return forbiddenResponse('view')
+    }
+
+    // Old versions hold the same secrets as the entry
+    if (await entryRequiresRevealApproval(supabase, entryId, user.id)) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'view', outcome: 'denied' })
+      return approvalRequiredResponse()
+    }
+
+    const { data: version, error } = await supabase
+      .from('entry_versions')
+      .select('*')
+      .eq('id', versionId)
+      .eq('entry_id', entryId)
+      .single()
+
+    if (error || !version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      )
+    }
+
+    // Snapshots are bound to the entry id, not the version row id
+    if (!version.is_client_encrypted) {
+      const keyInfo = {
+        id: entryId,
+        encrypted_data_key: version.encrypted_data_key,
+        key_version: version.key_version,
+      }
+
+      try {
+        version.content = conditionalDecrypt(version.content, version.is_sensitive, keyInfo)
+        version.fields = decryptEntryFields(version.fields, getSensitiveFieldKeys(version.category), keyInfo)
+      } catch (decryptError) {
+        if (!(decryptError instanceof DecryptionError)) throw decryptError
+        console.error(`Failed to decrypt version ${versionId} of entry ${entryId}:`, decryptError)
+        return NextResponse.json(
+          { error: 'Failed to decrypt entry content', code: 'DECRYPTION_FAILED' },
+          { status: 500 }
+        )
+      }
+    }
+
+    delete version.encrypted_data_key
+    delete version.key_version
+
+    // Log the access; no version is served without a record of it
+    await logEntryAccess(supabase, request.headers, { entryId, userId: user.id, action: 'view' })
+
+    return NextResponse.json({
+      success: true,
+      data: version
+    })
+  } catch (error) {
+    console.error('GET /api/entries/[id]/versions/[versionId] error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
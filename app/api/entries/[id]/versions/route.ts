@@ -0,0 +1,59 @@
+/**
+ * API Route: /api/entries/[id]/versions
+ *
+ * Lists the version history of an entry, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { checkEntryAccess, forbiddenResponse } from '@/lib/api/access-control'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: entryId } = await params
+
+    const canView = await checkEntryAccess(entryId, user.id, 'view')
+    if (!canView) {
+      return forbiddenResponse('view')
+    }
+
+    const { data, error } = await supabase
+      .from('entry_versions')
+      .select('id, entry_id, version_number, title, category, classification, change_type, restored_from, created_by, created_at')
+      .eq('entry_id', entryId)
+      .order('version_number', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching entry versions:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: data || []
+    })
+  } catch (error) {
+    console.error('GET /api/entries/[id]/versions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
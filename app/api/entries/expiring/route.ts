@@ -2,12 +2,19 @@
  * API Route: Check Expiring Credentials
  * GET /api/entries/expiring
  * 
- * Returns entries that are expired or expiring soon
+ * Returns entries that are expired or expiring soon. Each entry is
+ * classified with the windows of the expiration policy that governs it;
+ * `?days=` overrides the notice window for every entry. Content is
+ * masked as in list views; it is only revealed through the entry itself.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { conditionalDecrypt } from '@/lib/utils/encryption'
+import { getActiveWorkspace } from '@/lib/api/workspaces-server'
+import { forbiddenResponse } from '@/lib/api/access-control'
+import { getExpiringEntries } from '@/lib/api/expiring-entries-server'
+import { maskEntryContent } from '@/lib/api/entries-server'
+import { maskEntryFields } from '@/lib/utils/entry-fields'
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,53 +32,30 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get query params for days threshold (default: 30 days)
-    const { searchParams } = new URL(request.url)
-    const daysThreshold = parseInt(searchParams.get('days') || '30')
-
-    const now = new Date()
-    const futureDate = new Date()
-    futureDate.setDate(futureDate.getDate() + daysThreshold)
-
-    // Query entries with expiration dates
-    const { data: entries, error } = await supabase
-      .from('knowledge_entries')
-      .select('*')
-      .not('expiration_date', 'is', null)
-      .lte('expiration_date', futureDate.toISOString())
-      .order('expiration_date', { ascending: true })
+    const workspace = await getActiveWorkspace(user.id)
+    if (!workspace) {
+      return forbiddenResponse('view')
+    }
 
-    if (error) {
-      console.error('Database error:', error)
+    // Notice window override (default: each policy's own)
+    const { searchParams } = new URL(request.url)
+    const daysOverride = searchParams.get('days') ? parseInt(searchParams.get('days')!) : null
+    if (daysOverride !== null && (isNaN(daysOverride) || daysOverride < 0)) {
       return NextResponse.json(
-        { error: 'Failed to fetch expiring entries' },
-        { status: 500 }
+        { error: 'days must be a non-negative number' },
+        { status: 400 }
       )
     }
 
-    // Decrypt sensitive content and categorize by status
-    const processedEntries = entries.map(entry => {
-      const expirationDate = new Date(entry.expiration_date)
-      const daysUntilExpiration = Math.ceil(
-        (expirationDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
-      )
-
-      let status: 'expired' | 'critical' | 'warning' | 'notice'
-      if (daysUntilExpiration < 0) {
-        status = 'expired'
-      } else if (daysUntilExpiration <= 7) {
-        status = 'critical'
-      } else if (daysUntilExpiration <= 14) {
-        status = 'warning'
-      } else {
-        status = 'notice'
-      }
+    const classified = await getExpiringEntries(supabase, user.id, workspace, daysOverride)
 
+    // Mask sensitive content (dual control only applies when revealing an entry)
+    const processedEntries = classified.map(({ entry, ...expiry }) => {
       return {
         ...entry,
-        content: conditionalDecrypt(entry.content, entry.is_sensitive),
-        daysUntilExpiration,
-        status,
+        content: maskEntryContent(entry),
+        fields: maskEntryFields(entry.category, entry.fields),
+        ...expiry,
       }
     })
 
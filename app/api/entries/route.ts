@@ -4,10 +4,25 @@
  * Handles fetching all entries (GET) and creating new entries (POST)
  */
 
+import { randomUUID } from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { getUserRole } from '@/lib/api/auth-server'
-import { conditionalEncrypt, conditionalDecrypt } from '@/lib/utils/encryption'
+import { getActiveWorkspace } from '@/lib/api/workspaces-server'
+import { resolveEntryExpiration } from '@/lib/api/expiration-policies-server'
+import { applyEntryAccessFilter, canCreateEntries, forbiddenResponse, getSharedEntryIds } from '@/lib/api/access-control'
+import { recordEntryVersion } from '@/lib/api/versions-server'
+import { tryLogEntryAccess } from '@/lib/api/access-log-server'
+import { KeyGrant, maskEntryContent, parseKeyGrants } from '@/lib/api/entries-server'
+import { encryptEntry } from '@/lib/utils/encryption'
+import { getSensitiveFieldKeys, maskEntryFields, validateEntryFields, EntryFields } from '@/lib/utils/entry-fields'
+import { CLIENT_CIPHERTEXT_PREFIX } from '@/lib/utils/vault-crypto'
+import { buildCursorFilter, decodeCursor, encodeCursor, ENTRY_SORT_FIELDS, isEntrySortField } from '@/lib/utils/pagination'
+import { applyEntryQuery, parseEntryQuery } from '@/lib/utils/entry-query'
+
+/**
+ * Most entries per page
+ */
+const MAX_LIMIT = 100
 
 export async function GET(request: NextRequest) {
   try {
@@ -22,33 +37,77 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get user role
-    const userRole = await getUserRole(user.id)
-    if (!userRole) {
+    // Entries are listed for the workspace selected in the switcher
+    const workspace = await getActiveWorkspace(user.id)
+    if (!workspace) {
       return NextResponse.json(
-        { error: 'User profile not found. Please complete your profile setup.' },
+        { error: 'You are not a member of any workspace' },
         { status: 403 }
       )
     }
+    const userRole = workspace.role
 
     // Get query parameters
     const searchParams = request.nextUrl.searchParams
-    const page = parseInt(searchParams.get('page') || '1')
-    const limit = parseInt(searchParams.get('limit') || '10')
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '10') || 10, 1), MAX_LIMIT)
     const sortBy = searchParams.get('sortBy') || 'created_at'
     const sortOrder = searchParams.get('sortOrder') || 'desc'
     const category = searchParams.get('category')
     const classification = searchParams.get('classification')
     const search = searchParams.get('search')
+    const tags = searchParams.getAll('tag').filter(Boolean)
+    const cursorParam = searchParams.get('cursor')
+
+    if (!isEntrySortField(sortBy)) {
+      return NextResponse.json(
+        { error: `sortBy must be one of: ${ENTRY_SORT_FIELDS.join(', ')}`, code: 'INVALID_SORT' },
+        { status: 400 }
+      )
+    }
+    if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+      return NextResponse.json(
+        { error: 'sortOrder must be asc or desc', code: 'INVALID_SORT' },
+        { status: 400 }
+      )
+    }
+
+    // The search is parsed into terms, never interpolated into the filter
+    const parsed = search ? parseEntryQuery(search) : null
+    if (parsed && 'error' in parsed) {
+      return NextResponse.json(
+        {
+          error: parsed.error.message,
+          code: 'INVALID_QUERY',
+          reason: parsed.error.reason,
+          position: parsed.error.position,
+        },
+        { status: 400 }
+      )
+    }
+
+    // A cursor replaces the page: the list continues after the entry it points at
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null
+    if (cursorParam && !cursor) {
+      return NextResponse.json(
+        { error: 'Invalid cursor', code: 'INVALID_CURSOR' },
+        { status: 400 }
+      )
+    }
 
     // Build query
     let query = supabase
       .from('knowledge_entries')
       .select('*', { count: 'exact' })
+      .eq('workspace_id', workspace.id)
+      .is('deleted_at', null)
+
+    // Only return entries the user's role and classification access allow
+    query = applyEntryAccessFilter(query, user.id, userRole, await getSharedEntryIds(user.id, userRole))
 
     // Apply search if provided
-    if (search) {
-      query = query.or(`title.ilike.%${search}%,content.ilike.%${search}%`)
+    if (parsed) {
+      query = applyEntryQuery(query, parsed.query)
     }
 
     // Apply filters
@@ -58,14 +117,22 @@ export async function GET(request: NextRequest) {
     if (classification) {
       query = query.eq('classification', classification)
     }
+    if (tags.length > 0) {
+      query = query.contains('tags', tags)
+    }
 
-    // Apply sorting
-    query = query.order(sortBy, { ascending: sortOrder === 'asc' })
+    // Apply sorting; the id keeps the order stable between equal values
+    const ascending = sortOrder === 'asc'
+    query = query
+      .order(sortBy, { ascending, nullsFirst: false })
+      .order('id', { ascending })
 
     // Apply pagination
-    const from = (page - 1) * limit
-    const to = from + limit - 1
-    query = query.range(from, to)
+    const from = cursor ? 0 : (page - 1) * limit
+    if (cursor) {
+      query = query.or(buildCursorFilter(sortBy, ascending, cursor))
+    }
+    query = query.range(from, from + limit - 1)
 
     const { data, error, count } = await query
 
@@ -77,23 +144,18 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Decrypt and mask sensitive content
-    const processedData = (data || []).map(entry => {
-      if (entry.is_sensitive && entry.content) {
-        // First decrypt if encrypted
-        const decryptedContent = conditionalDecrypt(entry.content, entry.is_sensitive)
-        
-        // Then mask for display
-        if (decryptedContent.length <= 8) {
-          return { ...entry, content: '****' }
-        }
-        const first4 = decryptedContent.substring(0, 4)
-        const last4 = decryptedContent.substring(decryptedContent.length - 4)
-        const masked = '*'.repeat(Math.min(decryptedContent.length - 8, 20))
-        return { ...entry, content: `${first4}${masked}${last4}` }
-      }
-      return entry
-    })
+    // Decrypt and mask sensitive content; sensitive fields are masked without decrypting
+    const processedData = (data || []).map(entry => ({
+      ...entry,
+      content: maskEntryContent(entry),
+      fields: maskEntryFields(entry.category, entry.fields),
+    }))
+
+    // With a cursor the count starts at the cursor
+    const last = data && data.length > 0 ? data[data.length - 1] : null
+    const nextCursor = last && (count || 0) > from + data!.length
+      ? encodeCursor(last, sortBy)
+      : null
 
     return NextResponse.json({
       success: true,
@@ -101,7 +163,8 @@ export async function GET(request: NextRequest) {
       count: count || 0,
       page,
       limit,
-      totalPages: Math.ceil((count || 0) / limit)
+      totalPages: Math.ceil((count || 0) / limit),
+      nextCursor
     })
   } catch (error) {
     console.error('GET /api/entries error:', error)
@@ -125,6 +188,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // New entries belong to the active workspace
+    const workspace = await getActiveWorkspace(user.id)
+    if (!workspace || !canCreateEntries(workspace.role)) {
+      await tryLogEntryAccess(supabase, request.headers, { entryId: null, userId: user.id, action: 'create', outcome: 'denied' })
+      return forbiddenResponse('create')
+    }
+
     // Parse request body
     const body = await request.json()
     const {
@@ -136,13 +206,16 @@ export async function POST(request: NextRequest) {
       is_sensitive = false,
       expiration_date = null,
       file_url = null,
-      file_name = null
+      file_name = null,
+      is_client_encrypted = false,
+      key_grants = [],
+      fields = null
     } = body
 
     // Validate required fields
-    if (!title || !content || !category) {
+    if (!title || !category || (!content && !fields)) {
       return NextResponse.json(
-        { error: 'Title, content, and category are required' },
+        { error: 'Title, category, and content or fields are required' },
         { status: 400 }
       )
     }
@@ -165,21 +238,110 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Encrypt content if marked as sensitive
-    const encryptedContent = conditionalEncrypt(content, is_sensitive)
+    // Validate zero-knowledge vault entries
+    let keyGrants: KeyGrant[] = []
+    if (is_client_encrypted) {
+      if (classification !== 'restricted') {
+        return NextResponse.json(
+          { error: 'Client-side encryption is only available for restricted entries' },
+          { status: 400 }
+        )
+      }
+      if (typeof content !== 'string' || !content.startsWith(CLIENT_CIPHERTEXT_PREFIX)) {
+        return NextResponse.json(
+          { error: 'Client-encrypted content must be encrypted in the browser' },
+          { status: 400 }
+        )
+      }
+
+      const parsedGrants = parseKeyGrants(key_grants)
+      if ('error' in parsedGrants) {
+        return NextResponse.json(
+          { error: parsedGrants.error },
+          { status: 400 }
+        )
+      }
+      keyGrants = parsedGrants.value
+
+      if (!keyGrants.some(grant => grant.user_id === user.id)) {
+        return NextResponse.json(
+          { error: 'A wrapped entry key for the creator is required' },
+          { status: 400 }
+        )
+      }
+
+      // Keys are only shared within the entry's workspace
+      const grantees = [...new Set(keyGrants.map(grant => grant.user_id))]
+      const { data: members, error: memberError } = await supabase
+        .from('workspace_members')
+        .select('user_id')
+        .eq('workspace_id', workspace.id)
+        .in('user_id', grantees)
+
+      if (memberError) {
+        console.error('Error checking key grant recipients:', memberError)
+        return NextResponse.json(
+          { error: memberError.message },
+          { status: 500 }
+        )
+      }
+      if ((members || []).length !== grantees.length) {
+        return NextResponse.json(
+          { error: 'Entry keys can only be shared with members of the workspace' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Validate structured fields against the category schema
+    let validatedFields: EntryFields | null = null
+    if (fields) {
+      if (is_client_encrypted) {
+        return NextResponse.json(
+          { error: 'Structured fields are not supported for client-encrypted entries' },
+          { status: 400 }
+        )
+      }
+
+      const result = validateEntryFields(category, fields)
+      if (!result.valid) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        )
+      }
+      validatedFields = result.fields
+    }
+
+    // Generate the id up front so the ciphertext can be bound to it
+    const entryId = randomUUID()
+
+    // Encrypt sensitive content and fields under a new data key.
+    // Client-encrypted content is stored exactly as received.
+    const encryptedContent = is_client_encrypted
+      ? { content, fields: null, encrypted_data_key: null, key_version: null }
+      : encryptEntry(entryId, {
+          content: content || '',
+          isSensitive: is_sensitive,
+          fields: validatedFields,
+          sensitiveFields: getSensitiveFieldKeys(category),
+        })
 
     // Create entry
     const { data, error } = await supabase
       .from('knowledge_entries')
       .insert({
+        id: entryId,
+        workspace_id: workspace.id,
         user_id: user.id,
         title,
-        content: encryptedContent,
+        ...encryptedContent,
         category,
         classification,
         tags,
-        is_sensitive,
-        expiration_date,
+        is_sensitive: is_sensitive || is_client_encrypted,
+        is_client_encrypted,
+        expiration_date: await resolveEntryExpiration(supabase, { category, classification, tags }, expiration_date),
         file_url,
         file_name,
         created_by: user.id,
@@ -197,13 +359,35 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Store the wrapped entry keys for client-encrypted entries
+    if (is_client_encrypted) {
+      const { error: grantError } = await supabase
+        .from('entry_key_grants')
+        .insert(
+          keyGrants.map(grant => ({
+            entry_id: entryId,
+            user_id: grant.user_id,
+            wrapped_key: grant.wrapped_key,
+            granted_by: user.id,
+            created_at: new Date().toISOString(),
+          }))
+        )
+
+      if (grantError) {
+        // Without a key grant the entry would be unreadable - roll back
+        console.error('Error storing entry key grants:', grantError)
+        await supabase.from('knowledge_entries').delete().eq('id', entryId)
+        return NextResponse.json(
+          { error: grantError.message },
+          { status: 500 }
+        )
+      }
+    }
+
+    await recordEntryVersion(supabase, data, user.id, 'create')
+
     // Log the create action
-    await supabase.from('access_logs').insert({
-      entry_id: data.id,
-      accessed_by: user.id,
-      action: 'create',
-      accessed_at: new Date().toISOString(),
-    })
+    await tryLogEntryAccess(supabase, request.headers, { entryId: data.id, userId: user.id, action: 'create' })
 
     return NextResponse.json({
       success: true,
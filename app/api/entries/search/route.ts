@@ -0,0 +1,87 @@
+/**
+ * API Route: /api/entries/search
+ *
+ * Full-text search of the active workspace (GET), ranked by relevance,
+ * with highlighted titles and snippets and category, classification and
+ * tag facets. The search uses the entry query language, so exclusions,
+ * phrases and field terms work as they do in the entry list.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getActiveWorkspace } from '@/lib/api/workspaces-server'
+import { searchWorkspaceEntries } from '@/lib/api/search-server'
+import { parseEntryQuery } from '@/lib/utils/entry-query'
+import type { EntryCategory, EntryClassification } from '@/lib/api/entries'
+
+/**
+ * Most results per page
+ */
+const MAX_LIMIT = 50
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const workspace = await getActiveWorkspace(user.id)
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'You are not a member of any workspace' },
+        { status: 403 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const query = (searchParams.get('q') || '').trim()
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Search query is required' },
+        { status: 400 }
+      )
+    }
+
+    const parsed = parseEntryQuery(query)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        {
+          error: parsed.error.message,
+          code: 'INVALID_QUERY',
+          reason: parsed.error.reason,
+          position: parsed.error.position,
+        },
+        { status: 400 }
+      )
+    }
+
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '10') || 10, 1), MAX_LIMIT)
+
+    const results = await searchWorkspaceEntries(supabase, user.id, workspace, parsed.query, {
+      category: searchParams.get('category') as EntryCategory | null,
+      classification: searchParams.get('classification') as EntryClassification | null,
+      tags: searchParams.getAll('tag').filter(Boolean),
+      page,
+      limit,
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...results,
+    })
+  } catch (error) {
+    console.error('GET /api/entries/search error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * API Route: /api/entries/trash
+ *
+ * Lists deleted entries awaiting purge. Owners see their own entries,
+ * admins see every entry in the trash of the active workspace.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getActiveWorkspace } from '@/lib/api/workspaces-server'
+import { getPurgeDate, getTrashRetentionDays } from '@/lib/api/trash-server'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const workspace = await getActiveWorkspace(user.id)
+    if (!workspace) {
+      return NextResponse.json(
+        { error: 'You are not a member of any workspace' },
+        { status: 403 }
+      )
+    }
+
+    let query = supabase
+      .from('knowledge_entries')
+      .select('id, user_id, title, category, classification, deleted_at, deleted_by')
+      .eq('workspace_id', workspace.id)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+
+    if (workspace.role !== 'admin') {
+      query = query.eq('user_id', user.id)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching trash:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    const retentionDays = getTrashRetentionDays()
+
+    return NextResponse.json({
+      success: true,
+      data: (data || []).map(entry => ({
+        ...entry,
+        purge_at: getPurgeDate(entry.deleted_at!, retentionDays).toISOString(),
+      })),
+      retentionDays,
+    })
+  } catch (error) {
+    console.error('GET /api/entries/trash error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
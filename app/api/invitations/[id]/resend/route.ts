@@ -0,0 +1,100 @@
+/**
+ * API Route: /api/invitations/[id]/resend
+ *
+ * Issues a new token for an unaccepted invitation and restarts its expiry
+ * (POST). The previous link stops working. Revoked invitations are
+ * reinstated.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getUserRole } from '@/lib/api/auth-server'
+import {
+  INVITATION_COLUMNS,
+  canManageInvitation,
+  generateInviteToken,
+  getInvitationExpiry,
+  getInviteUrl,
+  toInvitation,
+} from '@/lib/api/invitations-server'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: invitationId } = await params
+
+    const { data: invitation, error: fetchError } = await supabase
+      .from('invitations')
+      .select('id, invited_by, accepted_at')
+      .eq('id', invitationId)
+      .single()
+
+    if (fetchError || !invitation) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!canManageInvitation(invitation, user.id, await getUserRole(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: You cannot manage this invitation' },
+        { status: 403 }
+      )
+    }
+
+    if (invitation.accepted_at) {
+      return NextResponse.json(
+        { error: 'This invitation has already been accepted' },
+        { status: 400 }
+      )
+    }
+
+    const { token, tokenHash } = generateInviteToken()
+
+    const { data, error } = await supabase
+      .from('invitations')
+      .update({
+        token_hash: tokenHash,
+        expires_at: getInvitationExpiry().toISOString(),
+        revoked_at: null,
+      })
+      .eq('id', invitationId)
+      .select(INVITATION_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error('Error resending invitation:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Invitation resent successfully',
+      data: toInvitation(data),
+      inviteUrl: getInviteUrl(token),
+    })
+  } catch (error) {
+    console.error('POST /api/invitations/[id]/resend error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
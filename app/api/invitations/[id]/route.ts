@@ -0,0 +1,84 @@
+/**
+ * API Route: /api/invitations/[id]
+ *
+ * Revokes a pending invitation (DELETE). Admins can revoke any
+ * invitation; managers can revoke the ones they issued.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getUserRole } from '@/lib/api/auth-server'
+import { canManageInvitation } from '@/lib/api/invitations-server'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: invitationId } = await params
+
+    const { data: invitation, error: fetchError } = await supabase
+      .from('invitations')
+      .select('id, invited_by, accepted_at, revoked_at')
+      .eq('id', invitationId)
+      .single()
+
+    if (fetchError || !invitation) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!canManageInvitation(invitation, user.id, await getUserRole(user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: You cannot manage this invitation' },
+        { status: 403 }
+      )
+    }
+
+    if (invitation.accepted_at) {
+      return NextResponse.json(
+        { error: 'This invitation has already been accepted' },
+        { status: 400 }
+      )
+    }
+
+    if (!invitation.revoked_at) {
+      const { error } = await supabase
+        .from('invitations')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', invitationId)
+
+      if (error) {
+        console.error('Error revoking invitation:', error)
+        return NextResponse.json(
+          { error: error.message },
+          { status: 500 }
+        )
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Invitation revoked successfully'
+    })
+  } catch (error) {
+    console.error('DELETE /api/invitations/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * API Route: /api/invitations/accept
+ *
+ * Accepts an invitation for the user who just signed up (POST). The
+ * database function checks the token is unused, unexpired and unrevoked
+ * and that it was issued for the user's email, then creates the user's
+ * role and workspace membership and marks the invitation used.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { hashInviteToken } from '@/lib/api/invitations-server'
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { token, full_name } = body
+
+    if (typeof token !== 'string' || !token) {
+      return NextResponse.json(
+        { error: 'token is required' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase.rpc('accept_invitation', {
+      invite_token_hash: hashInviteToken(token),
+      full_name: typeof full_name === 'string' ? full_name : null,
+    })
+
+    if (error) {
+      console.error('Error accepting invitation:', error)
+      return NextResponse.json(
+        { error: 'This invitation is invalid, expired or was issued for a different email' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Invitation accepted'
+    })
+  } catch (error) {
+    console.error('POST /api/invitations/accept error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * API Route: /api/invitations/lookup
+ *
+ * Public endpoint used by the signup page. Returns whether signup is
+ * invite-only and, for a valid `?token=`, the invited email, role and
+ * workspace. Invalid, expired, used and revoked tokens return no
+ * invitation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { hashInviteToken, isInviteOnly } from '@/lib/api/invitations-server'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const token = request.nextUrl.searchParams.get('token')
+
+    let invitation = null
+    if (token) {
+      // Runs as a database function: invitations are not readable without a session
+      const { data, error } = await supabase.rpc('lookup_invitation', {
+        invite_token_hash: hashInviteToken(token),
+      })
+
+      if (error) {
+        console.error('Error looking up invitation:', error)
+      }
+
+      invitation = Array.isArray(data) ? data[0] || null : data || null
+    }
+
+    return NextResponse.json({
+      success: true,
+      inviteOnly: await isInviteOnly(supabase),
+      invitation,
+    })
+  } catch (error) {
+    console.error('GET /api/invitations/lookup error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
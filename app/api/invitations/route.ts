@@ -0,0 +1,197 @@
+/**
+ * API Route: /api/invitations
+ *
+ * Lists invitations (GET) and issues new ones (POST). Admins see every
+ * invitation; managers see the ones they issued. An invitation grants its
+ * role both globally and in the chosen workspace, so managers can only
+ * invite members and viewers into workspaces they manage.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getUserRole, UserRole } from '@/lib/api/auth-server'
+import { getWorkspaceRole } from '@/lib/api/workspaces-server'
+import {
+  INVITATION_COLUMNS,
+  canInviteRole,
+  generateInviteToken,
+  getInvitationExpiry,
+  getInviteUrl,
+  isInviteOnly,
+  toInvitation,
+} from '@/lib/api/invitations-server'
+
+const VALID_ROLES = ['admin', 'manager', 'member', 'viewer']
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const userRole = await getUserRole(user.id)
+    if (userRole !== 'admin' && userRole !== 'manager') {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins and managers can manage invitations' },
+        { status: 403 }
+      )
+    }
+
+    let query = supabase
+      .from('invitations')
+      .select(INVITATION_COLUMNS)
+      .order('created_at', { ascending: false })
+
+    if (userRole !== 'admin') {
+      query = query.eq('invited_by', user.id)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Error fetching invitations:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: (data || []).map(toInvitation),
+      inviteOnly: await isInviteOnly(supabase),
+    })
+  } catch (error) {
+    console.error('GET /api/invitations error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : ''
+    const { role, workspace_id } = body
+
+    if (!email || !email.includes('@')) {
+      return NextResponse.json(
+        { error: 'A valid email is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!VALID_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: 'Invalid role' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof workspace_id !== 'string' || !workspace_id) {
+      return NextResponse.json(
+        { error: 'workspace_id is required' },
+        { status: 400 }
+      )
+    }
+
+    // Both the global role and the role in the target workspace must allow it
+    const [userRole, workspaceRole] = await Promise.all([
+      getUserRole(user.id),
+      getWorkspaceRole(workspace_id, user.id),
+    ])
+    if (!canInviteRole(userRole, role as UserRole) || !canInviteRole(workspaceRole, role as UserRole)) {
+      return NextResponse.json(
+        { error: `Forbidden: You cannot invite a ${role} to this workspace` },
+        { status: 403 }
+      )
+    }
+
+    // Exact match: the email must never be used as a pattern
+    const { data: existingUser } = await supabase
+      .from('user_roles')
+      .select('user_id')
+      .eq('email_normalized', email)
+      .maybeSingle()
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'A user with this email already exists' },
+        { status: 409 }
+      )
+    }
+
+    const { data: pending } = await supabase
+      .from('invitations')
+      .select('id')
+      .eq('email', email)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .limit(1)
+
+    if (pending && pending.length > 0) {
+      return NextResponse.json(
+        { error: 'An invitation is already pending for this email. Resend it instead.' },
+        { status: 409 }
+      )
+    }
+
+    const { token, tokenHash } = generateInviteToken()
+
+    const { data, error } = await supabase
+      .from('invitations')
+      .insert({
+        email,
+        role,
+        workspace_id,
+        token_hash: tokenHash,
+        invited_by: user.id,
+        expires_at: getInvitationExpiry().toISOString(),
+        created_at: new Date().toISOString(),
+      })
+      .select(INVITATION_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error('Error creating invitation:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Invitation created successfully',
+      data: toInvitation(data),
+      inviteUrl: getInviteUrl(token),
+    })
+  } catch (error) {
+    console.error('POST /api/invitations error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * API Route: /api/invitations/settings
+ *
+ * Turns invite-only signup on or off (PUT, admin only). When it is on,
+ * the database rejects self-service signups without a valid invitation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdmin } from '@/lib/api/auth-server'
+import { adminOnlyResponse } from '@/lib/api/admin-server'
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAdmin(user.id))) {
+      return adminOnlyResponse()
+    }
+
+    const body = await request.json()
+    if (typeof body.inviteOnly !== 'boolean') {
+      return NextResponse.json(
+        { error: 'inviteOnly must be true or false' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('app_settings')
+      .upsert({
+        key: 'invite_only',
+        value: body.inviteOnly,
+        updated_by: user.id,
+        updated_at: new Date().toISOString(),
+      })
+
+    if (error) {
+      console.error('Error updating invite-only setting:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: body.inviteOnly ? 'Signup is now invite-only' : 'Open signup is enabled',
+      inviteOnly: body.inviteOnly
+    })
+  } catch (error) {
+    console.error('PUT /api/invitations/settings error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
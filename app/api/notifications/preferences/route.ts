@@ -0,0 +1,122 @@
+/**
+ * API Route: /api/notifications/preferences
+ *
+ * GET: The current user's expiration notification preferences
+ * PUT: Save them - `{ channels, webhook_url?, slack_webhook_url? }`
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getUserNotificationPreferences } from '@/lib/api/notifications-server'
+import { validateWebhookUrl } from '@/lib/api/notification-channels-server'
+import { NOTIFICATION_CHANNELS, NotificationChannelType } from '@/lib/api/notifications'
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getUserNotificationPreferences(supabase, user.id),
+    })
+  } catch (error) {
+    console.error('GET /api/notifications/preferences error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    if (!Array.isArray(body.channels) || body.channels.some((c: unknown) => !NOTIFICATION_CHANNELS.includes(c as NotificationChannelType))) {
+      return NextResponse.json(
+        { error: `channels must be a list of: ${NOTIFICATION_CHANNELS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const channels = [...new Set(body.channels as NotificationChannelType[])]
+    const urls: Record<'webhook_url' | 'slack_webhook_url', string | null> = {
+      webhook_url: null,
+      slack_webhook_url: null,
+    }
+
+    for (const [key, channel] of [['webhook_url', 'webhook'], ['slack_webhook_url', 'slack']] as const) {
+      const value = typeof body[key] === 'string' ? body[key].trim() : ''
+
+      if (!value) {
+        if (channels.includes(channel)) {
+          return NextResponse.json(
+            { error: `A URL is required for the ${channel} channel` },
+            { status: 400 }
+          )
+        }
+        continue
+      }
+
+      const invalid = await validateWebhookUrl(value)
+      if (invalid) {
+        return NextResponse.json(
+          { error: invalid, field: key },
+          { status: 400 }
+        )
+      }
+      urls[key] = value
+    }
+
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .upsert({
+        user_id: user.id,
+        channels,
+        ...urls,
+        updated_at: new Date().toISOString(),
+      })
+      .select('channels, webhook_url, slack_webhook_url')
+      .single()
+
+    if (error) {
+      console.error('Error saving notification preferences:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Notification preferences saved',
+      data
+    })
+  } catch (error) {
+    console.error('PUT /api/notifications/preferences error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * API Route: /api/rotation-tasks/[id]
+ *
+ * Starts, snoozes, reopens or reassigns a rotation task (PATCH). Allowed
+ * for the assignee, anyone who can edit the entry and workspace admins and
+ * managers. Tasks are only marked done by rotating the entry.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getWorkspaceRole } from '@/lib/api/workspaces-server'
+import { authorizeEntry } from '@/lib/api/access-control'
+import { getActiveRotationTask, ROTATOR_ROLES } from '@/lib/api/rotation-tasks-server'
+
+/**
+ * Longest a task can be snoozed, in days
+ */
+const MAX_SNOOZE_DAYS = 30
+
+const STATUSES = ['open', 'in_progress', 'snoozed']
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: taskId } = await params
+    const body = await request.json().catch(() => ({}))
+    const { status, snoozed_until: snoozedUntil, assigned_to: assignedTo } = body
+
+    if (status === 'done') {
+      return NextResponse.json(
+        { error: 'Rotate the credential from its edit page to complete the task' },
+        { status: 400 }
+      )
+    }
+
+    if (status !== undefined && !STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (status === undefined && assignedTo === undefined) {
+      return NextResponse.json(
+        { error: 'Nothing to update' },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date()
+    if (status === 'snoozed') {
+      const until = new Date(snoozedUntil)
+      if (!snoozedUntil || isNaN(until.getTime()) || until <= now) {
+        return NextResponse.json(
+          { error: 'snoozed_until must be a future date' },
+          { status: 400 }
+        )
+      }
+      if (until.getTime() - now.getTime() > MAX_SNOOZE_DAYS * 24 * 60 * 60 * 1000) {
+        return NextResponse.json(
+          { error: `Tasks can be snoozed for at most ${MAX_SNOOZE_DAYS} days` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const task = await getActiveRotationTask(supabase, taskId)
+    if (!task) {
+      return NextResponse.json(
+        { error: 'Rotation task not found or already done' },
+        { status: 404 }
+      )
+    }
+
+    // The assignee, workspace admins and managers, and editors of the entry
+    const role = await getWorkspaceRole(task.workspace_id, user.id)
+    let allowed = task.assigned_to === user.id || role === 'admin' || role === 'manager'
+    if (!allowed && role) {
+      const { data: entry } = await supabase
+        .from('knowledge_entries')
+        .select('*')
+        .eq('id', task.entry_id)
+        .is('deleted_at', null)
+        .maybeSingle()
+      allowed = !!entry && await authorizeEntry(entry, user.id, 'edit')
+    }
+
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Forbidden: You cannot update this rotation task', code: 'FORBIDDEN' },
+        { status: 403 }
+      )
+    }
+
+    if (assignedTo !== undefined) {
+      const assigneeRole = typeof assignedTo === 'string' ? await getWorkspaceRole(task.workspace_id, assignedTo) : null
+      if (!assigneeRole || !ROTATOR_ROLES.includes(assigneeRole)) {
+        return NextResponse.json(
+          { error: 'assigned_to must be a workspace member who can edit entries' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('rotation_tasks')
+      .update({
+        ...(status !== undefined && {
+          status,
+          snoozed_until: status === 'snoozed' ? new Date(snoozedUntil).toISOString() : null,
+        }),
+        ...(assignedTo !== undefined && { assigned_to: assignedTo }),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', taskId)
+      .eq('status', task.status)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating rotation task:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'The task was changed by someone else, reload and try again' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Rotation task updated',
+      data
+    })
+  } catch (error) {
+    console.error('PATCH /api/rotation-tasks/[id] error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
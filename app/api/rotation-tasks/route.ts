@@ -0,0 +1,44 @@
+/**
+ * API Route: /api/rotation-tasks
+ *
+ * GET lists the current user's open rotation tasks in the active
+ * workspace. Workspace admins and managers also get the number of overdue
+ * rotations per assignee.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getActiveWorkspace } from '@/lib/api/workspaces-server'
+import { forbiddenResponse } from '@/lib/api/access-control'
+import { getRotationOverview } from '@/lib/api/rotation-tasks-server'
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const workspace = await getActiveWorkspace(user.id)
+    if (!workspace) {
+      return forbiddenResponse('view')
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getRotationOverview(supabase, user.id, workspace),
+    })
+  } catch (error) {
+    console.error('GET /api/rotation-tasks error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
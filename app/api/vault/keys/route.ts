@@ -0,0 +1,129 @@
+/**
+ * API Route: /api/vault/keys
+ * 
+ * Get (GET) or create (POST) the current user's zero-knowledge vault keys.
+ * The private key is encrypted in the browser with the user's vault
+ * passphrase before it reaches this route.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('user_vault_keys')
+      .select('public_key, encrypted_private_key, kdf_salt, kdf_iterations')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching vault keys:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      userId: user.id,
+      data
+    })
+  } catch (error) {
+    console.error('GET /api/vault/keys error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { public_key, encrypted_private_key, kdf_salt, kdf_iterations } = body
+
+    // Validate required fields
+    if (!public_key || !encrypted_private_key || !kdf_salt || !kdf_iterations) {
+      return NextResponse.json(
+        { error: 'public_key, encrypted_private_key, kdf_salt and kdf_iterations are required' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof kdf_iterations !== 'number' || kdf_iterations < 100000) {
+      return NextResponse.json(
+        { error: 'kdf_iterations must be at least 100000' },
+        { status: 400 }
+      )
+    }
+
+    // Existing vault keys cannot be replaced: entries are wrapped for them
+    const { data: existing } = await supabase
+      .from('user_vault_keys')
+      .select('user_id')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'Vault is already set up for this user' },
+        { status: 409 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('user_vault_keys')
+      .insert({
+        user_id: user.id,
+        email: user.email,
+        public_key,
+        encrypted_private_key,
+        kdf_salt,
+        kdf_iterations,
+        created_at: new Date().toISOString(),
+      })
+
+    if (error) {
+      console.error('Error creating vault keys:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Vault created successfully'
+    }, { status: 201 })
+  } catch (error) {
+    console.error('POST /api/vault/keys error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
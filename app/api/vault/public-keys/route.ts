@@ -0,0 +1,48 @@
+/**
+ * API Route: /api/vault/public-keys
+ * 
+ * List vault public keys so entry keys can be wrapped for teammates
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Only public fields - never the encrypted private keys of other users
+    const { data, error } = await supabase
+      .from('user_vault_keys')
+      .select('user_id, email, public_key')
+      .order('email', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching vault public keys:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: data || []
+    })
+  } catch (error) {
+    console.error('GET /api/vault/public-keys error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
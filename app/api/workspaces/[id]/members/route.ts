@@ -0,0 +1,246 @@
+/**
+ * API Route: /api/workspaces/[id]/members
+ *
+ * Workspace membership. GET lists members (any member), POST adds a
+ * member or changes their role, DELETE removes a member. Only workspace
+ * admins can change membership.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getWorkspaceRole } from '@/lib/api/workspaces-server'
+
+const VALID_ROLES = ['admin', 'manager', 'member', 'viewer']
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: workspaceId } = await params
+
+    if (!(await getWorkspaceRole(workspaceId, user.id))) {
+      return NextResponse.json(
+        { error: 'Forbidden: You are not a member of this workspace' },
+        { status: 403 }
+      )
+    }
+
+    const { data: members, error } = await supabase
+      .from('workspace_members')
+      .select('user_id, role, created_at')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching workspace members:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    // Resolve emails for display
+    const userIds = (members || []).map(member => member.user_id)
+    const { data: users } = userIds.length > 0
+      ? await supabase.from('user_roles').select('user_id, email').in('user_id', userIds)
+      : { data: [] as { user_id: string; email: string }[] }
+
+    return NextResponse.json({
+      success: true,
+      data: (members || []).map(member => ({
+        ...member,
+        email: users?.find(u => u.user_id === member.user_id)?.email || member.user_id,
+      })),
+    })
+  } catch (error) {
+    console.error('GET /api/workspaces/[id]/members error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: workspaceId } = await params
+
+    if ((await getWorkspaceRole(workspaceId, user.id)) !== 'admin') {
+      return NextResponse.json(
+        { error: 'Forbidden: Only workspace admins can manage members' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { email, role } = body
+
+    if (!VALID_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: 'Invalid role' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof email !== 'string' || !email.trim()) {
+      return NextResponse.json(
+        { error: 'email is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data: target } = await supabase
+      .from('user_roles')
+      .select('user_id, status')
+      .eq('email', email.trim())
+      .maybeSingle()
+
+    if (!target) {
+      return NextResponse.json(
+        { error: 'No user found with that email' },
+        { status: 404 }
+      )
+    }
+
+    if (target.status && target.status !== 'active') {
+      return NextResponse.json(
+        { error: 'That account has not been approved or is deactivated' },
+        { status: 400 }
+      )
+    }
+
+    if (target.user_id === user.id && role !== 'admin') {
+      return NextResponse.json(
+        { error: 'You cannot remove your own admin role' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .upsert(
+        {
+          workspace_id: workspaceId,
+          user_id: target.user_id,
+          role,
+          added_by: user.id,
+        },
+        { onConflict: 'workspace_id,user_id' }
+      )
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving workspace member:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Member saved successfully',
+      data
+    })
+  } catch (error) {
+    console.error('POST /api/workspaces/[id]/members error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: workspaceId } = await params
+    const memberId = request.nextUrl.searchParams.get('userId')
+
+    if (!memberId) {
+      return NextResponse.json(
+        { error: 'userId is required' },
+        { status: 400 }
+      )
+    }
+
+    if ((await getWorkspaceRole(workspaceId, user.id)) !== 'admin') {
+      return NextResponse.json(
+        { error: 'Forbidden: Only workspace admins can manage members' },
+        { status: 403 }
+      )
+    }
+
+    if (memberId === user.id) {
+      return NextResponse.json(
+        { error: 'You cannot remove yourself from a workspace' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', memberId)
+
+    if (error) {
+      console.error('Error removing workspace member:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Member removed successfully'
+    })
+  } catch (error) {
+    console.error('DELETE /api/workspaces/[id]/members error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * API Route: /api/workspaces/active
+ *
+ * Switches the active workspace (POST). The selection is kept in a
+ * cookie and only accepted for workspaces the user is a member of.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getWorkspaceRole } from '@/lib/api/workspaces-server'
+import { ACTIVE_WORKSPACE_COOKIE } from '@/lib/api/workspaces'
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { workspaceId } = body
+
+    if (typeof workspaceId !== 'string' || !workspaceId) {
+      return NextResponse.json(
+        { error: 'workspaceId is required' },
+        { status: 400 }
+      )
+    }
+
+    const role = await getWorkspaceRole(workspaceId, user.id)
+    if (!role) {
+      return NextResponse.json(
+        { error: 'Forbidden: You are not a member of this workspace' },
+        { status: 403 }
+      )
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Workspace switched successfully',
+      data: { workspaceId, role },
+    })
+    response.cookies.set(ACTIVE_WORKSPACE_COOKIE, workspaceId, {
+      path: '/',
+      sameSite: 'lax',
+      maxAge: 60 * 60 * 24 * 365,
+    })
+    return response
+  } catch (error) {
+    console.error('POST /api/workspaces/active error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
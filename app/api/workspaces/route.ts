@@ -0,0 +1,133 @@
+/**
+ * API Route: /api/workspaces
+ *
+ * Lists the user's workspaces with their role in each (GET) and
+ * creates a workspace (POST, admins only). The creator becomes the
+ * workspace admin and the new workspace becomes active.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getUserRole } from '@/lib/api/auth-server'
+import { getActiveWorkspace, getUserWorkspaces } from '@/lib/api/workspaces-server'
+import { ACTIVE_WORKSPACE_COOKIE } from '@/lib/api/workspaces'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const [workspaces, activeWorkspace] = await Promise.all([
+      getUserWorkspaces(user.id),
+      getActiveWorkspace(user.id),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: workspaces,
+      activeWorkspaceId: activeWorkspace?.id || null,
+    })
+  } catch (error) {
+    console.error('GET /api/workspaces error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const userRole = await getUserRole(user.id)
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can create workspaces' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'name is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data: workspace, error } = await supabase
+      .from('workspaces')
+      .insert({
+        name,
+        created_by: user.id,
+        created_at: new Date().toISOString(),
+      })
+      .select('id, name')
+      .single()
+
+    if (error) {
+      console.error('Error creating workspace:', error)
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      )
+    }
+
+    const { error: memberError } = await supabase
+      .from('workspace_members')
+      .insert({
+        workspace_id: workspace.id,
+        user_id: user.id,
+        role: 'admin',
+        added_by: user.id,
+        created_at: new Date().toISOString(),
+      })
+
+    if (memberError) {
+      console.error('Error adding workspace creator:', memberError)
+      await supabase.from('workspaces').delete().eq('id', workspace.id)
+      return NextResponse.json(
+        { error: memberError.message },
+        { status: 500 }
+      )
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Workspace created successfully',
+      data: { ...workspace, role: 'admin' },
+    })
+    response.cookies.set(ACTIVE_WORKSPACE_COOKIE, workspace.id, {
+      path: '/',
+      sameSite: 'lax',
+      maxAge: 60 * 60 * 24 * 365,
+    })
+    return response
+  } catch (error) {
+    console.error('POST /api/workspaces error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -4,13 +4,17 @@
  * Signup Page Component
  * 
  * Provides user registration with email/password and role selection.
+ * Only member and viewer can be requested; an admin approves new accounts.
+ * An `?invite=` link prefills and locks the email and role from the invitation,
+ * and when signup is invite-only the form requires a valid invitation.
  * Includes comprehensive form validation, error handling, and loading states.
  */
 
-import { useState, FormEvent } from 'react'
+import { useEffect, useState, FormEvent } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { signUp, UserRole } from '@/lib/api/auth'
+import { signUp, SignupRole } from '@/lib/api/auth'
+import { InvitationDetails, lookupInvitation } from '@/lib/api/invitations'
 import Logo from '@/components/Logo'
 
 export default function SignupPage() {
@@ -21,11 +25,36 @@ export default function SignupPage() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
-  const [role, setRole] = useState<UserRole>('member')
+  const [role, setRole] = useState<SignupRole>('member')
   const [agreeToTerms, setAgreeToTerms] = useState(false)
   const [error, setError] = useState('')
   const [isLoading, setIsLoading] = useState(false)
 
+  // Invitation state
+  const [inviteToken, setInviteToken] = useState<string | null>(null)
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null)
+  const [inviteOnly, setInviteOnly] = useState(false)
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('invite')
+    setInviteToken(token)
+
+    lookupInvitation(token)
+      .then(result => {
+        setInviteOnly(result.inviteOnly)
+        setInvitation(result.invitation)
+        if (result.invitation) {
+          setEmail(result.invitation.email)
+        } else if (token) {
+          setError('This invitation link is invalid, has expired or was already used.')
+        }
+      })
+      .catch(err => console.error('Invitation lookup error:', err))
+  }, [])
+
+  // Invite-only signup needs a valid invitation
+  const signupBlocked = inviteOnly && !invitation
+
   /**
    * Validate email format
    */
@@ -67,11 +96,16 @@ export default function SignupPage() {
       return
     }
 
+    if (signupBlocked) {
+      setError('Signup is by invitation only. Ask an admin or manager for an invite.')
+      return
+    }
+
     setIsLoading(true)
 
     try {
       // Attempt to sign up
-      const result = await signUp(email, password, role, fullName)
+      const result = await signUp(email, password, role, fullName, invitation ? inviteToken || undefined : undefined)
 
       if (result.success) {
         // Redirect to login on success
@@ -105,6 +139,12 @@ export default function SignupPage() {
         {/* Signup Form */}
         <div className="bg-white shadow-xl rounded-2xl p-8">
           <form onSubmit={handleSubmit} className="space-y-6">
+            {signupBlocked && !error && (
+              <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-4 text-sm">
+                Signup is by invitation only. Ask an admin or manager for an invite link.
+              </div>
+            )}
+
             {/* Error Message */}
             {error && (
               <div
@@ -154,8 +194,9 @@ export default function SignupPage() {
                 required
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
-                className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent transition-all duration-200 text-slate-900 placeholder:text-slate-400"
+                className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent transition-all duration-200 text-slate-900 placeholder:text-slate-400 read-only:bg-slate-100"
                 placeholder="you@example.com"
+                readOnly={!!invitation}
                 disabled={isLoading}
               />
             </div>
@@ -207,97 +248,65 @@ export default function SignupPage() {
               />
             </div>
 
-            {/* Role Selection */}
-            <div>
-              <label className="block text-sm font-medium text-slate-700 mb-3">
-                Select Your Role <span className="text-red-500">*</span>
-              </label>
-              <div className="space-y-3">
-                {/* Admin Role */}
-                <label className="flex items-start cursor-pointer">
-                  <input
-                    type="radio"
-                    name="role"
-                    value="admin"
-                    checked={role === 'admin'}
-                    onChange={(e) => setRole(e.target.value as UserRole)}
-                    className="mt-1 h-4 w-4 text-teal-600 focus:ring-teal-500 border-slate-300"
-                    disabled={isLoading}
-                  />
-                  <div className="ml-3">
-                    <span className="block text-sm font-medium text-slate-900">
-                      Admin
-                    </span>
-                    <span className="block text-xs text-slate-500">
-                      Full access to all features and user management
-                    </span>
-                  </div>
-                </label>
-
-                {/* Manager Role */}
-                <label className="flex items-start cursor-pointer">
-                  <input
-                    type="radio"
-                    name="role"
-                    value="manager"
-                    checked={role === 'manager'}
-                    onChange={(e) => setRole(e.target.value as UserRole)}
-                    className="mt-1 h-4 w-4 text-teal-600 focus:ring-teal-500 border-slate-300"
-                    disabled={isLoading}
-                  />
-                  <div className="ml-3">
-                    <span className="block text-sm font-medium text-slate-900">
-                      Manager
-                    </span>
-                    <span className="block text-xs text-slate-500">
-                      Can create, edit, and manage team content
-                    </span>
-                  </div>
-                </label>
-
-                {/* Member Role */}
-                <label className="flex items-start cursor-pointer">
-                  <input
-                    type="radio"
-                    name="role"
-                    value="member"
-                    checked={role === 'member'}
-                    onChange={(e) => setRole(e.target.value as UserRole)}
-                    className="mt-1 h-4 w-4 text-teal-600 focus:ring-teal-500 border-slate-300"
-                    disabled={isLoading}
-                  />
-                  <div className="ml-3">
-                    <span className="block text-sm font-medium text-slate-900">
-                      Member
-                    </span>
-                    <span className="block text-xs text-slate-500">
-                      Can create and edit own content
-                    </span>
-                  </div>
+            {/* Role Selection (fixed by the invitation when there is one) */}
+            {invitation ? (
+              <div className="bg-teal-50 border border-teal-200 text-teal-800 rounded-lg p-4 text-sm">
+                You were invited as <span className="font-medium capitalize">{invitation.role}</span> to{' '}
+                <span className="font-medium">{invitation.workspace_name}</span>.
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-3">
+                  Select Your Role <span className="text-red-500">*</span>
                 </label>
+                <p className="text-xs text-slate-500 mb-3">
+                  An admin reviews new accounts and can grant manager or admin access.
+                </p>
+                <div className="space-y-3">
+                  {/* Member Role */}
+                  <label className="flex items-start cursor-pointer">
+                    <input
+                      type="radio"
+                      name="role"
+                      value="member"
+                      checked={role === 'member'}
+                      onChange={(e) => setRole(e.target.value as SignupRole)}
+                      className="mt-1 h-4 w-4 text-teal-600 focus:ring-teal-500 border-slate-300"
+                      disabled={isLoading}
+                    />
+                    <div className="ml-3">
+                      <span className="block text-sm font-medium text-slate-900">
+                        Member
+                      </span>
+                      <span className="block text-xs text-slate-500">
+                        Can create and edit own content
+                      </span>
+                    </div>
+                  </label>
 
-                {/* Viewer Role */}
-                <label className="flex items-start cursor-pointer">
-                  <input
-                    type="radio"
-                    name="role"
-                    value="viewer"
-                    checked={role === 'viewer'}
-                    onChange={(e) => setRole(e.target.value as UserRole)}
-                    className="mt-1 h-4 w-4 text-teal-600 focus:ring-teal-500 border-slate-300"
-                    disabled={isLoading}
-                  />
-                  <div className="ml-3">
-                    <span className="block text-sm font-medium text-slate-900">
-                      Viewer
-                    </span>
-                    <span className="block text-xs text-slate-500">
-                      Read-only access to shared content
-                    </span>
-                  </div>
-                </label>
+                  {/* Viewer Role */}
+                  <label className="flex items-start cursor-pointer">
+                    <input
+                      type="radio"
+                      name="role"
+                      value="viewer"
+                      checked={role === 'viewer'}
+                      onChange={(e) => setRole(e.target.value as SignupRole)}
+                      className="mt-1 h-4 w-4 text-teal-600 focus:ring-teal-500 border-slate-300"
+                      disabled={isLoading}
+                    />
+                    <div className="ml-3">
+                      <span className="block text-sm font-medium text-slate-900">
+                        Viewer
+                      </span>
+                      <span className="block text-xs text-slate-500">
+                        Read-only access to shared content
+                      </span>
+                    </div>
+                  </label>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Terms Checkbox */}
             <div className="flex items-start">
@@ -326,7 +335,7 @@ export default function SignupPage() {
             {/* Submit Button */}
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={isLoading || signupBlocked}
               className="w-full bg-teal-600 hover:bg-teal-700 text-white font-semibold py-3 px-4 rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2"
             >
               {isLoading ? (
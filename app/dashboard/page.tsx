@@ -7,11 +7,18 @@
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
 import { getUserProfile } from '@/lib/api/auth-server'
+import { getUserWorkspaces } from '@/lib/api/workspaces-server'
+import { countPendingBreakGlassReviews } from '@/lib/api/break-glass-server'
+import { countOpenAlerts } from '@/lib/api/anomalies-server'
+import { ACTIVE_WORKSPACE_COOKIE, pickActiveWorkspace } from '@/lib/api/workspaces'
+import { cookies } from 'next/headers'
 import Link from 'next/link'
 import EntriesGrid from '@/components/EntriesGrid'
 import Logo from '@/components/Logo'
 import UserIdDisplay from '@/components/UserIdDisplay'
 import ExpiringCredentialsAlert from '@/components/ExpiringCredentialsAlert'
+import RotationTasksWidget from '@/components/RotationTasksWidget'
+import WorkspaceSwitcher from '@/components/WorkspaceSwitcher'
 
 // Force dynamic rendering - requires authentication
 export const dynamic = 'force-dynamic'
@@ -32,6 +39,18 @@ export default async function DashboardPage() {
   // Get user profile with role
   const profile = await getUserProfile(user.id)
 
+  // Roles on the dashboard are the user's roles in the active workspace
+  const workspaces = await getUserWorkspaces(user.id)
+  const cookieStore = await cookies()
+  const workspace = pickActiveWorkspace(workspaces, cookieStore.get(ACTIVE_WORKSPACE_COOKIE)?.value)
+  const role = workspace?.role
+
+  // Admins are alerted to break-glass access and security alerts awaiting their review
+  const isActiveAdmin = profile?.role === 'admin' && profile.status === 'active'
+  const [pendingBreakGlass, openAlerts] = isActiveAdmin
+    ? await Promise.all([countPendingBreakGlassReviews(supabase), countOpenAlerts(supabase)])
+    : [0, 0]
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
       {/* Header */}
@@ -46,14 +65,85 @@ export default async function DashboardPage() {
               </div>
             </div>
             <div className="flex items-center gap-4">
+              <WorkspaceSwitcher
+                workspaces={workspaces}
+                activeWorkspaceId={workspace?.id || null}
+                canCreate={isActiveAdmin}
+              />
               <div className="text-right">
                 <p className="text-sm font-medium text-slate-900">
                   {profile?.full_name || user.email}
                 </p>
                 <p className="text-xs text-slate-600 capitalize">
-                  {profile?.role || 'Member'}
+                  {role || 'No access'}
                 </p>
               </div>
+              {(isActiveAdmin || role === 'admin' || role === 'manager') && (
+                <Link
+                  href="/approvals"
+                  className="px-4 py-2 text-sm font-medium text-slate-700 hover:text-slate-900 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors duration-200"
+                >
+                  Approvals
+                </Link>
+              )}
+              {(profile?.role === 'admin' || profile?.role === 'manager') && profile.status === 'active' && (
+                <Link
+                  href="/invitations"
+                  className="px-4 py-2 text-sm font-medium text-slate-700 hover:text-slate-900 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors duration-200"
+                >
+                  Invitations
+                </Link>
+              )}
+              {isActiveAdmin && (
+                <Link
+                  href="/admin/users"
+                  className="px-4 py-2 text-sm font-medium text-slate-700 hover:text-slate-900 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors duration-200"
+                >
+                  Users
+                </Link>
+              )}
+              {isActiveAdmin && (
+                <Link
+                  href="/admin/audit"
+                  className="px-4 py-2 text-sm font-medium text-slate-700 hover:text-slate-900 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors duration-200"
+                >
+                  Audit Log
+                </Link>
+              )}
+              {isActiveAdmin && (
+                <Link
+                  href="/admin/expiration-policies"
+                  className="px-4 py-2 text-sm font-medium text-slate-700 hover:text-slate-900 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors duration-200"
+                >
+                  Policies
+                </Link>
+              )}
+              {isActiveAdmin && (
+                <Link
+                  href="/admin/alerts"
+                  className="px-4 py-2 text-sm font-medium text-slate-700 hover:text-slate-900 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors duration-200"
+                >
+                  Alerts
+                </Link>
+              )}
+              <Link
+                href="/profile"
+                className="px-4 py-2 text-sm font-medium text-slate-700 hover:text-slate-900 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors duration-200"
+              >
+                Profile
+              </Link>
+              <Link
+                href="/notifications"
+                className="px-4 py-2 text-sm font-medium text-slate-700 hover:text-slate-900 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors duration-200"
+              >
+                Notifications
+              </Link>
+              <Link
+                href="/trash"
+                className="px-4 py-2 text-sm font-medium text-slate-700 hover:text-slate-900 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors duration-200"
+              >
+                Trash
+              </Link>
               <a
                 href="/auth/logout"
                 className="px-4 py-2 text-sm font-medium text-slate-700 hover:text-slate-900 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors duration-200"
@@ -67,6 +157,30 @@ export default async function DashboardPage() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {profile?.status === 'pending' && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl p-4 mb-8 text-sm">
+            Your account is awaiting admin approval. You will see entries once an admin approves it.
+          </div>
+        )}
+
+        {pendingBreakGlass > 0 && (
+          <Link
+            href="/admin/break-glass"
+            className="block bg-red-50 border border-red-300 text-red-800 rounded-xl p-4 mb-8 text-sm hover:bg-red-100 transition-colors"
+          >
+            <strong>{pendingBreakGlass}</strong> break-glass {pendingBreakGlass === 1 ? 'access is' : 'accesses are'} awaiting your review →
+          </Link>
+        )}
+
+        {openAlerts > 0 && (
+          <Link
+            href="/admin/alerts"
+            className="block bg-red-50 border border-red-300 text-red-800 rounded-xl p-4 mb-8 text-sm hover:bg-red-100 transition-colors"
+          >
+            <strong>{openAlerts}</strong> security {openAlerts === 1 ? 'alert needs' : 'alerts need'} attention →
+          </Link>
+        )}
+
         {/* Welcome Section */}
         <div className="bg-white rounded-2xl shadow-lg p-8 mb-8">
           <div className="flex items-center justify-between">
@@ -78,7 +192,7 @@ export default async function DashboardPage() {
                 Browse, search, and manage your team's knowledge base
               </p>
             </div>
-            {(profile?.role === 'admin' || profile?.role === 'manager' || profile?.role === 'member') && (
+            {(role === 'admin' || role === 'manager' || role === 'member') && (
               <Link
                 href="/entries/new"
                 className="px-6 py-3 bg-teal-600 hover:bg-teal-700 text-white font-medium rounded-lg transition-colors duration-200"
@@ -107,10 +221,10 @@ export default async function DashboardPage() {
                 <dd className="text-base text-slate-900">{user.email}</dd>
               </div>
               <div>
-                <dt className="text-sm font-medium text-slate-500">Role</dt>
+                <dt className="text-sm font-medium text-slate-500">Role in {workspace?.name || 'workspace'}</dt>
                 <dd className="text-base text-slate-900">
                   <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-teal-100 text-teal-800 capitalize">
-                    {profile?.role || 'Member'}
+                    {role || 'No access'}
                   </span>
                 </dd>
               </div>
@@ -122,7 +236,7 @@ export default async function DashboardPage() {
               Role Permissions
             </h3>
             <div className="space-y-3">
-              {profile?.role === 'admin' && (
+              {role === 'admin' && (
                 <div className="flex items-start">
                   <svg className="h-5 w-5 text-teal-600 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
                     <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
@@ -130,7 +244,7 @@ export default async function DashboardPage() {
                   <span className="ml-2 text-sm text-slate-700">Full system access and user management</span>
                 </div>
               )}
-              {(profile?.role === 'admin' || profile?.role === 'manager') && (
+              {(role === 'admin' || role === 'manager') && (
                 <div className="flex items-start">
                   <svg className="h-5 w-5 text-teal-600 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
                     <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
@@ -143,7 +257,7 @@ export default async function DashboardPage() {
                   <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                 </svg>
                 <span className="ml-2 text-sm text-slate-700">
-                  {profile?.role === 'viewer' ? 'View shared content' : 'Create and edit own content'}
+                  {role === 'viewer' ? 'View shared content' : 'Create and edit own content'}
                 </span>
               </div>
             </div>
@@ -151,10 +265,13 @@ export default async function DashboardPage() {
         </div>
 
         {/* Expiring Credentials Alert */}
-        <ExpiringCredentialsAlert />
+        <ExpiringCredentialsAlert key={workspace?.id} />
+
+        {/* Rotation Tasks */}
+        <RotationTasksWidget key={`rotation-${workspace?.id}`} />
 
         {/* Entries Grid */}
-        <EntriesGrid userRole={profile?.role || 'viewer'} />
+        <EntriesGrid key={workspace?.id} userRole={role || 'viewer'} />
       </main>
     </div>
   )
@@ -10,12 +10,23 @@ import { useState, useEffect, FormEvent } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import Logo from '@/components/Logo'
+import EntryFieldInputs from '@/components/EntryFieldInputs'
+import { getEntryKey, unlockVault } from '@/lib/api/vault'
+import { decryptContent, encryptContent } from '@/lib/utils/vault-crypto'
+import { fieldsFromForm, fieldsToForm, getFieldSchema, hasFieldSchema } from '@/lib/utils/entry-fields'
 
 interface PageProps {
   params: Promise<{ id: string }>
+  searchParams: Promise<{ rotationTask?: string }>
 }
 
-export default function EditEntryPage({ params }: PageProps) {
+interface Rotator {
+  user_id: string
+  email: string
+  role: string
+}
+
+export default function EditEntryPage({ params, searchParams }: PageProps) {
   const router = useRouter()
   const [entryId, setEntryId] = useState<string>('')
   const [loading, setLoading] = useState(true)
@@ -23,6 +34,8 @@ export default function EditEntryPage({ params }: PageProps) {
   // Form state
   const [title, setTitle] = useState('')
   const [content, setContent] = useState('')
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({})
+  const [hasContent, setHasContent] = useState(false)
   const [category, setCategory] = useState<'credential' | 'sop' | 'link' | 'document'>('document')
   const [classification, setClassification] = useState<'public' | 'internal' | 'confidential' | 'restricted'>('internal')
   const [tags, setTags] = useState('')
@@ -33,6 +46,14 @@ export default function EditEntryPage({ params }: PageProps) {
   const [existingFileName, setExistingFileName] = useState<string | null>(null)
   const [error, setError] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isClientEncrypted, setIsClientEncrypted] = useState(false)
+  const [cipherText, setCipherText] = useState('')
+  const [entryKey, setEntryKey] = useState<CryptoKey | null>(null)
+  const [vaultPassphrase, setVaultPassphrase] = useState('')
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const [rotatorId, setRotatorId] = useState('')
+  const [rotators, setRotators] = useState<Rotator[]>([])
+  const [rotationTaskId, setRotationTaskId] = useState<string | null>(null)
 
   useEffect(() => {
     params.then(p => {
@@ -41,6 +62,10 @@ export default function EditEntryPage({ params }: PageProps) {
     })
   }, [params])
 
+  useEffect(() => {
+    searchParams.then(q => setRotationTaskId(q.rotationTask || null))
+  }, [searchParams])
+
   const fetchEntry = async (id: string) => {
     try {
       const response = await fetch(`/api/entries/${id}`)
@@ -50,7 +75,15 @@ export default function EditEntryPage({ params }: PageProps) {
       const entry = data.data
 
       setTitle(entry.title)
-      setContent(entry.content)
+      if (entry.is_client_encrypted) {
+        // Decrypted locally once the vault is unlocked
+        setIsClientEncrypted(true)
+        setCipherText(entry.content)
+      } else {
+        setContent(entry.content)
+        setHasContent(!!entry.content)
+        setFieldValues(fieldsToForm(entry.category, entry.fields))
+      }
       setCategory(entry.category)
       setClassification(entry.classification)
       setTags(entry.tags?.join(', ') || '')
@@ -58,6 +91,8 @@ export default function EditEntryPage({ params }: PageProps) {
       setExpirationDate(entry.expiration_date ? entry.expiration_date.split('T')[0] : '')
       setExistingFileUrl(entry.file_url)
       setExistingFileName(entry.file_name)
+      setRotatorId(entry.rotator_id || '')
+      fetchRotators(entry.workspace_id)
     } catch (error) {
       console.error('Error fetching entry:', error)
       setError('Failed to load entry')
@@ -66,13 +101,58 @@ export default function EditEntryPage({ params }: PageProps) {
     }
   }
 
+  // Members who can edit entries can be designated to rotate this one
+  const fetchRotators = async (workspaceId: string) => {
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/members`)
+      if (!response.ok) return
+      const data = await response.json()
+      setRotators((data.data as Rotator[]).filter(member => member.role !== 'viewer'))
+    } catch (error) {
+      console.error('Error fetching workspace members:', error)
+    }
+  }
+
+  const handleUnlock = async () => {
+    setError('')
+    setIsUnlocking(true)
+
+    try {
+      const vault = await unlockVault(vaultPassphrase)
+      const { entryKey: key } = await getEntryKey(entryId, vault)
+      setContent(await decryptContent(key, cipherText))
+      setEntryKey(key)
+    } catch (err: any) {
+      console.error('Vault unlock error:', err)
+      setError(err.message || 'Failed to unlock vault')
+    } finally {
+      setVaultPassphrase('')
+      setIsUnlocking(false)
+    }
+  }
+
+  // Structured entries edit fields; free-text content stays editable if the entry has any
+  const useFields = hasFieldSchema(category) && !isClientEncrypted
+  const showContent = !useFields || hasContent
+
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setError('')
 
     // Validation
-    if (!title || !content || !category) {
-      setError('Title, content, and category are required')
+    if (!title || !category) {
+      setError('Title and category are required')
+      return
+    }
+
+    if (useFields) {
+      const missing = getFieldSchema(category).find(field => field.required && !fieldValues[field.key]?.trim())
+      if (missing) {
+        setError(`${missing.label} is required`)
+        return
+      }
+    } else if (!content) {
+      setError('Content is required')
       return
     }
 
@@ -107,6 +187,15 @@ export default function EditEntryPage({ params }: PageProps) {
         .map(tag => tag.trim())
         .filter(tag => tag.length > 0)
 
+      // Re-encrypt with the existing entry key so current recipients keep access
+      let submittedContent = content
+      if (isClientEncrypted) {
+        if (!entryKey) {
+          throw new Error('Unlock your vault before saving')
+        }
+        submittedContent = await encryptContent(entryKey, content)
+      }
+
       const response = await fetch(`/api/entries/${entryId}`, {
         method: 'PUT',
         headers: {
@@ -114,14 +203,17 @@ export default function EditEntryPage({ params }: PageProps) {
         },
         body: JSON.stringify({
           title,
-          content,
+          content: submittedContent,
+          fields: useFields ? fieldsFromForm(category, fieldValues) : null,
           category,
           classification,
           tags: tagArray,
           is_sensitive: isSensitive,
           expiration_date: expirationDate || null,
+          rotator_id: rotatorId || null,
           file_url: fileUrl,
           file_name: fileName,
+          ...(rotationTaskId && { rotation_task_id: rotationTaskId }),
         }),
       })
 
@@ -187,6 +279,15 @@ export default function EditEntryPage({ params }: PageProps) {
             </div>
           )}
 
+          {rotationTaskId && (
+            <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="text-sm text-amber-800">
+                You are rotating this credential. Replace the secret and set a later expiration date;
+                saving completes the rotation task.
+              </p>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* Title */}
             <div>
@@ -204,21 +305,60 @@ export default function EditEntryPage({ params }: PageProps) {
               />
             </div>
 
-            {/* Content */}
-            <div>
-              <label htmlFor="content" className="block text-sm font-medium text-slate-700 mb-2">
-                Content *
-              </label>
-              <textarea
-                id="content"
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                rows={10}
-                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 font-mono text-sm"
-                placeholder="Enter entry content..."
-                required
+            {/* Structured Fields */}
+            {useFields && (
+              <EntryFieldInputs
+                category={category}
+                values={fieldValues}
+                onChange={(key, value) => setFieldValues({ ...fieldValues, [key]: value })}
+                disabled={isSubmitting}
               />
-            </div>
+            )}
+
+            {/* Content */}
+            {showContent && (
+              <div>
+                <label htmlFor="content" className="block text-sm font-medium text-slate-700 mb-2">
+                  {useFields ? 'Additional Content' : 'Content *'}
+                </label>
+                {isClientEncrypted && !entryKey ? (
+                  <div className="bg-slate-50 rounded-lg p-4 border border-slate-200 space-y-3">
+                    <p className="text-sm text-slate-700">
+                      🔐 This entry is encrypted in your browser. Unlock your vault to edit its content.
+                    </p>
+                    <div className="flex gap-2">
+                      <input
+                        type="password"
+                        value={vaultPassphrase}
+                        onChange={(e) => setVaultPassphrase(e.target.value)}
+                        placeholder="Vault passphrase"
+                        className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                        disabled={isUnlocking}
+                        autoComplete="current-password"
+                      />
+                      <button
+                        type="button"
+                        onClick={handleUnlock}
+                        disabled={isUnlocking || !vaultPassphrase}
+                        className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {isUnlocking ? 'Unlocking...' : 'Unlock'}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <textarea
+                    id="content"
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    rows={10}
+                    className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 font-mono text-sm"
+                    placeholder="Enter entry content..."
+                    required={!useFields}
+                  />
+                )}
+              </div>
+            )}
 
             {/* Category & Classification */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -248,6 +388,7 @@ export default function EditEntryPage({ params }: PageProps) {
                   value={classification}
                   onChange={(e) => setClassification(e.target.value as any)}
                   className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                  disabled={isClientEncrypted}
                 >
                   <option value="public">Public</option>
                   <option value="internal">Internal</option>
@@ -340,6 +481,27 @@ export default function EditEntryPage({ params }: PageProps) {
               </div>
             </div>
 
+            {/* Designated Rotator */}
+            <div>
+              <label htmlFor="rotator" className="block text-sm font-medium text-slate-700 mb-2">
+                Designated Rotator (Optional)
+              </label>
+              <select
+                id="rotator"
+                value={rotatorId}
+                onChange={(e) => setRotatorId(e.target.value)}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500 text-slate-900"
+              >
+                <option value="">Entry owner</option>
+                {rotators.map(member => (
+                  <option key={member.user_id} value={member.user_id}>{member.email}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-slate-500">
+                Who is assigned the rotation task when this entry is about to expire
+              </p>
+            </div>
+
             {/* Submit Button */}
             <div className="flex gap-4 pt-4">
               <button
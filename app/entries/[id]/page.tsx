@@ -6,7 +6,11 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
-import { getUserRole } from '@/lib/api/auth-server'
+import { headers } from 'next/headers'
+import { authorizeEntry, canManageEntryAccess, getEntryRole } from '@/lib/api/access-control'
+import { canRequestBreakGlass, getActiveBreakGlassGrant } from '@/lib/api/break-glass-server'
+import { getDualControlClassifications, requiresRevealApproval } from '@/lib/api/approvals-server'
+import { logEntryAccess, tryLogEntryAccess } from '@/lib/api/access-log-server'
 import Link from 'next/link'
 import DeleteButton from '@/components/DeleteButton'
 import CopyButton from '@/components/CopyButton'
@@ -14,8 +18,16 @@ import AccessIndicator from '@/components/AccessIndicator'
 import SecurityBadge from '@/components/SecurityBadge'
 import AccessLogViewer from '@/components/AccessLogViewer'
 import ExportButton from '@/components/ExportButton'
+import VaultContent from '@/components/VaultContent'
+import EntryFieldList from '@/components/EntryFieldList'
+import TotpCode from '@/components/TotpCode'
+import EntryVersionHistory from '@/components/EntryVersionHistory'
+import EntrySharingPanel from '@/components/EntrySharingPanel'
+import BreakGlassRequest from '@/components/BreakGlassRequest'
+import RevealApproval from '@/components/RevealApproval'
 import Logo from '@/components/Logo'
-import { conditionalDecrypt } from '@/lib/utils/encryption'
+import { conditionalDecrypt, decryptEntryFields } from '@/lib/utils/encryption'
+import { getSensitiveFieldKeys } from '@/lib/utils/entry-fields'
 
 // Force dynamic rendering - requires authentication
 export const dynamic = 'force-dynamic'
@@ -29,7 +41,6 @@ export default async function EntryDetailPage({ params }: { params: Promise<{ id
     redirect('/auth/login')
   }
 
-  const userRole = await getUserRole(user.id)
   const { id } = await params
 
   // Fetch entry
@@ -37,33 +48,87 @@ export default async function EntryDetailPage({ params }: { params: Promise<{ id
     .from('knowledge_entries')
     .select('*')
     .eq('id', id)
+    .is('deleted_at', null)
     .single()
 
   if (error || !entry) {
     redirect('/dashboard')
   }
 
+  // Role in the entry's workspace
+  const userRole = await getEntryRole(entry, user.id)
+
+  // Check role and classification access
+  if (!(await authorizeEntry(entry, user.id, 'view'))) {
+    await tryLogEntryAccess(supabase, await headers(), { entryId: id, userId: user.id, action: 'view', outcome: 'denied' })
+
+    if (!canRequestBreakGlass(entry, user.id, userRole)) {
+      redirect('/dashboard')
+    }
+
+    // Restricted entry: offer break-glass access instead of the content
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+        <header className="bg-white shadow-sm border-b border-slate-200">
+          <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+            <div className="flex items-center gap-4">
+              <Link
+                href="/dashboard"
+                className="text-slate-600 hover:text-slate-900 text-sm font-medium flex items-center gap-1"
+              >
+                ← Back
+              </Link>
+              <div className="h-6 w-px bg-slate-300 mx-2"></div>
+              <Logo size="sm" showText={true} />
+            </div>
+          </div>
+        </header>
+        <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <BreakGlassRequest entryId={id} />
+        </main>
+      </div>
+    )
+  }
+
+  // Users who can only see this entry through break-glass get a warning banner
+  const breakGlassGrant = canRequestBreakGlass(entry, user.id, userRole)
+    ? await getActiveBreakGlassGrant(id, user.id)
+    : null
+
   // Update last accessed timestamp
   await supabase
     .from('knowledge_entries')
     .update({ last_accessed_at: new Date().toISOString() })
     .eq('id', id)
 
-  // Log the access
-  await supabase.from('access_logs').insert({
-    entry_id: id,
-    accessed_by: user.id,
-    action: 'view',
-    accessed_at: new Date().toISOString(),
-  })
-
-  // Decrypt content if sensitive
-  if (entry.is_sensitive && entry.content) {
-    entry.content = conditionalDecrypt(entry.content, entry.is_sensitive)
+  // Log the access; the page is not rendered without a record of it
+  await logEntryAccess(supabase, await headers(), { entryId: id, userId: user.id, action: 'view' })
+
+  // Under dual control the content is only revealed with an approved request
+  const needsApproval = requiresRevealApproval(entry, user.id, await getDualControlClassifications(supabase))
+  if (needsApproval) {
+    entry.content = ''
+    entry.fields = null
+  }
+
+  // Decrypt sensitive content and fields
+  let decryptionFailed = false
+  if (!entry.is_client_encrypted && !needsApproval) {
+    try {
+      entry.content = conditionalDecrypt(entry.content, entry.is_sensitive, entry)
+      entry.fields = decryptEntryFields(entry.fields, getSensitiveFieldKeys(entry.category), entry)
+    } catch (decryptError) {
+      console.error(`Failed to decrypt entry ${id}:`, decryptError)
+      decryptionFailed = true
+      entry.content = ''
+      entry.fields = null
+    }
   }
 
-  // Check if user can modify (creator or admin)
-  const canModify = user.id === entry.user_id || userRole === 'admin'
+  // Check what the user can change (same rules as the API)
+  const canModify = await authorizeEntry(entry, user.id, 'edit')
+  const canDelete = await authorizeEntry(entry, user.id, 'delete')
+  const canShare = canManageEntryAccess(entry, user.id, userRole)
 
   // Category badge colors
   const categoryColors = {
@@ -109,18 +174,16 @@ export default async function EntryDetailPage({ params }: { params: Promise<{ id
               <Logo size="sm" showText={true} />
             </div>
             <div className="flex gap-2">
-              <ExportButton entryId={id} entryTitle={entry.title} />
+              {!needsApproval && <ExportButton entryId={id} entryTitle={entry.title} />}
               {canModify && (
-                <>
-                  <Link
-                    href={`/entries/${id}/edit`}
-                    className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors"
-                  >
-                    Edit
-                  </Link>
-                  <DeleteButton entryId={id} />
-                </>
+                <Link
+                  href={`/entries/${id}/edit`}
+                  className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  Edit
+                </Link>
               )}
+              {canDelete && <DeleteButton entryId={id} />}
             </div>
           </div>
         </div>
@@ -128,6 +191,13 @@ export default async function EntryDetailPage({ params }: { params: Promise<{ id
 
       {/* Main Content */}
       <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+        {breakGlassGrant && (
+          <div className="bg-red-50 border border-red-300 text-red-800 rounded-xl p-4 text-sm">
+            <p className="font-semibold">Break-glass access until {formatDate(breakGlassGrant.expires_at)}</p>
+            <p>Every access is flagged in the audit trail and will be reviewed by an admin.</p>
+          </div>
+        )}
+
         {/* Entry Details Card */}
         <div className="bg-white rounded-2xl shadow-lg p-8">
           {/* Security Indicators */}
@@ -194,18 +264,54 @@ export default async function EntryDetailPage({ params }: { params: Promise<{ id
             </div>
           )}
 
-          {/* Content */}
-          <div className="mb-6">
-            <div className="flex items-center justify-between mb-2">
-              <h3 className="text-sm font-medium text-slate-700">Content</h3>
-              <CopyButton content={entry.content} />
+          {/* Dual control: request, then reveal or export once */}
+          {needsApproval && (
+            <div className="mb-6">
+              <RevealApproval
+                entryId={id}
+                entryTitle={entry.title}
+                category={entry.category}
+                classification={entry.classification}
+              />
             </div>
-            <div className="bg-slate-50 rounded-lg p-6 border border-slate-200">
-              <pre className="whitespace-pre-wrap font-mono text-sm text-slate-900">
-                {entry.content}
-              </pre>
+          )}
+
+          {/* Structured Fields */}
+          {entry.fields && (
+            <div className="mb-6">
+              <h3 className="text-sm font-medium text-slate-700 mb-2">Details</h3>
+              <EntryFieldList category={entry.category} fields={entry.fields} />
+              {entry.fields.totp && (
+                <div className="mt-4">
+                  <TotpCode entryId={id} />
+                </div>
+              )}
             </div>
-          </div>
+          )}
+
+          {/* Content */}
+          {!needsApproval && (entry.content || !entry.fields) && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-slate-700">Content</h3>
+                {!decryptionFailed && !entry.is_client_encrypted && <CopyButton content={entry.content} />}
+              </div>
+              {entry.is_client_encrypted ? (
+                <VaultContent entryId={id} cipherText={entry.content} isOwner={user.id === entry.user_id} />
+              ) : decryptionFailed ? (
+                <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-4 text-sm">
+                  <p className="font-medium">Unable to decrypt content</p>
+                  <p>The stored ciphertext failed integrity checks. Contact an administrator.</p>
+                </div>
+              ) : (
+                <div className="bg-slate-50 rounded-lg p-6 border border-slate-200">
+                  <pre className="whitespace-pre-wrap font-mono text-sm text-slate-900">
+                    {entry.content}
+                  </pre>
+                </div>
+              )}
+            </div>
+          )}
 
           {/* Attached Document */}
           {entry.file_url && entry.file_name && (
@@ -236,6 +342,12 @@ export default async function EntryDetailPage({ params }: { params: Promise<{ id
           )}
         </div>
 
+        {/* Sharing (owner or admin) */}
+        {canShare && <EntrySharingPanel entryId={id} />}
+
+        {/* Version History */}
+        <EntryVersionHistory entryId={id} canRestore={canModify} />
+
         {/* Access Log Viewer */}
         <AccessLogViewer entryId={id} userRole={userRole || 'viewer'} />
       </main>
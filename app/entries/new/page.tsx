@@ -10,6 +10,10 @@ import { useState, FormEvent } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import Logo from '@/components/Logo'
+import EntryFieldInputs from '@/components/EntryFieldInputs'
+import { createEntryKey, unlockVault } from '@/lib/api/vault'
+import { encryptContent } from '@/lib/utils/vault-crypto'
+import { fieldsFromForm, getFieldSchema, hasFieldSchema } from '@/lib/utils/entry-fields'
 
 export default function NewEntryPage() {
   const router = useRouter()
@@ -17,22 +21,40 @@ export default function NewEntryPage() {
   // Form state
   const [title, setTitle] = useState('')
   const [content, setContent] = useState('')
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({})
   const [category, setCategory] = useState<'credential' | 'sop' | 'link' | 'document'>('document')
   const [classification, setClassification] = useState<'public' | 'internal' | 'confidential' | 'restricted'>('internal')
   const [tags, setTags] = useState('')
   const [isSensitive, setIsSensitive] = useState(false)
   const [expirationDate, setExpirationDate] = useState('')
   const [file, setFile] = useState<File | null>(null)
+  const [useVault, setUseVault] = useState(false)
+  const [vaultPassphrase, setVaultPassphrase] = useState('')
   const [error, setError] = useState('')
   const [isLoading, setIsLoading] = useState(false)
 
+  // Zero-knowledge entries keep a single encrypted content blob
+  const clientEncrypted = useVault && classification === 'restricted'
+  const useFields = hasFieldSchema(category) && !clientEncrypted
+
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setError('')
 
     // Validation
-    if (!title || !content || !category) {
-      setError('Title, content, and category are required')
+    if (!title || !category) {
+      setError('Title and category are required')
+      return
+    }
+
+    if (useFields) {
+      const missing = getFieldSchema(category).find(field => field.required && !fieldValues[field.key]?.trim())
+      if (missing) {
+        setError(`${missing.label} is required`)
+        return
+      }
+    } else if (!content) {
+      setError('Content is required')
       return
     }
 
@@ -67,6 +89,17 @@ export default function NewEntryPage() {
         .map(tag => tag.trim())
         .filter(tag => tag.length > 0)
 
+      // Zero-knowledge mode: encrypt in the browser, send only ciphertext
+      let submittedContent = content
+      let keyGrants: { user_id: string; wrapped_key: string }[] = []
+
+      if (clientEncrypted) {
+        const vault = await unlockVault(vaultPassphrase)
+        const { entryKey, grant } = await createEntryKey(vault)
+        submittedContent = await encryptContent(entryKey, content)
+        keyGrants = [grant]
+      }
+
       const response = await fetch('/api/entries', {
         method: 'POST',
         headers: {
@@ -74,11 +107,14 @@ export default function NewEntryPage() {
         },
         body: JSON.stringify({
           title,
-          content,
+          content: useFields ? '' : submittedContent,
+          fields: useFields ? fieldsFromForm(category, fieldValues) : null,
           category,
           classification,
           tags: tagArray,
-          is_sensitive: isSensitive,
+          is_sensitive: isSensitive || clientEncrypted,
+          is_client_encrypted: clientEncrypted,
+          key_grants: keyGrants,
           expiration_date: expirationDate || null,
           file_url: fileUrl,
           file_name: fileName,
@@ -98,6 +134,7 @@ export default function NewEntryPage() {
       console.error('Create entry error:', err)
       setError(err.message || 'An unexpected error occurred')
     } finally {
+      setVaultPassphrase('')
       setIsLoading(false)
     }
   }
@@ -191,22 +228,31 @@ export default function NewEntryPage() {
               </select>
             </div>
 
-            {/* Content */}
-            <div>
-              <label htmlFor="content" className="block text-sm font-medium text-slate-700 mb-2">
-                Content <span className="text-red-500">*</span>
-              </label>
-              <textarea
-                id="content"
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                rows={10}
-                className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent text-slate-900 resize-none"
-                placeholder="Enter entry content..."
-                required
+            {/* Structured Fields or Content */}
+            {useFields ? (
+              <EntryFieldInputs
+                category={category}
+                values={fieldValues}
+                onChange={(key, value) => setFieldValues({ ...fieldValues, [key]: value })}
                 disabled={isLoading}
               />
-            </div>
+            ) : (
+              <div>
+                <label htmlFor="content" className="block text-sm font-medium text-slate-700 mb-2">
+                  Content <span className="text-red-500">*</span>
+                </label>
+                <textarea
+                  id="content"
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  rows={10}
+                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent text-slate-900 resize-none"
+                  placeholder="Enter entry content..."
+                  required
+                  disabled={isLoading}
+                />
+              </div>
+            )}
 
             {/* Tags */}
             <div>
@@ -270,6 +316,41 @@ export default function NewEntryPage() {
               </label>
             </div>
 
+            {/* Zero-Knowledge Vault (restricted only) */}
+            {classification === 'restricted' && (
+              <div className="border border-red-200 bg-red-50 rounded-lg p-4 space-y-3">
+                <div className="flex items-start">
+                  <input
+                    id="vault"
+                    type="checkbox"
+                    checked={useVault}
+                    onChange={(e) => setUseVault(e.target.checked)}
+                    className="h-4 w-4 text-teal-600 focus:ring-teal-500 border-slate-300 rounded mt-1"
+                    disabled={isLoading}
+                  />
+                  <label htmlFor="vault" className="ml-3 text-sm text-slate-700">
+                    <span className="font-medium">Encrypt in my browser (zero-knowledge vault)</span>
+                    <p className="text-slate-500">
+                      Content is encrypted with your vault passphrase before upload. The server cannot read it, and it cannot be recovered if the passphrase is lost.
+                    </p>
+                  </label>
+                </div>
+                {useVault && (
+                  <input
+                    type="password"
+                    value={vaultPassphrase}
+                    onChange={(e) => setVaultPassphrase(e.target.value)}
+                    className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent text-slate-900"
+                    placeholder="Vault passphrase (creates your vault on first use)"
+                    required
+                    minLength={12}
+                    disabled={isLoading}
+                    autoComplete="current-password"
+                  />
+                )}
+              </div>
+            )}
+
             {/* Expiration Date */}
             <div>
               <label htmlFor="expiration" className="block text-sm font-medium text-slate-700 mb-2">
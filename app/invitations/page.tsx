@@ -0,0 +1,72 @@
+/**
+ * Invitations Page - Protected Route
+ *
+ * Issue, resend and revoke signup invitations (admins and managers)
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { getUserRole } from '@/lib/api/auth-server'
+import { getUserWorkspaces } from '@/lib/api/workspaces-server'
+import { getInvitableRoles } from '@/lib/api/invitations-server'
+import Link from 'next/link'
+import Logo from '@/components/Logo'
+import InvitationManager from '@/components/InvitationManager'
+
+// Force dynamic rendering - requires authentication
+export const dynamic = 'force-dynamic'
+
+export default async function InvitationsPage() {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/auth/login')
+  }
+
+  const userRole = await getUserRole(user.id)
+  if (userRole !== 'admin' && userRole !== 'manager') {
+    redirect('/dashboard')
+  }
+
+  // Invitations can only target workspaces the user manages
+  const workspaces = (await getUserWorkspaces(user.id))
+    .filter(workspace => workspace.role === 'admin' || workspace.role === 'manager')
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/dashboard"
+              className="text-slate-600 hover:text-slate-900 text-sm font-medium flex items-center gap-1"
+            >
+              ← Back
+            </Link>
+            <div className="h-6 w-px bg-slate-300 mx-2"></div>
+            <Logo size="sm" showText={true} />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-slate-900 mb-2">Invitations</h1>
+          <p className="text-slate-600">
+            Invite people to a workspace with a single-use signup link.
+          </p>
+        </div>
+
+        <InvitationManager
+          workspaces={workspaces}
+          invitableRoles={getInvitableRoles(userRole)}
+          isAdmin={userRole === 'admin'}
+        />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+/**
+ * Profile Page - Protected Route
+ *
+ * The current user's account details and calendar feed
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import Logo from '@/components/Logo'
+import CalendarFeedSettings from '@/components/CalendarFeedSettings'
+import { getUserProfile } from '@/lib/api/auth-server'
+
+// Force dynamic rendering - requires authentication
+export const dynamic = 'force-dynamic'
+
+export default async function ProfilePage() {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/auth/login')
+  }
+
+  const profile = await getUserProfile(user.id)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/dashboard"
+              className="text-slate-600 hover:text-slate-900 text-sm font-medium flex items-center gap-1"
+            >
+              ← Back
+            </Link>
+            <div className="h-6 w-px bg-slate-300 mx-2"></div>
+            <Logo size="sm" showText={true} />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 mb-2">Profile</h1>
+          <p className="text-slate-600">
+            Your account and calendar subscription.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow p-6">
+          <h3 className="text-lg font-semibold text-slate-900 mb-4">Account</h3>
+          <dl className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <dt className="text-sm font-medium text-slate-500">Full Name</dt>
+              <dd className="text-base text-slate-900">{profile?.full_name || '—'}</dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-slate-500">Email</dt>
+              <dd className="text-base text-slate-900">{user.email}</dd>
+            </div>
+            <div>
+              <dt className="text-sm font-medium text-slate-500">Account Status</dt>
+              <dd className="text-base text-slate-900 capitalize">{profile?.status || 'pending'}</dd>
+            </div>
+          </dl>
+        </div>
+
+        <CalendarFeedSettings />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+/**
+ * Trash Page - Protected Route
+ *
+ * Deleted entries awaiting purge, with restore for owners and admins
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { redirect } from 'next/navigation'
+import { getActiveWorkspace } from '@/lib/api/workspaces-server'
+import Link from 'next/link'
+import Logo from '@/components/Logo'
+import TrashList from '@/components/TrashList'
+
+// Force dynamic rendering - requires authentication
+export const dynamic = 'force-dynamic'
+
+export default async function TrashPage() {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/auth/login')
+  }
+
+  const workspace = await getActiveWorkspace(user.id)
+  const userRole = workspace?.role
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/dashboard"
+              className="text-slate-600 hover:text-slate-900 text-sm font-medium flex items-center gap-1"
+            >
+              ← Back
+            </Link>
+            <div className="h-6 w-px bg-slate-300 mx-2"></div>
+            <Logo size="sm" showText={true} />
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-slate-900 mb-2">Trash</h1>
+          <p className="text-slate-600">
+            {userRole === 'admin'
+              ? `All deleted entries in ${workspace?.name}. Restore an entry to make it visible again.`
+              : 'Entries you deleted. Restore an entry to make it visible again.'}
+          </p>
+        </div>
+
+        <TrashList currentUserId={user.id} isAdmin={userRole === 'admin'} />
+      </main>
+    </div>
+  )
+}
@@ -7,8 +7,10 @@
  */
 
 import { useState, useEffect } from 'react'
+import { maskIPAddress } from '@/lib/api/logs'
 
-type AccessAction = 'view' | 'create' | 'update' | 'delete' | 'export'
+type AccessAction = 'view' | 'create' | 'update' | 'delete' | 'export' | 'totp' | 'restore' | 'purge' | 'break_glass'
+  | 'approval_requested' | 'approval_granted' | 'approval_denied' | 'reveal'
 
 interface AccessLog {
   id: string
@@ -17,6 +19,8 @@ interface AccessLog {
   ip_address: string | null
   user_agent: string | null
   user_email: string
+  break_glass_grant_id: string | null
+  outcome: 'allowed' | 'denied' | null
 }
 
 interface AccessLogViewerProps {
@@ -60,15 +64,6 @@ export default function AccessLogViewer({ entryId, userRole }: AccessLogViewerPr
     }
   }
 
-  const maskIPAddress = (ip: string | null): string => {
-    if (!ip) return 'Unknown'
-    const parts = ip.split('.')
-    if (parts.length === 4) {
-      return `${parts[0]}.xxx.xxx.xxx`
-    }
-    return 'xxx.xxx.xxx.xxx'
-  }
-
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString)
     return date.toLocaleString('en-US', {
@@ -87,18 +82,29 @@ export default function AccessLogViewer({ entryId, userRole }: AccessLogViewerPr
       update: 'bg-yellow-100 text-yellow-700',
       delete: 'bg-red-100 text-red-700',
       export: 'bg-purple-100 text-purple-700',
+      totp: 'bg-teal-100 text-teal-700',
+      restore: 'bg-orange-100 text-orange-700',
+      purge: 'bg-slate-200 text-slate-700',
+      break_glass: 'bg-red-600 text-white',
+      approval_requested: 'bg-amber-100 text-amber-800',
+      approval_granted: 'bg-green-100 text-green-800',
+      approval_denied: 'bg-red-100 text-red-700',
+      reveal: 'bg-purple-100 text-purple-700',
     }
 
     return (
       <span className={`px-2 py-1 text-xs font-medium rounded ${colors[action]}`}>
-        {action.toUpperCase()}
+        {action === 'break_glass' ? 'BREAK-GLASS' : action.replace('_', ' ').toUpperCase()}
       </span>
     )
   }
 
-  const filteredLogs = filterAction === 'all' 
-    ? logs 
-    : logs.filter(log => log.action === filterAction)
+  // Break-glass filter shows the grant and every access made under it
+  const filteredLogs = filterAction === 'all'
+    ? logs
+    : filterAction === 'break_glass'
+      ? logs.filter(log => log.break_glass_grant_id)
+      : logs.filter(log => log.action === filterAction)
 
   // Only show to admin/manager
   if (!['admin', 'manager'].includes(userRole)) {
@@ -143,6 +149,16 @@ export default function AccessLogViewer({ entryId, userRole }: AccessLogViewerPr
               <span>Views: <strong>{stats.total_views}</strong></span>
               <span>Updates: <strong>{stats.total_updates}</strong></span>
               <span>Users: <strong>{stats.unique_users}</strong></span>
+              {stats.denied_attempts > 0 && (
+                <span className="px-2 py-0.5 rounded bg-amber-100 text-amber-800">
+                  Denied: <strong>{stats.denied_attempts}</strong>
+                </span>
+              )}
+              {stats.break_glass_uses > 0 && (
+                <span className="px-2 py-0.5 rounded bg-red-100 text-red-700">
+                  Break-glass: <strong>{stats.break_glass_uses}</strong>
+                </span>
+              )}
             </div>
           )}
         </div>
@@ -159,7 +175,7 @@ export default function AccessLogViewer({ entryId, userRole }: AccessLogViewerPr
           >
             All
           </button>
-          {['view', 'create', 'update', 'delete', 'export'].map(action => (
+          {['view', 'create', 'update', 'delete', 'export', 'reveal', 'totp', 'restore', 'break_glass'].map(action => (
             <button
               key={action}
               onClick={() => setFilterAction(action as AccessAction)}
@@ -169,7 +185,7 @@ export default function AccessLogViewer({ entryId, userRole }: AccessLogViewerPr
                   : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
               }`}
             >
-              {action}
+              {action.replace('_', '-')}
             </button>
           ))}
         </div>
@@ -205,12 +221,27 @@ export default function AccessLogViewer({ entryId, userRole }: AccessLogViewerPr
             </thead>
             <tbody className="bg-white divide-y divide-slate-200">
               {filteredLogs.map((log) => (
-                <tr key={log.id} className="hover:bg-slate-50">
+                <tr
+                  key={log.id}
+                  className={log.break_glass_grant_id ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-slate-50'}
+                >
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900">
                     {log.user_email}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    {getActionBadge(log.action)}
+                    <span className="flex items-center gap-2">
+                      {getActionBadge(log.action)}
+                      {log.break_glass_grant_id && log.action !== 'break_glass' && (
+                        <span className="px-2 py-1 text-xs font-medium rounded bg-red-600 text-white">
+                          BREAK-GLASS
+                        </span>
+                      )}
+                      {log.outcome === 'denied' && (
+                        <span className="px-2 py-1 text-xs font-medium rounded bg-amber-100 text-amber-800">
+                          DENIED
+                        </span>
+                      )}
+                    </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
                     {formatDate(log.accessed_at)}
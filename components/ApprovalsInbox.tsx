@@ -0,0 +1,221 @@
+'use client'
+
+/**
+ * Approvals Inbox Component
+ *
+ * Pending reveal and export requests the user can approve or deny, the
+ * user's own requests, and (for admins) which classifications are under
+ * dual control
+ */
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { Classification } from '@/lib/api/access-control'
+import {
+  DUAL_CONTROL_CLASSIFICATIONS,
+  RevealRequest,
+  RevealRequestStatus,
+  decideRevealRequest,
+  getApprovals,
+  setDualControl,
+} from '@/lib/api/approvals'
+
+const STATUS_COLORS: Record<RevealRequestStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  denied: 'bg-red-100 text-red-700',
+  used: 'bg-slate-200 text-slate-700',
+  expired: 'bg-slate-200 text-slate-700',
+}
+
+export default function ApprovalsInbox({ isAdmin }: { isAdmin: boolean }) {
+  const [toReview, setToReview] = useState<RevealRequest[]>([])
+  const [mine, setMine] = useState<RevealRequest[]>([])
+  const [dualControl, setDualControlState] = useState<Classification[]>([])
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchApprovals()
+  }, [])
+
+  const fetchApprovals = async () => {
+    try {
+      const result = await getApprovals()
+      setToReview(result.toReview)
+      setMine(result.mine)
+      setDualControlState(result.dualControl)
+    } catch (err: any) {
+      console.error('Error fetching approvals:', err)
+      setError(err.message || 'Failed to load approvals')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDecision = async (request: RevealRequest, decision: 'approve' | 'deny') => {
+    setError('')
+    setBusyId(request.id)
+
+    try {
+      await decideRevealRequest(request.id, decision, notes[request.id])
+      setToReview(toReview.filter(r => r.id !== request.id))
+    } catch (err: any) {
+      console.error('Error deciding request:', err)
+      setError(err.message || 'Failed to record decision')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDualControlChange = async (classification: Classification, enabled: boolean) => {
+    setError('')
+    const next = enabled
+      ? [...dualControl, classification]
+      : dualControl.filter(c => c !== classification)
+
+    try {
+      await setDualControl(next)
+      setDualControlState(next)
+    } catch (err: any) {
+      console.error('Error updating dual control:', err)
+      setError(err.message || 'Failed to update dual control')
+    }
+  }
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-slate-200 rounded w-1/4"></div>
+          <div className="h-16 bg-slate-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="bg-white rounded-xl shadow p-6 space-y-3">
+          <h3 className="text-lg font-semibold text-slate-900">Dual control</h3>
+          <p className="text-sm text-slate-500">
+            Entries in these classifications can only be revealed or exported by their owner, or with an approved request.
+          </p>
+          <div className="flex gap-6">
+            {DUAL_CONTROL_CLASSIFICATIONS.map(classification => (
+              <label key={classification} className="flex items-center gap-2 text-sm text-slate-700 capitalize cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={dualControl.includes(classification)}
+                  onChange={(e) => handleDualControlChange(classification, e.target.checked)}
+                  className="h-4 w-4 text-teal-600 focus:ring-teal-500 border-slate-300 rounded"
+                />
+                {classification}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow">
+        <div className="p-6 border-b border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900">Awaiting your decision</h3>
+        </div>
+        {toReview.length === 0 ? (
+          <p className="p-6 text-sm text-slate-500">Nothing to review.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {toReview.map(request => (
+              <li key={request.id} className="px-6 py-4 space-y-2">
+                <p className="text-sm text-slate-900">
+                  <span className="font-medium">{request.requested_by_email}</span> wants to{' '}
+                  <span className="font-medium">{request.action}</span>{' '}
+                  <Link href={`/entries/${request.entry_id}`} className="text-teal-600 hover:text-teal-700">
+                    {request.entry_title}
+                  </Link>
+                  {request.entry_classification && (
+                    <span className="text-slate-500 capitalize"> ({request.entry_classification})</span>
+                  )}
+                </p>
+                <p className="text-sm text-slate-600">“{request.reason}” · {formatDate(request.created_at)}</p>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={notes[request.id] || ''}
+                    onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                    placeholder="Note (optional)"
+                    className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+                  />
+                  <button
+                    onClick={() => handleDecision(request, 'approve')}
+                    disabled={busyId === request.id}
+                    className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => handleDecision(request, 'deny')}
+                    disabled={busyId === request.id}
+                    className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Deny
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow">
+        <div className="p-6 border-b border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900">Your requests</h3>
+        </div>
+        {mine.length === 0 ? (
+          <p className="p-6 text-sm text-slate-500">You have not requested anything.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {mine.map(request => (
+              <li key={request.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                <span>
+                  <span className="block text-slate-900">
+                    <span className="capitalize">{request.action}</span>{' '}
+                    <Link href={`/entries/${request.entry_id}`} className="text-teal-600 hover:text-teal-700">
+                      {request.entry_title}
+                    </Link>
+                  </span>
+                  <span className="block text-xs text-slate-500">
+                    {formatDate(request.created_at)}
+                    {request.decided_by_email && ` · decided by ${request.decided_by_email}`}
+                    {request.decision_note && `: ${request.decision_note}`}
+                  </span>
+                </span>
+                <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_COLORS[request.status]}`}>
+                  {request.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
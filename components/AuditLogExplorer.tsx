@@ -0,0 +1,402 @@
+'use client'
+
+/**
+ * Audit Log Explorer Component
+ *
+ * Access logs across every entry with filters, paging, CSV/JSON Lines
+ * export of the filtered result, and a per-user activity timeline
+ */
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { EntryClassification } from '@/lib/api/entries'
+import { ACCESS_ACTIONS, AccessAction } from '@/lib/api/logs'
+import { ManagedUser, getUsers } from '@/lib/api/admin'
+import {
+  AUDIT_PAGE_SIZE,
+  AuditLogFilter,
+  AuditLogRecord,
+  AuditTimeline,
+  getAuditExportUrl,
+  getAuditLogs,
+  getAuditTimeline,
+} from '@/lib/api/audit'
+
+const CLASSIFICATIONS: EntryClassification[] = ['public', 'internal', 'confidential', 'restricted']
+
+const EMPTY_FILTER: AuditLogFilter = {}
+
+export default function AuditLogExplorer({ initialFilter = EMPTY_FILTER }: { initialFilter?: AuditLogFilter }) {
+  const [users, setUsers] = useState<ManagedUser[]>([])
+  const [draft, setDraft] = useState<AuditLogFilter>(initialFilter)
+  const [filter, setFilter] = useState<AuditLogFilter>(initialFilter)
+  const [page, setPage] = useState(1)
+  const [logs, setLogs] = useState<AuditLogRecord[]>([])
+  const [total, setTotal] = useState(0)
+  const [timeline, setTimeline] = useState<AuditTimeline | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    getUsers()
+      .then(setUsers)
+      .catch(err => console.error('Error fetching users:', err))
+  }, [])
+
+  useEffect(() => {
+    fetchLogs()
+  }, [filter, page])
+
+  const fetchLogs = async () => {
+    setLoading(true)
+    setError('')
+
+    try {
+      const result = await getAuditLogs(filter, page)
+      setLogs(result.logs)
+      setTotal(result.total)
+    } catch (err: any) {
+      console.error('Error fetching audit logs:', err)
+      setError(err.message || 'Failed to load audit logs')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault()
+    setFilter(draft)
+    setPage(1)
+    setTimeline(null)
+  }
+
+  const handleReset = () => {
+    setDraft(EMPTY_FILTER)
+    setFilter(EMPTY_FILTER)
+    setPage(1)
+    setTimeline(null)
+  }
+
+  const handleShowTimeline = async (userId: string) => {
+    setError('')
+
+    try {
+      setTimeline(await getAuditTimeline(userId, filter))
+    } catch (err: any) {
+      console.error('Error fetching timeline:', err)
+      setError(err.message || 'Failed to load activity timeline')
+    }
+  }
+
+  const updateDraft = (key: keyof AuditLogFilter, value: string) => {
+    setDraft({ ...draft, [key]: value || undefined })
+  }
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+  }
+
+  const formatAction = (action: AccessAction): string => {
+    return action === 'break_glass' ? 'BREAK-GLASS' : action.replace('_', ' ').toUpperCase()
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE))
+  const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900'
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <form onSubmit={handleApply} className="bg-white rounded-xl shadow p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <label className="block text-sm text-slate-700">
+            User
+            <select
+              value={draft.userId || ''}
+              onChange={(e) => updateDraft('userId', e.target.value)}
+              className={inputClass}
+            >
+              <option value="">All users</option>
+              {users.map(u => (
+                <option key={u.user_id} value={u.user_id}>{u.email}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-slate-700">
+            Action
+            <select
+              value={draft.action || ''}
+              onChange={(e) => updateDraft('action', e.target.value)}
+              className={inputClass}
+            >
+              <option value="">All actions</option>
+              {ACCESS_ACTIONS.map(action => (
+                <option key={action} value={action}>{action.replace('_', ' ')}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-slate-700">
+            Outcome
+            <select
+              value={draft.outcome || ''}
+              onChange={(e) => updateDraft('outcome', e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Allowed and denied</option>
+              <option value="allowed">Allowed</option>
+              <option value="denied">Denied</option>
+            </select>
+          </label>
+          <label className="block text-sm text-slate-700">
+            Classification
+            <select
+              value={draft.classification || ''}
+              onChange={(e) => updateDraft('classification', e.target.value)}
+              className={`${inputClass} capitalize`}
+            >
+              <option value="">All classifications</option>
+              {CLASSIFICATIONS.map(classification => (
+                <option key={classification} value={classification}>{classification}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-slate-700">
+            Entry ID
+            <input
+              type="text"
+              value={draft.entryId || ''}
+              onChange={(e) => updateDraft('entryId', e.target.value.trim())}
+              placeholder="Any entry"
+              className={`${inputClass} font-mono`}
+            />
+          </label>
+          <label className="block text-sm text-slate-700">
+            From
+            <input
+              type="date"
+              value={draft.from || ''}
+              onChange={(e) => updateDraft('from', e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm text-slate-700">
+            To
+            <input
+              type="date"
+              value={draft.to || ''}
+              onChange={(e) => updateDraft('to', e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm text-slate-700">
+            IP address
+            <input
+              type="text"
+              value={draft.ip || ''}
+              onChange={(e) => updateDraft('ip', e.target.value.trim())}
+              placeholder="e.g. 10.0."
+              className={`${inputClass} font-mono`}
+            />
+          </label>
+          <div className="flex items-end gap-2">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              Apply
+            </button>
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-4 py-2 text-sm font-medium text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between border-t border-slate-200 pt-4">
+          <p className="text-sm text-slate-600">
+            <strong>{total}</strong> matching record{total === 1 ? '' : 's'}
+          </p>
+          <div className="flex gap-2">
+            <a
+              href={getAuditExportUrl(filter, 'csv')}
+              className="px-3 py-1.5 text-sm font-medium text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              Export CSV
+            </a>
+            <a
+              href={getAuditExportUrl(filter, 'jsonl')}
+              className="px-3 py-1.5 text-sm font-medium text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              Export JSON Lines
+            </a>
+          </div>
+        </div>
+      </form>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* User timeline */}
+      {timeline && (
+        <div className="bg-white rounded-xl shadow">
+          <div className="p-6 border-b border-slate-200 flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-slate-900">Activity of {timeline.user_email}</h3>
+              <p className="text-sm text-slate-500">
+                {timeline.total} record{timeline.total === 1 ? '' : 's'}
+                {timeline.first_seen && timeline.last_seen &&
+                  ` · ${formatDate(timeline.first_seen)} to ${formatDate(timeline.last_seen)}`}
+              </p>
+            </div>
+            <button
+              onClick={() => setTimeline(null)}
+              className="text-sm text-slate-500 hover:text-slate-700"
+            >
+              Close
+            </button>
+          </div>
+          {timeline.days.length === 0 ? (
+            <p className="p-6 text-sm text-slate-500">No activity for this user.</p>
+          ) : (
+            <ol className="divide-y divide-slate-200">
+              {timeline.days.map(day => (
+                <li key={day.date} className="px-6 py-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-slate-900">{day.date}</span>
+                    <span className="flex flex-wrap gap-2 text-xs text-slate-600">
+                      {Object.entries(day.actions).map(([action, count]) => (
+                        <span key={action} className="px-2 py-0.5 rounded bg-slate-100">
+                          {action.replace('_', ' ')}: <strong>{count}</strong>
+                        </span>
+                      ))}
+                    </span>
+                  </div>
+                  <ul className="space-y-1 text-sm text-slate-600">
+                    {day.events.map(event => (
+                      <li key={event.id} className={event.break_glass_grant_id ? 'text-red-700' : ''}>
+                        <span className="font-mono text-xs text-slate-500">
+                          {new Date(event.accessed_at).toISOString().substring(11, 19)}
+                        </span>{' '}
+                        {formatAction(event.action)}{event.outcome === 'denied' && ' (denied)'}{' '}
+                        {event.entry_title || event.entry_id || ''}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="bg-white rounded-xl shadow overflow-x-auto">
+        {loading ? (
+          <div className="p-6 animate-pulse space-y-4">
+            <div className="h-4 bg-slate-200 rounded w-1/4"></div>
+            <div className="h-32 bg-slate-200 rounded"></div>
+          </div>
+        ) : logs.length === 0 ? (
+          <p className="p-12 text-center text-slate-500">No access logs match these filters</p>
+        ) : (
+          <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Timestamp</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">User</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Action</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Entry</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">IP Address</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-slate-200">
+              {logs.map(log => (
+                <tr
+                  key={log.id}
+                  className={log.break_glass_grant_id ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-slate-50'}
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                    {formatDate(log.accessed_at)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {log.accessed_by ? (
+                      <button
+                        onClick={() => handleShowTimeline(log.accessed_by!)}
+                        className="text-teal-600 hover:text-teal-700"
+                        title="Show activity timeline"
+                      >
+                        {log.user_email}
+                      </button>
+                    ) : (
+                      <span className="text-slate-500">{log.user_email}</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 py-1 text-xs font-medium rounded ${
+                      log.action === 'break_glass' ? 'bg-red-600 text-white' : 'bg-slate-100 text-slate-700'
+                    }`}>
+                      {formatAction(log.action)}
+                    </span>
+                    {log.outcome === 'denied' && (
+                      <span className="ml-2 px-2 py-1 text-xs font-medium rounded bg-amber-100 text-amber-800">
+                        DENIED
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-900">
+                    {log.entry_title ? (
+                      <Link href={`/entries/${log.entry_id}`} className="text-teal-600 hover:text-teal-700">
+                        {log.entry_title}
+                      </Link>
+                    ) : (
+                      <span className="font-mono text-xs text-slate-500">{log.entry_id || '—'}</span>
+                    )}
+                    {log.entry_classification && (
+                      <span className="text-slate-500 capitalize"> ({log.entry_classification})</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600 font-mono">
+                    {log.ip_address || 'Unknown'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Paging */}
+      {total > AUDIT_PAGE_SIZE && (
+        <div className="flex items-center justify-between text-sm text-slate-600">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1 || loading}
+            className="px-3 py-1.5 border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+          >
+            ← Newer
+          </button>
+          <span>Page {page} of {pageCount}</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pageCount || loading}
+            className="px-3 py-1.5 border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+          >
+            Older →
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
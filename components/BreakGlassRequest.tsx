@@ -0,0 +1,101 @@
+'use client'
+
+/**
+ * Break-Glass Request Component
+ *
+ * Shown instead of a restricted entry to users who cannot see it. Asks
+ * for a justification and duration, then reloads the page with the
+ * time-boxed access in place.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  BREAK_GLASS_DURATIONS,
+  DEFAULT_BREAK_GLASS_MINUTES,
+  requestBreakGlass,
+} from '@/lib/api/break-glass'
+
+export default function BreakGlassRequest({ entryId }: { entryId: string }) {
+  const router = useRouter()
+  const [justification, setJustification] = useState('')
+  const [duration, setDuration] = useState<number>(DEFAULT_BREAK_GLASS_MINUTES)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsSubmitting(true)
+
+    try {
+      await requestBreakGlass(entryId, justification, duration)
+      router.refresh()
+    } catch (err: any) {
+      console.error('Error requesting break-glass access:', err)
+      setError(err.message || 'Failed to request break-glass access')
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-8 border-t-4 border-red-500">
+      <h1 className="text-2xl font-bold text-slate-900 mb-2">Restricted entry</h1>
+      <p className="text-slate-600 mb-6">
+        Your role cannot view restricted entries. In an emergency you can break glass for temporary
+        access. Admins are notified immediately, every access is flagged in the audit trail, and an
+        admin must review your justification afterwards.
+      </p>
+
+      {error && (
+        <div className="p-3 mb-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="justification" className="block text-sm font-medium text-slate-700 mb-1">
+            Justification
+          </label>
+          <textarea
+            id="justification"
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            rows={4}
+            required
+            minLength={10}
+            placeholder="Incident reference and why you need this entry now"
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="duration" className="block text-sm font-medium text-slate-700 mb-1">
+            Access duration
+          </label>
+          <select
+            id="duration"
+            value={duration}
+            onChange={(e) => setDuration(Number(e.target.value))}
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+          >
+            {BREAK_GLASS_DURATIONS.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? 's' : ''}`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting || justification.trim().length < 10}
+          className="px-6 py-3 bg-red-600 hover:bg-red-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isSubmitting ? 'Requesting...' : 'Break glass'}
+        </button>
+      </form>
+    </div>
+  )
+}
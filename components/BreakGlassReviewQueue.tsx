@@ -0,0 +1,163 @@
+'use client'
+
+/**
+ * Break-Glass Review Queue Component
+ *
+ * Lists break-glass grants with their justification and number of uses
+ * and lets an admin acknowledge each one with an optional note
+ */
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  BreakGlassReview,
+  BreakGlassReviewFilter,
+  acknowledgeBreakGlass,
+  getBreakGlassReviews,
+} from '@/lib/api/break-glass'
+
+export default function BreakGlassReviewQueue({ currentUserId }: { currentUserId: string }) {
+  const [reviews, setReviews] = useState<BreakGlassReview[]>([])
+  const [filter, setFilter] = useState<BreakGlassReviewFilter>('pending')
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchReviews()
+  }, [filter])
+
+  const fetchReviews = async () => {
+    setLoading(true)
+
+    try {
+      setReviews(await getBreakGlassReviews(filter))
+    } catch (err: any) {
+      console.error('Error fetching break-glass reviews:', err)
+      setError(err.message || 'Failed to load break-glass reviews')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAcknowledge = async (review: BreakGlassReview) => {
+    setError('')
+    setBusyId(review.id)
+
+    try {
+      await acknowledgeBreakGlass(review.id, notes[review.id])
+      await fetchReviews()
+    } catch (err: any) {
+      console.error('Error acknowledging break-glass access:', err)
+      setError(err.message || 'Failed to acknowledge break-glass access')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {(['pending', 'all'] as BreakGlassReviewFilter[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setFilter(option)}
+            className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+              filter === option
+                ? 'bg-teal-600 text-white'
+                : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            {option === 'pending' ? 'Awaiting review' : 'All'}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="bg-white rounded-xl shadow p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-4 bg-slate-200 rounded w-1/4"></div>
+            <div className="h-16 bg-slate-200 rounded"></div>
+          </div>
+        </div>
+      ) : reviews.length === 0 ? (
+        <div className="bg-white rounded-xl shadow p-12 text-center text-slate-500">
+          {filter === 'pending' ? 'No break-glass access is awaiting review.' : 'No break-glass access has been used.'}
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {reviews.map(review => (
+            <li key={review.id} className="bg-white rounded-xl shadow border-l-4 border-red-500 p-6 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {review.user_email} opened{' '}
+                    <Link href={`/entries/${review.entry_id}`} className="text-teal-600 hover:text-teal-700">
+                      {review.entry_title}
+                    </Link>
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {formatDate(review.created_at)} · {review.is_active ? `active until ${formatDate(review.expires_at)}` : `ended ${formatDate(review.expires_at)}`}
+                    {' · '}{review.uses} {review.uses === 1 ? 'access' : 'accesses'}
+                  </p>
+                </div>
+                {review.is_active && (
+                  <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">
+                    Active
+                  </span>
+                )}
+              </div>
+
+              <blockquote className="text-sm text-slate-700 bg-slate-50 border border-slate-200 rounded-lg p-3 whitespace-pre-wrap">
+                {review.justification}
+              </blockquote>
+
+              {review.acknowledged_at ? (
+                <p className="text-xs text-slate-500">
+                  Acknowledged by {review.acknowledged_by_email || 'an admin'} on {formatDate(review.acknowledged_at)}
+                  {review.review_note && `: ${review.review_note}`}
+                </p>
+              ) : review.user_id === currentUserId ? (
+                <p className="text-xs text-slate-500">Another admin must acknowledge your own break-glass access.</p>
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={notes[review.id] || ''}
+                    onChange={(e) => setNotes({ ...notes, [review.id]: e.target.value })}
+                    placeholder="Review note (optional)"
+                    className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+                  />
+                  <button
+                    onClick={() => handleAcknowledge(review)}
+                    disabled={busyId === review.id}
+                    className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {review.is_active ? 'Acknowledge and end access' : 'Acknowledge'}
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+'use client'
+
+/**
+ * Calendar Feed Settings Component
+ *
+ * Creates, regenerates and revokes the current user's iCalendar feed of
+ * credential expirations. The feed URL is shown once, right after its
+ * token is created.
+ */
+
+import { useEffect, useState } from 'react'
+import {
+  CalendarFeedStatus,
+  createCalendarFeed,
+  getCalendarFeed,
+  revokeCalendarFeed,
+} from '@/lib/api/calendar'
+
+export default function CalendarFeedSettings() {
+  const [feed, setFeed] = useState<CalendarFeedStatus | null>(null)
+  const [url, setUrl] = useState('')
+  const [copied, setCopied] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchFeed()
+  }, [])
+
+  const fetchFeed = async () => {
+    try {
+      setFeed(await getCalendarFeed())
+    } catch (err: any) {
+      console.error('Error fetching calendar feed:', err)
+      setError(err.message || 'Failed to load calendar feed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    if (feed?.enabled && !confirm('Calendars subscribed with the current URL will stop updating. Generate a new URL?')) return
+
+    setError('')
+    setSaving(true)
+    setCopied(false)
+
+    try {
+      const created = await createCalendarFeed()
+      setUrl(created.url)
+      setFeed(created)
+    } catch (err: any) {
+      console.error('Error creating calendar feed:', err)
+      setError(err.message || 'Failed to create calendar feed')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    if (!confirm('Revoke the calendar feed? Subscribed calendars will stop updating.')) return
+
+    setError('')
+    setSaving(true)
+
+    try {
+      await revokeCalendarFeed()
+      setUrl('')
+      setFeed({ enabled: false, created_at: null, last_used_at: null })
+    } catch (err: any) {
+      console.error('Error revoking calendar feed:', err)
+      setError(err.message || 'Failed to revoke calendar feed')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(url)
+    setCopied(true)
+  }
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow p-6 animate-pulse">
+        <div className="h-4 bg-slate-200 rounded w-1/4 mb-4"></div>
+        <div className="h-10 bg-slate-200 rounded"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-900">Calendar Feed</h3>
+        <p className="text-sm text-slate-500">
+          Subscribe from Google Calendar, Outlook or Apple Calendar to see an all-day event for each credential
+          you can access that is expired or about to expire. Events carry titles and links only, never secrets.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {url && (
+        <div className="p-3 bg-teal-50 border border-teal-200 rounded-lg space-y-2">
+          <p className="text-sm text-teal-700">
+            Copy this URL into your calendar app now. It will not be shown again; anyone with it can see your
+            expiration schedule.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={url}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900 font-mono"
+            />
+            <button
+              onClick={handleCopy}
+              className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {feed?.enabled && !url && (
+        <p className="text-sm text-slate-600">
+          Feed active since {new Date(feed.created_at!).toLocaleDateString()}
+          {feed.last_used_at
+            ? `, last fetched ${new Date(feed.last_used_at).toLocaleString()}`
+            : ', not fetched yet'}.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleCreate}
+          disabled={saving}
+          className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+        >
+          {feed?.enabled ? 'Generate new URL' : 'Create feed'}
+        </button>
+        {feed?.enabled && (
+          <button
+            onClick={handleRevoke}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+          >
+            Revoke
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
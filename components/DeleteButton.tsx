@@ -3,7 +3,7 @@
 /**
  * Delete Button Component
  * 
- * Handles entry deletion with confirmation
+ * Moves an entry to the trash with confirmation
  */
 
 import { useRouter } from 'next/navigation'
@@ -45,7 +45,7 @@ export default function DeleteButton({ entryId }: { entryId: string }) {
           disabled={isDeleting}
           className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
         >
-          {isDeleting ? 'Deleting...' : 'Confirm Delete'}
+          {isDeleting ? 'Moving...' : 'Move to Trash'}
         </button>
         <button
           onClick={() => setShowConfirm(false)}
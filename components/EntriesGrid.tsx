@@ -3,77 +3,230 @@
 /**
  * Entries Grid Component
  * 
- * Displays all entries with search, filter, and pagination
+ * Displays entries with search, filters, sorting and infinite scroll. The
+ * search, filters and sort live in the URL, so a filtered list can be
+ * shared and survives a reload. Searches sorted by relevance go to the
+ * full-text search API, which highlights matches and counts facets;
+ * everything else pages through the entries API with a cursor.
  */
 
-import { useState, useEffect } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
 import SearchBar from './SearchBar'
 import EntryCard from './EntryCard'
-import { KnowledgeEntry } from '@/lib/api/entries'
+import {
+  EntryCategory,
+  EntryClassification,
+  EntryFilters,
+  KnowledgeEntry,
+  listEntries,
+} from '@/lib/api/entries'
+import { SearchFacets, SearchResult, searchKnowledgeBase } from '@/lib/api/search'
 
 const CATEGORIES = ['credential', 'sop', 'link', 'document']
 const CLASSIFICATIONS = ['public', 'internal', 'confidential', 'restricted']
 
+/**
+ * Entries loaded per page
+ */
+const PAGE_SIZE = 24
+
+/**
+ * Sort options; relevance is only offered while searching
+ */
+const SORT_OPTIONS: {
+  value: string
+  label: string
+  sortBy?: EntryFilters['sortBy']
+  sortOrder?: EntryFilters['sortOrder']
+}[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'newest', label: 'Newest', sortBy: 'created_at', sortOrder: 'desc' },
+  { value: 'oldest', label: 'Oldest', sortBy: 'created_at', sortOrder: 'asc' },
+  { value: 'updated', label: 'Recently updated', sortBy: 'updated_at', sortOrder: 'desc' },
+  { value: 'accessed', label: 'Recently accessed', sortBy: 'last_accessed_at', sortOrder: 'desc' },
+  { value: 'title', label: 'Title (A-Z)', sortBy: 'title', sortOrder: 'asc' },
+]
+
+/**
+ * Where the next page starts: a cursor for the entries API, a page number
+ * for the search API
+ */
+type NextPage = { cursor: string } | { page: number }
+
 export default function EntriesGrid({ userRole }: { userRole: string }) {
-  const [entries, setEntries] = useState<KnowledgeEntry[]>([])
-  const [filteredEntries, setFilteredEntries] = useState<KnowledgeEntry[]>([])
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  // The URL holds the search, filters and sort
+  const searchQuery = (searchParams.get('q') || '').trim()
+  const selectedCategory = searchParams.get('category')
+  const selectedClassification = searchParams.get('classification')
+  const selectedTags = searchParams.getAll('tag')
+  const tagKey = selectedTags.join(',')
+  const requestedSort = searchParams.get('sort')
+  const sort = SORT_OPTIONS.find(option =>
+    option.value === (requestedSort || (searchQuery ? 'relevance' : 'newest')) &&
+    (option.value !== 'relevance' || searchQuery)
+  ) || SORT_OPTIONS[1]
+  const byRelevance = sort.value === 'relevance'
+
+  const [entries, setEntries] = useState<(KnowledgeEntry | SearchResult)[]>([])
+  const [count, setCount] = useState(0)
+  const [facets, setFacets] = useState<SearchFacets | null>(null)
+  const [nextPage, setNextPage] = useState<NextPage | null>(null)
   const [loading, setLoading] = useState(true)
-  const [searchQuery, setSearchQuery] = useState('')
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null)
-  const [selectedClassification, setSelectedClassification] = useState<string | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState('')
 
-  // Fetch entries
-  useEffect(() => {
-    fetchEntries()
-  }, [])
+  // Responses to superseded requests are dropped
+  const requestId = useRef(0)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  const fetchPage = useCallback(async (from: NextPage | null) => {
+    const filters = {
+      category: selectedCategory as EntryCategory | null,
+      classification: selectedClassification as EntryClassification | null,
+      tags: tagKey ? tagKey.split(',') : [],
+    }
+
+    if (byRelevance) {
+      const page = from && 'page' in from ? from.page : 1
+      const results = await searchKnowledgeBase(searchQuery, { ...filters, page, limit: PAGE_SIZE })
+      return {
+        data: results.data as (KnowledgeEntry | SearchResult)[],
+        count: results.count,
+        facets: results.facets,
+        next: page < results.totalPages ? { page: page + 1 } : null,
+      }
+    }
 
-  // Apply filters when entries or filters change
+    const result = await listEntries({
+      search: searchQuery || undefined,
+      category: filters.category || undefined,
+      classification: filters.classification || undefined,
+      tags: filters.tags,
+      sortBy: sort.sortBy,
+      sortOrder: sort.sortOrder,
+      limit: PAGE_SIZE,
+      cursor: from && 'cursor' in from ? from.cursor : null,
+    })
+    return {
+      data: result.data as (KnowledgeEntry | SearchResult)[],
+      count: result.count,
+      facets: null,
+      next: result.nextCursor ? { cursor: result.nextCursor } : null,
+    }
+  }, [searchQuery, selectedCategory, selectedClassification, tagKey, byRelevance, sort.sortBy, sort.sortOrder])
+
+  // Reload from the first page whenever the search, filters or sort change
   useEffect(() => {
-    filterEntries()
-  }, [entries, searchQuery, selectedCategory, selectedClassification])
+    const id = ++requestId.current
+    setLoading(true)
+    setError('')
+
+    fetchPage(null)
+      .then(result => {
+        if (id !== requestId.current) return
+        setEntries(result.data)
+        setCount(result.count)
+        setFacets(result.facets)
+        setNextPage(result.next)
+      })
+      .catch(err => {
+        if (id !== requestId.current) return
+        console.error('Error fetching entries:', err)
+        setError(err.message || 'Failed to fetch entries')
+        setEntries([])
+        setNextPage(null)
+      })
+      .finally(() => {
+        if (id === requestId.current) setLoading(false)
+      })
+  }, [fetchPage])
+
+  const loadMore = useCallback(async () => {
+    if (!nextPage || loadingMore) return
+
+    const id = requestId.current
+    setLoadingMore(true)
 
-  const fetchEntries = async () => {
     try {
-      const response = await fetch('/api/entries')
-      if (!response.ok) throw new Error('Failed to fetch entries')
-      const data = await response.json()
-      setEntries(data.data || [])
-    } catch (error) {
-      console.error('Error fetching entries:', error)
+      const result = await fetchPage(nextPage)
+      if (id !== requestId.current) return
+      // Skip entries already shown (search pages can shift as entries change)
+      setEntries(current => [
+        ...current,
+        ...result.data.filter(entry => !current.some(shown => shown.id === entry.id)),
+      ])
+      setNextPage(result.next)
+    } catch (err: any) {
+      if (id !== requestId.current) return
+      console.error('Error fetching more entries:', err)
+      setError(err.message || 'Failed to fetch entries')
+      setNextPage(null)
     } finally {
-      setLoading(false)
+      setLoadingMore(false)
     }
-  }
+  }, [fetchPage, nextPage, loadingMore])
 
-  const filterEntries = () => {
-    let filtered = [...entries]
-
-    // Search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase()
-      filtered = filtered.filter(
-        entry =>
-          entry.title.toLowerCase().includes(query) ||
-          entry.content.toLowerCase().includes(query) ||
-          entry.tags.some(tag => tag.toLowerCase().includes(query))
-      )
-    }
+  // Load the next page when the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !nextPage || loading) return
 
-    // Category filter
-    if (selectedCategory) {
-      filtered = filtered.filter(entry => entry.category === selectedCategory)
-    }
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) loadMore()
+      },
+      { rootMargin: '200px' }
+    )
+    observer.observe(sentinel)
 
-    // Classification filter
-    if (selectedClassification) {
-      filtered = filtered.filter(entry => entry.classification === selectedClassification)
-    }
+    return () => observer.disconnect()
+  }, [nextPage, loading, loadMore])
+
+  /**
+   * Update the URL, replacing the current history entry
+   */
+  const updateParams = useCallback((changes: Record<string, string | string[] | null>) => {
+    const params = new URLSearchParams(searchParams.toString())
+    Object.entries(changes).forEach(([key, value]) => {
+      params.delete(key)
+      if (Array.isArray(value)) {
+        value.forEach(item => params.append(key, item))
+      } else if (value) {
+        params.set(key, value)
+      }
+    })
+    const query = params.toString()
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }, [router, pathname, searchParams])
 
-    setFilteredEntries(filtered)
+  const handleSearch = useCallback((query: string) => {
+    if (query.trim() === searchQuery) return
+    // Relevance only applies to searches
+    updateParams({
+      q: query.trim() || null,
+      sort: !query.trim() && requestedSort === 'relevance' ? null : requestedSort,
+    })
+  }, [searchQuery, requestedSort, updateParams])
+
+  const handleToggleTag = (tag: string) => {
+    updateParams({
+      tag: selectedTags.includes(tag) ? selectedTags.filter(t => t !== tag) : [...selectedTags, tag],
+    })
   }
 
+  // Matches per filter value while searching
+  const facetCount = (facet: 'category' | 'classification', value: string) =>
+    facets ? (facets[facet] as Record<string, number | undefined>)[value] || 0 : null
+
+  const hasFilters = Boolean(searchQuery || selectedCategory || selectedClassification || selectedTags.length > 0)
+
   const handleDelete = async (entryId: string) => {
-    if (!confirm('Are you sure you want to delete this entry?')) {
+    if (!confirm('Move this entry to the trash? It can be restored from the trash until it is purged.')) {
       return
     }
 
@@ -86,36 +239,34 @@ export default function EntriesGrid({ userRole }: { userRole: string }) {
         throw new Error('Failed to delete entry')
       }
 
-      // Remove from local state
-      setEntries(entries.filter(entry => entry.id !== entryId))
+      // Remove from local state (the entry is now in the trash)
+      setEntries(current => current.filter(entry => entry.id !== entryId))
+      setCount(current => Math.max(current - 1, 0))
     } catch (error) {
       console.error('Error deleting entry:', error)
       alert('Failed to delete entry. Please try again.')
     }
   }
 
-  if (loading) {
-    return (
-      <div className="space-y-6">
-        <div className="h-12 bg-slate-200 animate-pulse rounded-lg" />
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {[1, 2, 3, 4, 5, 6].map(i => (
-            <div key={i} className="h-64 bg-slate-200 animate-pulse rounded-xl" />
-          ))}
-        </div>
-      </div>
-    )
-  }
-
   return (
     <div className="space-y-6">
       {/* Search Bar */}
       <SearchBar
-        onSearch={setSearchQuery}
+        onSearch={handleSearch}
+        defaultValue={searchQuery}
         placeholder="Search by title, content, or tags..."
-        resultsCount={filteredEntries.length}
+        resultsCount={loading ? undefined : count}
+        tagFacets={facets?.tags}
+        selectedTags={selectedTags}
+        onToggleTag={handleToggleTag}
       />
 
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
       {/* Filters */}
       <div className="bg-white rounded-xl shadow p-4">
         <div className="space-y-4">
@@ -126,7 +277,7 @@ export default function EntriesGrid({ userRole }: { userRole: string }) {
             </label>
             <div className="flex flex-wrap gap-2">
               <button
-                onClick={() => setSelectedCategory(null)}
+                onClick={() => updateParams({ category: null })}
                 className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
                   selectedCategory === null
                     ? 'bg-teal-600 text-white'
@@ -138,7 +289,7 @@ export default function EntriesGrid({ userRole }: { userRole: string }) {
               {CATEGORIES.map(category => (
                 <button
                   key={category}
-                  onClick={() => setSelectedCategory(category)}
+                  onClick={() => updateParams({ category })}
                   className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors capitalize ${
                     selectedCategory === category
                       ? 'bg-teal-600 text-white'
@@ -146,6 +297,9 @@ export default function EntriesGrid({ userRole }: { userRole: string }) {
                   }`}
                 >
                   {category}
+                  {facetCount('category', category) !== null && (
+                    <span className="ml-1 opacity-75">{facetCount('category', category)}</span>
+                  )}
                 </button>
               ))}
             </div>
@@ -158,7 +312,7 @@ export default function EntriesGrid({ userRole }: { userRole: string }) {
             </label>
             <div className="flex flex-wrap gap-2">
               <button
-                onClick={() => setSelectedClassification(null)}
+                onClick={() => updateParams({ classification: null })}
                 className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
                   selectedClassification === null
                     ? 'bg-teal-600 text-white'
@@ -170,7 +324,7 @@ export default function EntriesGrid({ userRole }: { userRole: string }) {
               {CLASSIFICATIONS.map(classification => (
                 <button
                   key={classification}
-                  onClick={() => setSelectedClassification(classification)}
+                  onClick={() => updateParams({ classification })}
                   className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors capitalize ${
                     selectedClassification === classification
                       ? 'bg-teal-600 text-white'
@@ -178,15 +332,43 @@ export default function EntriesGrid({ userRole }: { userRole: string }) {
                   }`}
                 >
                   {classification}
+                  {facetCount('classification', classification) !== null && (
+                    <span className="ml-1 opacity-75">{facetCount('classification', classification)}</span>
+                  )}
                 </button>
               ))}
             </div>
           </div>
+
+          {/* Sort */}
+          <div>
+            <label htmlFor="entries-sort" className="block text-sm font-medium text-slate-700 mb-2">
+              Sort by
+            </label>
+            <select
+              id="entries-sort"
+              value={sort.value}
+              onChange={(e) => updateParams({ sort: e.target.value })}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-teal-500"
+            >
+              {SORT_OPTIONS.filter(option => option.value !== 'relevance' || searchQuery).map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
       </div>
 
       {/* Entries Grid */}
-      {filteredEntries.length === 0 ? (
+      {loading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {[1, 2, 3, 4, 5, 6].map(i => (
+            <div key={i} className="h-64 bg-slate-200 animate-pulse rounded-xl" />
+          ))}
+        </div>
+      ) : entries.length === 0 ? (
         <div className="bg-white rounded-xl shadow p-12 text-center">
           <svg
             className="mx-auto h-12 w-12 text-slate-400"
@@ -203,17 +385,38 @@ export default function EntriesGrid({ userRole }: { userRole: string }) {
           </svg>
           <h3 className="mt-4 text-lg font-medium text-slate-900">No entries found</h3>
           <p className="mt-2 text-sm text-slate-500">
-            {entries.length === 0
-              ? 'Get started by creating your first knowledge entry.'
-              : 'Try adjusting your search or filters.'}
+            {hasFilters
+              ? 'Try adjusting your search or filters.'
+              : 'Get started by creating your first knowledge entry.'}
           </p>
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredEntries.map(entry => (
-            <EntryCard key={entry.id} entry={entry} userRole={userRole} onDelete={handleDelete} />
-          ))}
-        </div>
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {entries.map(entry => (
+              <EntryCard
+                key={entry.id}
+                entry={entry}
+                userRole={userRole}
+                onDelete={handleDelete}
+                highlight={'highlight' in entry ? entry.highlight : undefined}
+              />
+            ))}
+          </div>
+
+          {/* Infinite scroll: loads the next page as it comes into view */}
+          {nextPage && (
+            <div ref={sentinelRef} className="flex justify-center">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </>
       )}
     </div>
   )
@@ -8,20 +8,27 @@
 
 import Link from 'next/link'
 import { KnowledgeEntry } from '@/lib/api/entries'
+import type { SearchHighlight } from '@/lib/api/search'
+import { getDaysUntilExpiration, getExpiryStatus } from '@/lib/utils/expiration-policy'
 import SecurityBadge from './SecurityBadge'
+import EntryFieldList from './EntryFieldList'
+import HighlightedText from './HighlightedText'
 
 interface EntryCardProps {
   entry: KnowledgeEntry
   onDelete?: (id: string) => void
   currentUserId?: string
   userRole?: string
+  /** Matched terms of a search, shown in place of the title and content */
+  highlight?: SearchHighlight
 }
 
 export default function EntryCard({ 
   entry, 
   onDelete, 
   currentUserId,
-  userRole 
+  userRole,
+  highlight
 }: EntryCardProps) {
   
   // Category badge colors
@@ -57,18 +64,16 @@ export default function EntryCard({
   const getExpirationStatus = () => {
     if (!entry.expiration_date) return null
     
-    const now = new Date()
-    const expirationDate = new Date(entry.expiration_date)
-    const daysUntilExpiration = Math.ceil(
-      (expirationDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
-    )
-
-    if (daysUntilExpiration < 0) {
-      return { status: 'expired', label: 'EXPIRED', color: 'bg-red-100 text-red-800 border-red-200' }
-    } else if (daysUntilExpiration <= 7) {
-      return { status: 'critical', label: `Expires in ${daysUntilExpiration}d`, color: 'bg-orange-100 text-orange-800 border-orange-200' }
-    } else if (daysUntilExpiration <= 14) {
-      return { status: 'warning', label: `Expires in ${daysUntilExpiration}d`, color: 'bg-yellow-100 text-yellow-800 border-yellow-200' }
+    // Default windows; the dashboard alert applies each entry's policy
+    const daysUntilExpiration = getDaysUntilExpiration(entry.expiration_date)
+    const status = getExpiryStatus(daysUntilExpiration)
+
+    if (status === 'expired') {
+      return { status, label: 'EXPIRED', color: 'bg-red-100 text-red-800 border-red-200' }
+    } else if (status === 'critical') {
+      return { status, label: `Expires in ${daysUntilExpiration}d`, color: 'bg-orange-100 text-orange-800 border-orange-200' }
+    } else if (status === 'warning') {
+      return { status, label: `Expires in ${daysUntilExpiration}d`, color: 'bg-yellow-100 text-yellow-800 border-yellow-200' }
     }
     return null
   }
@@ -98,13 +103,26 @@ export default function EntryCard({
 
       {/* Title */}
       <h3 className="text-lg font-semibold text-slate-900 mb-2 line-clamp-2">
-        {entry.title}
+        {highlight ? <HighlightedText text={highlight.title} /> : entry.title}
       </h3>
 
+      {/* Structured Fields */}
+      {entry.fields && (
+        <div className="mb-4">
+          <EntryFieldList category={entry.category} fields={entry.fields} compact />
+        </div>
+      )}
+
       {/* Content Preview */}
-      <p className="text-sm text-slate-600 mb-4 line-clamp-3">
-        {entry.content}
-      </p>
+      {highlight?.snippet ? (
+        <p className="text-sm text-slate-600 mb-4 line-clamp-3">
+          <HighlightedText text={highlight.snippet} />
+        </p>
+      ) : (entry.content || !entry.fields) && (
+        <p className="text-sm text-slate-600 mb-4 line-clamp-3">
+          {entry.content}
+        </p>
+      )}
 
       {/* Tags */}
       {entry.tags && entry.tags.length > 0 && (
@@ -0,0 +1,69 @@
+'use client'
+
+/**
+ * Entry Field Inputs Component
+ *
+ * Form inputs for the structured fields of an entry category
+ */
+
+import { EntryCategory } from '@/lib/api/entries'
+import { getFieldSchema } from '@/lib/utils/entry-fields'
+
+interface EntryFieldInputsProps {
+  category: EntryCategory
+  values: Record<string, string>
+  onChange: (key: string, value: string) => void
+  disabled?: boolean
+}
+
+export default function EntryFieldInputs({
+  category,
+  values,
+  onChange,
+  disabled = false
+}: EntryFieldInputsProps) {
+  const inputClassName = 'w-full px-4 py-3 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent text-slate-900'
+
+  return (
+    <div className="space-y-6">
+      {getFieldSchema(category).map(field => {
+        const id = `field-${field.key}`
+
+        return (
+          <div key={field.key}>
+            <label htmlFor={id} className="block text-sm font-medium text-slate-700 mb-2">
+              {field.label} {field.required && <span className="text-red-500">*</span>}
+              {field.sensitive && (
+                <span className="ml-2 text-xs font-normal text-slate-500">Encrypted and masked</span>
+              )}
+            </label>
+            {field.type === 'textarea' || field.type === 'list' ? (
+              <textarea
+                id={id}
+                value={values[field.key] || ''}
+                onChange={(e) => onChange(field.key, e.target.value)}
+                rows={field.type === 'list' ? 8 : 4}
+                className={`${inputClassName} resize-none`}
+                placeholder={field.placeholder}
+                required={field.required}
+                disabled={disabled}
+              />
+            ) : (
+              <input
+                id={id}
+                type={field.type === 'secret' || field.type === 'totp' ? 'password' : field.type === 'url' ? 'url' : 'text'}
+                value={values[field.key] || ''}
+                onChange={(e) => onChange(field.key, e.target.value)}
+                className={inputClassName}
+                placeholder={field.placeholder}
+                required={field.required}
+                disabled={disabled}
+                autoComplete={field.type === 'secret' || field.type === 'totp' ? 'new-password' : 'off'}
+              />
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+/**
+ * Entry Field List Component
+ *
+ * Renders the structured fields of an entry one by one, each with its own
+ * copy button. Sensitive fields stay hidden until revealed.
+ */
+
+import { useState } from 'react'
+import CopyButton from './CopyButton'
+import { EntryCategory } from '@/lib/api/entries'
+import {
+  EntryFieldDefinition,
+  EntryFields,
+  formatFieldValue,
+  getFieldSchema,
+  MASKED_FIELD_VALUE,
+} from '@/lib/utils/entry-fields'
+
+interface EntryFieldListProps {
+  category: EntryCategory
+  fields: EntryFields
+  compact?: boolean
+}
+
+export default function EntryFieldList({ category, fields, compact = false }: EntryFieldListProps) {
+  const [revealed, setRevealed] = useState<string[]>([])
+
+  const visibleFields = getFieldSchema(category).filter(field => fields[field.key] !== undefined)
+
+  const toggleReveal = (key: string) => {
+    setRevealed(revealed.includes(key)
+      ? revealed.filter(item => item !== key)
+      : [...revealed, key])
+  }
+
+  const renderValue = (field: EntryFieldDefinition, value: string | string[]) => {
+    if (Array.isArray(value)) {
+      const items = compact ? value.slice(0, 3) : value
+      return (
+        <ol className="list-decimal list-inside space-y-1 text-slate-900">
+          {items.map((item, index) => (
+            <li key={index} className={compact ? 'truncate' : ''}>{item}</li>
+          ))}
+          {compact && value.length > 3 && (
+            <li className="list-none text-slate-500">+{value.length - 3} more</li>
+          )}
+        </ol>
+      )
+    }
+
+    if (field.sensitive && (value === MASKED_FIELD_VALUE || !revealed.includes(field.key))) {
+      return <span className="font-mono text-slate-900">{MASKED_FIELD_VALUE}</span>
+    }
+
+    if (field.type === 'url') {
+      return (
+        <a
+          href={value}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-teal-700 hover:text-teal-800 underline break-all"
+        >
+          {value}
+        </a>
+      )
+    }
+
+    if (field.type === 'textarea') {
+      return (
+        <p className={`whitespace-pre-wrap text-slate-900 ${compact ? 'line-clamp-2' : ''}`}>
+          {value}
+        </p>
+      )
+    }
+
+    return <span className="font-mono text-slate-900 break-all">{value}</span>
+  }
+
+  return (
+    <dl className={compact ? 'space-y-2' : 'space-y-4'}>
+      {visibleFields.map(field => {
+        const value = fields[field.key]
+        const isMasked = value === MASKED_FIELD_VALUE
+
+        return (
+          <div
+            key={field.key}
+            className={compact ? 'text-sm' : 'bg-slate-50 rounded-lg p-4 border border-slate-200'}
+          >
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <dt className="text-xs font-medium text-slate-500 uppercase tracking-wide">
+                {field.label}
+              </dt>
+              <div className="flex items-center gap-2">
+                {field.sensitive && !compact && !isMasked && (
+                  <button
+                    type="button"
+                    onClick={() => toggleReveal(field.key)}
+                    className="text-xs font-medium text-teal-700 hover:text-teal-800"
+                  >
+                    {revealed.includes(field.key) ? 'Hide' : 'Show'}
+                  </button>
+                )}
+                {!isMasked && <CopyButton content={formatFieldValue(value)} />}
+              </div>
+            </div>
+            <dd className="text-sm">
+              {renderValue(field, value)}
+            </dd>
+          </div>
+        )
+      })}
+    </dl>
+  )
+}
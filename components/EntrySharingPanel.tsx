@@ -0,0 +1,207 @@
+'use client'
+
+/**
+ * Entry Sharing Panel Component
+ *
+ * Lets the owner (or an admin) grant read or read/write access to a role,
+ * user or group on a single entry, overriding the classification defaults
+ */
+
+import { useEffect, useState } from 'react'
+import {
+  EntryGrant,
+  GrantPermission,
+  GrantSubjectType,
+  UserGroup,
+  getEntryGrants,
+  grantEntryAccess,
+  revokeEntryAccess,
+} from '@/lib/api/permissions'
+
+const ROLES = ['admin', 'manager', 'member', 'viewer']
+
+const PERMISSION_LABELS: Record<GrantPermission, string> = {
+  read: 'Can view',
+  read_write: 'Can edit',
+}
+
+export default function EntrySharingPanel({ entryId }: { entryId: string }) {
+  const [grants, setGrants] = useState<EntryGrant[]>([])
+  const [groups, setGroups] = useState<UserGroup[]>([])
+  const [subjectType, setSubjectType] = useState<GrantSubjectType>('user')
+  const [subject, setSubject] = useState('')
+  const [permission, setPermission] = useState<GrantPermission>('read')
+  const [loading, setLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchGrants()
+  }, [entryId])
+
+  const fetchGrants = async () => {
+    try {
+      const result = await getEntryGrants(entryId)
+      setGrants(result.grants)
+      setGroups(result.groups)
+    } catch (err: any) {
+      console.error('Error fetching grants:', err)
+      setError(err.message || 'Failed to load sharing settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSubjectTypeChange = (type: GrantSubjectType) => {
+    setSubjectType(type)
+    setSubject('')
+  }
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setIsSaving(true)
+
+    try {
+      await grantEntryAccess(entryId, subjectType, subject, permission)
+      setSubject('')
+      await fetchGrants()
+    } catch (err: any) {
+      console.error('Error sharing entry:', err)
+      setError(err.message || 'Failed to share entry')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRevoke = async (grantId: string) => {
+    setError('')
+
+    try {
+      await revokeEntryAccess(entryId, grantId)
+      setGrants(grants.filter(grant => grant.id !== grantId))
+    } catch (err: any) {
+      console.error('Error revoking access:', err)
+      setError(err.message || 'Failed to revoke access')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-slate-200 rounded w-1/4"></div>
+          <div className="h-10 bg-slate-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow">
+      <div className="p-6 border-b border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900">
+          Sharing
+        </h3>
+        <p className="text-sm text-slate-600">
+          Grants apply to this entry only and override its classification
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {grants.length === 0 ? (
+          <p className="text-sm text-slate-500">Not shared beyond the classification defaults.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200 border border-slate-200 rounded-lg">
+            {grants.map(grant => (
+              <li key={grant.id} className="px-4 py-2 flex items-center justify-between text-sm">
+                <span className="text-slate-900">
+                  <span className="text-xs uppercase text-slate-500 mr-2">{grant.subject_type}</span>
+                  <span className={grant.subject_type === 'role' ? 'capitalize' : ''}>{grant.label}</span>
+                </span>
+                <span className="flex items-center gap-4">
+                  <span className="text-slate-600">{PERMISSION_LABELS[grant.permission]}</span>
+                  <button
+                    onClick={() => handleRevoke(grant.id)}
+                    className="text-xs font-medium text-red-600 hover:text-red-700"
+                  >
+                    Revoke
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleGrant} className="flex flex-wrap gap-2">
+          <select
+            value={subjectType}
+            onChange={(e) => handleSubjectTypeChange(e.target.value as GrantSubjectType)}
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+          >
+            <option value="user">User</option>
+            <option value="role">Role</option>
+            <option value="group" disabled={groups.length === 0}>Group</option>
+          </select>
+
+          {subjectType === 'user' && (
+            <input
+              type="email"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder="teammate@example.com"
+              className="flex-1 min-w-[12rem] px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+            />
+          )}
+          {subjectType === 'role' && (
+            <select
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900 capitalize"
+            >
+              <option value="">Select a role</option>
+              {ROLES.map(role => (
+                <option key={role} value={role}>{role}</option>
+              ))}
+            </select>
+          )}
+          {subjectType === 'group' && (
+            <select
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+            >
+              <option value="">Select a group</option>
+              {groups.map(group => (
+                <option key={group.id} value={group.id}>{group.name}</option>
+              ))}
+            </select>
+          )}
+
+          <select
+            value={permission}
+            onChange={(e) => setPermission(e.target.value as GrantPermission)}
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+          >
+            <option value="read">{PERMISSION_LABELS.read}</option>
+            <option value="read_write">{PERMISSION_LABELS.read_write}</option>
+          </select>
+
+          <button
+            type="submit"
+            disabled={isSaving || !subject}
+            className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Sharing...' : 'Share'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,249 @@
+'use client'
+
+/**
+ * Entry Version History Component
+ *
+ * Lists previous versions of an entry, shows a side-by-side diff of a
+ * selected version against the current one, and restores old versions
+ */
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  EntryVersion,
+  EntryVersionSummary,
+  getEntryVersion,
+  getEntryVersions,
+  restoreEntryVersion,
+} from '@/lib/api/versions'
+import { diffLines, DiffRow } from '@/lib/utils/diff'
+import { formatFieldValue, getFieldSchema } from '@/lib/utils/entry-fields'
+
+interface EntryVersionHistoryProps {
+  entryId: string
+  canRestore: boolean
+}
+
+/**
+ * Render a version as comparable text
+ */
+function versionToText(version: EntryVersion): string {
+  const lines = [
+    `Title: ${version.title}`,
+    `Category: ${version.category}`,
+    `Classification: ${version.classification}`,
+    `Sensitive: ${version.is_sensitive ? 'Yes' : 'No'}`,
+    `Tags: ${version.tags?.join(', ') || 'None'}`,
+    `Expires: ${version.expiration_date || 'Never'}`,
+  ]
+
+  if (version.file_name) {
+    lines.push(`Attachment: ${version.file_name}`)
+  }
+
+  if (version.fields) {
+    getFieldSchema(version.category)
+      .filter(field => version.fields![field.key] !== undefined)
+      .forEach(field => {
+        lines.push('', `${field.label}:`, formatFieldValue(version.fields![field.key]))
+      })
+  }
+
+  if (version.content) {
+    lines.push('', 'Content:', version.is_client_encrypted ? '[client-encrypted content]' : version.content)
+  }
+
+  return lines.join('\n')
+}
+
+export default function EntryVersionHistory({ entryId, canRestore }: EntryVersionHistoryProps) {
+  const router = useRouter()
+  const [versions, setVersions] = useState<EntryVersionSummary[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [diff, setDiff] = useState<DiffRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isComparing, setIsComparing] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchVersions()
+  }, [entryId])
+
+  const fetchVersions = async () => {
+    try {
+      setVersions(await getEntryVersions(entryId))
+    } catch (err: any) {
+      console.error('Error fetching versions:', err)
+      setError(err.message || 'Failed to load versions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCompare = async (versionId: string) => {
+    if (versionId === selectedId) {
+      setSelectedId(null)
+      setDiff([])
+      return
+    }
+
+    setError('')
+    setIsComparing(true)
+    setSelectedId(versionId)
+
+    try {
+      const [selected, current] = await Promise.all([
+        getEntryVersion(entryId, versionId),
+        getEntryVersion(entryId, versions[0].id),
+      ])
+      setDiff(diffLines(versionToText(selected), versionToText(current)))
+    } catch (err: any) {
+      console.error('Error comparing versions:', err)
+      setError(err.message || 'Failed to compare versions')
+      setSelectedId(null)
+    } finally {
+      setIsComparing(false)
+    }
+  }
+
+  const handleRestore = async (version: EntryVersionSummary) => {
+    if (!confirm(`Restore version ${version.version_number}? The current content will be kept in the history.`)) {
+      return
+    }
+
+    setError('')
+    setIsRestoring(true)
+
+    try {
+      await restoreEntryVersion(entryId, version.id)
+      setSelectedId(null)
+      setDiff([])
+      await fetchVersions()
+      router.refresh()
+    } catch (err: any) {
+      console.error('Error restoring version:', err)
+      setError(err.message || 'Failed to restore version')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const rowColors = {
+    same: { left: '', right: '' },
+    changed: { left: 'bg-red-50 text-red-800', right: 'bg-green-50 text-green-800' },
+    removed: { left: 'bg-red-50 text-red-800', right: 'bg-slate-50' },
+    added: { left: 'bg-slate-50', right: 'bg-green-50 text-green-800' },
+  }
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-slate-200 rounded w-1/4"></div>
+          <div className="h-16 bg-slate-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow">
+      <div className="p-6 border-b border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900">
+          Version History
+        </h3>
+        <p className="text-sm text-slate-600">
+          Compare a previous version with the current one, or restore it
+        </p>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {versions.length === 0 ? (
+        <p className="p-6 text-sm text-slate-500">No versions recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-200">
+          {versions.map((version, index) => (
+            <li key={version.id} className="px-6 py-3 flex items-center justify-between gap-4">
+              <div className="text-sm">
+                <p className="font-medium text-slate-900">
+                  Version {version.version_number}
+                  {index === 0 && <span className="ml-2 text-xs font-normal text-teal-700">Current</span>}
+                </p>
+                <p className="text-slate-500">
+                  <span className="capitalize">{version.change_type}</span>
+                  {version.restored_from && ` from version ${version.restored_from}`}
+                  {' · '}
+                  {formatDate(version.created_at)}
+                </p>
+              </div>
+              {index > 0 && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleCompare(version.id)}
+                    disabled={isComparing}
+                    className="px-3 py-1.5 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {selectedId === version.id ? 'Hide diff' : 'Compare'}
+                  </button>
+                  {canRestore && (
+                    <button
+                      onClick={() => handleRestore(version)}
+                      disabled={isRestoring}
+                      className="px-3 py-1.5 text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Side-by-side Diff */}
+      {selectedId && (
+        <div className="p-6 border-t border-slate-200">
+          {isComparing ? (
+            <p className="text-sm text-slate-500">Loading diff...</p>
+          ) : (
+            <div className="border border-slate-200 rounded-lg overflow-x-auto">
+              <div className="grid grid-cols-2 bg-slate-50 border-b border-slate-200 text-xs font-medium text-slate-600 uppercase">
+                <div className="px-3 py-2 border-r border-slate-200">
+                  Version {versions.find(version => version.id === selectedId)?.version_number}
+                </div>
+                <div className="px-3 py-2">Current</div>
+              </div>
+              {diff.map((row, index) => (
+                <div key={index} className="grid grid-cols-2 font-mono text-xs">
+                  <pre className={`px-3 py-0.5 whitespace-pre-wrap break-all border-r border-slate-200 ${rowColors[row.type].left}`}>
+                    {row.left ?? ''}
+                  </pre>
+                  <pre className={`px-3 py-0.5 whitespace-pre-wrap break-all ${rowColors[row.type].right}`}>
+                    {row.right ?? ''}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
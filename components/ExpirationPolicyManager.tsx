@@ -0,0 +1,357 @@
+'use client'
+
+/**
+ * Expiration Policy Manager Component
+ *
+ * Admin form and list for expiration policies: which entries they cover,
+ * automatic expiry and urgency windows, with enable/disable, edit, delete
+ * and applying automatic expiry to existing entries
+ */
+
+import { useEffect, useState } from 'react'
+import type { EntryCategory, EntryClassification } from '@/lib/api/entries'
+import {
+  ExpirationPolicy,
+  ExpirationPolicyInput,
+  applyExpirationPolicies,
+  createExpirationPolicy,
+  deleteExpirationPolicy,
+  getExpirationPolicies,
+  updateExpirationPolicy,
+} from '@/lib/api/expiration-policies'
+import { DEFAULT_EXPIRY_WINDOWS } from '@/lib/utils/expiration-policy'
+
+const CATEGORIES: EntryCategory[] = ['credential', 'sop', 'link', 'document']
+
+const CLASSIFICATIONS: EntryClassification[] = ['public', 'internal', 'confidential', 'restricted']
+
+const EMPTY_POLICY: ExpirationPolicyInput = {
+  name: '',
+  category: null,
+  classification: null,
+  tag: null,
+  expire_after_days: null,
+  ...DEFAULT_EXPIRY_WINDOWS,
+  priority: 0,
+  enabled: true,
+}
+
+export default function ExpirationPolicyManager() {
+  const [policies, setPolicies] = useState<ExpirationPolicy[]>([])
+  const [draft, setDraft] = useState<ExpirationPolicyInput>(EMPTY_POLICY)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    fetchPolicies()
+  }, [])
+
+  const fetchPolicies = async () => {
+    try {
+      setPolicies(await getExpirationPolicies())
+    } catch (err: any) {
+      console.error('Error fetching expiration policies:', err)
+      setError(err.message || 'Failed to load expiration policies')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setError('')
+    setMessage('')
+    setSaving(true)
+
+    try {
+      await action()
+      await fetchPolicies()
+    } catch (err: any) {
+      console.error(`${failure}:`, err)
+      setError(err.message || failure)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      if (editingId) {
+        await updateExpirationPolicy(editingId, draft)
+      } else {
+        await createExpirationPolicy(draft)
+      }
+      setDraft(EMPTY_POLICY)
+      setEditingId(null)
+    }, 'Failed to save expiration policy')
+  }
+
+  const handleEdit = (policy: ExpirationPolicy) => {
+    setEditingId(policy.id)
+    setDraft({
+      name: policy.name,
+      category: policy.category,
+      classification: policy.classification,
+      tag: policy.tag,
+      expire_after_days: policy.expire_after_days,
+      critical_days: policy.critical_days,
+      warning_days: policy.warning_days,
+      notice_days: policy.notice_days,
+      priority: policy.priority,
+      enabled: policy.enabled,
+    })
+  }
+
+  const handleDelete = (policy: ExpirationPolicy) => {
+    if (!confirm(`Delete the policy "${policy.name}"? Expiration dates it already set are kept.`)) return
+    run(() => deleteExpirationPolicy(policy.id), 'Failed to delete expiration policy')
+  }
+
+  const handleApply = () => {
+    if (!confirm('Bring forward the expiration dates of existing entries that exceed their policy?')) return
+    run(async () => {
+      const updated = await applyExpirationPolicies()
+      setMessage(`Updated the expiration date of ${updated} ${updated === 1 ? 'entry' : 'entries'}`)
+    }, 'Failed to apply expiration policies')
+  }
+
+  const setNumber = (key: keyof ExpirationPolicyInput, value: string, nullable = false) => {
+    setDraft({ ...draft, [key]: value === '' && nullable ? null : parseInt(value) || 0 })
+  }
+
+  const describeScope = (policy: ExpirationPolicy): string => {
+    const parts = [policy.classification, policy.category, policy.tag && `tagged "${policy.tag}"`].filter(Boolean)
+    return parts.length > 0 ? parts.join(', ') : 'All entries'
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900'
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="p-3 bg-teal-50 border border-teal-200 rounded-lg">
+          <p className="text-sm text-teal-700">{message}</p>
+        </div>
+      )}
+
+      {/* Policy Form */}
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-slate-900">{editingId ? 'Edit policy' : 'New policy'}</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <label className="block text-sm text-slate-700 md:col-span-2">
+            Name
+            <input
+              type="text"
+              required
+              maxLength={100}
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Restricted credentials"
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm text-slate-700">
+            Priority
+            <input
+              type="number"
+              value={draft.priority}
+              onChange={(e) => setNumber('priority', e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-700 mt-6 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+              className="h-4 w-4 text-teal-600 focus:ring-teal-500 border-slate-300 rounded"
+            />
+            Enabled
+          </label>
+
+          <label className="block text-sm text-slate-700">
+            Category
+            <select
+              value={draft.category || ''}
+              onChange={(e) => setDraft({ ...draft, category: (e.target.value || null) as EntryCategory | null })}
+              className={`${inputClass} capitalize`}
+            >
+              <option value="">Any category</option>
+              {CATEGORIES.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-slate-700">
+            Classification
+            <select
+              value={draft.classification || ''}
+              onChange={(e) => setDraft({ ...draft, classification: (e.target.value || null) as EntryClassification | null })}
+              className={`${inputClass} capitalize`}
+            >
+              <option value="">Any classification</option>
+              {CLASSIFICATIONS.map(classification => (
+                <option key={classification} value={classification}>{classification}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-slate-700">
+            Tag
+            <input
+              type="text"
+              value={draft.tag || ''}
+              onChange={(e) => setDraft({ ...draft, tag: e.target.value || null })}
+              placeholder="Any tag"
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm text-slate-700">
+            Expire after (days)
+            <input
+              type="number"
+              min={1}
+              value={draft.expire_after_days ?? ''}
+              onChange={(e) => setNumber('expire_after_days', e.target.value, true)}
+              placeholder="No automatic expiry"
+              className={inputClass}
+            />
+          </label>
+
+          <label className="block text-sm text-slate-700">
+            Critical window (days)
+            <input
+              type="number"
+              min={0}
+              value={draft.critical_days}
+              onChange={(e) => setNumber('critical_days', e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm text-slate-700">
+            Warning window (days)
+            <input
+              type="number"
+              min={0}
+              value={draft.warning_days}
+              onChange={(e) => setNumber('warning_days', e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm text-slate-700">
+            Notice window (days)
+            <input
+              type="number"
+              min={0}
+              value={draft.notice_days}
+              onChange={(e) => setNumber('notice_days', e.target.value)}
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <p className="text-xs text-slate-500">
+          With automatic expiry, saving a matching entry caps its expiration date at that many days after the save.
+          Owners and admins are notified inside the critical and warning windows; the notice window only shows on the dashboard.
+        </p>
+
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {editingId ? 'Save policy' : 'Add policy'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={() => { setEditingId(null); setDraft(EMPTY_POLICY) }}
+              className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 text-sm font-medium rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Policy List */}
+      <div className="bg-white rounded-xl shadow">
+        <div className="p-6 border-b border-slate-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">Policies</h3>
+            <p className="text-sm text-slate-500">
+              The highest priority matching policy applies, then the most specific. Entries no policy covers
+              use {DEFAULT_EXPIRY_WINDOWS.critical_days}/{DEFAULT_EXPIRY_WINDOWS.warning_days}/{DEFAULT_EXPIRY_WINDOWS.notice_days}-day windows.
+            </p>
+          </div>
+          <button
+            onClick={handleApply}
+            disabled={saving || policies.length === 0}
+            className="px-4 py-2 text-sm font-medium text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            Apply to existing entries
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="p-6 animate-pulse space-y-4">
+            <div className="h-4 bg-slate-200 rounded w-1/4"></div>
+            <div className="h-16 bg-slate-200 rounded"></div>
+          </div>
+        ) : policies.length === 0 ? (
+          <p className="p-6 text-sm text-slate-500">No expiration policies yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {policies.map(policy => (
+              <li key={policy.id} className="px-6 py-4 flex items-center justify-between gap-4">
+                <div className={policy.enabled ? '' : 'opacity-50'}>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {policy.name}
+                    <span className="ml-2 text-xs font-normal text-slate-500">priority {policy.priority}</span>
+                  </p>
+                  <p className="text-xs text-slate-600 capitalize">{describeScope(policy)}</p>
+                  <p className="text-xs text-slate-500">
+                    {policy.expire_after_days ? `Expires ${policy.expire_after_days} days after last update` : 'No automatic expiry'}
+                    {' · '}critical {policy.critical_days}d, warning {policy.warning_days}d, notice {policy.notice_days}d
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => run(() => updateExpirationPolicy(policy.id, { enabled: !policy.enabled }), 'Failed to update expiration policy')}
+                    disabled={saving}
+                    className="px-3 py-1.5 text-sm font-medium text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+                  >
+                    {policy.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button
+                    onClick={() => handleEdit(policy)}
+                    disabled={saving}
+                    className="px-3 py-1.5 text-sm font-medium text-teal-600 hover:text-teal-700 disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(policy)}
+                    disabled={saving}
+                    className="px-3 py-1.5 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
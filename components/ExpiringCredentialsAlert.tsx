@@ -3,11 +3,14 @@
 /**
  * Expiring Credentials Alert Component
  * 
- * Displays alerts for expired and expiring credentials on the dashboard
+ * Displays alerts for expired and expiring credentials on the dashboard.
+ * Urgency comes from the expiration policy governing each entry.
  */
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
+import type { ExpiryStatus } from '@/lib/api/expiration-policies'
+import type { ExpiryWindows } from '@/lib/utils/expiration-policy'
 
 interface ExpiringEntry {
   id: string
@@ -15,7 +18,9 @@ interface ExpiringEntry {
   category: string
   expiration_date: string
   daysUntilExpiration: number
-  status: 'expired' | 'critical' | 'warning' | 'notice'
+  status: ExpiryStatus
+  windows: ExpiryWindows
+  policy: { id: string; name: string } | null
 }
 
 interface ExpiringData {
@@ -106,7 +111,7 @@ export default function ExpiringCredentialsAlert() {
           <div className="flex items-center gap-2 px-3 py-2 bg-orange-50 border border-orange-200 rounded-lg">
             <span className="inline-block w-2 h-2 bg-orange-500 rounded-full"></span>
             <span className="text-sm font-semibold text-orange-800">
-              {data.counts.critical} Expiring Soon (≤7 days)
+              {data.counts.critical} Expiring Soon
             </span>
           </div>
         )}
@@ -114,7 +119,7 @@ export default function ExpiringCredentialsAlert() {
           <div className="flex items-center gap-2 px-3 py-2 bg-yellow-50 border border-yellow-200 rounded-lg">
             <span className="inline-block w-2 h-2 bg-yellow-500 rounded-full"></span>
             <span className="text-sm font-semibold text-yellow-800">
-              {data.counts.warning} Expiring (≤14 days)
+              {data.counts.warning} Expiring
             </span>
           </div>
         )}
@@ -137,7 +142,10 @@ export default function ExpiringCredentialsAlert() {
                     <div className="flex items-center justify-between">
                       <div>
                         <p className="font-semibold text-slate-900">{entry.title}</p>
-                        <p className="text-xs text-slate-600 capitalize">{entry.category}</p>
+                        <p className="text-xs text-slate-600">
+                          <span className="capitalize">{entry.category}</span>
+                          {entry.policy && ` · ${entry.policy.name}`}
+                        </p>
                       </div>
                       <span className="text-xs font-bold text-red-600">
                         {Math.abs(entry.daysUntilExpiration)} days overdue
@@ -152,7 +160,7 @@ export default function ExpiringCredentialsAlert() {
           {/* Critical Entries */}
           {data.critical.length > 0 && (
             <div>
-              <h4 className="text-sm font-bold text-orange-800 mb-2">🔥 Expiring Soon (≤7 days)</h4>
+              <h4 className="text-sm font-bold text-orange-800 mb-2">🔥 Expiring Soon</h4>
               <div className="space-y-2">
                 {data.critical.map((entry) => (
                   <Link
@@ -163,7 +171,10 @@ export default function ExpiringCredentialsAlert() {
                     <div className="flex items-center justify-between">
                       <div>
                         <p className="font-semibold text-slate-900">{entry.title}</p>
-                        <p className="text-xs text-slate-600 capitalize">{entry.category}</p>
+                        <p className="text-xs text-slate-600">
+                          <span className="capitalize">{entry.category}</span>
+                          {entry.policy && ` · ${entry.policy.name}`}
+                        </p>
                       </div>
                       <span className="text-xs font-bold text-orange-600">
                         {entry.daysUntilExpiration} days left
@@ -178,7 +189,7 @@ export default function ExpiringCredentialsAlert() {
           {/* Warning Entries */}
           {data.warning.length > 0 && (
             <div>
-              <h4 className="text-sm font-bold text-yellow-800 mb-2">⚡ Expiring (≤14 days)</h4>
+              <h4 className="text-sm font-bold text-yellow-800 mb-2">⚡ Expiring</h4>
               <div className="space-y-2">
                 {data.warning.map((entry) => (
                   <Link
@@ -189,7 +200,10 @@ export default function ExpiringCredentialsAlert() {
                     <div className="flex items-center justify-between">
                       <div>
                         <p className="font-semibold text-slate-900">{entry.title}</p>
-                        <p className="text-xs text-slate-600 capitalize">{entry.category}</p>
+                        <p className="text-xs text-slate-600">
+                          <span className="capitalize">{entry.category}</span>
+                          {entry.policy && ` · ${entry.policy.name}`}
+                        </p>
                       </div>
                       <span className="text-xs font-bold text-yellow-600">
                         {entry.daysUntilExpiration} days left
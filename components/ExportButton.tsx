@@ -3,7 +3,8 @@
 /**
  * Export Button Component
  * 
- * Allows exporting entry as JSON or TXT
+ * Allows exporting entry as JSON or TXT. Entries under dual control are
+ * exported with an approved export request, which the download uses up.
  */
 
 import { useState } from 'react'
@@ -11,9 +12,11 @@ import { useState } from 'react'
 interface ExportButtonProps {
   entryId: string
   entryTitle: string
+  approvalId?: string
+  onExported?: () => void
 }
 
-export default function ExportButton({ entryId, entryTitle }: ExportButtonProps) {
+export default function ExportButton({ entryId, entryTitle, approvalId, onExported }: ExportButtonProps) {
   const [isExporting, setIsExporting] = useState(false)
   const [showMenu, setShowMenu] = useState(false)
 
@@ -22,7 +25,8 @@ export default function ExportButton({ entryId, entryTitle }: ExportButtonProps)
     setShowMenu(false)
 
     try {
-      const response = await fetch(`/api/entries/${entryId}/export?format=${format}`)
+      const approvalParam = approvalId ? `&approval=${encodeURIComponent(approvalId)}` : ''
+      const response = await fetch(`/api/entries/${entryId}/export?format=${format}${approvalParam}`)
       
       if (!response.ok) {
         throw new Error('Export failed')
@@ -46,6 +50,7 @@ export default function ExportButton({ entryId, entryTitle }: ExportButtonProps)
       a.click()
       window.URL.revokeObjectURL(url)
       document.body.removeChild(a)
+      onExported?.()
     } catch (error) {
       console.error('Export error:', error)
       alert('Failed to export entry')
@@ -0,0 +1,26 @@
+'use client'
+
+/**
+ * HighlightedText Component
+ *
+ * Renders a search highlight, marking the matched terms. The text is
+ * rendered as text, never as HTML.
+ */
+
+import { splitHighlights } from '@/lib/utils/search'
+
+export default function HighlightedText({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-100 text-slate-900 rounded px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  )
+}
@@ -0,0 +1,271 @@
+'use client'
+
+/**
+ * Invitation Manager Component
+ *
+ * Issues signup invitations, lists them with their status and lets the
+ * inviter resend or revoke them. Admins can also switch invite-only signup
+ * on or off.
+ */
+
+import { useEffect, useState } from 'react'
+import type { UserRole } from '@/lib/api/auth'
+import type { WorkspaceMembership } from '@/lib/api/workspaces'
+import {
+  Invitation,
+  InvitationStatus,
+  createInvitation,
+  getInvitations,
+  resendInvitation,
+  revokeInvitation,
+  setInviteOnly,
+} from '@/lib/api/invitations'
+import CopyButton from './CopyButton'
+
+const STATUS_COLORS: Record<InvitationStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  accepted: 'bg-green-100 text-green-800',
+  expired: 'bg-slate-200 text-slate-700',
+  revoked: 'bg-red-100 text-red-700',
+}
+
+interface InvitationManagerProps {
+  workspaces: WorkspaceMembership[]
+  invitableRoles: UserRole[]
+  isAdmin: boolean
+}
+
+export default function InvitationManager({ workspaces, invitableRoles, isAdmin }: InvitationManagerProps) {
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [inviteOnly, setInviteOnlyState] = useState(false)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<UserRole>(invitableRoles[invitableRoles.length - 1] || 'viewer')
+  const [workspaceId, setWorkspaceId] = useState(workspaces[0]?.id || '')
+  const [inviteUrl, setInviteUrl] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchInvitations()
+  }, [])
+
+  const fetchInvitations = async () => {
+    try {
+      const result = await getInvitations()
+      setInvitations(result.invitations)
+      setInviteOnlyState(result.inviteOnly)
+    } catch (err: any) {
+      console.error('Error fetching invitations:', err)
+      setError(err.message || 'Failed to load invitations')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const replaceInvitation = (updated: Invitation) => {
+    setInvitations(invitations.map(invitation => (invitation.id === updated.id ? updated : invitation)))
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setInviteUrl('')
+    setIsSaving(true)
+
+    try {
+      const result = await createInvitation(email, role, workspaceId)
+      setInvitations([result.invitation, ...invitations])
+      setInviteUrl(result.inviteUrl)
+      setEmail('')
+    } catch (err: any) {
+      console.error('Error creating invitation:', err)
+      setError(err.message || 'Failed to create invitation')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleResend = async (invitationId: string) => {
+    setError('')
+    setInviteUrl('')
+
+    try {
+      const result = await resendInvitation(invitationId)
+      replaceInvitation(result.invitation)
+      setInviteUrl(result.inviteUrl)
+    } catch (err: any) {
+      console.error('Error resending invitation:', err)
+      setError(err.message || 'Failed to resend invitation')
+    }
+  }
+
+  const handleRevoke = async (invitation: Invitation) => {
+    setError('')
+
+    try {
+      await revokeInvitation(invitation.id)
+      replaceInvitation({ ...invitation, status: 'revoked', revoked_at: new Date().toISOString() })
+    } catch (err: any) {
+      console.error('Error revoking invitation:', err)
+      setError(err.message || 'Failed to revoke invitation')
+    }
+  }
+
+  const handleInviteOnlyChange = async (enabled: boolean) => {
+    setError('')
+
+    try {
+      await setInviteOnly(enabled)
+      setInviteOnlyState(enabled)
+    } catch (err: any) {
+      console.error('Error updating signup setting:', err)
+      setError(err.message || 'Failed to update signup setting')
+    }
+  }
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-slate-200 rounded w-1/4"></div>
+          <div className="h-16 bg-slate-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {isAdmin && (
+        <label className="flex items-center gap-3 bg-white rounded-xl shadow p-6 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={inviteOnly}
+            onChange={(e) => handleInviteOnlyChange(e.target.checked)}
+            className="h-4 w-4 text-teal-600 focus:ring-teal-500 border-slate-300 rounded"
+          />
+          <span>
+            <span className="block text-sm font-medium text-slate-900">Invite-only signup</span>
+            <span className="block text-xs text-slate-500">
+              When on, new accounts can only be created from an invitation link
+            </span>
+          </span>
+        </label>
+      )}
+
+      <div className="bg-white rounded-xl shadow p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-slate-900">Invite someone</h3>
+
+        {workspaces.length === 0 ? (
+          <p className="text-sm text-slate-500">You need to be an admin or manager of a workspace to invite people.</p>
+        ) : (
+          <form onSubmit={handleInvite} className="flex flex-wrap gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="teammate@example.com"
+              className="flex-1 min-w-[12rem] px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as UserRole)}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900 capitalize"
+            >
+              {invitableRoles.map(r => (
+                <option key={r} value={r}>{r}</option>
+              ))}
+            </select>
+            <select
+              value={workspaceId}
+              onChange={(e) => setWorkspaceId(e.target.value)}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+            >
+              {workspaces.map(workspace => (
+                <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={isSaving || !email}
+              className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Inviting...' : 'Invite'}
+            </button>
+          </form>
+        )}
+
+        {inviteUrl && (
+          <div className="p-4 bg-teal-50 border border-teal-200 rounded-lg space-y-2">
+            <p className="text-sm text-teal-800">
+              Send this link to the invitee. It is shown only once and works for a single signup.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs text-slate-700 break-all">{inviteUrl}</code>
+              <CopyButton content={inviteUrl} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow">
+        <div className="p-6 border-b border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900">Invitations</h3>
+        </div>
+        {invitations.length === 0 ? (
+          <p className="p-6 text-sm text-slate-500">No invitations yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {invitations.map(invitation => (
+              <li key={invitation.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                <span>
+                  <span className="block font-medium text-slate-900">{invitation.email}</span>
+                  <span className="block text-xs text-slate-500">
+                    <span className="capitalize">{invitation.role}</span> in {invitation.workspace_name}
+                    {invitation.status === 'pending' && ` · expires ${formatDate(invitation.expires_at)}`}
+                  </span>
+                </span>
+                <span className="flex items-center gap-4">
+                  <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_COLORS[invitation.status]}`}>
+                    {invitation.status}
+                  </span>
+                  {invitation.status !== 'accepted' && (
+                    <button
+                      onClick={() => handleResend(invitation.id)}
+                      className="text-xs font-medium text-teal-600 hover:text-teal-700"
+                    >
+                      Resend
+                    </button>
+                  )}
+                  {invitation.status === 'pending' && (
+                    <button
+                      onClick={() => handleRevoke(invitation)}
+                      className="text-xs font-medium text-red-600 hover:text-red-700"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+'use client'
+
+/**
+ * Notification Preferences Form Component
+ *
+ * Lets a user choose the channels their expiration digests are sent on
+ * and the webhook URLs they use
+ */
+
+import { useEffect, useState } from 'react'
+import {
+  NotificationChannelType,
+  NotificationPreferences,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '@/lib/api/notifications'
+
+const CHANNEL_OPTIONS: { channel: NotificationChannelType; label: string; description: string }[] = [
+  { channel: 'email', label: 'Email', description: 'Sent to your account email address' },
+  { channel: 'webhook', label: 'Webhook', description: 'JSON POST to an HTTPS URL' },
+  { channel: 'slack', label: 'Slack', description: 'Message to a Slack-compatible incoming webhook' },
+]
+
+export default function NotificationPreferencesForm({ email }: { email: string }) {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  useEffect(() => {
+    getNotificationPreferences()
+      .then(setPreferences)
+      .catch((err: any) => {
+        console.error('Error fetching notification preferences:', err)
+        setError(err.message || 'Failed to load notification preferences')
+      })
+  }, [])
+
+  const toggleChannel = (channel: NotificationChannelType, enabled: boolean) => {
+    if (!preferences) return
+    setPreferences({
+      ...preferences,
+      channels: enabled
+        ? [...preferences.channels, channel]
+        : preferences.channels.filter(c => c !== channel),
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!preferences) return
+
+    setError('')
+    setSuccess('')
+    setSaving(true)
+
+    try {
+      setPreferences(await updateNotificationPreferences(preferences))
+      setSuccess('Notification preferences saved')
+    } catch (err: any) {
+      console.error('Error saving notification preferences:', err)
+      setError(err.message || 'Failed to save notification preferences')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!preferences) {
+    return (
+      <div className="bg-white rounded-xl shadow p-6">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <div className="animate-pulse space-y-4">
+            <div className="h-4 bg-slate-200 rounded w-1/4"></div>
+            <div className="h-16 bg-slate-200 rounded"></div>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow p-6 space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+      {success && (
+        <div className="p-3 bg-teal-50 border border-teal-200 rounded-lg">
+          <p className="text-sm text-teal-700">{success}</p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {CHANNEL_OPTIONS.map(({ channel, label, description }) => (
+          <div key={channel} className="space-y-2">
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={preferences.channels.includes(channel)}
+                onChange={(e) => toggleChannel(channel, e.target.checked)}
+                className="mt-0.5 h-4 w-4 text-teal-600 focus:ring-teal-500 border-slate-300 rounded"
+              />
+              <span>
+                <span className="block text-sm font-medium text-slate-900">{label}</span>
+                <span className="block text-xs text-slate-500">
+                  {channel === 'email' ? `${description} (${email})` : description}
+                </span>
+              </span>
+            </label>
+
+            {channel !== 'email' && preferences.channels.includes(channel) && (
+              <input
+                type="url"
+                required
+                value={(channel === 'webhook' ? preferences.webhook_url : preferences.slack_webhook_url) || ''}
+                onChange={(e) => setPreferences({
+                  ...preferences,
+                  [channel === 'webhook' ? 'webhook_url' : 'slack_webhook_url']: e.target.value,
+                })}
+                placeholder="https://"
+                className="ml-7 w-[calc(100%-1.75rem)] px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Digests list your entries that have expired or are inside their expiration policy's warning window. Each entry is only repeated when it becomes more urgent.
+        {preferences.channels.length === 0 && ' With no channel selected you will not be notified.'}
+      </p>
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save preferences'}
+      </button>
+    </form>
+  )
+}
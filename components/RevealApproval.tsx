@@ -0,0 +1,206 @@
+'use client'
+
+/**
+ * Reveal Approval Component
+ *
+ * Stands in for the content of an entry under dual control. The user asks
+ * for approval to reveal or export the entry, follows their requests, and
+ * uses an approval once it has been granted.
+ */
+
+import { useEffect, useState } from 'react'
+import type { EntryCategory } from '@/lib/api/entries'
+import {
+  RevealAction,
+  RevealRequest,
+  RevealRequestStatus,
+  RevealedContent,
+  getEntryRevealRequests,
+  requestReveal,
+  revealEntry,
+} from '@/lib/api/approvals'
+import CopyButton from './CopyButton'
+import EntryFieldList from './EntryFieldList'
+import ExportButton from './ExportButton'
+
+const STATUS_COLORS: Record<RevealRequestStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  denied: 'bg-red-100 text-red-700',
+  used: 'bg-slate-200 text-slate-700',
+  expired: 'bg-slate-200 text-slate-700',
+}
+
+interface RevealApprovalProps {
+  entryId: string
+  entryTitle: string
+  category: EntryCategory
+  classification: string
+}
+
+export default function RevealApproval({ entryId, entryTitle, category, classification }: RevealApprovalProps) {
+  const [requests, setRequests] = useState<RevealRequest[]>([])
+  const [reason, setReason] = useState('')
+  const [revealed, setRevealed] = useState<RevealedContent | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchRequests()
+  }, [entryId])
+
+  const fetchRequests = async () => {
+    try {
+      setRequests(await getEntryRevealRequests(entryId))
+    } catch (err: any) {
+      console.error('Error fetching approval requests:', err)
+      setError(err.message || 'Failed to load approval requests')
+    }
+  }
+
+  const handleRequest = async (action: RevealAction) => {
+    setError('')
+    setBusy(true)
+
+    try {
+      const created = await requestReveal(entryId, action, reason)
+      setRequests([created, ...requests])
+      setReason('')
+    } catch (err: any) {
+      console.error('Error requesting approval:', err)
+      setError(err.message || 'Failed to request approval')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleReveal = async (requestId: string) => {
+    setError('')
+    setBusy(true)
+
+    try {
+      setRevealed(await revealEntry(entryId, requestId))
+      await fetchRequests()
+    } catch (err: any) {
+      console.error('Error revealing entry:', err)
+      setError(err.message || 'Failed to reveal entry')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const formatTime = (dateString: string): string => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  if (revealed) {
+    return (
+      <div className="space-y-4">
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-3 text-sm">
+          Revealed once with an approval. Leaving or reloading this page hides the content again.
+        </div>
+        {revealed.fields && <EntryFieldList category={category} fields={revealed.fields} />}
+        {revealed.content && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-slate-700">Content</h3>
+              <CopyButton content={revealed.content} />
+            </div>
+            <div className="bg-slate-50 rounded-lg p-6 border border-slate-200">
+              <pre className="whitespace-pre-wrap font-mono text-sm text-slate-900">{revealed.content}</pre>
+            </div>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-4 text-sm">
+        <p className="font-medium capitalize">{classification} entry under dual control</p>
+        <p>
+          Ask an approver to reveal or export this entry. Once approved you can use the approval
+          once, for a few minutes. Requests, decisions and reveals are all logged.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (shown to the approver)"
+          className="flex-1 min-w-[12rem] px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+        />
+        <button
+          onClick={() => handleRequest('reveal')}
+          disabled={busy || !reason.trim()}
+          className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+        >
+          Request reveal
+        </button>
+        <button
+          onClick={() => handleRequest('export')}
+          disabled={busy || !reason.trim()}
+          className="px-4 py-2 bg-slate-600 hover:bg-slate-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+        >
+          Request export
+        </button>
+      </div>
+
+      {requests.length > 0 && (
+        <ul className="divide-y divide-slate-200 border border-slate-200 rounded-lg">
+          {requests.map(request => (
+            <li key={request.id} className="px-4 py-3 flex items-center justify-between gap-4 text-sm">
+              <span>
+                <span className="block text-slate-900">
+                  <span className="capitalize">{request.action}</span> · {request.reason}
+                </span>
+                <span className="block text-xs text-slate-500">
+                  Requested {formatTime(request.created_at)}
+                  {request.decided_by_email && ` · ${request.status === 'denied' ? 'denied' : 'approved'} by ${request.decided_by_email}`}
+                  {request.decision_note && `: ${request.decision_note}`}
+                  {request.status === 'approved' && request.expires_at && ` · use before ${formatTime(request.expires_at)}`}
+                </span>
+              </span>
+              <span className="flex items-center gap-3">
+                <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_COLORS[request.status]}`}>
+                  {request.status}
+                </span>
+                {request.status === 'approved' && request.action === 'reveal' && (
+                  <button
+                    onClick={() => handleReveal(request.id)}
+                    disabled={busy}
+                    className="px-3 py-1.5 bg-teal-600 hover:bg-teal-700 text-white text-xs font-medium rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Reveal now
+                  </button>
+                )}
+                {request.status === 'approved' && request.action === 'export' && (
+                  <ExportButton
+                    entryId={entryId}
+                    entryTitle={entryTitle}
+                    approvalId={request.id}
+                    onExported={fetchRequests}
+                  />
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
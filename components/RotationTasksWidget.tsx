@@ -0,0 +1,188 @@
+'use client'
+
+/**
+ * Rotation Tasks Widget Component
+ *
+ * Dashboard list of the current user's credential rotation tasks with
+ * start, snooze and rotate actions, and for workspace admins and managers
+ * the overdue rotations of each team member
+ */
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  RotationTask,
+  RotationTaskOverview,
+  RotationTaskUpdate,
+  getRotationTasks,
+  isRotationOverdue,
+  updateRotationTask,
+} from '@/lib/api/rotation-tasks'
+
+const SNOOZE_DAYS = 7
+
+const STATUS_STYLES: Record<RotationTask['status'], string> = {
+  open: 'bg-slate-100 text-slate-700',
+  in_progress: 'bg-teal-100 text-teal-800',
+  snoozed: 'bg-amber-100 text-amber-800',
+  done: 'bg-green-100 text-green-800',
+}
+
+export default function RotationTasksWidget() {
+  const [overview, setOverview] = useState<RotationTaskOverview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchTasks()
+  }, [])
+
+  const fetchTasks = async () => {
+    try {
+      setOverview(await getRotationTasks())
+    } catch (err: any) {
+      console.error('Error fetching rotation tasks:', err)
+      setError(err.message || 'Failed to load rotation tasks')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleUpdate = async (task: RotationTask, update: RotationTaskUpdate) => {
+    setError('')
+    setBusyId(task.id)
+
+    try {
+      await updateRotationTask(task.id, update)
+      await fetchTasks()
+    } catch (err: any) {
+      console.error('Error updating rotation task:', err)
+      setError(err.message || 'Failed to update rotation task')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const snooze = (task: RotationTask) => {
+    const until = new Date()
+    until.setDate(until.getDate() + SNOOZE_DAYS)
+    handleUpdate(task, { status: 'snoozed', snoozed_until: until.toISOString() })
+  }
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow p-4 mb-8 animate-pulse">
+        <div className="h-6 bg-slate-200 rounded w-1/3 mb-2"></div>
+        <div className="h-4 bg-slate-200 rounded w-2/3"></div>
+      </div>
+    )
+  }
+
+  const tasks = overview?.tasks || []
+  const team = overview?.team || []
+
+  if (!error && tasks.length === 0 && team.length === 0) {
+    return null // Nothing to rotate
+  }
+
+  const now = new Date()
+  const overdueCount = tasks.filter(task => isRotationOverdue(task, now)).length
+
+  return (
+    <div className="bg-white rounded-xl shadow mb-8">
+      <div className="p-6 border-b border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900">Rotation Tasks</h3>
+        <p className="text-sm text-slate-500">
+          {tasks.length === 0
+            ? 'No credentials are waiting for you to rotate them.'
+            : `${tasks.length} ${tasks.length === 1 ? 'credential needs' : 'credentials need'} rotating` +
+              (overdueCount > 0 ? `, ${overdueCount} overdue` : '')}
+        </p>
+      </div>
+
+      {error && (
+        <div className="m-6 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {tasks.length > 0 && (
+        <ul className="divide-y divide-slate-200">
+          {tasks.map(task => {
+            const overdue = isRotationOverdue(task, now)
+            return (
+              <li key={task.id} className="px-6 py-4 flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">
+                    {task.entry?.title || 'Untitled entry'}
+                    <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[task.status]}`}>
+                      {task.status.replace('_', ' ')}
+                    </span>
+                  </p>
+                  <p className={`text-xs ${overdue ? 'text-red-600 font-medium' : 'text-slate-500'}`}>
+                    {overdue ? 'Overdue since' : 'Due'} {new Date(task.due_date).toLocaleDateString()}
+                    {task.status === 'snoozed' && task.snoozed_until &&
+                      ` · snoozed until ${new Date(task.snoozed_until).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {task.status === 'open' && (
+                    <button
+                      onClick={() => handleUpdate(task, { status: 'in_progress' })}
+                      disabled={busyId === task.id}
+                      className="px-3 py-1.5 text-sm font-medium text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+                    >
+                      Start
+                    </button>
+                  )}
+                  {task.status === 'snoozed' ? (
+                    <button
+                      onClick={() => handleUpdate(task, { status: 'open' })}
+                      disabled={busyId === task.id}
+                      className="px-3 py-1.5 text-sm font-medium text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+                    >
+                      Reopen
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => snooze(task)}
+                      disabled={busyId === task.id}
+                      className="px-3 py-1.5 text-sm font-medium text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+                    >
+                      Snooze {SNOOZE_DAYS}d
+                    </button>
+                  )}
+                  <Link
+                    href={`/entries/${task.entry_id}/edit?rotationTask=${task.id}`}
+                    className="px-3 py-1.5 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors"
+                  >
+                    Mark rotated
+                  </Link>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {overview?.team && (
+        <div className="p-6 border-t border-slate-200">
+          <h4 className="text-sm font-semibold text-slate-900 mb-2">Overdue across the team</h4>
+          {team.length === 0 ? (
+            <p className="text-sm text-slate-500">No overdue rotations in this workspace.</p>
+          ) : (
+            <ul className="space-y-1">
+              {team.map(member => (
+                <li key={member.assigned_to || 'unassigned'} className="flex justify-between text-sm">
+                  <span className="text-slate-700">{member.email || member.assigned_to || 'Unassigned'}</span>
+                  <span className="font-medium text-red-600">{member.overdue} overdue</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
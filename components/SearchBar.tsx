@@ -11,16 +11,26 @@ import { useState, useEffect } from 'react'
 interface SearchBarProps {
   onSearch: (query: string) => void
   placeholder?: string
+  /** Initial query, e.g. restored from the URL */
+  defaultValue?: string
   resultsCount?: number
+  /** Tags of the current results with their match counts */
+  tagFacets?: { tag: string; count: number }[]
+  selectedTags?: string[]
+  onToggleTag?: (tag: string) => void
 }
 
 export default function SearchBar({ 
   onSearch, 
   placeholder = 'Search entries...',
-  resultsCount 
+  defaultValue = '',
+  resultsCount,
+  tagFacets = [],
+  selectedTags = [],
+  onToggleTag
 }: SearchBarProps) {
-  const [query, setQuery] = useState('')
-  const [debouncedQuery, setDebouncedQuery] = useState('')
+  const [query, setQuery] = useState(defaultValue)
+  const [debouncedQuery, setDebouncedQuery] = useState(defaultValue)
 
   // Debounce search query (300ms delay)
   useEffect(() => {
@@ -99,6 +109,30 @@ export default function SearchBar({
           Found {resultsCount} {resultsCount === 1 ? 'result' : 'results'}
         </p>
       )}
+
+      {/* Tag Facets */}
+      {onToggleTag && (selectedTags.length > 0 || (query && tagFacets.length > 0)) && (
+        <div className="mt-2 flex flex-wrap gap-1.5">
+          {/* Selected tags stay visible even when no current result carries them */}
+          {[
+            ...selectedTags.filter(tag => !tagFacets.some(facet => facet.tag === tag)).map(tag => ({ tag, count: 0 })),
+            ...tagFacets,
+          ].map(({ tag, count }) => (
+            <button
+              key={tag}
+              onClick={() => onToggleTag(tag)}
+              className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                selectedTags.includes(tag)
+                  ? 'bg-teal-600 text-white'
+                  : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+              }`}
+            >
+              #{tag}
+              <span className="opacity-75">{count}</span>
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,214 @@
+'use client'
+
+/**
+ * Security Alert List Component
+ *
+ * Lists alerts raised by anomaly detection with what triggered them and
+ * lets an admin acknowledge or resolve each one
+ */
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  ALERT_RULE_LABELS,
+  AlertFilter,
+  AlertSeverity,
+  SecurityAlert,
+  getAlerts,
+  updateAlert,
+} from '@/lib/api/alerts'
+
+const FILTER_LABELS: Record<Exclude<AlertFilter, 'acknowledged'>, string> = {
+  active: 'Active',
+  open: 'Open',
+  resolved: 'Resolved',
+  all: 'All',
+}
+
+const SEVERITY_STYLES: Record<AlertSeverity, { border: string; badge: string }> = {
+  high: { border: 'border-red-500', badge: 'bg-red-100 text-red-700' },
+  medium: { border: 'border-amber-500', badge: 'bg-amber-100 text-amber-700' },
+  low: { border: 'border-slate-400', badge: 'bg-slate-100 text-slate-700' },
+}
+
+export default function SecurityAlertList({ currentUserId }: { currentUserId: string }) {
+  const [alerts, setAlerts] = useState<SecurityAlert[]>([])
+  const [filter, setFilter] = useState<AlertFilter>('active')
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchAlerts()
+  }, [filter])
+
+  const fetchAlerts = async () => {
+    setLoading(true)
+
+    try {
+      setAlerts(await getAlerts(filter))
+    } catch (err: any) {
+      console.error('Error fetching security alerts:', err)
+      setError(err.message || 'Failed to load alerts')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleUpdate = async (alert: SecurityAlert, status: 'acknowledged' | 'resolved') => {
+    setError('')
+    setBusyId(alert.id)
+
+    try {
+      await updateAlert(alert.id, status, status === 'resolved' ? notes[alert.id] : undefined)
+      await fetchAlerts()
+    } catch (err: any) {
+      console.error('Error updating security alert:', err)
+      setError(err.message || 'Failed to update alert')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  const auditLink = (alert: SecurityAlert): string => {
+    const params = new URLSearchParams({
+      from: alert.first_event_at.substring(0, 10),
+      to: alert.last_event_at.substring(0, 10),
+    })
+    if (alert.user_id) params.set('userId', alert.user_id)
+    return `/admin/audit?${params}`
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {(Object.keys(FILTER_LABELS) as (keyof typeof FILTER_LABELS)[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setFilter(option)}
+            className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+              filter === option
+                ? 'bg-teal-600 text-white'
+                : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            {FILTER_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="bg-white rounded-xl shadow p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-4 bg-slate-200 rounded w-1/4"></div>
+            <div className="h-16 bg-slate-200 rounded"></div>
+          </div>
+        </div>
+      ) : alerts.length === 0 ? (
+        <div className="bg-white rounded-xl shadow p-12 text-center text-slate-500">
+          {filter === 'active' || filter === 'open' ? 'No alerts need attention.' : 'No alerts found.'}
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {alerts.map(alert => (
+            <li
+              key={alert.id}
+              className={`bg-white rounded-xl shadow border-l-4 p-6 space-y-3 ${SEVERITY_STYLES[alert.severity].border}`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">{alert.title}</p>
+                  <p className="text-xs text-slate-500">
+                    {ALERT_RULE_LABELS[alert.rule]} · {alert.user_email || alert.user_id || 'Unknown user'}
+                    {' · '}{formatDate(alert.first_event_at)}
+                    {alert.last_event_at !== alert.first_event_at && ` – ${formatDate(alert.last_event_at)}`}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium uppercase ${SEVERITY_STYLES[alert.severity].badge}`}>
+                    {alert.severity}
+                  </span>
+                  {alert.status !== 'open' && (
+                    <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-teal-100 text-teal-700 capitalize">
+                      {alert.status}
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600">
+                {Array.isArray(alert.details.ip_addresses) && alert.details.ip_addresses.length > 0 && (
+                  <span>IP: {(alert.details.ip_addresses as string[]).join(', ')}</span>
+                )}
+                {Array.isArray(alert.details.entry_ids) && (
+                  <span>{alert.details.entry_ids.length} {alert.details.entry_ids.length === 1 ? 'entry' : 'entries'}</span>
+                )}
+                <Link href={auditLink(alert)} className="text-teal-600 hover:text-teal-700 font-medium">
+                  View in audit log →
+                </Link>
+              </div>
+
+              {alert.acknowledged_at && (
+                <p className="text-xs text-slate-500">
+                  Acknowledged by {alert.acknowledged_by_email || 'an admin'} on {formatDate(alert.acknowledged_at)}
+                </p>
+              )}
+
+              {alert.resolved_at ? (
+                <p className="text-xs text-slate-500">
+                  Resolved by {alert.resolved_by_email || 'an admin'} on {formatDate(alert.resolved_at)}
+                  {alert.resolution_note && `: ${alert.resolution_note}`}
+                </p>
+              ) : alert.user_id === currentUserId ? (
+                <p className="text-xs text-slate-500">Another admin must review alerts about your own activity.</p>
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={notes[alert.id] || ''}
+                    onChange={(e) => setNotes({ ...notes, [alert.id]: e.target.value })}
+                    placeholder="Resolution note (optional)"
+                    className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+                  />
+                  {alert.status === 'open' && (
+                    <button
+                      onClick={() => handleUpdate(alert, 'acknowledged')}
+                      disabled={busyId === alert.id}
+                      className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      Acknowledge
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleUpdate(alert, 'resolved')}
+                    disabled={busyId === alert.id}
+                    className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    Resolve
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+/**
+ * TOTP Code Component
+ *
+ * Shows the live one-time code for a credential's MFA seed.
+ * Codes are only fetched after the user asks for them, since every
+ * retrieval is written to the access log.
+ */
+
+import { useEffect, useState } from 'react'
+import CopyButton from './CopyButton'
+
+interface TotpState {
+  code: string
+  remainingSeconds: number
+  period: number
+}
+
+export default function TotpCode({ entryId }: { entryId: string }) {
+  const [active, setActive] = useState(false)
+  const [totp, setTotp] = useState<TotpState | null>(null)
+  const [error, setError] = useState('')
+
+  const fetchCode = async () => {
+    try {
+      const response = await fetch(`/api/entries/${entryId}/totp`, { cache: 'no-store' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load code')
+      }
+
+      setTotp(data.data)
+      setError('')
+    } catch (err: any) {
+      console.error('TOTP error:', err)
+      setError(err.message || 'Failed to load code')
+      setActive(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!active) return
+
+    fetchCode()
+    const interval = setInterval(() => {
+      setTotp(current => current && { ...current, remainingSeconds: current.remainingSeconds - 1 })
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [active])
+
+  // Fetch the next code once the current one rotates
+  useEffect(() => {
+    if (active && totp && totp.remainingSeconds === 0) {
+      fetchCode()
+    }
+  }, [active, totp?.remainingSeconds])
+
+  if (!active || !totp) {
+    return (
+      <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-medium text-slate-500 uppercase tracking-wide">
+            One-Time Code
+          </span>
+          <button
+            type="button"
+            onClick={() => setActive(true)}
+            disabled={active}
+            className="text-xs font-medium text-teal-700 hover:text-teal-800 disabled:opacity-50"
+          >
+            {active ? 'Loading...' : 'Show code'}
+          </button>
+        </div>
+        {error && (
+          <p className="mt-2 text-sm text-red-600">{error}</p>
+        )}
+      </div>
+    )
+  }
+
+  const remaining = Math.max(totp.remainingSeconds, 0)
+
+  return (
+    <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="text-xs font-medium text-slate-500 uppercase tracking-wide">
+          One-Time Code
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              setActive(false)
+              setTotp(null)
+            }}
+            className="text-xs font-medium text-teal-700 hover:text-teal-800"
+          >
+            Hide
+          </button>
+          <CopyButton content={totp.code} />
+        </div>
+      </div>
+      <div className="flex items-center gap-4">
+        <span className="font-mono text-2xl font-semibold tracking-widest text-slate-900">
+          {totp.code.slice(0, Math.ceil(totp.code.length / 2))} {totp.code.slice(Math.ceil(totp.code.length / 2))}
+        </span>
+        <div className="flex-1">
+          <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all duration-1000 ${remaining <= 5 ? 'bg-red-500' : 'bg-teal-500'}`}
+              style={{ width: `${(remaining / totp.period) * 100}%` }}
+            />
+          </div>
+          <p className="mt-1 text-xs text-slate-500">Expires in {remaining}s</p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+/**
+ * Trash List Component
+ *
+ * Lists deleted entries with their purge date and lets owners and
+ * admins restore them
+ */
+
+import { useEffect, useState } from 'react'
+import { getTrashedEntries, restoreTrashedEntry, TrashedEntry } from '@/lib/api/trash'
+
+interface TrashListProps {
+  currentUserId: string
+  isAdmin: boolean
+}
+
+export default function TrashList({ currentUserId, isAdmin }: TrashListProps) {
+  const [entries, setEntries] = useState<TrashedEntry[]>([])
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchTrash()
+  }, [])
+
+  const fetchTrash = async () => {
+    try {
+      const result = await getTrashedEntries()
+      setEntries(result.entries)
+      setRetentionDays(result.retentionDays)
+    } catch (err: any) {
+      console.error('Error fetching trash:', err)
+      setError(err.message || 'Failed to load trash')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRestore = async (entry: TrashedEntry) => {
+    setError('')
+    setRestoringId(entry.id)
+
+    try {
+      await restoreTrashedEntry(entry.id)
+      setEntries(entries.filter(e => e.id !== entry.id))
+    } catch (err: any) {
+      console.error('Error restoring entry:', err)
+      setError(err.message || 'Failed to restore entry')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-slate-200 rounded w-1/4"></div>
+          <div className="h-16 bg-slate-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow">
+      <div className="p-6 border-b border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900">
+          Deleted Entries
+        </h3>
+        {retentionDays !== null && (
+          <p className="text-sm text-slate-600">
+            Entries are permanently purged {retentionDays} days after they are deleted
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="p-6 text-sm text-slate-500">The trash is empty.</p>
+      ) : (
+        <ul className="divide-y divide-slate-200">
+          {entries.map(entry => (
+            <li key={entry.id} className="px-6 py-4 flex items-center justify-between gap-4">
+              <div className="text-sm min-w-0">
+                <p className="font-medium text-slate-900 truncate">{entry.title}</p>
+                <p className="text-slate-500">
+                  <span className="capitalize">{entry.category}</span>
+                  {' · '}
+                  Deleted {formatDate(entry.deleted_at)}
+                  {isAdmin && entry.user_id !== currentUserId && ' · Another user\'s entry'}
+                </p>
+                <p className="text-xs text-red-600">
+                  Purged {formatDate(entry.purge_at)}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRestore(entry)}
+                disabled={restoringId !== null}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {restoringId === entry.id ? 'Restoring...' : 'Restore'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
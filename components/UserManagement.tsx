@@ -0,0 +1,233 @@
+'use client'
+
+/**
+ * User Management Component
+ *
+ * Admin console for approving accounts, changing roles, deactivating
+ * users and ending their sessions, with the role change history
+ */
+
+import { useEffect, useState } from 'react'
+import type { UserRole } from '@/lib/api/auth'
+import {
+  ManagedUser,
+  RoleChange,
+  RoleChangeAction,
+  forceSignOut,
+  getRoleChanges,
+  getUsers,
+  updateUser,
+} from '@/lib/api/admin'
+
+const ROLES: UserRole[] = ['admin', 'manager', 'member', 'viewer']
+
+const STATUS_COLORS: Record<ManagedUser['status'], string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  active: 'bg-green-100 text-green-800',
+  deactivated: 'bg-slate-200 text-slate-700',
+}
+
+const ACTION_LABELS: Record<RoleChangeAction, string> = {
+  role_change: 'Role changed',
+  approve: 'Approved',
+  deactivate: 'Deactivated',
+  reactivate: 'Reactivated',
+  sign_out: 'Signed out',
+}
+
+export default function UserManagement({ currentUserId }: { currentUserId: string }) {
+  const [users, setUsers] = useState<ManagedUser[]>([])
+  const [changes, setChanges] = useState<RoleChange[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const fetchData = async () => {
+    try {
+      const [userList, changeList] = await Promise.all([getUsers(), getRoleChanges()])
+      setUsers(userList)
+      setChanges(changeList)
+    } catch (err: any) {
+      console.error('Error fetching users:', err)
+      setError(err.message || 'Failed to load users')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runAction = async (userId: string, action: () => Promise<void>) => {
+    setError('')
+    setBusyId(userId)
+
+    try {
+      await action()
+      setChanges(await getRoleChanges())
+    } catch (err: any) {
+      console.error('Error updating user:', err)
+      setError(err.message || 'Failed to update user')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleUpdate = (userId: string, updates: Parameters<typeof updateUser>[1]) =>
+    runAction(userId, async () => {
+      const updated = await updateUser(userId, updates)
+      setUsers(users.map(u => (u.user_id === userId ? updated : u)))
+    })
+
+  const handleSignOut = (user: ManagedUser) => {
+    if (!confirm(`Sign ${user.email} out of all sessions?`)) return
+    runAction(user.user_id, () => forceSignOut(user.user_id))
+  }
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-slate-200 rounded w-1/4"></div>
+          <div className="h-16 bg-slate-200 rounded"></div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow overflow-hidden">
+        <div className="p-6 border-b border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900">Users</h3>
+          <p className="text-sm text-slate-600">
+            {users.filter(u => u.status === 'pending').length} awaiting approval
+          </p>
+        </div>
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-left text-slate-600">
+            <tr>
+              <th className="px-6 py-3 font-medium">User</th>
+              <th className="px-6 py-3 font-medium">Role</th>
+              <th className="px-6 py-3 font-medium">Status</th>
+              <th className="px-6 py-3 font-medium text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            {users.map(user => {
+              const isSelf = user.user_id === currentUserId
+              const isBusy = busyId === user.user_id
+              return (
+                <tr key={user.user_id}>
+                  <td className="px-6 py-3">
+                    <p className="font-medium text-slate-900">{user.full_name || user.email}</p>
+                    <p className="text-xs text-slate-500">{user.email}</p>
+                  </td>
+                  <td className="px-6 py-3">
+                    <select
+                      value={user.role}
+                      onChange={(e) => handleUpdate(user.user_id, { role: e.target.value as UserRole })}
+                      disabled={isSelf || isBusy}
+                      className="px-2 py-1 border border-slate-300 rounded-lg text-sm text-slate-900 capitalize disabled:opacity-50"
+                    >
+                      {ROLES.map(role => (
+                        <option key={role} value={role}>{role}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-6 py-3">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_COLORS[user.status]}`}>
+                      {user.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3">
+                    {!isSelf && (
+                      <div className="flex justify-end gap-3 text-xs font-medium">
+                        {user.status === 'pending' && (
+                          <button
+                            onClick={() => handleUpdate(user.user_id, { status: 'active' })}
+                            disabled={isBusy}
+                            className="text-teal-600 hover:text-teal-700 disabled:opacity-50"
+                          >
+                            Approve
+                          </button>
+                        )}
+                        {user.status === 'deactivated' ? (
+                          <button
+                            onClick={() => handleUpdate(user.user_id, { status: 'active' })}
+                            disabled={isBusy}
+                            className="text-teal-600 hover:text-teal-700 disabled:opacity-50"
+                          >
+                            Reactivate
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleUpdate(user.user_id, { status: 'deactivated' })}
+                            disabled={isBusy}
+                            className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                          >
+                            Deactivate
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleSignOut(user)}
+                          disabled={isBusy}
+                          className="text-slate-600 hover:text-slate-900 disabled:opacity-50"
+                        >
+                          Sign out
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-xl shadow">
+        <div className="p-6 border-b border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900">Role Changes</h3>
+        </div>
+        {changes.length === 0 ? (
+          <p className="p-6 text-sm text-slate-500">No role changes recorded yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {changes.map(change => (
+              <li key={change.id} className="px-6 py-3 flex items-center justify-between text-sm">
+                <span className="text-slate-900">
+                  <span className="font-medium">{ACTION_LABELS[change.action]}</span>
+                  {' '}{change.user_email}
+                  {change.action === 'role_change' && (
+                    <span className="text-slate-600 capitalize"> ({change.old_role} → {change.new_role})</span>
+                  )}
+                </span>
+                <span className="text-xs text-slate-500">
+                  {change.changed_by_email || 'system'} · {formatDate(change.created_at)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+'use client'
+
+/**
+ * Vault Content Component
+ *
+ * Decrypts zero-knowledge entries in the browser with the user's vault
+ * passphrase, and lets the owner share the entry key with teammates
+ */
+
+import { FormEvent, useState } from 'react'
+import CopyButton from './CopyButton'
+import {
+  getEntryKey,
+  getVaultRecipients,
+  revokeEntryKey,
+  shareEntryKey,
+  unlockVault,
+  VaultRecipient,
+} from '@/lib/api/vault'
+import { decryptContent } from '@/lib/utils/vault-crypto'
+
+interface VaultContentProps {
+  entryId: string
+  cipherText: string
+  isOwner: boolean
+}
+
+export default function VaultContent({ entryId, cipherText, isOwner }: VaultContentProps) {
+  const [passphrase, setPassphrase] = useState('')
+  const [content, setContent] = useState<string | null>(null)
+  const [entryKey, setEntryKey] = useState<CryptoKey | null>(null)
+  const [userId, setUserId] = useState<string | null>(null)
+  const [recipients, setRecipients] = useState<{ user_id: string; email: string | null }[]>([])
+  const [candidates, setCandidates] = useState<VaultRecipient[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const [error, setError] = useState('')
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const [isSharing, setIsSharing] = useState(false)
+
+  const handleUnlock = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setError('')
+    setIsUnlocking(true)
+
+    try {
+      const vault = await unlockVault(passphrase)
+      const { entryKey: key, recipients: current } = await getEntryKey(entryId, vault)
+      setContent(await decryptContent(key, cipherText))
+      setEntryKey(key)
+      setUserId(vault.userId)
+
+      if (isOwner) {
+        setRecipients(current || [])
+        setCandidates(await getVaultRecipients())
+      }
+    } catch (err: any) {
+      console.error('Vault unlock error:', err)
+      setError(err.message || 'Failed to unlock vault')
+    } finally {
+      setPassphrase('')
+      setIsUnlocking(false)
+    }
+  }
+
+  const handleShare = async () => {
+    if (!entryKey || selected.length === 0) return
+    setError('')
+    setIsSharing(true)
+
+    try {
+      const targets = candidates.filter(candidate => selected.includes(candidate.user_id))
+      await shareEntryKey(entryId, entryKey, targets)
+      setRecipients([
+        ...recipients,
+        ...targets.map(target => ({ user_id: target.user_id, email: target.email })),
+      ])
+      setSelected([])
+    } catch (err: any) {
+      console.error('Vault share error:', err)
+      setError(err.message || 'Failed to share entry')
+    } finally {
+      setIsSharing(false)
+    }
+  }
+
+  const handleRevoke = async (recipientId: string) => {
+    setError('')
+
+    try {
+      await revokeEntryKey(entryId, recipientId)
+      setRecipients(recipients.filter(recipient => recipient.user_id !== recipientId))
+    } catch (err: any) {
+      console.error('Vault revoke error:', err)
+      setError(err.message || 'Failed to revoke access')
+    }
+  }
+
+  const shareable = candidates.filter(
+    candidate => !recipients.some(recipient => recipient.user_id === candidate.user_id)
+  )
+
+  if (content === null) {
+    return (
+      <form onSubmit={handleUnlock} className="bg-slate-50 rounded-lg p-6 border border-slate-200 space-y-3">
+        <p className="text-sm text-slate-700">
+          🔐 This entry is encrypted in your browser. Enter your vault passphrase to decrypt it.
+        </p>
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Vault passphrase"
+            className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent text-slate-900"
+            required
+            disabled={isUnlocking}
+            autoComplete="current-password"
+          />
+          <button
+            type="submit"
+            disabled={isUnlocking}
+            className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isUnlocking ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </div>
+      </form>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex justify-end mb-2">
+          <CopyButton content={content} />
+        </div>
+        <div className="bg-slate-50 rounded-lg p-6 border border-slate-200">
+          <pre className="whitespace-pre-wrap font-mono text-sm text-slate-900">
+            {content}
+          </pre>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {/* Sharing (owner only) */}
+      {isOwner && (
+        <div className="border border-slate-200 rounded-lg p-4 space-y-3">
+          <h4 className="text-sm font-medium text-slate-700">Shared with</h4>
+          <ul className="space-y-1">
+            {recipients.map(recipient => (
+              <li key={recipient.user_id} className="flex items-center justify-between text-sm text-slate-700">
+                <span>{recipient.email || recipient.user_id}</span>
+                {recipient.user_id !== userId && (
+                  <button
+                    onClick={() => handleRevoke(recipient.user_id)}
+                    className="text-xs font-medium text-red-600 hover:text-red-700"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {shareable.length > 0 && (
+            <div className="flex gap-2">
+              <select
+                multiple
+                value={selected}
+                onChange={(e) => setSelected(Array.from(e.target.selectedOptions, option => option.value))}
+                className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+              >
+                {shareable.map(candidate => (
+                  <option key={candidate.user_id} value={candidate.user_id}>
+                    {candidate.email}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleShare}
+                disabled={isSharing || selected.length === 0}
+                className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 self-start"
+              >
+                {isSharing ? 'Sharing...' : 'Share'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+'use client'
+
+/**
+ * Workspace Switcher Component
+ *
+ * Selects the active workspace; entries, trash and roles on the dashboard
+ * follow the selection. Admins can also create a new workspace here.
+ */
+
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { WorkspaceMembership, createWorkspace, setActiveWorkspace } from '@/lib/api/workspaces'
+
+export default function WorkspaceSwitcher({
+  workspaces,
+  activeWorkspaceId,
+  canCreate,
+}: {
+  workspaces: WorkspaceMembership[]
+  activeWorkspaceId: string | null
+  canCreate: boolean
+}) {
+  const router = useRouter()
+  const [isSwitching, setIsSwitching] = useState(false)
+  const [showCreate, setShowCreate] = useState(false)
+  const [name, setName] = useState('')
+
+  const handleSwitch = async (workspaceId: string) => {
+    setIsSwitching(true)
+
+    try {
+      await setActiveWorkspace(workspaceId)
+      router.refresh()
+    } catch (error) {
+      console.error('Switch workspace error:', error)
+      alert('Failed to switch workspace')
+    } finally {
+      setIsSwitching(false)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSwitching(true)
+
+    try {
+      await createWorkspace(name)
+      setName('')
+      setShowCreate(false)
+      router.refresh()
+    } catch (error: any) {
+      console.error('Create workspace error:', error)
+      alert(error.message || 'Failed to create workspace')
+    } finally {
+      setIsSwitching(false)
+    }
+  }
+
+  if (showCreate) {
+    return (
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Workspace name"
+          autoFocus
+          className="px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-900"
+        />
+        <button
+          type="submit"
+          disabled={isSwitching || !name.trim()}
+          className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isSwitching ? 'Creating...' : 'Create'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowCreate(false)}
+          disabled={isSwitching}
+          className="px-4 py-2 bg-slate-200 hover:bg-slate-300 text-slate-700 text-sm font-medium rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+      </form>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={activeWorkspaceId || ''}
+        onChange={(e) => handleSwitch(e.target.value)}
+        disabled={isSwitching || workspaces.length === 0}
+        className="px-3 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-900 disabled:opacity-50"
+      >
+        {workspaces.length === 0 && <option value="">No workspace</option>}
+        {workspaces.map(workspace => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </option>
+        ))}
+      </select>
+      {canCreate && (
+        <button
+          onClick={() => setShowCreate(true)}
+          className="px-3 py-2 text-sm font-medium text-teal-700 hover:text-teal-800"
+        >
+          + New
+        </button>
+      )}
+    </div>
+  )
+}
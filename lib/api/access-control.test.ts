@@ -0,0 +1,253 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getWorkspaceRole: vi.fn(),
+  getActiveBreakGlassGrant: vi.fn(),
+}))
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: async () => emptyClient(),
+}))
+vi.mock('./auth-server', () => ({ getUserRole: vi.fn() }))
+vi.mock('./workspaces-server', () => ({ getWorkspaceRole: mocks.getWorkspaceRole }))
+vi.mock('./break-glass-server', () => ({ getActiveBreakGlassGrant: mocks.getActiveBreakGlassGrant }))
+
+import {
+  applyEntryAccessFilter,
+  authorizeEntry,
+  Classification,
+  EntryAccessFields,
+  EntryAction,
+  evaluateEntryAccess,
+  Permission,
+  UserRole,
+} from './access-control'
+
+/**
+ * A Supabase client whose queries find nothing
+ */
+function emptyClient() {
+  const query: Record<string, unknown> = {
+    then: (resolve: (result: { data: unknown[]; error: null }) => void) => resolve({ data: [], error: null }),
+    maybeSingle: async () => ({ data: null, error: null }),
+    single: async () => ({ data: null, error: null }),
+  }
+  for (const method of ['select', 'eq', 'or', 'is', 'in']) {
+    query[method] = () => query
+  }
+  return { from: () => query }
+}
+
+const ROLES: UserRole[] = ['admin', 'manager', 'member', 'viewer']
+const CLASSIFICATIONS: Classification[] = ['public', 'internal', 'confidential', 'restricted']
+const ACTIONS: EntryAction[] = ['view', 'edit', 'delete']
+
+// The User Roles & Permissions table in the README
+const ROLE_TABLE: Record<UserRole, {
+  editOwn: boolean
+  editAll: boolean
+  deleteOwn: boolean
+  deleteAll: boolean
+  viewSensitive: boolean
+}> = {
+  admin: { editOwn: true, editAll: true, deleteOwn: true, deleteAll: true, viewSensitive: true },
+  manager: { editOwn: true, editAll: false, deleteOwn: true, deleteAll: false, viewSensitive: true },
+  member: { editOwn: true, editAll: false, deleteOwn: true, deleteAll: false, viewSensitive: false },
+  viewer: { editOwn: false, editAll: false, deleteOwn: false, deleteAll: false, viewSensitive: false },
+}
+
+// The Classification Access table in the README
+const CLASSIFICATION_TABLE: Record<Classification, Record<UserRole, boolean>> = {
+  public: { admin: true, manager: true, member: true, viewer: true },
+  internal: { admin: true, manager: true, member: true, viewer: false },
+  confidential: { admin: true, manager: true, member: false, viewer: false },
+  restricted: { admin: true, manager: false, member: false, viewer: false },
+}
+
+const USER_ID = '11111111-1111-1111-1111-111111111111'
+const OWNER_ID = '22222222-2222-2222-2222-222222222222'
+const ENTRY_ID = '33333333-3333-3333-3333-333333333333'
+
+function makeEntry(classification: Classification, isSensitive: boolean, owner = OWNER_ID): EntryAccessFields {
+  return { id: ENTRY_ID, workspace_id: 'ws', user_id: owner, classification, is_sensitive: isSensitive }
+}
+
+/**
+ * What the README tables allow a user who does not own the entry
+ */
+function expectedDefault(role: UserRole, classification: Classification, isSensitive: boolean, action: EntryAction) {
+  if (!CLASSIFICATION_TABLE[classification][role]) return false
+  if (action === 'view') return !isSensitive || ROLE_TABLE[role].viewSensitive
+  if (action === 'edit') return ROLE_TABLE[role].editAll
+  return ROLE_TABLE[role].deleteAll
+}
+
+const matrix = ROLES.flatMap(role =>
+  CLASSIFICATIONS.flatMap(classification =>
+    [false, true].flatMap(isSensitive =>
+      ACTIONS.map(action => ({ role, classification, isSensitive, action }))
+    )
+  )
+)
+
+describe('evaluateEntryAccess', () => {
+  it.each(matrix)(
+    'non-owner $role, $classification (sensitive: $isSensitive), $action',
+    ({ role, classification, isSensitive, action }) => {
+      expect(evaluateEntryAccess(makeEntry(classification, isSensitive), USER_ID, role, action))
+        .toBe(expectedDefault(role, classification, isSensitive, action))
+    }
+  )
+
+  it.each(matrix)(
+    'owner $role, $classification (sensitive: $isSensitive), $action',
+    ({ role, classification, isSensitive, action }) => {
+      const expected = action === 'view' || (action === 'edit' ? ROLE_TABLE[role].editOwn : ROLE_TABLE[role].deleteOwn)
+      expect(evaluateEntryAccess(makeEntry(classification, isSensitive, USER_ID), USER_ID, role, action))
+        .toBe(expected)
+    }
+  )
+
+  const grantCases = matrix.flatMap(testCase =>
+    (['read', 'read_write'] as Permission[]).map(grant => ({ ...testCase, grant }))
+  )
+
+  it.each(grantCases)(
+    '$grant grant for $role, $classification (sensitive: $isSensitive), $action',
+    ({ role, classification, isSensitive, action, grant }) => {
+      const granted = action === 'view' || (action === 'edit' && grant === 'read_write')
+      expect(evaluateEntryAccess(makeEntry(classification, isSensitive), USER_ID, role, action, grant))
+        .toBe(granted || expectedDefault(role, classification, isSensitive, action))
+    }
+  )
+
+  it('denies users without a role, even on their own entries', () => {
+    ACTIONS.forEach(action => {
+      expect(evaluateEntryAccess(makeEntry('public', false, USER_ID), USER_ID, null, action)).toBe(false)
+      expect(evaluateEntryAccess(makeEntry('public', false), USER_ID, null, action, 'read_write')).toBe(false)
+    })
+  })
+})
+
+describe('authorizeEntry break-glass', () => {
+  beforeEach(() => {
+    mocks.getWorkspaceRole.mockReset()
+    mocks.getActiveBreakGlassGrant.mockReset()
+  })
+
+  it('allows viewing a restricted entry under an active grant', async () => {
+    mocks.getWorkspaceRole.mockResolvedValue('member')
+    mocks.getActiveBreakGlassGrant.mockResolvedValue({ id: 'grant' })
+
+    expect(await authorizeEntry(makeEntry('restricted', true), USER_ID, 'view')).toBe(true)
+  })
+
+  it('denies viewing a restricted entry without a grant', async () => {
+    mocks.getWorkspaceRole.mockResolvedValue('manager')
+    mocks.getActiveBreakGlassGrant.mockResolvedValue(null)
+
+    expect(await authorizeEntry(makeEntry('restricted', false), USER_ID, 'view')).toBe(false)
+  })
+
+  it.each(['edit', 'delete'] as EntryAction[])('never allows %s under a grant', async action => {
+    mocks.getWorkspaceRole.mockResolvedValue('manager')
+    mocks.getActiveBreakGlassGrant.mockResolvedValue({ id: 'grant' })
+
+    expect(await authorizeEntry(makeEntry('restricted', false), USER_ID, action)).toBe(false)
+  })
+
+  it('only applies to restricted entries', async () => {
+    mocks.getWorkspaceRole.mockResolvedValue('member')
+    mocks.getActiveBreakGlassGrant.mockResolvedValue({ id: 'grant' })
+
+    expect(await authorizeEntry(makeEntry('confidential', false), USER_ID, 'view')).toBe(false)
+  })
+
+  it('does not open client-encrypted entries', async () => {
+    mocks.getWorkspaceRole.mockResolvedValue('member')
+    mocks.getActiveBreakGlassGrant.mockResolvedValue({ id: 'grant' })
+
+    const entry = { ...makeEntry('restricted', false), is_client_encrypted: true }
+    expect(await authorizeEntry(entry, USER_ID, 'view')).toBe(false)
+  })
+
+  it('denies users who are not members of the workspace', async () => {
+    mocks.getWorkspaceRole.mockResolvedValue(null)
+    mocks.getActiveBreakGlassGrant.mockResolvedValue({ id: 'grant' })
+
+    expect(await authorizeEntry(makeEntry('restricted', false), USER_ID, 'view')).toBe(false)
+  })
+})
+
+type Row = Record<string, string | boolean>
+
+/**
+ * Split a PostgREST logical filter list on top-level commas
+ */
+function splitFilters(filters: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of filters) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts
+}
+
+/**
+ * Evaluate the subset of PostgREST filter syntax the access filter uses
+ */
+function matchesFilter(row: Row, filter: string): boolean {
+  const group = /^(and|or)\((.*)\)$/.exec(filter)
+  if (group) {
+    const results = splitFilters(group[2]).map(part => matchesFilter(row, part))
+    return group[1] === 'and' ? results.every(Boolean) : results.some(Boolean)
+  }
+
+  const [column, operator, ...rest] = filter.split('.')
+  const value = rest.join('.')
+  if (operator === 'eq') return String(row[column]) === value
+  if (operator === 'in') return value.slice(1, -1).split(',').includes(String(row[column]))
+  throw new Error(`Unsupported filter: ${filter}`)
+}
+
+describe('applyEntryAccessFilter', () => {
+  const filterCases = ROLES.flatMap(role =>
+    CLASSIFICATIONS.flatMap(classification =>
+      [false, true].flatMap(isSensitive =>
+        [false, true].flatMap(owned =>
+          [false, true].map(shared => ({ role, classification, isSensitive, owned, shared }))
+        )
+      )
+    )
+  )
+
+  it.each(filterCases)(
+    '$role, $classification (sensitive: $isSensitive, owned: $owned, shared: $shared) matches evaluateEntryAccess',
+    ({ role, classification, isSensitive, owned, shared }) => {
+      let captured = ''
+      const query = { or: (filters: string) => { captured = filters; return query } }
+      applyEntryAccessFilter(query, USER_ID, role, shared ? [ENTRY_ID] : [])
+
+      const entry = makeEntry(classification, isSensitive, owned ? USER_ID : OWNER_ID)
+      const row: Row = {
+        id: entry.id!,
+        user_id: entry.user_id,
+        classification,
+        is_sensitive: isSensitive,
+      }
+
+      // Shared entries carry at least a read grant
+      expect(matchesFilter(row, `or(${captured})`))
+        .toBe(evaluateEntryAccess(entry, USER_ID, role, 'view', shared ? 'read' : null))
+    }
+  )
+})
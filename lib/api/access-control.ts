@@ -1,11 +1,18 @@
 /**
  * Access Control API Functions
  * 
- * Role-based permission checking for knowledge entries
+ * Role-based permission checking for knowledge entries. Roles are scoped
+ * to the entry's workspace.
+ * Server only - uses the cookie-based server Supabase client
  */
 
-import { createClient } from '@/lib/supabase/client'
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
 import { getUserRole } from './auth-server'
+import { getWorkspaceRole } from './workspaces-server'
+import { getActiveBreakGlassGrant } from './break-glass-server'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
 
 /**
  * Permission types
@@ -24,98 +31,432 @@ export type Classification = 'public' | 'internal' | 'confidential' | 'restricte
 
 /**
  * Access control entry interface
+ *
+ * A grant on a single entry to exactly one subject: a role, a user or a
+ * group. Grants override the classification defaults for that entry.
  */
 export interface AccessControl {
   id: string
   entry_id: string
-  allowed_role: UserRole
+  allowed_role: UserRole | null
+  user_id: string | null
+  group_id: string | null
   permission: Permission
+  granted_by: string | null
+  created_at: string
+}
+
+/**
+ * Actions each grant permission allows
+ */
+const GRANT_ACTIONS: Record<Permission, EntryAction[]> = {
+  read: ['view'],
+  read_write: ['view', 'edit'],
 }
 
 /**
  * Permission matrix: defines what each role can do by default
+ * (the User Roles & Permissions table in the README)
  */
-const PERMISSION_MATRIX: Record<UserRole, { canCreate: boolean; canEdit: boolean; canDelete: boolean; canViewSensitive: boolean }> = {
-  admin: { canCreate: true, canEdit: true, canDelete: true, canViewSensitive: true },
-  manager: { canCreate: true, canEdit: true, canDelete: false, canViewSensitive: true },
-  member: { canCreate: true, canEdit: false, canDelete: false, canViewSensitive: false },
-  viewer: { canCreate: false, canEdit: false, canDelete: false, canViewSensitive: false },
+const PERMISSION_MATRIX: Record<UserRole, {
+  canCreate: boolean
+  canEditOwn: boolean
+  canEdit: boolean
+  canDeleteOwn: boolean
+  canDelete: boolean
+  canViewSensitive: boolean
+}> = {
+  admin: { canCreate: true, canEditOwn: true, canEdit: true, canDeleteOwn: true, canDelete: true, canViewSensitive: true },
+  manager: { canCreate: true, canEditOwn: true, canEdit: false, canDeleteOwn: true, canDelete: false, canViewSensitive: true },
+  member: { canCreate: true, canEditOwn: true, canEdit: false, canDeleteOwn: true, canDelete: false, canViewSensitive: false },
+  viewer: { canCreate: false, canEditOwn: false, canEdit: false, canDeleteOwn: false, canDelete: false, canViewSensitive: false },
 }
 
 /**
  * Classification access matrix: what classifications each role can access
+ * (the Classification Access table in the README)
  */
 const CLASSIFICATION_ACCESS: Record<UserRole, Classification[]> = {
   admin: ['public', 'internal', 'confidential', 'restricted'],
   manager: ['public', 'internal', 'confidential'],
   member: ['public', 'internal'],
-  viewer: ['public', 'internal'],
+  viewer: ['public'],
 }
 
 /**
- * Check if user has access to an entry based on role and classification
- * 
- * @param entryId - Entry ID
+ * Actions checked against an existing entry
+ */
+export type EntryAction = 'view' | 'edit' | 'delete'
+
+/**
+ * Entry columns the access rules depend on
+ */
+export interface EntryAccessFields {
+  id?: string
+  workspace_id?: string | null
+  user_id: string
+  classification: string
+  is_sensitive: boolean
+  is_client_encrypted?: boolean
+}
+
+/**
+ * Error messages returned with every 403 from the entries API
+ */
+export const ACCESS_DENIED_MESSAGES: Record<EntryAction | 'create' | 'share', string> = {
+  view: 'Forbidden: You do not have access to this entry',
+  edit: 'Forbidden: You cannot edit this entry',
+  delete: 'Forbidden: You cannot delete this entry',
+  create: 'Forbidden: Your role cannot create entries',
+  share: 'Forbidden: Only the owner or an admin can manage sharing',
+}
+
+/**
+ * Build the 403 response for a denied action
+ */
+export function forbiddenResponse(action: EntryAction | 'create' | 'share'): NextResponse {
+  return NextResponse.json(
+    { error: ACCESS_DENIED_MESSAGES[action], code: 'FORBIDDEN' },
+    { status: 403 }
+  )
+}
+
+/**
+ * Check if a user can manage the per-entry grants of an entry
+ * (creator or admin)
+ */
+export function canManageEntryAccess(
+  entry: EntryAccessFields,
+  userId: string,
+  userRole: UserRole | null
+): boolean {
+  return entry.user_id === userId || userRole === 'admin'
+}
+
+/**
+ * Check if a role can see entries of a classification by default
+ */
+export function canAccessClassification(role: UserRole | null, classification: string): boolean {
+  return !!role && CLASSIFICATION_ACCESS[role].includes(classification as Classification)
+}
+
+/**
+ * Check if a role can create entries
+ */
+export function canCreateEntries(role: UserRole | null): boolean {
+  return !!role && PERMISSION_MATRIX[role].canCreate
+}
+
+/**
+ * Decide whether a user may perform an action on a loaded entry
+ *
+ * Pure function over the permission and classification matrices; the
+ * database-backed checks and list filters are built on the same rules.
+ *
+ * @param entry - Entry owner, classification and sensitivity
  * @param userId - User ID
+ * @param userRole - User role (null if the user has no profile)
  * @param action - Action to check (view, edit, delete)
+ * @param grant - Strongest per-entry grant that applies to the user
  * @returns Boolean indicating if user has access
  */
-export async function checkEntryAccess(
+export function evaluateEntryAccess(
+  entry: EntryAccessFields,
+  userId: string,
+  userRole: UserRole | null,
+  action: EntryAction,
+  grant: Permission | null = null
+): boolean {
+  if (!userRole) return false
+
+  // Creators can always view their own entries; editing and deleting them
+  // depends on the role
+  if (entry.user_id === userId) {
+    if (action === 'edit') return PERMISSION_MATRIX[userRole].canEditOwn
+    if (action === 'delete') return PERMISSION_MATRIX[userRole].canDeleteOwn
+    return true
+  }
+
+  // Per-entry grants override the classification defaults
+  if (grant && GRANT_ACTIONS[grant].includes(action)) {
+    return true
+  }
+
+  // Check classification access
+  const allowedClassifications = CLASSIFICATION_ACCESS[userRole]
+  if (!allowedClassifications.includes(entry.classification as Classification)) {
+    return false
+  }
+
+  // Check action permissions
+  const permissions = PERMISSION_MATRIX[userRole]
+
+  if (action === 'view') {
+    // Roles without sensitive access can't see sensitive content
+    return !entry.is_sensitive || permissions.canViewSensitive
+  }
+
+  if (action === 'edit') {
+    return permissions.canEdit
+  }
+
+  if (action === 'delete') {
+    return permissions.canDelete
+  }
+
+  return false
+}
+
+/**
+ * Restrict an entries query to rows the user may view
+ *
+ * Mirrors authorizeEntry for the 'view' action: own entries, entries in an
+ * allowed classification that are not sensitive (unless the role can view
+ * sensitive content), and entries shared with the user through a per-entry
+ * grant or key grant.
+ *
+ * @param query - Supabase query on knowledge_entries
+ * @param userId - User ID
+ * @param userRole - User role
+ * @param sharedEntryIds - Entries shared with the user (see getSharedEntryIds)
+ * @returns The filtered query
+ */
+export function applyEntryAccessFilter<Q extends { or: (filters: string) => Q }>(
+  query: Q,
+  userId: string,
+  userRole: UserRole,
+  sharedEntryIds: string[] = []
+): Q {
+  const allowed = [`classification.in.(${CLASSIFICATION_ACCESS[userRole].join(',')})`]
+  if (!PERMISSION_MATRIX[userRole].canViewSensitive) {
+    allowed.push('is_sensitive.eq.false')
+  }
+
+  const filters = [`user_id.eq.${userId}`, `and(${allowed.join(',')})`]
+  if (sharedEntryIds.length > 0) {
+    filters.push(`id.in.(${sharedEntryIds.join(',')})`)
+  }
+
+  return query.or(filters.join(','))
+}
+
+/**
+ * Get the ids of the groups a user belongs to
+ */
+async function getUserGroupIds(userId: string, client?: ServerClient): Promise<string[]> {
+  const supabase = client || await createClient()
+
+  const { data, error } = await supabase
+    .from('user_group_members')
+    .select('group_id')
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Error getting user groups:', error)
+    return []
+  }
+
+  return data?.map(membership => membership.group_id) || []
+}
+
+/**
+ * Build the filter matching grants whose subject is the user, their role
+ * or one of their groups
+ */
+async function buildGrantSubjectFilter(userId: string, userRole: UserRole, client?: ServerClient): Promise<string> {
+  const subjects = [`user_id.eq.${userId}`, `allowed_role.eq.${userRole}`]
+
+  const groupIds = await getUserGroupIds(userId, client)
+  if (groupIds.length > 0) {
+    subjects.push(`group_id.in.(${groupIds.join(',')})`)
+  }
+
+  return subjects.join(',')
+}
+
+/**
+ * Get the strongest per-entry grant that applies to a user
+ *
+ * @param entryId - Entry ID
+ * @param userId - User ID
+ * @param userRole - User role
+ * @returns 'read_write', 'read', or null if no grant applies
+ */
+export async function getEntryGrant(
   entryId: string,
   userId: string,
-  action: 'view' | 'edit' | 'delete'
-): Promise<boolean> {
+  userRole: UserRole
+): Promise<Permission | null> {
   try {
-    const supabase = createClient()
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('entry_access_controls')
+      .select('permission')
+      .eq('entry_id', entryId)
+      .or(await buildGrantSubjectFilter(userId, userRole))
 
-    // Get user role
-    const userRole = await getUserRole(userId)
+    if (error) {
+      console.error('Error getting entry grants:', error)
+      return null
+    }
+
+    if (data?.some(grant => grant.permission === 'read_write')) return 'read_write'
+    return data && data.length > 0 ? 'read' : null
+  } catch (error) {
+    console.error('Error in getEntryGrant:', error)
+    return null
+  }
+}
+
+/**
+ * Get the ids of entries shared with a user
+ *
+ * Includes entries with a per-entry grant for the user, their role or one
+ * of their groups, and client-encrypted entries the user holds a key for.
+ *
+ * @param userId - User ID
+ * @param userRole - User role
+ * @param client - Client to query with (defaults to the caller's session)
+ * @returns Entry IDs shared with the user
+ */
+export async function getSharedEntryIds(
+  userId: string,
+  userRole: UserRole,
+  client?: ServerClient
+): Promise<string[]> {
+  try {
+    const supabase = client || await createClient()
+
+    const [{ data: grants, error: grantsError }, { data: keyGrants, error: keyGrantsError }] = await Promise.all([
+      supabase
+        .from('entry_access_controls')
+        .select('entry_id')
+        .or(await buildGrantSubjectFilter(userId, userRole, supabase)),
+      supabase
+        .from('entry_key_grants')
+        .select('entry_id')
+        .eq('user_id', userId),
+    ])
+
+    if (grantsError || keyGrantsError) {
+      console.error('Error getting shared entries:', grantsError || keyGrantsError)
+      return []
+    }
+
+    const ids = [...(grants || []), ...(keyGrants || [])].map(grant => grant.entry_id)
+    return [...new Set(ids)]
+  } catch (error) {
+    console.error('Error in getSharedEntryIds:', error)
+    return []
+  }
+}
+
+/**
+ * Get the role that applies to a user for an entry
+ *
+ * The user's role in the entry's workspace (null if they are not a
+ * member); entries without a workspace fall back to the global role.
+ *
+ * @param entry - Entry with its workspace
+ * @param userId - User ID
+ * @returns Role, or null if the user has none for this entry
+ */
+export async function getEntryRole(
+  entry: Pick<EntryAccessFields, 'workspace_id'>,
+  userId: string
+): Promise<UserRole | null> {
+  return entry.workspace_id
+    ? getWorkspaceRole(entry.workspace_id, userId)
+    : getUserRole(userId)
+}
+
+/**
+ * Check access to an entry that has already been loaded
+ *
+ * Applies the role matrices and per-entry grants, plus view access for
+ * users the owner has shared a client-encrypted entry's key with and for
+ * unexpired break-glass grants on restricted entries.
+ *
+ * @param entry - Loaded entry (id is required for the key grant lookup)
+ * @param userId - User ID
+ * @param action - Action to check (view, edit, delete)
+ * @returns Boolean indicating if user has access
+ */
+export async function authorizeEntry(
+  entry: EntryAccessFields,
+  userId: string,
+  action: EntryAction
+): Promise<boolean> {
+  try {
+    const userRole = await getEntryRole(entry, userId)
     if (!userRole) return false
 
-    // Get entry details
-    const { data: entry, error } = await supabase
-      .from('knowledge_entries')
-      .select('user_id, classification, is_sensitive')
-      .eq('id', entryId)
-      .single()
+    if (evaluateEntryAccess(entry, userId, userRole, action)) {
+      return true
+    }
 
-    if (error || !entry) return false
+    if (!entry.id) return false
 
-    // Check if user is the creator (always has access to own entries)
-    if (entry.user_id === userId) {
-      if (action === 'delete') {
-        // Only admin and creator can delete
-        return userRole === 'admin' || entry.user_id === userId
-      }
+    const grant = await getEntryGrant(entry.id, userId, userRole)
+    if (evaluateEntryAccess(entry, userId, userRole, action, grant)) {
       return true
     }
 
-    // Check classification access
-    const allowedClassifications = CLASSIFICATION_ACCESS[userRole as UserRole]
-    if (!allowedClassifications.includes(entry.classification as Classification)) {
+    if (action !== 'view') {
       return false
     }
 
-    // Check action permissions
-    const permissions = PERMISSION_MATRIX[userRole as UserRole]
-    
-    if (action === 'view') {
-      // Viewers can't see sensitive content
-      if (entry.is_sensitive && !permissions.canViewSensitive) {
-        return false
-      }
-      return true
+    if (entry.classification === 'restricted' && !entry.is_client_encrypted) {
+      return !!(await getActiveBreakGlassGrant(entry.id, userId))
     }
-    
-    if (action === 'edit') {
-      return permissions.canEdit || entry.user_id === userId
-    }
-    
-    if (action === 'delete') {
-      return permissions.canDelete || (entry.user_id === userId && userRole !== 'viewer')
+
+    if (!entry.is_client_encrypted) {
+      return false
     }
 
+    const supabase = await createClient()
+    const { data: keyGrant } = await supabase
+      .from('entry_key_grants')
+      .select('user_id')
+      .eq('entry_id', entry.id)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    return !!keyGrant
+  } catch (error) {
+    console.error('Error authorizing entry access:', error)
     return false
+  }
+}
+
+/**
+ * Check if user has access to an entry based on role and classification
+ * 
+ * @param entryId - Entry ID
+ * @param userId - User ID
+ * @param action - Action to check (view, edit, delete)
+ * @returns Boolean indicating if user has access
+ */
+export async function checkEntryAccess(
+  entryId: string,
+  userId: string,
+  action: EntryAction
+): Promise<boolean> {
+  try {
+    const supabase = await createClient()
+
+    // Get entry details
+    const { data: entry, error } = await supabase
+      .from('knowledge_entries')
+      .select('id, workspace_id, user_id, classification, is_sensitive, is_client_encrypted')
+      .eq('id', entryId)
+      .is('deleted_at', null)
+      .single()
+
+    if (error || !entry) return false
+
+    return authorizeEntry(entry, userId, action)
   } catch (error) {
     console.error('Error checking entry access:', error)
     return false
@@ -159,12 +500,13 @@ export async function canDeleteEntry(entryId: string, userId: string): Promise<b
  * Get all entries accessible to a user based on their role
  * 
  * @param userId - User ID
- * @param role - User role
+ * @param role - User role (in the workspace, if one is given)
+ * @param workspaceId - Only include entries in this workspace
  * @returns Array of entry IDs accessible to the user
  */
-export async function getAccessibleEntries(userId: string, role: UserRole): Promise<string[]> {
+export async function getAccessibleEntries(userId: string, role: UserRole, workspaceId?: string): Promise<string[]> {
   try {
-    const supabase = createClient()
+    const supabase = await createClient()
 
     // Get allowed classifications for this role
     const allowedClassifications = CLASSIFICATION_ACCESS[role]
@@ -175,6 +517,11 @@ export async function getAccessibleEntries(userId: string, role: UserRole): Prom
       .from('knowledge_entries')
       .select('id, classification, is_sensitive, user_id')
       .in('classification', allowedClassifications)
+      .is('deleted_at', null)
+
+    if (workspaceId) {
+      query = query.eq('workspace_id', workspaceId)
+    }
 
     // If user can't view sensitive content, filter it out
     if (!permissions.canViewSensitive) {
@@ -0,0 +1,155 @@
+/**
+ * Server-Side Access Logging
+ *
+ * The one place routes and pages write access_logs records. Each record
+ * carries the request context (client IP, user agent, request ID) and
+ * whether the access was allowed or denied.
+ * Server only - uses the cookie-based server Supabase client
+ */
+
+import { randomUUID } from 'crypto'
+import { isIP } from 'net'
+import { createClient } from '@/lib/supabase/server'
+import type { AccessAction, AccessOutcome } from './logs'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
+
+const MAX_USER_AGENT_LENGTH = 512
+
+/**
+ * Where a request came from
+ */
+export interface RequestContext {
+  ipAddress: string | null
+  userAgent: string | null
+  requestId: string
+}
+
+/**
+ * An access to record
+ */
+export interface AccessRecord {
+  entryId: string | null
+  userId: string | null
+  action: AccessAction
+  outcome?: AccessOutcome
+  breakGlassGrantId?: string
+}
+
+/**
+ * Thrown when an access could not be recorded
+ */
+export class AccessLogError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AccessLogError'
+  }
+}
+
+/**
+ * Number of reverse proxies in front of the app (TRUSTED_PROXY_COUNT,
+ * default 1 for Vercel's edge). Forwarding headers are only believed as
+ * far as these proxies vouch for them.
+ */
+function getTrustedProxyCount(): number {
+  const count = parseInt(process.env.TRUSTED_PROXY_COUNT || '1')
+  return isNaN(count) || count < 0 ? 1 : count
+}
+
+/**
+ * Client IP address from the forwarding headers
+ *
+ * Each trusted proxy appends the address it received the request from to
+ * X-Forwarded-For, so the client is the entry added by the outermost
+ * trusted proxy. Entries before it are whatever the client sent.
+ */
+function getClientIp(headers: Headers, trustedProxies: number): string | null {
+  if (trustedProxies === 0) return null
+
+  const forwarded = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+
+  const candidate = forwarded.length >= trustedProxies
+    ? forwarded[forwarded.length - trustedProxies]
+    : headers.get('x-real-ip')?.trim()
+
+  return candidate && isIP(candidate) ? candidate : null
+}
+
+/**
+ * Read the request context from request headers
+ *
+ * @param headers - `request.headers` in routes, `await headers()` in pages
+ */
+export function getRequestContext(headers: Headers): RequestContext {
+  const trustedProxies = getTrustedProxyCount()
+
+  // Request IDs are only taken from trusted proxies, otherwise generated
+  const forwardedId = trustedProxies > 0
+    ? headers.get('x-request-id') || headers.get('x-vercel-id')
+    : null
+
+  return {
+    ipAddress: getClientIp(headers, trustedProxies),
+    userAgent: headers.get('user-agent')?.substring(0, MAX_USER_AGENT_LENGTH) || null,
+    requestId: forwardedId && REQUEST_ID_PATTERN.test(forwardedId) ? forwardedId : randomUUID(),
+  }
+}
+
+/**
+ * Record an access to an entry
+ *
+ * Throws if the record cannot be written, so routes that disclose content
+ * can refuse to respond without a record (see tryLogEntryAccess for the
+ * other cases).
+ *
+ * @param supabase - Server Supabase client
+ * @param headers - Request headers, for the request context
+ * @param record - What was accessed, by whom, and the outcome (default allowed)
+ */
+export async function logEntryAccess(
+  supabase: ServerClient,
+  headers: Headers,
+  record: AccessRecord
+): Promise<void> {
+  const context = getRequestContext(headers)
+
+  const { error } = await supabase.from('access_logs').insert({
+    entry_id: record.entryId,
+    accessed_by: record.userId,
+    action: record.action,
+    outcome: record.outcome || 'allowed',
+    break_glass_grant_id: record.breakGlassGrantId || null,
+    ip_address: context.ipAddress,
+    user_agent: context.userAgent,
+    request_id: context.requestId,
+    accessed_at: new Date().toISOString(),
+  })
+
+  if (error) {
+    throw new AccessLogError(
+      `Failed to log ${record.outcome || 'allowed'} ${record.action} of entry ${record.entryId} (request ${context.requestId}): ${error.message}`
+    )
+  }
+}
+
+/**
+ * Record an access when the response no longer depends on it: denied
+ * attempts, and changes that have already been made. A logging failure
+ * is only reported.
+ */
+export async function tryLogEntryAccess(
+  supabase: ServerClient,
+  headers: Headers,
+  record: AccessRecord
+): Promise<void> {
+  try {
+    await logEntryAccess(supabase, headers, record)
+  } catch (error) {
+    console.error(error)
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/supabase/server', () => ({ createClient: vi.fn() }))
+
+import { capRole, capWorkspaceRoles } from './admin-server'
+import { evaluateEntryAccess, type UserRole } from './access-control'
+
+const USER_ID = '11111111-1111-1111-1111-111111111111'
+const OWNER_ID = '22222222-2222-2222-2222-222222222222'
+
+interface Membership {
+  workspace_id: string
+  user_id: string
+  role: UserRole
+}
+
+/**
+ * A Supabase client backed by an in-memory workspace_members table
+ */
+function membersClient(rows: Membership[], updateError: { message: string } | null = null) {
+  return {
+    from: () => ({
+      select: () => ({
+        eq: async (_column: string, userId: string) => ({
+          data: rows.filter(row => row.user_id === userId),
+          error: null,
+        }),
+      }),
+      update: (values: { role: UserRole }) => ({
+        eq: (_column: string, workspaceId: string) => ({
+          eq: async (_userColumn: string, userId: string) => {
+            if (!updateError) {
+              rows
+                .filter(row => row.workspace_id === workspaceId && row.user_id === userId)
+                .forEach(row => { row.role = values.role })
+            }
+            return { error: updateError }
+          },
+        }),
+      }),
+    }),
+  } as unknown as Parameters<typeof capWorkspaceRoles>[0]
+}
+
+describe('capRole', () => {
+  it.each([
+    ['admin', 'member', 'member'],
+    ['manager', 'viewer', 'viewer'],
+    ['member', 'manager', 'member'],
+    ['viewer', 'admin', 'viewer'],
+    ['manager', 'manager', 'manager'],
+  ] as [UserRole, UserRole, UserRole][])('caps %s at %s to %s', (role, maxRole, expected) => {
+    expect(capRole(role, maxRole)).toBe(expected)
+  })
+})
+
+describe('capWorkspaceRoles', () => {
+  it('lowers only the workspace roles above the new role', async () => {
+    const rows: Membership[] = [
+      { workspace_id: 'ws-1', user_id: USER_ID, role: 'admin' },
+      { workspace_id: 'ws-2', user_id: USER_ID, role: 'manager' },
+      { workspace_id: 'ws-3', user_id: USER_ID, role: 'viewer' },
+      { workspace_id: 'ws-1', user_id: OWNER_ID, role: 'admin' },
+    ]
+
+    expect(await capWorkspaceRoles(membersClient(rows), USER_ID, 'member')).toBe(2)
+    expect(rows.map(row => row.role)).toEqual(['member', 'member', 'viewer', 'admin'])
+  })
+
+  it('removes the access a demoted user had through their workspace role', async () => {
+    const rows: Membership[] = [{ workspace_id: 'ws-1', user_id: USER_ID, role: 'manager' }]
+    const entry = {
+      workspace_id: 'ws-1',
+      user_id: OWNER_ID,
+      classification: 'confidential' as const,
+      is_sensitive: true,
+    }
+
+    expect(evaluateEntryAccess(entry, USER_ID, rows[0].role, 'view')).toBe(true)
+
+    await capWorkspaceRoles(membersClient(rows), USER_ID, 'viewer')
+
+    expect(rows[0].role).toBe('viewer')
+    expect(evaluateEntryAccess(entry, USER_ID, rows[0].role, 'view')).toBe(false)
+  })
+
+  it('throws when a membership cannot be updated', async () => {
+    const rows: Membership[] = [{ workspace_id: 'ws-1', user_id: USER_ID, role: 'admin' }]
+
+    await expect(capWorkspaceRoles(membersClient(rows, { message: 'denied' }), USER_ID, 'member'))
+      .rejects.toThrow('Failed to cap workspace role: denied')
+    expect(rows[0].role).toBe('admin')
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Server-Side Admin Functions
+ *
+ * Helpers shared by the /api/admin routes. Only call these after the
+ * caller has been checked with `isAdmin`.
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import type { UserRole } from './auth-server'
+import type { RoleChangeAction } from './admin'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * 403 response for non-admin callers of admin routes
+ */
+export function adminOnlyResponse() {
+  return NextResponse.json(
+    { error: 'Forbidden: Only admins can manage users', code: 'FORBIDDEN' },
+    { status: 403 }
+  )
+}
+
+/**
+ * Record a role or account change in the role audit trail
+ *
+ * Failures are logged but do not undo the change that was made.
+ */
+export async function recordRoleChange(
+  supabase: ServerClient,
+  change: {
+    userId: string
+    changedBy: string
+    action: RoleChangeAction
+    oldRole?: UserRole | null
+    newRole?: UserRole | null
+  }
+): Promise<void> {
+  const { error } = await supabase.from('role_audit_logs').insert({
+    user_id: change.userId,
+    changed_by: change.changedBy,
+    action: change.action,
+    old_role: change.oldRole ?? null,
+    new_role: change.newRole ?? null,
+    created_at: new Date().toISOString(),
+  })
+
+  if (error) {
+    console.error(`Failed to record ${change.action} for user ${change.userId}:`, error)
+  }
+}
+
+// Higher ranks can do more
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, member: 1, manager: 2, admin: 3 }
+
+/**
+ * Limit a workspace role to at most the given role
+ */
+export function capRole(role: UserRole, maxRole: UserRole): UserRole {
+  return ROLE_RANK[role] > ROLE_RANK[maxRole] ? maxRole : role
+}
+
+/**
+ * Lower a user's workspace roles that outrank their new global role
+ *
+ * Entry access uses the workspace role, so a demotion only takes effect
+ * once the memberships are capped. Roles below the new one are kept.
+ *
+ * @returns Number of memberships that were lowered
+ */
+export async function capWorkspaceRoles(
+  supabase: ServerClient,
+  userId: string,
+  maxRole: UserRole
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('workspace_id, role')
+    .eq('user_id', userId)
+
+  if (error) {
+    throw new Error(`Failed to load workspace memberships: ${error.message}`)
+  }
+
+  const memberships = (data || []) as { workspace_id: string; role: UserRole }[]
+  const outranking = memberships.filter(membership => capRole(membership.role, maxRole) !== membership.role)
+
+  for (const membership of outranking) {
+    const { error: updateError } = await supabase
+      .from('workspace_members')
+      .update({ role: maxRole })
+      .eq('workspace_id', membership.workspace_id)
+      .eq('user_id', userId)
+
+    if (updateError) {
+      throw new Error(`Failed to cap workspace role: ${updateError.message}`)
+    }
+  }
+
+  return outranking.length
+}
+
+/**
+ * End every session of a user (database function, admins only)
+ */
+export async function revokeUserSessions(supabase: ServerClient, userId: string): Promise<boolean> {
+  const { error } = await supabase.rpc('revoke_user_sessions', { target_user_id: userId })
+
+  if (error) {
+    console.error(`Failed to revoke sessions for user ${userId}:`, error)
+    return false
+  }
+
+  return true
+}
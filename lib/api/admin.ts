@@ -0,0 +1,105 @@
+/**
+ * Admin User Management API Functions
+ *
+ * Browser helpers for the admin users console
+ */
+
+import type { AccountStatus, UserRole } from './auth'
+
+/**
+ * Kind of change recorded in the role audit trail
+ */
+export type RoleChangeAction = 'role_change' | 'approve' | 'deactivate' | 'reactivate' | 'sign_out'
+
+/**
+ * A user as listed in the admin console
+ */
+export interface ManagedUser {
+  user_id: string
+  email: string
+  full_name: string | null
+  role: UserRole
+  status: AccountStatus
+  created_at: string
+}
+
+/**
+ * A recorded role or account change
+ */
+export interface RoleChange {
+  id: string
+  user_id: string
+  user_email: string
+  changed_by: string | null
+  changed_by_email: string | null
+  action: RoleChangeAction
+  old_role: UserRole | null
+  new_role: UserRole | null
+  created_at: string
+}
+
+/**
+ * List every user with their role and account status
+ */
+export async function getUsers(): Promise<ManagedUser[]> {
+  const response = await fetch('/api/admin/users')
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load users')
+  }
+
+  return data.data
+}
+
+/**
+ * Change a user's role and/or account status
+ *
+ * @param userId - User ID
+ * @param changes - New role, and `active` to approve or reactivate, or `deactivated`
+ */
+export async function updateUser(
+  userId: string,
+  changes: { role?: UserRole; status?: Exclude<AccountStatus, 'pending'> }
+): Promise<ManagedUser> {
+  const response = await fetch(`/api/admin/users/${userId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to update user')
+  }
+
+  return data.data
+}
+
+/**
+ * End every session of a user
+ */
+export async function forceSignOut(userId: string): Promise<void> {
+  const response = await fetch(`/api/admin/users/${userId}/sign-out`, {
+    method: 'POST',
+  })
+
+  if (!response.ok) {
+    const data = await response.json()
+    throw new Error(data.error || 'Failed to sign out user')
+  }
+}
+
+/**
+ * List recorded role and account changes, newest first
+ */
+export async function getRoleChanges(): Promise<RoleChange[]> {
+  const response = await fetch('/api/admin/users/audit')
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load role changes')
+  }
+
+  return data.data
+}
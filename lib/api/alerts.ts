@@ -0,0 +1,98 @@
+/**
+ * Security Alert API Functions
+ *
+ * Browser helpers for the anomaly alerts raised from the access logs
+ */
+
+/**
+ * Detection rules that raise alerts
+ * - action_threshold: too many accesses of one kind in a time window
+ * - mass_export: many different entries exported in a time window
+ * - denied_attempts: many refused accesses in a time window
+ * - new_ip: access from an IP address the user has not used before
+ * - off_hours: confidential or restricted entries opened outside working hours
+ */
+export type AlertRule = 'action_threshold' | 'mass_export' | 'denied_attempts' | 'new_ip' | 'off_hours'
+
+export type AlertSeverity = 'low' | 'medium' | 'high'
+
+/**
+ * open → acknowledged (someone is looking into it) → resolved
+ */
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved'
+
+export type AlertFilter = AlertStatus | 'active' | 'all'
+
+export const ALERT_RULE_LABELS: Record<AlertRule, string> = {
+  action_threshold: 'Unusual volume',
+  mass_export: 'Mass export',
+  denied_attempts: 'Repeated denials',
+  new_ip: 'New IP address',
+  off_hours: 'Off-hours access',
+}
+
+/**
+ * An alert with the users involved
+ */
+export interface SecurityAlert {
+  id: string
+  rule: AlertRule
+  severity: AlertSeverity
+  status: AlertStatus
+  user_id: string | null
+  user_email: string | null
+  title: string
+  details: Record<string, unknown>
+  first_event_at: string
+  last_event_at: string
+  created_at: string
+  acknowledged_by: string | null
+  acknowledged_by_email: string | null
+  acknowledged_at: string | null
+  resolved_by: string | null
+  resolved_by_email: string | null
+  resolved_at: string | null
+  resolution_note: string | null
+}
+
+/**
+ * List alerts, newest first
+ *
+ * @param filter - A status, `active` (open and acknowledged, the default) or `all`
+ */
+export async function getAlerts(filter: AlertFilter = 'active'): Promise<SecurityAlert[]> {
+  const response = await fetch(`/api/admin/alerts?status=${filter}`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load alerts')
+  }
+
+  return data.data
+}
+
+/**
+ * Acknowledge or resolve an alert
+ *
+ * @param alertId - Alert ID
+ * @param status - `acknowledged` or `resolved`
+ * @param note - Resolution note (optional)
+ */
+export async function updateAlert(
+  alertId: string,
+  status: Exclude<AlertStatus, 'open'>,
+  note?: string
+): Promise<SecurityAlert> {
+  const response = await fetch(`/api/admin/alerts/${alertId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status, note }),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to update alert')
+  }
+
+  return data.data
+}
@@ -0,0 +1,428 @@
+/**
+ * Server-Side Anomaly Detection
+ *
+ * Rules over access_logs that raise security alerts: access volume per
+ * action and time window, mass exports, repeated denials, access from a
+ * new IP address, and sensitive entries opened outside working hours.
+ * Run on a schedule by the detect-anomalies cron job.
+ * Server only - uses the cookie-based server Supabase client
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import type { AccessAction, AccessOutcome } from './logs'
+import type { AlertRule, AlertSeverity } from './alerts'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * How far back each run looks. Longer than the widest rule window plus
+ * the cron interval, so no window is missed; alerts are deduplicated.
+ */
+const SCAN_LOOKBACK_MINUTES = 120
+
+/**
+ * How far back a user's earlier IP addresses are remembered
+ */
+const NEW_IP_LOOKBACK_DAYS = 90
+
+const BATCH_SIZE = 1000
+
+const MAX_SCANNED_LOGS = 50000
+
+/**
+ * Actions that disclose entry content, for the off-hours rule
+ */
+const DISCLOSING_ACTIONS: AccessAction[] = ['view', 'export', 'reveal', 'totp']
+
+const SENSITIVE_CLASSIFICATIONS = ['confidential', 'restricted']
+
+/**
+ * A count-in-a-window rule. Windows are fixed (aligned to the epoch), so
+ * each window raises at most one alert per user.
+ */
+interface ThresholdRule {
+  rule: AlertRule
+  key: string
+  label: string
+  match: (log: ScannedLog) => boolean
+  windowMinutes: number
+  threshold: number
+  distinctEntries?: boolean
+  severity: AlertSeverity
+}
+
+const THRESHOLD_RULES: ThresholdRule[] = [
+  {
+    rule: 'mass_export',
+    key: 'export',
+    label: 'different entries exported',
+    match: log => log.action === 'export' && log.outcome !== 'denied',
+    windowMinutes: 60,
+    threshold: 20,
+    distinctEntries: true,
+    severity: 'high',
+  },
+  {
+    rule: 'action_threshold',
+    key: 'view',
+    label: 'entry views',
+    match: log => log.action === 'view' && log.outcome !== 'denied',
+    windowMinutes: 60,
+    threshold: 200,
+    severity: 'medium',
+  },
+  {
+    rule: 'action_threshold',
+    key: 'totp',
+    label: 'TOTP codes retrieved',
+    match: log => log.action === 'totp' && log.outcome !== 'denied',
+    windowMinutes: 60,
+    threshold: 50,
+    severity: 'medium',
+  },
+  {
+    rule: 'action_threshold',
+    key: 'reveal',
+    label: 'approved reveals',
+    match: log => log.action === 'reveal' && log.outcome !== 'denied',
+    windowMinutes: 60,
+    threshold: 10,
+    severity: 'high',
+  },
+  {
+    rule: 'action_threshold',
+    key: 'delete',
+    label: 'entries deleted',
+    match: log => log.action === 'delete' && log.outcome !== 'denied',
+    windowMinutes: 60,
+    threshold: 25,
+    severity: 'high',
+  },
+  {
+    rule: 'denied_attempts',
+    key: 'denied',
+    label: 'denied access attempts',
+    match: log => log.outcome === 'denied',
+    windowMinutes: 15,
+    threshold: 10,
+    severity: 'medium',
+  },
+]
+
+interface ScannedLog {
+  id: string
+  entry_id: string | null
+  accessed_by: string
+  action: AccessAction
+  outcome: AccessOutcome | null
+  accessed_at: string
+  ip_address: string | null
+}
+
+/**
+ * An alert ready to insert into security_alerts
+ */
+interface AlertCandidate {
+  rule: AlertRule
+  severity: AlertSeverity
+  user_id: string
+  title: string
+  details: Record<string, unknown>
+  dedup_key: string
+  first_event_at: string
+  last_event_at: string
+}
+
+export interface AnomalyScanResult {
+  scanned: number
+  raised: number
+  byRule: Partial<Record<AlertRule, number>>
+}
+
+/**
+ * Working hours, from ANOMALY_OFF_HOURS (`start-end` in whole hours,
+ * default 22-6) in ANOMALY_TIMEZONE (default UTC)
+ */
+function getOffHours(): { start: number; end: number; timeZone: string } {
+  const match = (process.env.ANOMALY_OFF_HOURS || '').match(/^(\d{1,2})-(\d{1,2})$/)
+  const start = match ? parseInt(match[1]) : 22
+  const end = match ? parseInt(match[2]) : 6
+
+  return {
+    start: start < 24 ? start : 22,
+    end: end < 24 ? end : 6,
+    timeZone: process.env.ANOMALY_TIMEZONE || 'UTC',
+  }
+}
+
+/**
+ * Local date and hour of a timestamp
+ */
+function localTime(timestamp: string, timeZone: string): { date: string; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(timestamp))
+  const part = (type: string) => parts.find(p => p.type === type)?.value || ''
+
+  return { date: `${part('year')}-${part('month')}-${part('day')}`, hour: parseInt(part('hour')) }
+}
+
+function isOffHours(hour: number, start: number, end: number): boolean {
+  return start > end ? hour >= start || hour < end : hour >= start && hour < end
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const key = keyOf(item)
+    groups.set(key, [...(groups.get(key) || []), item])
+  }
+  return groups
+}
+
+function eventSpan(logs: ScannedLog[]): { first_event_at: string; last_event_at: string } {
+  const times = logs.map(log => log.accessed_at).sort()
+  return { first_event_at: times[0], last_event_at: times[times.length - 1] }
+}
+
+/**
+ * Count-in-a-window rules
+ */
+function evaluateThresholds(logs: ScannedLog[]): AlertCandidate[] {
+  const alerts: AlertCandidate[] = []
+
+  for (const rule of THRESHOLD_RULES) {
+    const windowMs = rule.windowMinutes * 60 * 1000
+    const matching = logs.filter(rule.match)
+    const groups = groupBy(matching, log =>
+      `${log.accessed_by}:${Math.floor(new Date(log.accessed_at).getTime() / windowMs)}`
+    )
+
+    for (const [group, events] of groups) {
+      const count = rule.distinctEntries
+        ? new Set(events.map(log => log.entry_id).filter(Boolean)).size
+        : events.length
+      if (count < rule.threshold) continue
+
+      alerts.push({
+        rule: rule.rule,
+        severity: rule.severity,
+        user_id: events[0].accessed_by,
+        title: `${count} ${rule.label} in ${rule.windowMinutes} minutes`,
+        details: {
+          count,
+          threshold: rule.threshold,
+          window_minutes: rule.windowMinutes,
+          entry_ids: [...new Set(events.map(log => log.entry_id).filter(Boolean))].slice(0, 100),
+          ip_addresses: [...new Set(events.map(log => log.ip_address).filter(Boolean))],
+        },
+        dedup_key: `${rule.rule}:${rule.key}:${group}`,
+        ...eventSpan(events),
+      })
+    }
+  }
+
+  return alerts
+}
+
+/**
+ * Sensitive entries opened outside working hours, one alert per user and
+ * local day
+ */
+function evaluateOffHours(logs: ScannedLog[], classifications: Map<string, string>): AlertCandidate[] {
+  const { start, end, timeZone } = getOffHours()
+
+  const offHours = logs.filter(log =>
+    log.outcome !== 'denied' &&
+    DISCLOSING_ACTIONS.includes(log.action) &&
+    log.entry_id &&
+    SENSITIVE_CLASSIFICATIONS.includes(classifications.get(log.entry_id) || '') &&
+    isOffHours(localTime(log.accessed_at, timeZone).hour, start, end)
+  )
+
+  const groups = groupBy(offHours, log => `${log.accessed_by}:${localTime(log.accessed_at, timeZone).date}`)
+
+  return [...groups].map(([group, events]) => {
+    const entryIds = [...new Set(events.map(log => log.entry_id!))]
+    const restricted = entryIds.some(id => classifications.get(id) === 'restricted')
+
+    return {
+      rule: 'off_hours' as AlertRule,
+      severity: (restricted ? 'high' : 'medium') as AlertSeverity,
+      user_id: events[0].accessed_by,
+      title: `${entryIds.length} ${restricted ? 'restricted' : 'confidential'} ${entryIds.length === 1 ? 'entry' : 'entries'} opened outside working hours`,
+      details: {
+        entry_ids: entryIds,
+        actions: events.length,
+        off_hours: `${start}:00-${end}:00 ${timeZone}`,
+        ip_addresses: [...new Set(events.map(log => log.ip_address).filter(Boolean))],
+      },
+      dedup_key: `off_hours:${group}`,
+      ...eventSpan(events),
+    }
+  })
+}
+
+/**
+ * Access from an IP address the user has not used in the last
+ * NEW_IP_LOOKBACK_DAYS. Users without earlier history are skipped, since
+ * every address is new to them.
+ */
+async function evaluateNewIps(
+  supabase: ServerClient,
+  logs: ScannedLog[],
+  scanStart: Date,
+  classifications: Map<string, string>
+): Promise<AlertCandidate[]> {
+  const alerts: AlertCandidate[] = []
+  const lookbackStart = new Date(scanStart.getTime() - NEW_IP_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+
+  const byUser = groupBy(logs.filter(log => log.ip_address && log.outcome !== 'denied'), log => log.accessed_by)
+
+  for (const [userId, events] of byUser) {
+    const ips = [...new Set(events.map(log => log.ip_address!))]
+
+    // Users with no earlier history are skipped
+    const { data: history, error } = await supabase
+      .from('access_logs')
+      .select('id')
+      .eq('accessed_by', userId)
+      .gte('accessed_at', lookbackStart.toISOString())
+      .lt('accessed_at', scanStart.toISOString())
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Failed to fetch access history: ${error.message}`)
+    }
+    if (!history || history.length === 0) continue
+
+    const { data: seen, error: seenError } = await supabase
+      .from('access_logs')
+      .select('ip_address')
+      .eq('accessed_by', userId)
+      .in('ip_address', ips)
+      .gte('accessed_at', lookbackStart.toISOString())
+      .lt('accessed_at', scanStart.toISOString())
+      .limit(BATCH_SIZE)
+
+    if (seenError) {
+      throw new Error(`Failed to fetch IP history: ${seenError.message}`)
+    }
+
+    const knownIps = new Set((seen || []).map(row => row.ip_address))
+
+    for (const ip of ips.filter(ip => !knownIps.has(ip))) {
+      const fromIp = events.filter(log => log.ip_address === ip)
+      const entryIds = [...new Set(fromIp.map(log => log.entry_id).filter(Boolean))] as string[]
+      const restricted = entryIds.some(id => classifications.get(id) === 'restricted')
+
+      alerts.push({
+        rule: 'new_ip',
+        severity: restricted ? 'high' : 'low',
+        user_id: userId,
+        title: `Access from new IP address ${ip}${restricted ? ', including restricted entries' : ''}`,
+        details: {
+          ip_address: ip,
+          actions: fromIp.length,
+          entry_ids: entryIds.slice(0, 100),
+        },
+        dedup_key: `new_ip:${userId}:${ip}`,
+        ...eventSpan(fromIp),
+      })
+    }
+  }
+
+  return alerts
+}
+
+/**
+ * Run every rule over recent access logs and store new alerts
+ *
+ * @param supabase - Service-role Supabase client (reads all logs, writes alerts)
+ * @param now - End of the scan
+ */
+export async function detectAnomalies(supabase: ServerClient, now = new Date()): Promise<AnomalyScanResult> {
+  const scanStart = new Date(now.getTime() - SCAN_LOOKBACK_MINUTES * 60 * 1000)
+  const logs: ScannedLog[] = []
+
+  // System records (no user) are not attributed to anyone
+  while (logs.length < MAX_SCANNED_LOGS) {
+    const { data, error } = await supabase
+      .from('access_logs')
+      .select('id, entry_id, accessed_by, action, outcome, accessed_at, ip_address')
+      .not('accessed_by', 'is', null)
+      .gte('accessed_at', scanStart.toISOString())
+      .lte('accessed_at', now.toISOString())
+      .order('accessed_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(logs.length, logs.length + BATCH_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch access logs: ${error.message}`)
+    }
+
+    logs.push(...((data || []) as ScannedLog[]))
+    if (!data || data.length < BATCH_SIZE) break
+  }
+
+  // Classifications of the entries involved
+  const classifications = new Map<string, string>()
+  const entryIds = [...new Set(logs.map(log => log.entry_id).filter(Boolean))] as string[]
+  for (let i = 0; i < entryIds.length; i += 200) {
+    const { data: entries } = await supabase
+      .from('knowledge_entries')
+      .select('id, classification')
+      .in('id', entryIds.slice(i, i + 200))
+    entries?.forEach(entry => classifications.set(entry.id, entry.classification))
+  }
+
+  const candidates = [
+    ...evaluateThresholds(logs),
+    ...evaluateOffHours(logs, classifications),
+    ...(await evaluateNewIps(supabase, logs, scanStart, classifications)),
+  ]
+
+  const byRule: Partial<Record<AlertRule, number>> = {}
+  if (candidates.length === 0) {
+    return { scanned: logs.length, raised: 0, byRule }
+  }
+
+  // Alerts already raised for the same window, day or IP are left alone
+  const { data: raised, error } = await supabase
+    .from('security_alerts')
+    .upsert(candidates, { onConflict: 'dedup_key', ignoreDuplicates: true })
+    .select('id, rule, severity, user_id, title')
+
+  if (error) {
+    throw new Error(`Failed to store alerts: ${error.message}`)
+  }
+
+  raised?.forEach(alert => {
+    byRule[alert.rule as AlertRule] = (byRule[alert.rule as AlertRule] || 0) + 1
+    console.warn(`Security alert (${alert.severity}) for user ${alert.user_id}: ${alert.title}`)
+  })
+
+  return { scanned: logs.length, raised: raised?.length || 0, byRule }
+}
+
+/**
+ * Number of alerts nobody has acknowledged yet
+ */
+export async function countOpenAlerts(supabase: ServerClient): Promise<number> {
+  const { count, error } = await supabase
+    .from('security_alerts')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'open')
+
+  if (error) {
+    console.error('Error counting open alerts:', error)
+    return 0
+  }
+
+  return count || 0
+}
@@ -0,0 +1,214 @@
+/**
+ * Server-Side Reveal Approval Functions
+ *
+ * Dual control for confidential and restricted entries: when it is on for
+ * an entry's classification, anyone but the owner needs an approved
+ * request before the server decrypts the entry for them, and each approval
+ * can be used once within a short window.
+ * Server only - uses the cookie-based server Supabase client
+ */
+
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { canAccessClassification } from './access-control'
+import type { Classification, EntryAccessFields, UserRole } from './access-control'
+import { DUAL_CONTROL_CLASSIFICATIONS } from './approvals'
+import type { RevealAction, RevealRequest, RevealRequestStatus } from './approvals'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Minutes an approved request stays usable
+ */
+export const REVEAL_WINDOW_MINUTES = 10
+
+/**
+ * app_settings key holding the classifications under dual control
+ */
+export const DUAL_CONTROL_SETTING = 'dual_control'
+
+/**
+ * Columns selected for requests, including the entry title and classification
+ */
+export const REVEAL_REQUEST_COLUMNS = '*, knowledge_entries(title, classification)'
+
+/**
+ * A reveal_requests row selected with REVEAL_REQUEST_COLUMNS
+ */
+export interface RevealRequestRow {
+  id: string
+  entry_id: string
+  workspace_id: string
+  requested_by: string
+  action: RevealAction
+  reason: string
+  status: Exclude<RevealRequestStatus, 'used' | 'expired'>
+  decided_by: string | null
+  decided_at: string | null
+  decision_note: string | null
+  expires_at: string | null
+  used_at: string | null
+  created_at: string
+  knowledge_entries: { title: string; classification: Classification } | null
+}
+
+/**
+ * 403 response for routes that would decrypt an entry under dual control
+ */
+export function approvalRequiredResponse() {
+  return NextResponse.json(
+    { error: 'Forbidden: Revealing this entry requires an approved request', code: 'APPROVAL_REQUIRED' },
+    { status: 403 }
+  )
+}
+
+/**
+ * Get the classifications that currently require approval
+ */
+export async function getDualControlClassifications(supabase: ServerClient): Promise<Classification[]> {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', DUAL_CONTROL_SETTING)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error reading dual control setting:', error)
+    return []
+  }
+
+  return Array.isArray(data?.value)
+    ? data.value.filter((value: string) => DUAL_CONTROL_CLASSIFICATIONS.includes(value as Classification))
+    : []
+}
+
+/**
+ * Check whether a user needs an approval before an entry is decrypted for them
+ *
+ * Owners are exempt. Client-encrypted entries are never decrypted on the
+ * server, so dual control does not apply to them.
+ *
+ * @param entry - Entry owner, classification and encryption flag
+ * @param userId - User ID
+ * @param dualControl - Classifications under dual control
+ */
+export function requiresRevealApproval(
+  entry: EntryAccessFields,
+  userId: string,
+  dualControl: Classification[]
+): boolean {
+  return (
+    entry.user_id !== userId &&
+    !entry.is_client_encrypted &&
+    dualControl.includes(entry.classification as Classification)
+  )
+}
+
+/**
+ * Load an entry and check whether it needs an approval for the user
+ *
+ * For routes that authorize with checkEntryAccess and never load the
+ * entry's classification themselves.
+ */
+export async function entryRequiresRevealApproval(
+  supabase: ServerClient,
+  entryId: string,
+  userId: string
+): Promise<boolean> {
+  const [{ data: entry }, dualControl] = await Promise.all([
+    supabase
+      .from('knowledge_entries')
+      .select('user_id, classification, is_sensitive, is_client_encrypted')
+      .eq('id', entryId)
+      .single(),
+    getDualControlClassifications(supabase),
+  ])
+
+  return !!entry && requiresRevealApproval(entry, userId, dualControl)
+}
+
+/**
+ * Check whether a role can decide requests on an entry
+ *
+ * Approvers are workspace admins and managers whose role can see the
+ * entry's classification (so only admins approve restricted entries).
+ */
+export function canApproveReveal(entry: { classification: string }, approverRole: UserRole | null): boolean {
+  return (
+    (approverRole === 'admin' || approverRole === 'manager') &&
+    canAccessClassification(approverRole, entry.classification)
+  )
+}
+
+/**
+ * Use an approved request, once
+ *
+ * The update only matches an approved, unused, unexpired request for this
+ * entry, user and action, so concurrent calls cannot both succeed.
+ *
+ * @returns true if the approval was valid and is now used
+ */
+export async function consumeRevealApproval(
+  supabase: ServerClient,
+  requestId: string,
+  entryId: string,
+  userId: string,
+  action: RevealAction
+): Promise<boolean> {
+  const now = new Date().toISOString()
+
+  const { data, error } = await supabase
+    .from('reveal_requests')
+    .update({ used_at: now })
+    .eq('id', requestId)
+    .eq('entry_id', entryId)
+    .eq('requested_by', userId)
+    .eq('action', action)
+    .eq('status', 'approved')
+    .is('used_at', null)
+    .gt('expires_at', now)
+    .select('id')
+
+  if (error) {
+    console.error('Error using reveal approval:', error)
+    return false
+  }
+
+  return !!data && data.length > 0
+}
+
+/**
+ * Map a request row selected with REVEAL_REQUEST_COLUMNS to its API shape
+ *
+ * @param row - Request row
+ * @param emailOf - Resolves user IDs to emails for display
+ */
+function toRevealRequest(row: RevealRequestRow, emailOf: (id: string | null) => string | null): RevealRequest {
+  const { knowledge_entries: entry, ...request } = row
+
+  let status: RevealRequestStatus = row.status
+  if (row.status === 'approved' && row.used_at) status = 'used'
+  else if (row.status === 'approved' && (!row.expires_at || new Date(row.expires_at) <= new Date())) status = 'expired'
+
+  return {
+    ...request,
+    entry_title: entry?.title || 'Deleted entry',
+    entry_classification: entry?.classification || null,
+    requested_by_email: emailOf(row.requested_by) || row.requested_by,
+    decided_by_email: emailOf(row.decided_by),
+    status,
+  }
+}
+
+/**
+ * Map request rows to their API shape, resolving requester and approver emails
+ */
+export async function toRevealRequests(supabase: ServerClient, rows: RevealRequestRow[]): Promise<RevealRequest[]> {
+  const userIds = [...new Set(rows.flatMap(row => [row.requested_by, row.decided_by]).filter(Boolean))]
+  const { data: users } = userIds.length > 0
+    ? await supabase.from('user_roles').select('user_id, email').in('user_id', userIds)
+    : { data: [] as { user_id: string; email: string }[] }
+
+  const emailOf = (id: string | null) => users?.find(u => u.user_id === id)?.email || null
+  return rows.map(row => toRevealRequest(row, emailOf))
+}
@@ -0,0 +1,173 @@
+/**
+ * Reveal Approval API Functions
+ *
+ * Browser helpers for the dual-control workflow: requesting to reveal or
+ * export an entry, deciding requests in the approvals inbox and using an
+ * approval once it has been granted
+ */
+
+import type { Classification } from './access-control'
+import type { EntryFields } from '@/lib/utils/entry-fields'
+
+/**
+ * Classifications dual control can be turned on for
+ */
+export const DUAL_CONTROL_CLASSIFICATIONS: Classification[] = ['confidential', 'restricted']
+
+/**
+ * What the requester wants to do with the decrypted entry
+ */
+export type RevealAction = 'reveal' | 'export'
+
+/**
+ * Request status; `used` and `expired` are derived from approved requests
+ */
+export type RevealRequestStatus = 'pending' | 'approved' | 'denied' | 'used' | 'expired'
+
+/**
+ * A request to reveal or export an entry under dual control
+ */
+export interface RevealRequest {
+  id: string
+  entry_id: string
+  entry_title: string
+  entry_classification: Classification | null
+  workspace_id: string
+  requested_by: string
+  requested_by_email: string
+  action: RevealAction
+  reason: string
+  status: RevealRequestStatus
+  decided_by: string | null
+  decided_by_email: string | null
+  decided_at: string | null
+  decision_note: string | null
+  expires_at: string | null
+  used_at: string | null
+  created_at: string
+}
+
+/**
+ * Decrypted entry content served once for an approved reveal
+ */
+export interface RevealedContent {
+  content: string
+  fields: EntryFields | null
+}
+
+/**
+ * Ask for approval to reveal or export an entry
+ *
+ * @param entryId - Entry ID
+ * @param action - reveal or export
+ * @param reason - Why the content is needed (shown to approvers)
+ */
+export async function requestReveal(entryId: string, action: RevealAction, reason: string): Promise<RevealRequest> {
+  const response = await fetch(`/api/entries/${entryId}/reveal-requests`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action, reason }),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to request approval')
+  }
+
+  return data.data
+}
+
+/**
+ * List the current user's reveal and export requests for an entry, newest first
+ */
+export async function getEntryRevealRequests(entryId: string): Promise<RevealRequest[]> {
+  const response = await fetch(`/api/entries/${entryId}/reveal-requests`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load approval requests')
+  }
+
+  return data.data
+}
+
+/**
+ * Decrypt an entry with an approved reveal request (works once)
+ */
+export async function revealEntry(entryId: string, requestId: string): Promise<RevealedContent> {
+  const response = await fetch(`/api/entries/${entryId}/reveal`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ requestId }),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to reveal entry')
+  }
+
+  return data.data
+}
+
+/**
+ * Load the approvals inbox
+ *
+ * @returns Requests awaiting the user's decision, the user's own requests
+ * and the classifications under dual control
+ */
+export async function getApprovals(): Promise<{
+  toReview: RevealRequest[]
+  mine: RevealRequest[]
+  dualControl: Classification[]
+}> {
+  const response = await fetch('/api/approvals')
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load approvals')
+  }
+
+  return { toReview: data.data.toReview, mine: data.data.mine, dualControl: data.dualControl }
+}
+
+/**
+ * Approve or deny a pending request
+ *
+ * @param requestId - Request ID
+ * @param decision - approve or deny
+ * @param note - Optional note for the requester
+ */
+export async function decideRevealRequest(
+  requestId: string,
+  decision: 'approve' | 'deny',
+  note?: string
+): Promise<RevealRequest> {
+  const response = await fetch(`/api/approvals/${requestId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ decision, note }),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to record decision')
+  }
+
+  return data.data
+}
+
+/**
+ * Choose which classifications require approval to reveal or export (admins only)
+ */
+export async function setDualControl(classifications: Classification[]): Promise<void> {
+  const response = await fetch('/api/approvals/settings', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ classifications }),
+  })
+
+  if (!response.ok) {
+    const data = await response.json()
+    throw new Error(data.error || 'Failed to update dual control')
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * Server-Side Audit Functions
+ *
+ * Filtering for the audit log explorer, verification of the hash chain
+ * over access_logs, and signed checkpoints of its head. A checkpoint pins
+ * the chain so that rewriting history before it (even with hashes
+ * recomputed) no longer verifies.
+ * Server only - uses the cookie-based server Supabase client
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { ACCESS_ACTIONS, AccessAction, AccessOutcome } from './logs'
+import type { EntryClassification } from './entries'
+import type { AuditLogFilter, AuditLogRecord } from './audit'
+import {
+  ChainedLogRecord,
+  GENESIS_HASH,
+  hashLogRecord,
+  signCheckpoint,
+  verifyCheckpointSignature,
+} from '@/lib/utils/audit-chain'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+const BATCH_SIZE = 1000
+
+const CLASSIFICATIONS: EntryClassification[] = ['public', 'internal', 'confidential', 'restricted']
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const AUDIT_LOG_COLUMNS =
+  'id, seq, entry_id, accessed_by, action, accessed_at, ip_address, user_agent, break_glass_grant_id, request_id, outcome, prev_hash, entry_prev_hash, record_hash'
+
+/**
+ * Stop collecting breaks after this many, the report is already damning
+ */
+const MAX_REPORTED_BREAKS = 100
+
+/**
+ * Read audit log filters from query parameters
+ *
+ * A date-only `to` covers the whole day (UTC).
+ *
+ * @returns The filter, or an error message for a 400 response
+ */
+export function parseAuditFilter(params: URLSearchParams): { filter: AuditLogFilter } | { error: string } {
+  const filter: AuditLogFilter = {}
+
+  const userId = params.get('userId')
+  if (userId) {
+    if (!UUID_PATTERN.test(userId)) return { error: 'userId must be a user ID' }
+    filter.userId = userId
+  }
+
+  const entryId = params.get('entryId')
+  if (entryId) {
+    if (!UUID_PATTERN.test(entryId)) return { error: 'entryId must be an entry ID' }
+    filter.entryId = entryId
+  }
+
+  const action = params.get('action')
+  if (action) {
+    if (!ACCESS_ACTIONS.includes(action as AccessAction)) {
+      return { error: `action must be one of: ${ACCESS_ACTIONS.join(', ')}` }
+    }
+    filter.action = action as AccessAction
+  }
+
+  const outcome = params.get('outcome')
+  if (outcome) {
+    if (!['allowed', 'denied'].includes(outcome)) return { error: 'outcome must be allowed or denied' }
+    filter.outcome = outcome as AccessOutcome
+  }
+
+  const classification = params.get('classification')
+  if (classification) {
+    if (!CLASSIFICATIONS.includes(classification as EntryClassification)) {
+      return { error: `classification must be one of: ${CLASSIFICATIONS.join(', ')}` }
+    }
+    filter.classification = classification as EntryClassification
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key)
+    if (!value) continue
+
+    const date = new Date(key === 'to' && DATE_ONLY_PATTERN.test(value) ? `${value}T23:59:59.999Z` : value)
+    if (isNaN(date.getTime())) return { error: `${key} must be a date` }
+    filter[key] = date.toISOString()
+  }
+
+  const ip = params.get('ip')
+  if (ip) {
+    if (!/^[0-9a-f.:]+$/i.test(ip)) return { error: 'ip must be an IP address or the start of one' }
+    filter.ip = ip
+  }
+
+  return { filter }
+}
+
+/**
+ * Find access log records matching a filter, with user emails and entry
+ * titles and classifications
+ *
+ * @param supabase - Server Supabase client (must be able to read all logs)
+ * @param filter - Filters to apply
+ * @param range - Records to skip and to return
+ * @param order - `newest` first for browsing, `oldest` first for exports
+ *   (stable while new records are written)
+ */
+export async function findAuditLogs(
+  supabase: ServerClient,
+  filter: AuditLogFilter,
+  range: { offset: number; limit: number },
+  order: 'newest' | 'oldest' = 'newest'
+): Promise<{ logs: AuditLogRecord[]; total: number }> {
+  let query = supabase
+    .from('access_logs')
+    .select(AUDIT_LOG_COLUMNS, { count: 'exact' })
+
+  if (filter.userId) query = query.eq('accessed_by', filter.userId)
+  if (filter.action) query = query.eq('action', filter.action)
+  if (filter.outcome) query = query.eq('outcome', filter.outcome)
+  if (filter.entryId) query = query.eq('entry_id', filter.entryId)
+  if (filter.from) query = query.gte('accessed_at', filter.from)
+  if (filter.to) query = query.lte('accessed_at', filter.to)
+  if (filter.ip) query = query.ilike('ip_address', `${filter.ip}%`)
+
+  // access_logs keeps no foreign key to entries (purge records outlive
+  // them), so classification is matched through the entry IDs
+  if (filter.classification) {
+    const { data: entries, error } = await supabase
+      .from('knowledge_entries')
+      .select('id')
+      .eq('classification', filter.classification)
+
+    if (error) {
+      throw new Error(`Failed to fetch entries: ${error.message}`)
+    }
+    if (!entries || entries.length === 0) return { logs: [], total: 0 }
+
+    query = query.in('entry_id', entries.map(entry => entry.id))
+  }
+
+  const ascending = order === 'oldest'
+  const { data, error, count } = await query
+    .order('accessed_at', { ascending })
+    .order('seq', { ascending })
+    .range(range.offset, range.offset + range.limit - 1)
+
+  if (error) {
+    throw new Error(`Failed to fetch access logs: ${error.message}`)
+  }
+
+  const logs = (data || []) as Omit<AuditLogRecord, 'user_email' | 'entry_title' | 'entry_classification'>[]
+
+  // Resolve emails and entries for display
+  const userIds = [...new Set(logs.map(log => log.accessed_by).filter(Boolean))] as string[]
+  const entryIds = [...new Set(logs.map(log => log.entry_id).filter(Boolean))]
+
+  const [{ data: users }, { data: entries }] = await Promise.all([
+    userIds.length > 0
+      ? supabase.from('user_roles').select('user_id, email').in('user_id', userIds)
+      : Promise.resolve({ data: [] as { user_id: string; email: string }[] }),
+    entryIds.length > 0
+      ? supabase.from('knowledge_entries').select('id, title, classification').in('id', entryIds)
+      : Promise.resolve({ data: [] as { id: string; title: string; classification: EntryClassification }[] }),
+  ])
+
+  return {
+    logs: logs.map(log => {
+      const entry = entries?.find(e => e.id === log.entry_id)
+      return {
+        ...log,
+        user_email: log.accessed_by
+          ? users?.find(u => u.user_id === log.accessed_by)?.email || 'Unknown User'
+          : 'System',
+        entry_title: entry?.title ?? null,
+        entry_classification: entry?.classification ?? null,
+      }
+    }),
+    total: count || 0,
+  }
+}
+
+/**
+ * Ways a record can fail verification
+ * - hash_mismatch: the record was changed after it was written
+ * - global_link: prev_hash does not match the record before it
+ * - entry_link: entry_prev_hash does not match the entry's previous record
+ * - sequence_gap: a record is missing from the sequence
+ */
+export type ChainBreakType = 'hash_mismatch' | 'global_link' | 'entry_link' | 'sequence_gap'
+
+export interface ChainBreak {
+  type: ChainBreakType
+  seq: number
+  log_id: string
+  entry_id: string | null
+  expected: string
+  actual: string
+}
+
+/**
+ * Ways a checkpoint can fail verification
+ * - bad_signature: the signature does not match the checkpoint
+ * - hash_mismatch: the chain head at last_seq no longer matches
+ * - missing_record: the record at last_seq is gone
+ * - count_mismatch: the number of records up to last_seq changed
+ */
+export type CheckpointFailureType = 'bad_signature' | 'hash_mismatch' | 'missing_record' | 'count_mismatch'
+
+export interface CheckpointFailure {
+  type: CheckpointFailureType
+  checkpoint_id: string
+  last_seq: number
+  created_at: string
+}
+
+export interface AuditCheckpoint {
+  id: string
+  last_seq: number
+  last_hash: string
+  record_count: number
+  signature: string
+  key_id: string
+  created_at: string
+}
+
+export interface ChainVerification {
+  valid: boolean
+  records_checked: number
+  last_seq: number | null
+  last_hash: string
+  breaks: ChainBreak[]
+  checkpoints_checked: number
+  checkpoint_failures: CheckpointFailure[]
+  verified_at: string
+}
+
+/**
+ * Walk access_logs in sequence order, recomputing every hash and link,
+ * then check each signed checkpoint against the walked chain
+ *
+ * @param supabase - Server Supabase client (must be able to read all logs)
+ */
+export async function verifyAuditChain(supabase: ServerClient): Promise<ChainVerification> {
+  const breaks: ChainBreak[] = []
+  const entryHeads = new Map<string, string>()
+  // seq -> [record_hash, records seen up to and including it]
+  const heads = new Map<number, [string, number]>()
+
+  const { data: checkpoints, error: checkpointError } = await supabase
+    .from('audit_checkpoints')
+    .select('*')
+    .order('last_seq', { ascending: true })
+
+  if (checkpointError) {
+    throw new Error(`Failed to fetch audit checkpoints: ${checkpointError.message}`)
+  }
+
+  const checkpointSeqs = new Set((checkpoints || []).map(c => Number(c.last_seq)))
+
+  const addBreak = (type: ChainBreakType, record: ChainedLogRecord, expected: string, actual: string) => {
+    if (breaks.length < MAX_REPORTED_BREAKS) {
+      breaks.push({ type, seq: record.seq, log_id: record.id, entry_id: record.entry_id, expected, actual })
+    }
+  }
+
+  let previousHash = GENESIS_HASH
+  let previousSeq: number | null = null
+  let count = 0
+  let lastSeq: number | null = null
+
+  while (true) {
+    let query = supabase
+      .from('access_logs')
+      .select(AUDIT_LOG_COLUMNS)
+      .not('seq', 'is', null)
+      .order('seq', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (lastSeq !== null) {
+      query = query.gt('seq', lastSeq)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(`Failed to fetch access logs: ${error.message}`)
+    }
+
+    const records = (data || []) as ChainedLogRecord[]
+    if (records.length === 0) break
+
+    for (const raw of records) {
+      const record = { ...raw, seq: Number(raw.seq) }
+      count++
+
+      if (record.prev_hash !== previousHash) {
+        // Sequence values are lost when an insert rolls back, so a gap on
+        // its own is harmless; with a broken link it means a deleted record
+        if (previousSeq !== null && record.seq !== previousSeq + 1) {
+          addBreak('sequence_gap', record, String(previousSeq + 1), String(record.seq))
+        } else {
+          addBreak('global_link', record, previousHash, record.prev_hash)
+        }
+      }
+
+      if (record.entry_id) {
+        const expectedEntryHash = entryHeads.get(record.entry_id) ?? GENESIS_HASH
+        if ((record.entry_prev_hash ?? '') !== expectedEntryHash) {
+          addBreak('entry_link', record, expectedEntryHash, record.entry_prev_hash ?? '')
+        }
+      }
+
+      const computed = hashLogRecord(record)
+      if (computed !== record.record_hash) {
+        addBreak('hash_mismatch', record, computed, record.record_hash)
+      }
+
+      // Continue from the stored hash so one tampered record is reported
+      // once rather than breaking every link after it
+      previousHash = record.record_hash
+      previousSeq = record.seq
+      if (record.entry_id) {
+        entryHeads.set(record.entry_id, record.record_hash)
+      }
+      if (checkpointSeqs.has(record.seq)) {
+        heads.set(record.seq, [record.record_hash, count])
+      }
+    }
+
+    lastSeq = Number(records[records.length - 1].seq)
+    if (records.length < BATCH_SIZE) break
+  }
+
+  const checkpointFailures: CheckpointFailure[] = []
+
+  for (const checkpoint of (checkpoints || []) as AuditCheckpoint[]) {
+    const failure = (type: CheckpointFailureType) => checkpointFailures.push({
+      type,
+      checkpoint_id: checkpoint.id,
+      last_seq: Number(checkpoint.last_seq),
+      created_at: checkpoint.created_at,
+    })
+
+    const payload = {
+      last_seq: Number(checkpoint.last_seq),
+      last_hash: checkpoint.last_hash,
+      record_count: Number(checkpoint.record_count),
+      created_at: checkpoint.created_at,
+    }
+
+    if (!verifyCheckpointSignature(payload, checkpoint.signature)) {
+      failure('bad_signature')
+      continue
+    }
+
+    const head = heads.get(payload.last_seq)
+    if (!head) {
+      failure('missing_record')
+    } else if (head[0] !== payload.last_hash) {
+      failure('hash_mismatch')
+    } else if (head[1] !== payload.record_count) {
+      failure('count_mismatch')
+    }
+  }
+
+  return {
+    valid: breaks.length === 0 && checkpointFailures.length === 0,
+    records_checked: count,
+    last_seq: previousSeq,
+    last_hash: previousHash,
+    breaks,
+    checkpoints_checked: checkpoints?.length || 0,
+    checkpoint_failures: checkpointFailures,
+    verified_at: new Date().toISOString(),
+  }
+}
+
+/**
+ * Sign and store a checkpoint of the current chain head
+ *
+ * @param supabase - Service-role Supabase client (reads all logs, writes checkpoints)
+ * @returns The new checkpoint, or null if there is nothing new to pin
+ */
+export async function createAuditCheckpoint(supabase: ServerClient): Promise<AuditCheckpoint | null> {
+  const { data: head, error: headError } = await supabase
+    .from('access_logs')
+    .select('seq, record_hash')
+    .not('seq', 'is', null)
+    .order('seq', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (headError) {
+    throw new Error(`Failed to fetch chain head: ${headError.message}`)
+  }
+  if (!head) return null
+
+  const { data: latest } = await supabase
+    .from('audit_checkpoints')
+    .select('last_seq')
+    .order('last_seq', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (latest && Number(latest.last_seq) >= Number(head.seq)) return null
+
+  const { count, error: countError } = await supabase
+    .from('access_logs')
+    .select('id', { count: 'exact', head: true })
+    .not('seq', 'is', null)
+    .lte('seq', head.seq)
+
+  if (countError) {
+    throw new Error(`Failed to count access logs: ${countError.message}`)
+  }
+
+  const payload = {
+    last_seq: Number(head.seq),
+    last_hash: head.record_hash as string,
+    record_count: count || 0,
+    created_at: new Date().toISOString(),
+  }
+  const { signature, keyId } = signCheckpoint(payload)
+
+  const { data, error } = await supabase
+    .from('audit_checkpoints')
+    .insert({ ...payload, signature, key_id: keyId })
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to store audit checkpoint: ${error.message}`)
+  }
+
+  return data as AuditCheckpoint
+}
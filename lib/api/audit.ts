@@ -0,0 +1,136 @@
+/**
+ * Audit Log API Functions
+ *
+ * Browser helpers for the admin audit log explorer
+ */
+
+import type { AccessAction, AccessLog, AccessOutcome } from './logs'
+import type { EntryClassification } from './entries'
+
+/**
+ * Export formats for filtered audit logs
+ */
+export type AuditExportFormat = 'csv' | 'jsonl'
+
+/**
+ * Filters accepted by /api/audit, its export and timelines.
+ * Dates are ISO strings; `ip` matches addresses starting with the value.
+ */
+export interface AuditLogFilter {
+  userId?: string
+  action?: AccessAction
+  outcome?: AccessOutcome
+  entryId?: string
+  classification?: EntryClassification
+  from?: string
+  to?: string
+  ip?: string
+}
+
+/**
+ * An access log record with the user and entry it refers to
+ */
+export interface AuditLogRecord extends AccessLog {
+  user_email: string
+  entry_title: string | null
+  entry_classification: EntryClassification | null
+}
+
+/**
+ * One page of audit log records, newest first
+ */
+export interface AuditLogPage {
+  logs: AuditLogRecord[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+/**
+ * A user's activity on one day (UTC)
+ */
+export interface AuditTimelineDay {
+  date: string
+  total: number
+  actions: Partial<Record<AccessAction, number>>
+  events: AuditLogRecord[]
+}
+
+/**
+ * A user's activity, most recent day first
+ */
+export interface AuditTimeline {
+  user_id: string
+  user_email: string
+  total: number
+  first_seen: string | null
+  last_seen: string | null
+  days: AuditTimelineDay[]
+}
+
+export const AUDIT_PAGE_SIZE = 50
+
+/**
+ * Turn a filter into query string parameters, skipping empty values
+ */
+export function toAuditSearchParams(filter: AuditLogFilter): URLSearchParams {
+  const params = new URLSearchParams()
+
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value) params.set(key, value)
+  })
+
+  return params
+}
+
+/**
+ * Get one page of audit log records matching a filter
+ *
+ * @param filter - Filters to apply
+ * @param page - Page number, starting at 1
+ */
+export async function getAuditLogs(filter: AuditLogFilter, page = 1): Promise<AuditLogPage> {
+  const params = toAuditSearchParams(filter)
+  params.set('page', String(page))
+  params.set('pageSize', String(AUDIT_PAGE_SIZE))
+
+  const response = await fetch(`/api/audit?${params}`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load audit logs')
+  }
+
+  return data.data
+}
+
+/**
+ * Get a user's activity timeline, within the rest of the filter
+ *
+ * @param userId - User ID
+ * @param filter - Other filters to apply
+ */
+export async function getAuditTimeline(userId: string, filter: AuditLogFilter = {}): Promise<AuditTimeline> {
+  const params = toAuditSearchParams({ ...filter, userId })
+
+  const response = await fetch(`/api/audit/timeline?${params}`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load activity timeline')
+  }
+
+  return data.data
+}
+
+/**
+ * URL that downloads every record matching a filter
+ *
+ * @param filter - Filters to apply
+ * @param format - `csv` or `jsonl` (JSON Lines)
+ */
+export function getAuditExportUrl(filter: AuditLogFilter, format: AuditExportFormat): string {
+  const params = toAuditSearchParams(filter)
+  params.set('format', format)
+  return `/api/audit/export?${params}`
+}
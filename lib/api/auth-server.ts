@@ -12,6 +12,11 @@ import { createClient } from '@/lib/supabase/server'
  */
 export type UserRole = 'admin' | 'manager' | 'member' | 'viewer'
 
+/**
+ * Account status: new accounts wait for admin approval
+ */
+export type AccountStatus = 'pending' | 'active' | 'deactivated'
+
 /**
  * User profile with role information
  */
@@ -20,6 +25,7 @@ export interface UserProfile {
   email: string
   full_name?: string
   role: UserRole
+  status: AccountStatus
   created_at: string
 }
 
@@ -50,8 +56,10 @@ export async function getCurrentUser() {
 /**
  * Get the role of a user by their user ID
  * 
+ * Pending and deactivated accounts have no role.
+ * 
  * @param userId - The user's unique ID
- * @returns UserRole or null if not found
+ * @returns UserRole or null if not found or not active
  */
 export async function getUserRole(userId: string): Promise<UserRole | null> {
   try {
@@ -59,7 +67,7 @@ export async function getUserRole(userId: string): Promise<UserRole | null> {
 
     const { data, error } = await supabase
       .from('user_roles')
-      .select('role')
+      .select('role, status')
       .eq('user_id', userId)
       .single()
 
@@ -71,6 +79,10 @@ export async function getUserRole(userId: string): Promise<UserRole | null> {
       return null
     }
 
+    if (data?.status && data.status !== 'active') {
+      return null
+    }
+
     return data?.role as UserRole || null
   } catch (error) {
     return null
@@ -108,6 +120,7 @@ export async function getUserProfile(
       email: data.email || '',
       full_name: data.full_name || undefined,
       role: data.role as UserRole,
+      status: (data.status || 'active') as AccountStatus,
       created_at: data.created_at || data.assigned_at || new Date().toISOString(),
     }
   } catch (error) {
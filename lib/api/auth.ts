@@ -12,6 +12,18 @@ import { createClient as createBrowserClient } from '@/lib/supabase/client'
  */
 export type UserRole = 'admin' | 'manager' | 'member' | 'viewer'
 
+/**
+ * Roles a user can request at signup; anything higher is granted by an admin
+ */
+export type SignupRole = 'member' | 'viewer'
+
+const SIGNUP_ROLES: SignupRole[] = ['member', 'viewer']
+
+/**
+ * Account status: new accounts wait for admin approval
+ */
+export type AccountStatus = 'pending' | 'active' | 'deactivated'
+
 /**
  * Authentication response type
  */
@@ -35,17 +47,23 @@ export interface UserProfile {
 /**
  * Sign up a new user with email, password, role, and full name
  * 
+ * Without an invitation the account stays pending until an admin approves it.
+ * With an invitation the role and workspace come from the invitation and the
+ * account is active immediately.
+ * 
  * @param email - User's email address
  * @param password - User's password (min 8 characters)
- * @param role - User's role (admin, manager, member, viewer)
+ * @param role - Requested role (member or viewer); ignored with an invitation
  * @param fullName - User's full name (optional)
+ * @param inviteToken - Invitation token from the signup link (optional)
  * @returns AuthResponse with success status and message
  */
 export async function signUp(
   email: string,
   password: string,
-  role: UserRole = 'member',
-  fullName?: string
+  role: SignupRole = 'member',
+  fullName?: string,
+  inviteToken?: string
 ): Promise<AuthResponse> {
   try {
     const supabase = createBrowserClient()
@@ -67,6 +85,14 @@ export async function signUp(
       }
     }
 
+    if (!inviteToken && !SIGNUP_ROLES.includes(role)) {
+      return {
+        success: false,
+        message: 'Only the member or viewer role can be requested at signup',
+        error: 'INVALID_ROLE',
+      }
+    }
+
     // Create user account with Supabase Auth
     const { data, error } = await supabase.auth.signUp({
       email,
@@ -94,6 +120,30 @@ export async function signUp(
       }
     }
 
+    if (inviteToken) {
+      const response = await fetch('/api/invitations/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: inviteToken, full_name: fullName || null }),
+      })
+
+      if (!response.ok) {
+        const result = await response.json()
+        return {
+          success: false,
+          message: `Account created but the invitation could not be applied: ${result.error || 'unknown error'}. Please contact the person who invited you.`,
+          userId: data.user.id,
+          error: 'INVITATION_FAILED',
+        }
+      }
+
+      return {
+        success: true,
+        message: 'Account created successfully! Please check your email to verify your account.',
+        userId: data.user.id,
+      }
+    }
+
     // Insert user role into user_roles table
     const { data: insertedData, error: roleError } = await supabase
       .from('user_roles')
@@ -102,6 +152,7 @@ export async function signUp(
         email: email,
         full_name: fullName || null,
         role: role,
+        status: 'pending',
         created_at: new Date().toISOString(),
       })
       .select()
@@ -129,7 +180,7 @@ export async function signUp(
 
     return {
       success: true,
-      message: 'Account created successfully! Please check your email to verify your account.',
+      message: 'Account created successfully! Please check your email to verify your account. An admin will approve your access.',
       userId: data.user.id,
     }
   } catch (error) {
@@ -0,0 +1,96 @@
+/**
+ * Server-Side Break-Glass Functions
+ *
+ * Emergency, time-boxed view access to restricted entries for roles that
+ * cannot see them by default. Every grant carries a justification and
+ * stays in the admin review queue until an admin acknowledges it.
+ * Server only - uses the cookie-based server Supabase client
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import type { EntryAccessFields, UserRole } from './access-control'
+import type { BreakGlassGrant } from './break-glass'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Roles that may break glass (admins already see restricted entries)
+ */
+const BREAK_GLASS_ROLES: UserRole[] = ['manager', 'member']
+
+/**
+ * Check if a user may request break-glass access to an entry
+ *
+ * Only restricted entries qualify, and client-encrypted entries are
+ * excluded because the server cannot decrypt them anyway.
+ *
+ * @param entry - Entry classification, owner and encryption flag
+ * @param userId - User ID
+ * @param userRole - User's role in the entry's workspace
+ */
+export function canRequestBreakGlass(
+  entry: EntryAccessFields,
+  userId: string,
+  userRole: UserRole | null
+): boolean {
+  return (
+    !!userRole &&
+    BREAK_GLASS_ROLES.includes(userRole) &&
+    entry.classification === 'restricted' &&
+    !entry.is_client_encrypted &&
+    entry.user_id !== userId
+  )
+}
+
+/**
+ * Get the user's unexpired break-glass grant on an entry
+ *
+ * @param entryId - Entry ID
+ * @param userId - User ID
+ * @returns The grant, or null if there is none
+ */
+export async function getActiveBreakGlassGrant(
+  entryId: string,
+  userId: string
+): Promise<BreakGlassGrant | null> {
+  try {
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('break_glass_grants')
+      .select('*')
+      .eq('entry_id', entryId)
+      .eq('user_id', userId)
+      .gt('expires_at', new Date().toISOString())
+      .order('expires_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error getting break-glass grant:', error)
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error in getActiveBreakGlassGrant:', error)
+    return null
+  }
+}
+
+/**
+ * Count break-glass grants no admin has acknowledged yet
+ */
+export async function countPendingBreakGlassReviews(supabase: ServerClient): Promise<number> {
+  const { count, error } = await supabase
+    .from('break_glass_grants')
+    .select('id', { count: 'exact', head: true })
+    .is('acknowledged_at', null)
+
+  if (error) {
+    console.error('Error counting break-glass reviews:', error)
+    return 0
+  }
+
+  return count || 0
+}
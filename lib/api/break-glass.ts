@@ -0,0 +1,109 @@
+/**
+ * Break-Glass Access API Functions
+ *
+ * Browser helpers for emergency access to restricted entries and the
+ * admin review queue
+ */
+
+/**
+ * Durations (minutes) a break-glass grant can be requested for
+ */
+export const BREAK_GLASS_DURATIONS = [15, 30, 60, 120, 240] as const
+
+/**
+ * Default break-glass duration in minutes
+ */
+export const DEFAULT_BREAK_GLASS_MINUTES = 60
+
+/**
+ * A time-boxed emergency grant on one restricted entry
+ */
+export interface BreakGlassGrant {
+  id: string
+  entry_id: string
+  workspace_id: string
+  user_id: string
+  justification: string
+  expires_at: string
+  created_at: string
+  acknowledged_by: string | null
+  acknowledged_at: string | null
+  review_note: string | null
+}
+
+/**
+ * A break-glass grant as listed in the admin review queue
+ */
+export interface BreakGlassReview extends BreakGlassGrant {
+  user_email: string
+  entry_title: string
+  acknowledged_by_email: string | null
+  uses: number
+  is_active: boolean
+}
+
+/**
+ * Review queue filter: grants still awaiting acknowledgement, or all
+ */
+export type BreakGlassReviewFilter = 'pending' | 'all'
+
+/**
+ * Request emergency access to a restricted entry
+ *
+ * @param entryId - Entry ID
+ * @param justification - Why access is needed (shown to reviewers)
+ * @param durationMinutes - How long the access lasts
+ */
+export async function requestBreakGlass(
+  entryId: string,
+  justification: string,
+  durationMinutes: number = DEFAULT_BREAK_GLASS_MINUTES
+): Promise<BreakGlassGrant> {
+  const response = await fetch(`/api/entries/${entryId}/break-glass`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ justification, duration_minutes: durationMinutes }),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to request break-glass access')
+  }
+
+  return data.data
+}
+
+/**
+ * List break-glass grants for review, newest first (admins only)
+ */
+export async function getBreakGlassReviews(filter: BreakGlassReviewFilter = 'pending'): Promise<BreakGlassReview[]> {
+  const response = await fetch(`/api/admin/break-glass?status=${filter}`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load break-glass reviews')
+  }
+
+  return data.data
+}
+
+/**
+ * Acknowledge a break-glass grant after reviewing its use (admins only)
+ *
+ * @param grantId - Grant ID
+ * @param note - Optional review note
+ */
+export async function acknowledgeBreakGlass(grantId: string, note?: string): Promise<BreakGlassGrant> {
+  const response = await fetch(`/api/admin/break-glass/${grantId}/acknowledge`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ note }),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to acknowledge break-glass access')
+  }
+
+  return data.data
+}
@@ -0,0 +1,133 @@
+/**
+ * Server-Side Calendar Feed Functions
+ *
+ * Per-user iCalendar feeds of credential expirations. Calendar apps fetch
+ * the feed without a session, so the feed URL carries a token; only its
+ * hash is stored. The feed lists the same entries as the expiring entries
+ * API, across every workspace the user belongs to, with titles and links
+ * but no content.
+ * Server only - the feed is read with the service role client
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { buildCalendar, CalendarEvent } from '@/lib/utils/ical'
+import { getExpiringEntries } from './expiring-entries-server'
+import { toMemberships } from './workspaces'
+import type { ExpiryStatus } from './expiration-policies'
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+const STATUS_LABELS: Record<ExpiryStatus, string> = {
+  expired: 'Expired',
+  critical: 'Critical',
+  warning: 'Warning',
+  notice: 'Upcoming',
+}
+
+/**
+ * Hash a feed token for storage and lookup
+ */
+export function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Generate a new feed token and its hash
+ */
+export function generateFeedToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url')
+  return { token, tokenHash: hashFeedToken(token) }
+}
+
+/**
+ * Build the subscription URL for a feed token
+ */
+export function getFeedUrl(token: string): string {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+  return `${siteUrl}/api/calendar/feed?token=${encodeURIComponent(token)}`
+}
+
+/**
+ * Get the active user a feed token belongs to, and record its use
+ *
+ * @param supabase - Service role client
+ * @param token - Token from the feed URL
+ * @returns User ID, or null for unknown tokens and inactive accounts
+ */
+export async function getFeedOwner(supabase: AdminClient, token: string): Promise<string | null> {
+  const { data: feed } = await supabase
+    .from('calendar_feed_tokens')
+    .select('user_id')
+    .eq('token_hash', hashFeedToken(token))
+    .maybeSingle()
+
+  if (!feed) return null
+
+  const { data: profile } = await supabase
+    .from('user_roles')
+    .select('status')
+    .eq('user_id', feed.user_id)
+    .maybeSingle()
+
+  if (profile?.status !== 'active') return null
+
+  await supabase
+    .from('calendar_feed_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('user_id', feed.user_id)
+
+  return feed.user_id
+}
+
+/**
+ * Build a user's feed of expired and expiring entries
+ *
+ * @param supabase - Service role client
+ * @param userId - Feed owner
+ * @param now - Generation time
+ */
+export async function buildExpirationFeed(
+  supabase: AdminClient,
+  userId: string,
+  now = new Date()
+): Promise<string> {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+
+  const { data: rows, error } = await supabase
+    .from('workspace_members')
+    .select('role, workspaces(id, name)')
+    .eq('user_id', userId)
+
+  if (error) {
+    throw new Error(`Failed to fetch workspaces: ${error.message}`)
+  }
+
+  const events: CalendarEvent[] = []
+
+  // Each workspace is listed with the user's role in it
+  for (const workspace of toMemberships(rows || [])) {
+    const expiring = await getExpiringEntries(supabase, userId, workspace, null, now)
+
+    expiring.forEach(({ entry, status, policy }) => {
+      const url = `${siteUrl}/entries/${entry.id}`
+      events.push({
+        uid: `expiration-${entry.id}@vaultboard`,
+        date: new Date(entry.expiration_date!),
+        summary: `${entry.title} expires`,
+        description: [
+          `${STATUS_LABELS[status]}: ${entry.title}`,
+          `Category: ${entry.category}`,
+          `Workspace: ${workspace.name}`,
+          ...(policy ? [`Policy: ${policy.name}`] : []),
+          url,
+        ].join('\n'),
+        url,
+        categories: [entry.category, workspace.name],
+        reminderDays: 1,
+      })
+    })
+  }
+
+  return buildCalendar('VaultBoard expirations', events, now)
+}
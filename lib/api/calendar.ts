@@ -0,0 +1,61 @@
+/**
+ * Calendar Feed API Functions
+ *
+ * Browser helpers for the current user's calendar feed of credential
+ * expirations. The feed URL carries a secret token: it is only shown when
+ * the token is created, and regenerating or revoking it cuts off every
+ * calendar subscribed with the old URL.
+ */
+
+export interface CalendarFeedStatus {
+  enabled: boolean
+  created_at: string | null
+  last_used_at: string | null
+}
+
+/**
+ * A newly created feed; `url` is not retrievable later
+ */
+export interface CalendarFeed extends CalendarFeedStatus {
+  url: string
+}
+
+/**
+ * Get whether the current user has a feed
+ */
+export async function getCalendarFeed(): Promise<CalendarFeedStatus> {
+  const response = await fetch('/api/calendar/token')
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load calendar feed')
+  }
+
+  return data.data
+}
+
+/**
+ * Create the feed, or replace its token
+ */
+export async function createCalendarFeed(): Promise<CalendarFeed> {
+  const response = await fetch('/api/calendar/token', { method: 'POST' })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to create calendar feed')
+  }
+
+  return data.data
+}
+
+/**
+ * Revoke the feed token
+ */
+export async function revokeCalendarFeed(): Promise<void> {
+  const response = await fetch('/api/calendar/token', { method: 'DELETE' })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to revoke calendar feed')
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { encryptEntryUpdate, parseKeyGrants } from './entries-server'
+import { conditionalDecrypt, encryptEntry } from '@/lib/utils/encryption'
+
+const ENTRY_ID = '33333333-3333-3333-3333-333333333333'
+
+/**
+ * A stored entry as the entries API saves it
+ */
+function storedEntry(content: string, isSensitive: boolean) {
+  const encrypted = encryptEntry(ENTRY_ID, { content, isSensitive })
+  return {
+    id: ENTRY_ID,
+    content: encrypted.content,
+    is_sensitive: isSensitive,
+    encrypted_data_key: encrypted.encrypted_data_key,
+    key_version: encrypted.key_version,
+  }
+}
+
+describe('encryptEntryUpdate', () => {
+  it('keeps a sensitive entry encrypted when the update leaves out is_sensitive', () => {
+    const existing = storedEntry('old-secret-value', true)
+
+    const update = encryptEntryUpdate(ENTRY_ID, existing, { content: 'new-secret-value' }, [])
+
+    expect(update.is_sensitive).toBe(true)
+    expect(update.content).not.toBe('new-secret-value')
+    expect(conditionalDecrypt(update.content!, true, { id: ENTRY_ID, ...update })).toBe('new-secret-value')
+  })
+
+  it('leaves the stored content alone when only the fields change', () => {
+    const existing = storedEntry('old-secret-value', true)
+
+    const update = encryptEntryUpdate(ENTRY_ID, existing, { fields: { notes: 'rotated monthly' } }, [])
+
+    expect(update.is_sensitive).toBe(true)
+    expect(update).not.toHaveProperty('content')
+    expect(update.encrypted_data_key).toBe(existing.encrypted_data_key)
+  })
+
+  it('encrypts the stored content when an entry becomes sensitive', () => {
+    const existing = storedEntry('plain-value', false)
+
+    const update = encryptEntryUpdate(ENTRY_ID, existing, { is_sensitive: true }, [])
+
+    expect(update.content).not.toBe('plain-value')
+    expect(conditionalDecrypt(update.content!, true, { id: ENTRY_ID, ...update })).toBe('plain-value')
+  })
+
+  it('decrypts the stored content when an entry stops being sensitive', () => {
+    const existing = storedEntry('old-secret-value', true)
+
+    const update = encryptEntryUpdate(ENTRY_ID, existing, { is_sensitive: false }, [])
+
+    expect(update).toMatchObject({ is_sensitive: false, content: 'old-secret-value' })
+  })
+
+  it('stores new content as plain text for entries that are not sensitive', () => {
+    const existing = storedEntry('plain-value', false)
+
+    const update = encryptEntryUpdate(ENTRY_ID, existing, { content: 'new plain value' }, [])
+
+    expect(update).toMatchObject({ is_sensitive: false, content: 'new plain value' })
+  })
+})
+
+describe('parseKeyGrants', () => {
+  const USER_ID = '11111111-1111-1111-1111-111111111111'
+
+  it('accepts grants with a user ID and a wrapped key', () => {
+    expect(parseKeyGrants([{ user_id: USER_ID, wrapped_key: 'wrapped', extra: true }]))
+      .toEqual({ value: [{ user_id: USER_ID, wrapped_key: 'wrapped' }] })
+  })
+
+  it.each([
+    ['not an array', { user_id: USER_ID, wrapped_key: 'wrapped' }],
+    ['a null grant', [null]],
+    ['a user_id that is not a UUID', [{ user_id: 'someone', wrapped_key: 'wrapped' }]],
+    ['a wrapped_key that is not a string', [{ user_id: USER_ID, wrapped_key: 42 }]],
+    ['an empty wrapped_key', [{ user_id: USER_ID, wrapped_key: '' }]],
+  ])('rejects %s', (_case, value) => {
+    expect(parseKeyGrants(value)).toHaveProperty('error')
+  })
+})
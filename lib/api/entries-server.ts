@@ -0,0 +1,146 @@
+/**
+ * Server-Side Entry Functions
+ *
+ * Shared handling of entries in list views (entry list and search),
+ * encryption of entry updates and the key grants of client-encrypted
+ * entries.
+ * Server only - decrypts with the server-side master key
+ */
+
+import {
+  conditionalDecrypt,
+  encryptEntry,
+  EntryFieldValues,
+  EntryKeyInfo,
+} from '@/lib/utils/encryption'
+
+/**
+ * The columns of an entry needed to mask its content
+ */
+export interface MaskableEntry extends EntryKeyInfo {
+  content: string
+  is_sensitive: boolean | null
+  is_client_encrypted?: boolean | null
+}
+
+/**
+ * Mask the content of an entry for list views
+ */
+export function maskEntryContent(entry: MaskableEntry): string {
+  // Client-encrypted content can only be read in the browser
+  if (entry.is_client_encrypted) {
+    return '****'
+  }
+  if (!entry.is_sensitive || !entry.content) {
+    return entry.content
+  }
+
+  // First decrypt if encrypted
+  let decryptedContent: string
+  try {
+    decryptedContent = conditionalDecrypt(entry.content, true, entry)
+  } catch (decryptError) {
+    // Never fall back to the stored ciphertext
+    console.error(`Failed to decrypt entry ${entry.id}:`, decryptError)
+    return '****'
+  }
+
+  // Then mask for display
+  if (decryptedContent.length <= 8) {
+    return '****'
+  }
+  const first4 = decryptedContent.substring(0, 4)
+  const last4 = decryptedContent.substring(decryptedContent.length - 4)
+  const masked = '*'.repeat(Math.min(decryptedContent.length - 8, 20))
+  return `${first4}${masked}${last4}`
+}
+
+/**
+ * Columns of an entry update after encryption
+ */
+export interface EncryptedEntryUpdate {
+  is_sensitive: boolean
+  content?: string
+  fields?: EntryFieldValues | null
+  encrypted_data_key: string | null
+  key_version: number | null
+}
+
+/**
+ * Encrypt the content and fields of an entry update
+ *
+ * A sensitivity the update leaves out is kept from the stored entry. When
+ * the sensitivity changes without new content, the stored content is
+ * re-encrypted (or decrypted) so it matches the flag.
+ *
+ * @param entryId - Entry being updated
+ * @param existing - Stored content, sensitivity and key material
+ * @param update - Content, fields and sensitivity sent with the update
+ * @param sensitiveFields - Field keys encrypted under the entry's category
+ * @throws DecryptionError if the stored content or data key cannot be decrypted
+ */
+export function encryptEntryUpdate(
+  entryId: string,
+  existing: EntryKeyInfo & { content: string; is_sensitive: boolean },
+  update: { content?: string; fields?: EntryFieldValues | null; is_sensitive?: boolean },
+  sensitiveFields: string[]
+): EncryptedEntryUpdate {
+  const isSensitive = update.is_sensitive ?? existing.is_sensitive
+  const content = update.content !== undefined
+    ? update.content
+    : isSensitive !== existing.is_sensitive
+      ? conditionalDecrypt(existing.content, existing.is_sensitive, existing)
+      : undefined
+
+  const encrypted = encryptEntry(
+    entryId,
+    { content: content || '', isSensitive, fields: update.fields || null, sensitiveFields },
+    existing
+  )
+
+  return {
+    is_sensitive: isSensitive,
+    ...(content !== undefined && { content: encrypted.content }),
+    ...(update.fields !== undefined && { fields: encrypted.fields }),
+    encrypted_data_key: encrypted.encrypted_data_key,
+    key_version: encrypted.key_version,
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * An entry key wrapped for one user, sent with client-encrypted entries
+ */
+export interface KeyGrant {
+  user_id: string
+  wrapped_key: string
+}
+
+/**
+ * Check the key grants of a request body
+ *
+ * @returns The grants, or an error message if any grant is malformed
+ */
+export function parseKeyGrants(value: unknown): { value: KeyGrant[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'key_grants must be an array' }
+  }
+
+  const grants: KeyGrant[] = []
+  for (const grant of value) {
+    if (typeof grant !== 'object' || grant === null) {
+      return { error: 'Each key grant must be an object with user_id and wrapped_key' }
+    }
+    const { user_id: userId, wrapped_key: wrappedKey } = grant as Record<string, unknown>
+    if (typeof userId !== 'string' || !UUID_PATTERN.test(userId)) {
+      return { error: 'Each key grant needs a user_id that is a user ID' }
+    }
+    if (typeof wrappedKey !== 'string' || !wrappedKey) {
+      return { error: 'Each key grant needs a non-empty wrapped_key' }
+    }
+    grants.push({ user_id: userId, wrapped_key: wrappedKey })
+  }
+
+  return { value: grants }
+}
@@ -5,6 +5,10 @@
  */
 
 import { createClient } from '@/lib/supabase/client'
+import { EntryFields, maskEntryFields } from '@/lib/utils/entry-fields'
+import { applyEntryQuery, parseEntryQuery } from '@/lib/utils/entry-query'
+import { EntrySortField, isEntrySortField } from '@/lib/utils/pagination'
+import { getActiveWorkspaceId } from './workspaces'
 
 /**
  * Entry category types
@@ -26,13 +30,18 @@ export type UserRole = 'admin' | 'manager' | 'member' | 'viewer'
  */
 export interface KnowledgeEntry {
   id: string
+  workspace_id: string
   user_id: string
   title: string
   content: string
+  fields: EntryFields | null
   category: EntryCategory
   classification: EntryClassification
   tags: string[]
   is_sensitive: boolean
+  encrypted_data_key: string | null
+  key_version: number | null
+  is_client_encrypted: boolean
   expiration_date: string | null
   file_url: string | null
   file_name: string | null
@@ -40,6 +49,8 @@ export interface KnowledgeEntry {
   updated_at: string
   last_accessed_at: string | null
   created_by: string | null
+  deleted_at: string | null
+  deleted_by: string | null
 }
 
 /**
@@ -60,12 +71,32 @@ export interface EntryFilters {
   category?: EntryCategory
   classification?: EntryClassification
   tags?: string[]
-  sortBy?: 'created_at' | 'updated_at' | 'last_accessed_at' | 'title'
+  sortBy?: EntrySortField
   sortOrder?: 'asc' | 'desc'
   page?: number
   limit?: number
 }
 
+/**
+ * Options for listing entries through the entries API
+ */
+export interface EntryListOptions extends Omit<EntryFilters, 'page'> {
+  search?: string
+  /** Continue after the entry this cursor points at (from the previous page) */
+  cursor?: string | null
+}
+
+/**
+ * A page of entries from the entries API
+ */
+export interface EntryPage {
+  data: KnowledgeEntry[]
+  /** Entries from the cursor on */
+  count: number
+  /** Cursor of the next page, or null on the last page */
+  nextCursor: string | null
+}
+
 /**
  * Mask sensitive content - show first 4 and last 4 characters
  */
@@ -79,6 +110,25 @@ export function maskSensitiveContent(content: string): string {
   return `${first4}${masked}${last4}`
 }
 
+/**
+ * Response returned when the user does not belong to any workspace
+ */
+const NO_WORKSPACE_RESPONSE: EntryResponse = {
+  success: false,
+  message: 'You are not a member of any workspace',
+  error: 'NO_WORKSPACE'
+}
+
+/**
+ * Get the active workspace of the signed-in user, which scopes every query below
+ */
+async function getWorkspaceScope(supabase: ReturnType<typeof createClient>): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  return getActiveWorkspaceId(supabase, user.id)
+}
+
 /**
  * Create a new knowledge entry
  */
@@ -115,10 +165,16 @@ export async function createEntry(
       }
     }
 
+    const workspaceId = await getActiveWorkspaceId(supabase, user.id)
+    if (!workspaceId) {
+      return NO_WORKSPACE_RESPONSE
+    }
+
     // Insert entry
     const { data, error } = await supabase
       .from('knowledge_entries')
       .insert({
+        workspace_id: workspaceId,
         user_id: user.id,
         title,
         content,
@@ -179,10 +235,17 @@ export async function getAllEntries(
       limit = 10
     } = filters
 
+    const workspaceId = await getWorkspaceScope(supabase)
+    if (!workspaceId) {
+      return NO_WORKSPACE_RESPONSE
+    }
+
     // Build query
     let query = supabase
       .from('knowledge_entries')
       .select('*', { count: 'exact' })
+      .eq('workspace_id', workspaceId)
+      .is('deleted_at', null)
 
     // Apply filters
     if (category) {
@@ -215,15 +278,11 @@ export async function getAllEntries(
     }
 
     // Mask sensitive content in list view
-    const maskedData = (data || []).map(entry => {
-      if (entry.is_sensitive) {
-        return {
-          ...entry,
-          content: maskSensitiveContent(entry.content)
-        }
-      }
-      return entry
-    })
+    const maskedData = (data || []).map(entry => ({
+      ...entry,
+      content: entry.is_sensitive ? maskSensitiveContent(entry.content) : entry.content,
+      fields: maskEntryFields(entry.category, entry.fields)
+    }))
 
     return {
       success: true,
@@ -241,6 +300,35 @@ export async function getAllEntries(
   }
 }
 
+/**
+ * List the entries of the active workspace through the entries API, which
+ * masks sensitive content and applies the user's access
+ */
+export async function listEntries(options: EntryListOptions = {}): Promise<EntryPage> {
+  const params = new URLSearchParams()
+  if (options.search) params.set('search', options.search)
+  if (options.category) params.set('category', options.category)
+  if (options.classification) params.set('classification', options.classification)
+  options.tags?.forEach(tag => params.append('tag', tag))
+  if (options.sortBy) params.set('sortBy', options.sortBy)
+  if (options.sortOrder) params.set('sortOrder', options.sortOrder)
+  if (options.limit) params.set('limit', String(options.limit))
+  if (options.cursor) params.set('cursor', options.cursor)
+
+  const response = await fetch(`/api/entries?${params}`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch entries')
+  }
+
+  return {
+    data: data.data || [],
+    count: data.count || 0,
+    nextCursor: data.nextCursor || null,
+  }
+}
+
 /**
  * Get a single entry by ID and track access
  */
@@ -248,11 +336,18 @@ export async function getEntryById(entryId: string): Promise<EntryResponse> {
   try {
     const supabase = createClient()
 
+    const workspaceId = await getWorkspaceScope(supabase)
+    if (!workspaceId) {
+      return NO_WORKSPACE_RESPONSE
+    }
+
     // Fetch entry
     const { data, error } = await supabase
       .from('knowledge_entries')
       .select('*')
       .eq('id', entryId)
+      .eq('workspace_id', workspaceId)
+      .is('deleted_at', null)
       .single()
 
     if (error) {
@@ -290,11 +385,16 @@ export async function getEntryById(entryId: string): Promise<EntryResponse> {
  */
 export async function updateEntry(
   entryId: string,
-  updates: Partial<Omit<KnowledgeEntry, 'id' | 'user_id' | 'created_at' | 'created_by'>>
+  updates: Partial<Omit<KnowledgeEntry, 'id' | 'workspace_id' | 'user_id' | 'created_at' | 'created_by'>>
 ): Promise<EntryResponse> {
   try {
     const supabase = createClient()
 
+    const workspaceId = await getWorkspaceScope(supabase)
+    if (!workspaceId) {
+      return NO_WORKSPACE_RESPONSE
+    }
+
     // Add updated_at timestamp
     const updateData = {
       ...updates,
@@ -305,6 +405,7 @@ export async function updateEntry(
       .from('knowledge_entries')
       .update(updateData)
       .eq('id', entryId)
+      .eq('workspace_id', workspaceId)
       .select()
       .single()
 
@@ -333,16 +434,27 @@ export async function updateEntry(
 }
 
 /**
- * Delete an entry
+ * Delete an entry (moves it to the trash until it is purged)
  */
 export async function deleteEntry(entryId: string): Promise<EntryResponse> {
   try {
     const supabase = createClient()
 
+    const { data: { user } } = await supabase.auth.getUser()
+
+    const workspaceId = user ? await getActiveWorkspaceId(supabase, user.id) : null
+    if (!workspaceId) {
+      return NO_WORKSPACE_RESPONSE
+    }
+
     const { error } = await supabase
       .from('knowledge_entries')
-      .delete()
+      .update({
+        deleted_at: new Date().toISOString(),
+        deleted_by: user?.id || null,
+      })
       .eq('id', entryId)
+      .eq('workspace_id', workspaceId)
 
     if (error) {
       console.error('Error deleting entry:', error)
@@ -355,7 +467,7 @@ export async function deleteEntry(entryId: string): Promise<EntryResponse> {
 
     return {
       success: true,
-      message: 'Entry deleted successfully'
+      message: 'Entry moved to trash'
     }
   } catch (error) {
     console.error('Delete entry error:', error)
@@ -368,7 +480,7 @@ export async function deleteEntry(entryId: string): Promise<EntryResponse> {
 }
 
 /**
- * Search entries with full-text search
+ * Search entries with the entry query language (see lib/utils/entry-query.ts)
  */
 export async function searchEntries(
   query: string,
@@ -386,15 +498,37 @@ export async function searchEntries(
       limit = 10
     } = filters
 
+    if (!isEntrySortField(sortBy) || (sortOrder !== 'asc' && sortOrder !== 'desc')) {
+      return {
+        success: false,
+        message: 'Invalid sort',
+        error: 'INVALID_SORT'
+      }
+    }
+
+    const parsed = parseEntryQuery(query)
+    if ('error' in parsed) {
+      return {
+        success: false,
+        message: parsed.error.message,
+        error: 'INVALID_QUERY'
+      }
+    }
+
+    const workspaceId = await getWorkspaceScope(supabase)
+    if (!workspaceId) {
+      return NO_WORKSPACE_RESPONSE
+    }
+
     // Build search query
     let searchQuery = supabase
       .from('knowledge_entries')
       .select('*', { count: 'exact' })
+      .eq('workspace_id', workspaceId)
+      .is('deleted_at', null)
 
-    // Full-text search on title and content
-    if (query) {
-      searchQuery = searchQuery.or(`title.ilike.%${query}%,content.ilike.%${query}%`)
-    }
+    // Each term of the query narrows the results
+    searchQuery = applyEntryQuery(searchQuery, parsed.query)
 
     // Apply filters
     if (category) {
@@ -405,7 +539,9 @@ export async function searchEntries(
     }
 
     // Apply sorting
-    searchQuery = searchQuery.order(sortBy, { ascending: sortOrder === 'asc' })
+    searchQuery = searchQuery
+      .order(sortBy, { ascending: sortOrder === 'asc', nullsFirst: false })
+      .order('id', { ascending: sortOrder === 'asc' })
 
     // Apply pagination
     const from = (page - 1) * limit
@@ -424,15 +560,11 @@ export async function searchEntries(
     }
 
     // Mask sensitive content in search results
-    const maskedData = (data || []).map(entry => {
-      if (entry.is_sensitive) {
-        return {
-          ...entry,
-          content: maskSensitiveContent(entry.content)
-        }
-      }
-      return entry
-    })
+    const maskedData = (data || []).map(entry => ({
+      ...entry,
+      content: entry.is_sensitive ? maskSensitiveContent(entry.content) : entry.content,
+      fields: maskEntryFields(entry.category, entry.fields)
+    }))
 
     return {
       success: true,
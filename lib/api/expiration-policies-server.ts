@@ -0,0 +1,128 @@
+/**
+ * Server-Side Expiration Policy Functions
+ *
+ * Loading and validating expiration policies, and applying them to
+ * entries as they are created and updated.
+ * Server only - uses the cookie-based server Supabase client
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { applyExpirationPolicy, PolicyTarget, resolveExpirationPolicy } from '@/lib/utils/expiration-policy'
+import type { ExpirationPolicy, ExpirationPolicyInput } from './expiration-policies'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+const CATEGORIES = ['credential', 'sop', 'link', 'document']
+
+const CLASSIFICATIONS = ['public', 'internal', 'confidential', 'restricted']
+
+/**
+ * Longest automatic expiry or window, in days
+ */
+const MAX_DAYS = 3650
+
+/**
+ * Get every policy, highest priority first
+ */
+export async function getExpirationPolicies(supabase: ServerClient): Promise<ExpirationPolicy[]> {
+  const { data, error } = await supabase
+    .from('expiration_policies')
+    .select('*')
+    .order('priority', { ascending: false })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error reading expiration policies:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Expiration date for an entry being saved, under the policy that
+ * governs it. Saving counts as updating the entry, so the policy's
+ * latest date is counted from now.
+ *
+ * @param supabase - Server Supabase client
+ * @param entry - The entry's category, classification and tags after the save
+ * @param requested - Expiration date asked for (or kept), null for none
+ */
+export async function resolveEntryExpiration(
+  supabase: ServerClient,
+  entry: PolicyTarget,
+  requested: string | null
+): Promise<string | null> {
+  const policy = resolveExpirationPolicy(await getExpirationPolicies(supabase), entry)
+  return applyExpirationPolicy(policy, requested, new Date())
+}
+
+function isDays(value: unknown, min: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= MAX_DAYS
+}
+
+/**
+ * Validate a policy from a request body
+ *
+ * @param body - Request body
+ * @param existing - Current policy when updating (missing keys are kept)
+ */
+export function parseExpirationPolicy(
+  body: Record<string, unknown>,
+  existing?: ExpirationPolicy
+): { policy: ExpirationPolicyInput } | { error: string } {
+  const value = <K extends keyof ExpirationPolicyInput>(key: K): unknown =>
+    body[key] !== undefined ? body[key] : existing?.[key]
+
+  const name = typeof value('name') === 'string' ? (value('name') as string).trim() : ''
+  if (!name || name.length > 100) {
+    return { error: 'name is required (at most 100 characters)' }
+  }
+
+  const category = value('category') || null
+  if (category !== null && !CATEGORIES.includes(category as string)) {
+    return { error: `category must be one of: ${CATEGORIES.join(', ')}` }
+  }
+
+  const classification = value('classification') || null
+  if (classification !== null && !CLASSIFICATIONS.includes(classification as string)) {
+    return { error: `classification must be one of: ${CLASSIFICATIONS.join(', ')}` }
+  }
+
+  const tag = typeof value('tag') === 'string' ? (value('tag') as string).trim() || null : null
+
+  const expireAfterDays = value('expire_after_days') ?? null
+  if (expireAfterDays !== null && !isDays(expireAfterDays, 1)) {
+    return { error: `expire_after_days must be a whole number from 1 to ${MAX_DAYS}` }
+  }
+
+  const criticalDays = value('critical_days') ?? 7
+  const warningDays = value('warning_days') ?? 14
+  const noticeDays = value('notice_days') ?? 30
+  if (!isDays(criticalDays, 0) || !isDays(warningDays, 0) || !isDays(noticeDays, 0)) {
+    return { error: `Windows must be whole numbers of days from 0 to ${MAX_DAYS}` }
+  }
+  if (criticalDays > warningDays || warningDays > noticeDays) {
+    return { error: 'Windows must satisfy critical_days ≤ warning_days ≤ notice_days' }
+  }
+
+  const priority = value('priority') ?? 0
+  if (!Number.isInteger(priority) || Math.abs(priority as number) > 1000) {
+    return { error: 'priority must be a whole number from -1000 to 1000' }
+  }
+
+  return {
+    policy: {
+      name,
+      category: category as ExpirationPolicyInput['category'],
+      classification: classification as ExpirationPolicyInput['classification'],
+      tag,
+      expire_after_days: expireAfterDays,
+      critical_days: criticalDays,
+      warning_days: warningDays,
+      notice_days: noticeDays,
+      priority: priority as number,
+      enabled: value('enabled') !== false,
+    },
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Expiration Policy API Functions
+ *
+ * Browser helpers for the admin-defined policies that set expiration
+ * dates automatically and decide when an entry counts as expiring
+ */
+
+import type { EntryCategory, EntryClassification } from './entries'
+
+/**
+ * How close an entry is to its expiration date, most urgent first:
+ * past it, then inside the policy's critical, warning and notice windows
+ */
+export type ExpiryStatus = 'expired' | 'critical' | 'warning' | 'notice'
+
+/**
+ * A policy applies to entries matching all of its criteria; a null
+ * criterion matches anything. When several match, the highest priority
+ * wins, then the most specific.
+ */
+export interface ExpirationPolicy {
+  id: string
+  name: string
+  category: EntryCategory | null
+  classification: EntryClassification | null
+  tag: string | null
+  /** Entries expire this many days after their content last changed (null: no automatic expiry) */
+  expire_after_days: number | null
+  critical_days: number
+  warning_days: number
+  notice_days: number
+  priority: number
+  enabled: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type ExpirationPolicyInput = Pick<
+  ExpirationPolicy,
+  'name' | 'category' | 'classification' | 'tag' | 'expire_after_days' | 'critical_days' | 'warning_days' | 'notice_days' | 'priority' | 'enabled'
+>
+
+/**
+ * List every policy, highest priority first (admins)
+ */
+export async function getExpirationPolicies(): Promise<ExpirationPolicy[]> {
+  const response = await fetch('/api/admin/expiration-policies')
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load expiration policies')
+  }
+
+  return data.data
+}
+
+/**
+ * Create a policy (admins)
+ */
+export async function createExpirationPolicy(policy: ExpirationPolicyInput): Promise<ExpirationPolicy> {
+  const response = await fetch('/api/admin/expiration-policies', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(policy),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to create expiration policy')
+  }
+
+  return data.data
+}
+
+/**
+ * Change a policy (admins)
+ */
+export async function updateExpirationPolicy(
+  policyId: string,
+  changes: Partial<ExpirationPolicyInput>
+): Promise<ExpirationPolicy> {
+  const response = await fetch(`/api/admin/expiration-policies/${policyId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to update expiration policy')
+  }
+
+  return data.data
+}
+
+/**
+ * Delete a policy (admins). Expiration dates it already set are kept.
+ */
+export async function deleteExpirationPolicy(policyId: string): Promise<void> {
+  const response = await fetch(`/api/admin/expiration-policies/${policyId}`, {
+    method: 'DELETE',
+  })
+
+  if (!response.ok) {
+    const data = await response.json()
+    throw new Error(data.error || 'Failed to delete expiration policy')
+  }
+}
+
+/**
+ * Apply automatic expiry to existing entries, counting from their last
+ * update (admins)
+ *
+ * @returns Number of entries whose expiration date was brought forward
+ */
+export async function applyExpirationPolicies(): Promise<number> {
+  const response = await fetch('/api/admin/expiration-policies/apply', {
+    method: 'POST',
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to apply expiration policies')
+  }
+
+  return data.updated
+}
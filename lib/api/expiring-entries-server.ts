@@ -0,0 +1,93 @@
+/**
+ * Server-Side Expiring Entries Query
+ *
+ * The entries of a workspace a user may view that are expired or inside
+ * their policy's notice window, classified by urgency. Shared by the
+ * expiring entries API and the calendar feed so both list the same
+ * entries.
+ * Server only - uses the cookie-based server Supabase client
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { applyEntryAccessFilter, getSharedEntryIds } from './access-control'
+import { getExpirationPolicies } from './expiration-policies-server'
+import type { ExpiryStatus } from './expiration-policies'
+import type { KnowledgeEntry, UserRole } from './entries'
+import {
+  ExpiryWindows,
+  getDaysUntilExpiration,
+  getExpiryStatus,
+  getExpiryWindows,
+  getLookaheadDays,
+  resolveExpirationPolicy,
+} from '@/lib/utils/expiration-policy'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * An entry with its urgency under the policy that governs it
+ */
+export interface ClassifiedExpiringEntry {
+  entry: KnowledgeEntry
+  daysUntilExpiration: number
+  status: ExpiryStatus
+  windows: ExpiryWindows
+  policy: { id: string; name: string } | null
+}
+
+/**
+ * Get the expired and expiring entries of a workspace the user may view,
+ * soonest first
+ *
+ * @param supabase - Server Supabase client
+ * @param userId - User the entries are listed for
+ * @param workspace - Workspace and the user's role in it
+ * @param daysOverride - Notice window for every entry (default: each policy's own)
+ * @param now - Time the days are counted from
+ */
+export async function getExpiringEntries(
+  supabase: ServerClient,
+  userId: string,
+  workspace: { id: string; role: UserRole },
+  daysOverride: number | null = null,
+  now = new Date()
+): Promise<ClassifiedExpiringEntry[]> {
+  const policies = await getExpirationPolicies(supabase)
+
+  const futureDate = new Date(now)
+  futureDate.setDate(futureDate.getDate() + Math.max(daysOverride ?? 0, getLookaheadDays(policies, 'notice_days')))
+
+  // Query entries with expiration dates the user can view
+  const { data: entries, error } = await applyEntryAccessFilter(
+    supabase
+      .from('knowledge_entries')
+      .select('*')
+      .eq('workspace_id', workspace.id)
+      .not('expiration_date', 'is', null)
+      .is('deleted_at', null)
+      .lte('expiration_date', futureDate.toISOString()),
+    userId,
+    workspace.role,
+    await getSharedEntryIds(userId, workspace.role, supabase)
+  ).order('expiration_date', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch expiring entries: ${error.message}`)
+  }
+
+  // Categorize by status under each entry's policy
+  return (entries as KnowledgeEntry[]).flatMap(entry => {
+    const policy = resolveExpirationPolicy(policies, entry)
+    const windows = getExpiryWindows(policy)
+    if (daysOverride !== null) {
+      windows.notice_days = Math.max(daysOverride, windows.warning_days)
+    }
+
+    const daysUntilExpiration = getDaysUntilExpiration(entry.expiration_date!, now)
+    const status = getExpiryStatus(daysUntilExpiration, windows)
+
+    return status
+      ? [{ entry, daysUntilExpiration, status, windows, policy: policy && { id: policy.id, name: policy.name } }]
+      : []
+  })
+}
@@ -0,0 +1,140 @@
+/**
+ * Server-Side Invitation Functions
+ *
+ * Invitations carry a single-use signup token. Only the SHA-256 hash of the
+ * token is stored; the token itself is shown once, in the invite link.
+ * These functions should only be called from API Routes.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { createClient } from '@/lib/supabase/server'
+import type { UserRole } from './auth-server'
+import type { Invitation, InvitationStatus } from './invitations'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Days an invitation stays valid when INVITATION_EXPIRY_DAYS is unset
+ */
+export const DEFAULT_INVITATION_EXPIRY_DAYS = 7
+
+/**
+ * Roles each inviter role may hand out
+ */
+const INVITABLE_ROLES: Partial<Record<UserRole, UserRole[]>> = {
+  admin: ['admin', 'manager', 'member', 'viewer'],
+  manager: ['member', 'viewer'],
+}
+
+/**
+ * Get the configured invitation lifetime in days
+ */
+export function getInvitationExpiryDays(): number {
+  const days = parseInt(process.env.INVITATION_EXPIRY_DAYS || '', 10)
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_INVITATION_EXPIRY_DAYS
+}
+
+/**
+ * Get the expiry date of an invitation issued now
+ */
+export function getInvitationExpiry(): Date {
+  const expiresAt = new Date()
+  expiresAt.setDate(expiresAt.getDate() + getInvitationExpiryDays())
+  return expiresAt
+}
+
+/**
+ * Hash an invitation token for storage and lookup
+ */
+export function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Generate a new invitation token and its hash
+ */
+export function generateInviteToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url')
+  return { token, tokenHash: hashInviteToken(token) }
+}
+
+/**
+ * Build the signup link for an invitation token
+ */
+export function getInviteUrl(token: string): string {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+  return `${siteUrl}/auth/signup?invite=${encodeURIComponent(token)}`
+}
+
+/**
+ * Get the roles a user with the given role may invite
+ */
+export function getInvitableRoles(inviterRole: UserRole | null): UserRole[] {
+  return (inviterRole && INVITABLE_ROLES[inviterRole]) || []
+}
+
+/**
+ * Check whether a user with the given role may invite someone with the target role
+ */
+export function canInviteRole(inviterRole: UserRole | null, targetRole: UserRole): boolean {
+  if (!inviterRole) return false
+  return INVITABLE_ROLES[inviterRole]?.includes(targetRole) ?? false
+}
+
+/**
+ * Columns returned for invitation lists (never the token hash)
+ */
+export const INVITATION_COLUMNS =
+  'id, email, role, workspace_id, invited_by, expires_at, accepted_at, revoked_at, created_at, workspaces(name)'
+
+/**
+ * An invitation row selected with INVITATION_COLUMNS
+ */
+export interface InvitationRow extends Omit<Invitation, 'workspace_name' | 'status'> {
+  // An object at runtime; typed as an array by the untyped client
+  workspaces: { name: string } | { name: string }[] | null
+}
+
+/**
+ * Map an invitation row selected with INVITATION_COLUMNS to its API shape
+ */
+export function toInvitation(row: InvitationRow): Invitation {
+  const { workspaces, ...invitation } = row
+  const workspace = Array.isArray(workspaces) ? workspaces[0] : workspaces
+
+  let status: InvitationStatus = 'pending'
+  if (row.accepted_at) status = 'accepted'
+  else if (row.revoked_at) status = 'revoked'
+  else if (new Date(row.expires_at) <= new Date()) status = 'expired'
+
+  return {
+    ...invitation,
+    workspace_name: workspace?.name || '',
+    status,
+  }
+}
+
+/**
+ * Check whether signup requires an invitation
+ */
+export async function isInviteOnly(supabase: ServerClient): Promise<boolean> {
+  const { data, error } = await supabase.rpc('is_invite_only')
+
+  if (error) {
+    console.error('Error reading invite-only setting:', error)
+    return false
+  }
+
+  return data === true
+}
+
+/**
+ * Check whether a user can resend or revoke an invitation (admins, or the inviter)
+ */
+export function canManageInvitation(
+  invitation: { invited_by: string },
+  userId: string,
+  userRole: UserRole | null
+): boolean {
+  return userRole === 'admin' || (userRole === 'manager' && invitation.invited_by === userId)
+}
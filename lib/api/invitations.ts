@@ -0,0 +1,144 @@
+/**
+ * Invitation API Functions
+ *
+ * Browser helpers for issuing and managing signup invitations, and for
+ * reading an invitation on the signup page
+ */
+
+import type { UserRole } from './auth'
+
+/**
+ * Invitation state, derived from its timestamps
+ */
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked'
+
+/**
+ * An invitation as listed for admins and managers (the token is never returned)
+ */
+export interface Invitation {
+  id: string
+  email: string
+  role: UserRole
+  workspace_id: string
+  workspace_name: string
+  invited_by: string
+  status: InvitationStatus
+  expires_at: string
+  accepted_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+/**
+ * An invitation as shown on the signup page
+ */
+export interface InvitationDetails {
+  email: string
+  role: UserRole
+  workspace_name: string
+  expires_at: string
+}
+
+/**
+ * List invitations and whether signup is invite-only
+ */
+export async function getInvitations(): Promise<{ invitations: Invitation[]; inviteOnly: boolean }> {
+  const response = await fetch('/api/invitations')
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load invitations')
+  }
+
+  return { invitations: data.data, inviteOnly: data.inviteOnly }
+}
+
+/**
+ * Issue an invitation
+ *
+ * @returns The invitation and its signup link (shown only once)
+ */
+export async function createInvitation(
+  email: string,
+  role: UserRole,
+  workspaceId: string
+): Promise<{ invitation: Invitation; inviteUrl: string }> {
+  const response = await fetch('/api/invitations', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, role, workspace_id: workspaceId }),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to create invitation')
+  }
+
+  return { invitation: data.data, inviteUrl: data.inviteUrl }
+}
+
+/**
+ * Issue a new token for an invitation and restart its expiry; the old link stops working
+ */
+export async function resendInvitation(invitationId: string): Promise<{ invitation: Invitation; inviteUrl: string }> {
+  const response = await fetch(`/api/invitations/${invitationId}/resend`, {
+    method: 'POST',
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to resend invitation')
+  }
+
+  return { invitation: data.data, inviteUrl: data.inviteUrl }
+}
+
+/**
+ * Revoke an invitation
+ */
+export async function revokeInvitation(invitationId: string): Promise<void> {
+  const response = await fetch(`/api/invitations/${invitationId}`, {
+    method: 'DELETE',
+  })
+
+  if (!response.ok) {
+    const data = await response.json()
+    throw new Error(data.error || 'Failed to revoke invitation')
+  }
+}
+
+/**
+ * Turn invite-only signup on or off (admins only)
+ */
+export async function setInviteOnly(inviteOnly: boolean): Promise<void> {
+  const response = await fetch('/api/invitations/settings', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ inviteOnly }),
+  })
+
+  if (!response.ok) {
+    const data = await response.json()
+    throw new Error(data.error || 'Failed to update signup setting')
+  }
+}
+
+/**
+ * Read the signup options for the signup page (no session required)
+ *
+ * @param token - Invitation token from the signup link, if any
+ * @returns Whether signup is invite-only, and the invitation if the token is valid
+ */
+export async function lookupInvitation(
+  token: string | null
+): Promise<{ inviteOnly: boolean; invitation: InvitationDetails | null }> {
+  const query = token ? `?token=${encodeURIComponent(token)}` : ''
+  const response = await fetch(`/api/invitations/lookup${query}`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load invitation')
+  }
+
+  return { inviteOnly: data.inviteOnly, invitation: data.invitation }
+}
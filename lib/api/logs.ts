@@ -1,7 +1,8 @@
 /**
  * Access Logging API Functions
  * 
- * Handles logging and retrieving access logs for audit trail
+ * Retrieves access logs for the audit trail. Records are written on the
+ * server only, by logEntryAccess in access-log-server.ts.
  */
 
 import { createClient } from '@/lib/supabase/client'
@@ -9,7 +10,21 @@ import { createClient } from '@/lib/supabase/client'
 /**
  * Access log action types
  */
-export type AccessAction = 'view' | 'create' | 'update' | 'delete' | 'export'
+export type AccessAction = 'view' | 'create' | 'update' | 'delete' | 'export' | 'totp' | 'restore' | 'purge' | 'break_glass'
+  | 'approval_requested' | 'approval_granted' | 'approval_denied' | 'reveal'
+
+/**
+ * Whether the logged access was allowed or refused
+ */
+export type AccessOutcome = 'allowed' | 'denied'
+
+/**
+ * Every access log action, in display order
+ */
+export const ACCESS_ACTIONS: AccessAction[] = [
+  'view', 'create', 'update', 'delete', 'export', 'reveal', 'totp', 'restore', 'purge', 'break_glass',
+  'approval_requested', 'approval_granted', 'approval_denied',
+]
 
 /**
  * Access log interface
@@ -22,6 +37,13 @@ export interface AccessLog {
   accessed_at: string
   ip_address: string | null
   user_agent: string | null
+  break_glass_grant_id: string | null
+  request_id: string | null
+  outcome: AccessOutcome | null
+  seq: number | null
+  prev_hash: string | null
+  entry_prev_hash: string | null
+  record_hash: string | null
 }
 
 /**
@@ -36,45 +58,6 @@ export interface AccessStats {
   unique_users: number
 }
 
-/**
- * Log an access event
- * 
- * @param entryId - Entry being accessed
- * @param userId - User performing the action
- * @param action - Type of action performed
- * @param ipAddress - Client IP address (optional)
- * @param userAgent - Client user agent (optional)
- */
-export async function logAccess(
-  entryId: string,
-  userId: string,
-  action: AccessAction = 'view',
-  ipAddress?: string,
-  userAgent?: string
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const supabase = createClient()
-
-    const { error } = await supabase.from('access_logs').insert({
-      entry_id: entryId,
-      accessed_by: userId,
-      action,
-      ip_address: ipAddress || null,
-      user_agent: userAgent || null,
-    })
-
-    if (error) {
-      console.error('Error logging access:', error)
-      return { success: false, error: error.message }
-    }
-
-    return { success: true }
-  } catch (error) {
-    console.error('Error in logAccess:', error)
-    return { success: false, error: 'Failed to log access' }
-  }
-}
-
 /**
  * Get all access logs for a specific entry
  * 
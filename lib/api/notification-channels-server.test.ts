@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({ lookup: vi.fn() }))
+
+vi.mock('dns/promises', () => ({ lookup: mocks.lookup }))
+
+import { isNonPublicAddress, validateWebhookUrl } from './notification-channels-server'
+
+describe('isNonPublicAddress', () => {
+  it.each([
+    '10.1.2.3', '127.0.0.1', '169.254.169.254', '172.20.0.1', '192.168.1.1', '100.64.0.1', '0.0.0.0',
+    '224.0.0.1', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:10.0.0.1',
+  ])('rejects %s', address => {
+    expect(isNonPublicAddress(address)).toBe(true)
+  })
+
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8'])('allows %s', address => {
+    expect(isNonPublicAddress(address)).toBe(false)
+  })
+})
+
+describe('validateWebhookUrl', () => {
+  beforeEach(() => {
+    mocks.lookup.mockReset()
+  })
+
+  it('accepts a host that resolves to public addresses', async () => {
+    mocks.lookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }])
+
+    expect(await validateWebhookUrl('https://hooks.example.com/notify')).toBeNull()
+    expect(mocks.lookup).toHaveBeenCalledWith('hooks.example.com', { all: true, verbatim: true })
+  })
+
+  it('rejects a host name that resolves to a private address', async () => {
+    mocks.lookup.mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '169.254.169.254', family: 4 },
+    ])
+
+    expect(await validateWebhookUrl('https://metadata.example.com/')).toBe('Webhook URL must point to a public host name')
+  })
+
+  it('rejects a host name that does not resolve', async () => {
+    mocks.lookup.mockRejectedValue(new Error('ENOTFOUND'))
+
+    expect(await validateWebhookUrl('https://missing.example.com/')).toBe('Webhook host name could not be resolved')
+  })
+
+  it('rejects IP literals and plain http without resolving them', async () => {
+    expect(await validateWebhookUrl('https://127.0.0.1/hook')).toBe('Webhook URL must point to a public host name')
+    expect(await validateWebhookUrl('http://hooks.example.com/')).toBe('Webhook URL must use https')
+    expect(mocks.lookup).not.toHaveBeenCalled()
+  })
+})
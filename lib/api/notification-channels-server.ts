@@ -0,0 +1,240 @@
+/**
+ * Notification Channels
+ *
+ * Delivery of a rendered notification over SMTP email, a generic JSON
+ * webhook or a Slack-compatible incoming webhook. Outside production (or
+ * with NOTIFICATION_TRANSPORT=console|file) every delivery goes to the
+ * console or a local file instead, tagged with the channel it was for.
+ * Server only - uses Node's net, tls and fs modules
+ */
+
+import { createHmac } from 'crypto'
+import { lookup } from 'dns/promises'
+import { appendFile } from 'fs/promises'
+import { BlockList, isIP } from 'net'
+import { sendMail } from '@/lib/utils/smtp'
+import type { NotificationChannelType } from './notifications'
+
+const WEBHOOK_TIMEOUT_MS = 10000
+
+/**
+ * A notification ready to deliver
+ */
+export interface Notification {
+  subject: string
+  text: string
+  /** Structured content, sent as-is to webhooks */
+  payload: Record<string, unknown>
+}
+
+/**
+ * Delivers notifications to one kind of destination (an email address
+ * or a webhook URL)
+ */
+export interface NotificationChannel {
+  type: NotificationChannelType
+  send(notification: Notification, destination: string): Promise<void>
+}
+
+/**
+ * Thrown when a channel is not configured or a delivery fails
+ */
+export class NotificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NotificationError'
+  }
+}
+
+/**
+ * Addresses webhooks may not reach: private, loopback, link-local,
+ * shared, multicast and reserved ranges
+ */
+const NON_PUBLIC_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * Check whether an IP address is outside the public internet
+ */
+export function isNonPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)
+  if (mapped) return isNonPublicAddress(mapped[1])
+
+  const family = isIP(address)
+  if (family === 0) return true
+  return NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Where notifications go: `live` channels, or the `console` or a `file`
+ * for development. Defaults to live in production and console elsewhere.
+ */
+function getTransport(): 'live' | 'console' | 'file' {
+  const transport = process.env.NOTIFICATION_TRANSPORT
+  if (transport === 'live' || transport === 'console' || transport === 'file') {
+    return transport
+  }
+  return process.env.NODE_ENV === 'production' ? 'live' : 'console'
+}
+
+/**
+ * Check a user-supplied webhook URL: HTTPS to a public host name only,
+ * so digests cannot be pointed at the app's own network. The host name
+ * must resolve, and only to public addresses.
+ *
+ * @returns An error message, or null if the URL is acceptable
+ */
+export async function validateWebhookUrl(value: string): Promise<string | null> {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return 'Webhook URL is not a valid URL'
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+
+  if (url.protocol !== 'https:') {
+    return 'Webhook URL must use https'
+  }
+  if (url.username || url.password) {
+    return 'Webhook URL cannot contain credentials'
+  }
+  if (isIP(host) || host === 'localhost' || !host.includes('.') || /\.(local|localhost|internal)$/.test(host)) {
+    return 'Webhook URL must point to a public host name'
+  }
+
+  let addresses: { address: string }[]
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true })
+  } catch {
+    return 'Webhook host name could not be resolved'
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isNonPublicAddress(address))) {
+    return 'Webhook URL must point to a public host name'
+  }
+
+  return null
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  // Checked again on every delivery, as DNS records can change after saving
+  const invalid = await validateWebhookUrl(url)
+  if (invalid) {
+    throw new NotificationError(invalid)
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'User-Agent': 'VaultBoard-Notifications', ...headers },
+    body,
+    redirect: 'error',
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  })
+
+  if (!response.ok) {
+    throw new NotificationError(`Webhook responded with ${response.status}`)
+  }
+}
+
+/**
+ * Email over SMTP (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER,
+ * SMTP_PASSWORD, SMTP_FROM)
+ */
+const emailChannel: NotificationChannel = {
+  type: 'email',
+  async send(notification, destination) {
+    const host = process.env.SMTP_HOST
+    const from = process.env.SMTP_FROM
+    if (!host || !from) {
+      throw new NotificationError('Email is not configured (SMTP_HOST and SMTP_FROM are required)')
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || '587')
+
+    await sendMail(
+      {
+        host,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+      },
+      { from, to: destination, subject: notification.subject, text: notification.text }
+    )
+  },
+}
+
+/**
+ * JSON webhook. With NOTIFICATION_WEBHOOK_SECRET set, the body is signed
+ * (HMAC-SHA256, hex) in the X-VaultBoard-Signature header.
+ */
+const webhookChannel: NotificationChannel = {
+  type: 'webhook',
+  async send(notification, destination) {
+    const body = JSON.stringify(notification.payload)
+    const secret = process.env.NOTIFICATION_WEBHOOK_SECRET
+
+    await postJson(
+      destination,
+      body,
+      secret ? { 'X-VaultBoard-Signature': `sha256=${createHmac('sha256', secret).update(body).digest('hex')}` } : {}
+    )
+  },
+}
+
+/**
+ * Slack (or Mattermost, Rocket.Chat...) incoming webhook
+ */
+const slackChannel: NotificationChannel = {
+  type: 'slack',
+  async send(notification, destination) {
+    await postJson(destination, JSON.stringify({ text: `*${notification.subject}*\n${notification.text}` }))
+  },
+}
+
+/**
+ * Development sink: writes what would have been sent
+ */
+function createLogChannel(type: NotificationChannelType, transport: 'console' | 'file'): NotificationChannel {
+  return {
+    type,
+    async send(notification, destination) {
+      if (transport === 'console') {
+        console.log(`[notification:${type}] to ${destination}: ${notification.subject}\n${notification.text}`)
+        return
+      }
+
+      await appendFile(
+        process.env.NOTIFICATION_LOG_FILE || 'notifications.log',
+        JSON.stringify({ channel: type, to: destination, sent_at: new Date().toISOString(), ...notification }) + '\n'
+      )
+    },
+  }
+}
+
+const LIVE_CHANNELS: Record<NotificationChannelType, NotificationChannel> = {
+  email: emailChannel,
+  webhook: webhookChannel,
+  slack: slackChannel,
+}
+
+/**
+ * The channel that delivers a type of notification under the current
+ * transport
+ */
+export function getNotificationChannel(type: NotificationChannelType): NotificationChannel {
+  const transport = getTransport()
+  return transport === 'live' ? LIVE_CHANNELS[type] : createLogChannel(type, transport)
+}
@@ -0,0 +1,325 @@
+/**
+ * Server-Side Notifications
+ *
+ * Expiration digests: each entry owner hears about their own expiring
+ * entries and admins about all of them, on the channels each user has
+ * chosen. An entry is only repeated to a user when its urgency bucket
+ * (or its expiration date) changes. Break-glass grants are emailed to
+ * every active admin as they happen.
+ * Server only - uses the cookie-based server Supabase client
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { getNotificationChannel, Notification } from './notification-channels-server'
+import type { ExpiryBucket, NotificationChannelType, NotificationPreferences } from './notifications'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: ['email'],
+  webhook_url: null,
+  slack_webhook_url: null,
+}
+
+const BUCKET_HEADINGS: Record<ExpiryBucket, string> = {
+  expired: 'Expired',
+  critical: 'Expiring soon',
+  warning: 'Expiring',
+}
+
+const BUCKET_ORDER: ExpiryBucket[] = ['expired', 'critical', 'warning']
+
+/**
+ * An entry with an upcoming or past expiration date
+ */
+export interface ExpiringEntry {
+  id: string
+  title: string
+  category: string
+  expiration_date: string
+  user_id: string
+  daysUntilExpiration: number
+  bucket: ExpiryBucket
+}
+
+export interface DigestSummary {
+  recipients: number
+  delivered: number
+  failed: number
+  upToDate: number
+}
+
+interface Recipient {
+  userId: string
+  email: string | null
+  scope: 'owner' | 'admin'
+  preferences: NotificationPreferences
+}
+
+/**
+ * A user's preferences, or the defaults if they have not saved any
+ */
+export async function getUserNotificationPreferences(
+  supabase: ServerClient,
+  userId: string
+): Promise<NotificationPreferences> {
+  const { data } = await supabase
+    .from('notification_preferences')
+    .select('channels, webhook_url, slack_webhook_url')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return data || DEFAULT_NOTIFICATION_PREFERENCES
+}
+
+/**
+ * Where a channel delivers to for a recipient, if anywhere
+ */
+function destinationFor(channel: NotificationChannelType, recipient: Recipient): string | null {
+  switch (channel) {
+    case 'email':
+      return recipient.email
+    case 'webhook':
+      return recipient.preferences.webhook_url
+    case 'slack':
+      return recipient.preferences.slack_webhook_url
+  }
+}
+
+function describeExpiry(entry: ExpiringEntry): string {
+  const days = Math.abs(entry.daysUntilExpiration)
+  if (entry.daysUntilExpiration < 0) return `expired ${days} ${days === 1 ? 'day' : 'days'} ago`
+  if (entry.daysUntilExpiration === 0) return 'expires today'
+  return `expires in ${days} ${days === 1 ? 'day' : 'days'}`
+}
+
+/**
+ * Render one recipient's digest
+ */
+function renderDigest(
+  recipient: Recipient,
+  entries: ExpiringEntry[],
+  ownerEmails: Map<string, string>,
+  now: Date
+): Notification {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+  const count = entries.length
+
+  const sections = BUCKET_ORDER
+    .map(bucket => ({ bucket, items: entries.filter(entry => entry.bucket === bucket) }))
+    .filter(section => section.items.length > 0)
+    .map(({ bucket, items }) => [
+      `${BUCKET_HEADINGS[bucket]} (${items.length})`,
+      ...items.map(entry =>
+        `- ${entry.title} (${entry.category}), ${describeExpiry(entry)}` +
+        (recipient.scope === 'admin' ? `, owner ${ownerEmails.get(entry.user_id) || entry.user_id}` : '') +
+        `\n  ${siteUrl}/entries/${entry.id}`
+      ),
+    ].join('\n'))
+
+  return {
+    subject: recipient.scope === 'admin'
+      ? `VaultBoard: ${count} ${count === 1 ? 'credential needs' : 'credentials need'} attention across the vault`
+      : `VaultBoard: ${count} of your ${count === 1 ? 'credentials needs' : 'credentials need'} attention`,
+    text: [...sections, 'Renew or rotate these credentials and update their expiration dates.'].join('\n\n'),
+    payload: {
+      event: 'expiration_digest',
+      generated_at: now.toISOString(),
+      scope: recipient.scope,
+      recipient: { user_id: recipient.userId, email: recipient.email },
+      entries: entries.map(entry => ({
+        id: entry.id,
+        title: entry.title,
+        category: entry.category,
+        expiration_date: entry.expiration_date,
+        days_until_expiration: entry.daysUntilExpiration,
+        bucket: entry.bucket,
+        owner_id: entry.user_id,
+        url: `${siteUrl}/entries/${entry.id}`,
+      })),
+    },
+  }
+}
+
+/**
+ * Send expiration digests to entry owners and active admins
+ *
+ * Entries a user was already told about in the same bucket (and with
+ * the same expiration date) are left out; users with nothing new get no
+ * digest. Entries are only marked as notified once at least one channel
+ * delivered the digest, so failed deliveries are retried on the next run.
+ *
+ * @param supabase - Service-role Supabase client (reads all users and preferences)
+ * @param entries - Expiring entries with their buckets
+ * @param now - Time of the run
+ */
+export async function sendExpirationDigests(
+  supabase: ServerClient,
+  entries: ExpiringEntry[],
+  now = new Date()
+): Promise<DigestSummary> {
+  const summary: DigestSummary = { recipients: 0, delivered: 0, failed: 0, upToDate: 0 }
+  if (entries.length === 0) return summary
+
+  const ownerIds = [...new Set(entries.map(entry => entry.user_id))]
+
+  const { data: admins, error: adminError } = await supabase
+    .from('user_roles')
+    .select('user_id')
+    .eq('role', 'admin')
+    .eq('status', 'active')
+
+  if (adminError) {
+    throw new Error(`Failed to fetch admins: ${adminError.message}`)
+  }
+
+  const adminIds = new Set((admins || []).map(admin => admin.user_id))
+  const userIds = [...new Set([...ownerIds, ...adminIds])]
+
+  const [{ data: users }, { data: preferences }, { data: sent }] = await Promise.all([
+    supabase.from('user_roles').select('user_id, email').in('user_id', userIds),
+    supabase.from('notification_preferences').select('user_id, channels, webhook_url, slack_webhook_url').in('user_id', userIds),
+    supabase
+      .from('expiration_notifications')
+      .select('user_id, entry_id, bucket, expiration_date')
+      .in('user_id', userIds)
+      .in('entry_id', entries.map(entry => entry.id)),
+  ])
+
+  const emails = new Map((users || []).map(u => [u.user_id, u.email as string]))
+
+  // Admins get the full digest, which covers their own entries too
+  const recipients: Recipient[] = userIds.map(userId => ({
+    userId,
+    email: emails.get(userId) || null,
+    scope: adminIds.has(userId) ? 'admin' : 'owner',
+    preferences: preferences?.find(p => p.user_id === userId) || DEFAULT_NOTIFICATION_PREFERENCES,
+  }))
+
+  for (const recipient of recipients) {
+    const relevant = recipient.scope === 'admin'
+      ? entries
+      : entries.filter(entry => entry.user_id === recipient.userId)
+
+    const fresh = relevant.filter(entry => {
+      const previous = sent?.find(s => s.user_id === recipient.userId && s.entry_id === entry.id)
+      return !previous ||
+        previous.bucket !== entry.bucket ||
+        new Date(previous.expiration_date).getTime() !== new Date(entry.expiration_date).getTime()
+    })
+
+    if (fresh.length === 0) {
+      summary.upToDate++
+      continue
+    }
+
+    const channels = recipient.preferences.channels
+      .map(channel => ({ channel, destination: destinationFor(channel, recipient) }))
+      .filter((target): target is { channel: NotificationChannelType; destination: string } => !!target.destination)
+    if (channels.length === 0) continue
+
+    summary.recipients++
+    const notification = renderDigest(recipient, fresh, emails, now)
+    let delivered = false
+
+    for (const { channel, destination } of channels) {
+      try {
+        await getNotificationChannel(channel).send(notification, destination)
+        delivered = true
+        summary.delivered++
+      } catch (error) {
+        summary.failed++
+        console.error(`Failed to send expiration digest to user ${recipient.userId} via ${channel}:`, error)
+      }
+    }
+
+    if (!delivered) continue
+
+    const { error } = await supabase.from('expiration_notifications').upsert(
+      fresh.map(entry => ({
+        user_id: recipient.userId,
+        entry_id: entry.id,
+        bucket: entry.bucket,
+        expiration_date: entry.expiration_date,
+        notified_at: now.toISOString(),
+      })),
+      { onConflict: 'user_id,entry_id' }
+    )
+
+    if (error) {
+      console.error(`Failed to record expiration digest for user ${recipient.userId}:`, error)
+    }
+  }
+
+  return summary
+}
+
+/**
+ * A break-glass grant to tell admins about
+ */
+export interface BreakGlassNotice {
+  grantId: string
+  entryId: string
+  entryTitle: string
+  userId: string
+  userEmail: string | null
+  justification: string
+  expiresAt: string
+}
+
+/**
+ * Email every active admin about a break-glass grant
+ *
+ * Failed deliveries are logged; the grant stays in the admin review
+ * queue either way.
+ *
+ * @param supabase - Server Supabase client
+ * @param notice - The grant
+ * @returns Number of admins the notice was delivered to
+ */
+export async function notifyAdminsOfBreakGlass(
+  supabase: ServerClient,
+  notice: BreakGlassNotice
+): Promise<number> {
+  const { data: admins, error } = await supabase
+    .from('user_roles')
+    .select('user_id, email')
+    .eq('role', 'admin')
+    .eq('status', 'active')
+
+  if (error) {
+    throw new Error(`Failed to fetch admins: ${error.message}`)
+  }
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+  const requester = notice.userEmail || notice.userId
+  const notification: Notification = {
+    subject: `VaultBoard: break-glass access to "${notice.entryTitle}"`,
+    text: [
+      `${requester} used break-glass access on "${notice.entryTitle}" until ${notice.expiresAt}.`,
+      `Justification: ${notice.justification}`,
+      `Review the grant: ${siteUrl}/admin/break-glass`,
+    ].join('\n\n'),
+    payload: {
+      event: 'break_glass',
+      grant_id: notice.grantId,
+      entry: { id: notice.entryId, title: notice.entryTitle, url: `${siteUrl}/entries/${notice.entryId}` },
+      user: { user_id: notice.userId, email: notice.userEmail },
+      justification: notice.justification,
+      expires_at: notice.expiresAt,
+    },
+  }
+
+  let delivered = 0
+  for (const admin of admins || []) {
+    if (!admin.email) continue
+    try {
+      await getNotificationChannel('email').send(notification, admin.email)
+      delivered++
+    } catch (sendError) {
+      console.error(`Failed to send break-glass notice to admin ${admin.user_id}:`, sendError)
+    }
+  }
+
+  return delivered
+}
@@ -0,0 +1,66 @@
+/**
+ * Notification API Functions
+ *
+ * Browser helpers for a user's expiration notification preferences
+ */
+
+import type { ExpiryStatus } from './expiration-policies'
+
+/**
+ * Channels a user can receive expiration digests on
+ * - email: sent to the account's email address over SMTP
+ * - webhook: JSON POST to a URL of the user's choice
+ * - slack: message to a Slack-compatible incoming webhook
+ */
+export type NotificationChannelType = 'email' | 'webhook' | 'slack'
+
+export const NOTIFICATION_CHANNELS: NotificationChannelType[] = ['email', 'webhook', 'slack']
+
+/**
+ * Expiry statuses that are notified (the notice window is only shown in
+ * the app)
+ */
+export type ExpiryBucket = Exclude<ExpiryStatus, 'notice'>
+
+/**
+ * A user's notification preferences. No channels means no digests.
+ */
+export interface NotificationPreferences {
+  channels: NotificationChannelType[]
+  webhook_url: string | null
+  slack_webhook_url: string | null
+}
+
+/**
+ * Get the current user's preferences (defaults to email only)
+ */
+export async function getNotificationPreferences(): Promise<NotificationPreferences> {
+  const response = await fetch('/api/notifications/preferences')
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load notification preferences')
+  }
+
+  return data.data
+}
+
+/**
+ * Save the current user's preferences
+ */
+export async function updateNotificationPreferences(
+  preferences: NotificationPreferences
+): Promise<NotificationPreferences> {
+  const response = await fetch('/api/notifications/preferences', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(preferences),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to save notification preferences')
+  }
+
+  return data.data
+}
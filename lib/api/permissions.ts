@@ -0,0 +1,95 @@
+/**
+ * Entry Permission API Functions
+ *
+ * Browser helpers for per-entry sharing grants
+ */
+
+import type { UserRole } from './entries'
+
+/**
+ * Kind of subject a grant applies to
+ */
+export type GrantSubjectType = 'role' | 'user' | 'group'
+
+/**
+ * Grant permission level
+ */
+export type GrantPermission = 'read' | 'read_write'
+
+/**
+ * A per-entry grant as shown in the sharing panel
+ */
+export interface EntryGrant {
+  id: string
+  entry_id: string
+  subject_type: GrantSubjectType
+  allowed_role: UserRole | null
+  user_id: string | null
+  group_id: string | null
+  label: string
+  permission: GrantPermission
+  granted_by: string | null
+  created_at: string
+}
+
+/**
+ * A group that entries can be shared with
+ */
+export interface UserGroup {
+  id: string
+  name: string
+}
+
+/**
+ * List the grants on an entry and the groups it can be shared with
+ */
+export async function getEntryGrants(entryId: string): Promise<{ grants: EntryGrant[]; groups: UserGroup[] }> {
+  const response = await fetch(`/api/entries/${entryId}/permissions`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load permissions')
+  }
+
+  return { grants: data.data, groups: data.groups }
+}
+
+/**
+ * Grant (or change) access to an entry
+ *
+ * @param entryId - Entry ID
+ * @param subjectType - Role, user or group
+ * @param subject - Role name, user email, or group ID
+ * @param permission - read or read_write
+ */
+export async function grantEntryAccess(
+  entryId: string,
+  subjectType: GrantSubjectType,
+  subject: string,
+  permission: GrantPermission
+): Promise<void> {
+  const response = await fetch(`/api/entries/${entryId}/permissions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ subject_type: subjectType, subject, permission }),
+  })
+
+  if (!response.ok) {
+    const data = await response.json()
+    throw new Error(data.error || 'Failed to share entry')
+  }
+}
+
+/**
+ * Revoke a grant
+ */
+export async function revokeEntryAccess(entryId: string, grantId: string): Promise<void> {
+  const response = await fetch(`/api/entries/${entryId}/permissions?grantId=${grantId}`, {
+    method: 'DELETE',
+  })
+
+  if (!response.ok) {
+    const data = await response.json()
+    throw new Error(data.error || 'Failed to revoke access')
+  }
+}
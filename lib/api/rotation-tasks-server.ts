@@ -0,0 +1,231 @@
+/**
+ * Server-Side Rotation Task Functions
+ *
+ * Rotation tasks track whether expiring credentials actually get rotated.
+ * The daily expiration job opens one for every entry in its critical or
+ * expired window, assigned to the entry's designated rotator (or its
+ * owner) and due on the expiration date. A task is only closed by saving
+ * the entry with a changed secret and a later expiration date.
+ * Server only - uses the cookie-based server Supabase client
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import type { EntryFields } from '@/lib/utils/entry-fields'
+import type { UserRole } from './auth-server'
+import type { OverdueRotations, RotationTask, RotationTaskOverview } from './rotation-tasks'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Workspace roles that can be assigned rotations (they can edit entries)
+ */
+export const ROTATOR_ROLES: UserRole[] = ['admin', 'manager', 'member']
+
+/**
+ * An entry due for rotation
+ */
+export interface RotationCandidate {
+  id: string
+  workspace_id: string
+  user_id: string
+  rotator_id: string | null
+  expiration_date: string
+}
+
+export interface RotationTaskSummary {
+  created: number
+  reopened: number
+}
+
+const TASK_COLUMNS = 'id, entry_id, workspace_id, assigned_to, status, due_date, snoozed_until, completed_at, completed_by, created_at, updated_at'
+
+/**
+ * Open tasks for entries that have none and reopen snoozed tasks whose
+ * snooze is over
+ *
+ * @param supabase - Service-role Supabase client (writes all tasks)
+ * @param entries - Entries in their critical or expired window
+ * @param now - Time of the run
+ */
+export async function generateRotationTasks(
+  supabase: ServerClient,
+  entries: RotationCandidate[],
+  now = new Date()
+): Promise<RotationTaskSummary> {
+  const summary: RotationTaskSummary = { created: 0, reopened: 0 }
+
+  const { data: reopened, error: reopenError } = await supabase
+    .from('rotation_tasks')
+    .update({ status: 'open', snoozed_until: null, updated_at: now.toISOString() })
+    .eq('status', 'snoozed')
+    .lte('snoozed_until', now.toISOString())
+    .select('id')
+
+  if (reopenError) {
+    throw new Error(`Failed to reopen snoozed rotation tasks: ${reopenError.message}`)
+  }
+  summary.reopened = reopened?.length || 0
+
+  if (entries.length === 0) return summary
+
+  const { data: active, error: activeError } = await supabase
+    .from('rotation_tasks')
+    .select('entry_id')
+    .in('entry_id', entries.map(entry => entry.id))
+    .neq('status', 'done')
+
+  if (activeError) {
+    throw new Error(`Failed to fetch rotation tasks: ${activeError.message}`)
+  }
+
+  const tracked = new Set((active || []).map(task => task.entry_id))
+  const untracked = entries.filter(entry => !tracked.has(entry.id))
+  if (untracked.length === 0) return summary
+
+  const { error } = await supabase.from('rotation_tasks').insert(
+    untracked.map(entry => ({
+      entry_id: entry.id,
+      workspace_id: entry.workspace_id,
+      assigned_to: entry.rotator_id || entry.user_id,
+      status: 'open',
+      due_date: entry.expiration_date,
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    }))
+  )
+
+  if (error) {
+    throw new Error(`Failed to create rotation tasks: ${error.message}`)
+  }
+  summary.created = untracked.length
+
+  return summary
+}
+
+/**
+ * Get a task that is not done yet
+ */
+export async function getActiveRotationTask(
+  supabase: ServerClient,
+  taskId: string
+): Promise<RotationTask | null> {
+  const { data } = await supabase
+    .from('rotation_tasks')
+    .select(TASK_COLUMNS)
+    .eq('id', taskId)
+    .neq('status', 'done')
+    .maybeSingle()
+
+  return data ? { ...data, entry: null } : null
+}
+
+/**
+ * Whether a save changes an entry's secret
+ *
+ * Structured entries with sensitive fields are rotated by changing one of
+ * those fields; other entries by changing their content (or fields).
+ * Values are compared in plaintext.
+ *
+ * @param previous - Decrypted content and fields before the save
+ * @param next - Submitted content and fields (undefined when not resent)
+ * @param sensitiveFields - Sensitive field keys of the entry's category
+ */
+export function hasSecretChanged(
+  previous: { content: string | null; fields: EntryFields | null },
+  next: { content?: string | null; fields?: EntryFields | null },
+  sensitiveFields: string[]
+): boolean {
+  const fieldsChanged = (keys: string[]) => next.fields !== undefined && keys.some(key =>
+    JSON.stringify(previous.fields?.[key] ?? null) !== JSON.stringify(next.fields?.[key] ?? null)
+  )
+
+  const structured = !!(previous.fields || next.fields)
+  if (structured && sensitiveFields.length > 0) {
+    return fieldsChanged(sensitiveFields)
+  }
+
+  const contentChanged = next.content !== undefined && (next.content || '') !== (previous.content || '')
+  const allKeys = [...new Set([...Object.keys(previous.fields || {}), ...Object.keys(next.fields || {})])]
+  return contentChanged || fieldsChanged(allKeys)
+}
+
+/**
+ * Mark a task done after its entry was rotated
+ */
+export async function completeRotationTask(
+  supabase: ServerClient,
+  taskId: string,
+  userId: string
+): Promise<void> {
+  const now = new Date().toISOString()
+
+  const { error } = await supabase
+    .from('rotation_tasks')
+    .update({ status: 'done', snoozed_until: null, completed_at: now, completed_by: userId, updated_at: now })
+    .eq('id', taskId)
+
+  if (error) {
+    throw new Error(`Failed to complete rotation task: ${error.message}`)
+  }
+}
+
+/**
+ * A user's active tasks, and for workspace admins and managers the
+ * overdue rotations of everyone in the workspace
+ *
+ * @param supabase - Server Supabase client
+ * @param userId - Current user
+ * @param workspace - Active workspace and the user's role in it
+ * @param now - Overdue cut-off
+ */
+export async function getRotationOverview(
+  supabase: ServerClient,
+  userId: string,
+  workspace: { id: string; role: UserRole },
+  now = new Date()
+): Promise<RotationTaskOverview> {
+  const { data: tasks, error } = await supabase
+    .from('rotation_tasks')
+    .select(`${TASK_COLUMNS}, entry:knowledge_entries(title, category)`)
+    .eq('workspace_id', workspace.id)
+    .eq('assigned_to', userId)
+    .neq('status', 'done')
+    .order('due_date', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch rotation tasks: ${error.message}`)
+  }
+
+  if (workspace.role !== 'admin' && workspace.role !== 'manager') {
+    return { tasks: (tasks || []) as unknown as RotationTask[], team: null }
+  }
+
+  const { data: overdue, error: overdueError } = await supabase
+    .from('rotation_tasks')
+    .select('assigned_to')
+    .eq('workspace_id', workspace.id)
+    .in('status', ['open', 'in_progress'])
+    .lt('due_date', now.toISOString())
+
+  if (overdueError) {
+    throw new Error(`Failed to fetch overdue rotation tasks: ${overdueError.message}`)
+  }
+
+  const counts = new Map<string | null, number>()
+  ;(overdue || []).forEach(task => counts.set(task.assigned_to, (counts.get(task.assigned_to) || 0) + 1))
+
+  const assigneeIds = [...counts.keys()].filter((id): id is string => !!id)
+  const { data: users } = assigneeIds.length > 0
+    ? await supabase.from('user_roles').select('user_id, email').in('user_id', assigneeIds)
+    : { data: [] as { user_id: string; email: string }[] }
+
+  const team: OverdueRotations[] = [...counts.entries()]
+    .map(([assignedTo, count]) => ({
+      assigned_to: assignedTo,
+      email: users?.find(u => u.user_id === assignedTo)?.email || null,
+      overdue: count,
+    }))
+    .sort((a, b) => b.overdue - a.overdue)
+
+  return { tasks: (tasks || []) as unknown as RotationTask[], team }
+}
@@ -0,0 +1,92 @@
+/**
+ * Rotation Task API Functions
+ *
+ * Browser helpers for credential rotation tasks: the current user's tasks,
+ * overdue rotations across their team, and starting, snoozing or
+ * reassigning a task. Tasks are completed by rotating the entry itself
+ * (PUT /api/entries/[id] with `rotation_task_id`).
+ */
+
+/**
+ * Rotation task lifecycle
+ * - open: waiting for the assignee
+ * - in_progress: the assignee has started rotating
+ * - snoozed: put off until `snoozed_until`, then reopened by the daily job
+ * - done: the secret was changed and the expiration date moved on
+ */
+export type RotationTaskStatus = 'open' | 'in_progress' | 'snoozed' | 'done'
+
+export interface RotationTask {
+  id: string
+  entry_id: string
+  workspace_id: string
+  assigned_to: string | null
+  status: RotationTaskStatus
+  due_date: string
+  snoozed_until: string | null
+  completed_at: string | null
+  completed_by: string | null
+  created_at: string
+  updated_at: string
+  entry: { title: string; category: string } | null
+}
+
+/**
+ * Overdue rotations of one assignee (null for tasks whose assignee left)
+ */
+export interface OverdueRotations {
+  assigned_to: string | null
+  email: string | null
+  overdue: number
+}
+
+export interface RotationTaskOverview {
+  tasks: RotationTask[]
+  /** Overdue rotations per assignee in the active workspace (admins and managers only) */
+  team: OverdueRotations[] | null
+}
+
+export interface RotationTaskUpdate {
+  status?: Exclude<RotationTaskStatus, 'done'>
+  snoozed_until?: string
+  assigned_to?: string
+}
+
+/**
+ * Whether a task is past its due date and not put off
+ */
+export function isRotationOverdue(task: Pick<RotationTask, 'status' | 'due_date'>, now = new Date()): boolean {
+  return (task.status === 'open' || task.status === 'in_progress') && new Date(task.due_date) < now
+}
+
+/**
+ * Get the current user's active tasks and their team's overdue rotations
+ */
+export async function getRotationTasks(): Promise<RotationTaskOverview> {
+  const response = await fetch('/api/rotation-tasks')
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load rotation tasks')
+  }
+
+  return data.data
+}
+
+/**
+ * Start, snooze, reopen or reassign a task
+ */
+export async function updateRotationTask(id: string, update: RotationTaskUpdate): Promise<RotationTask> {
+  const response = await fetch(`/api/rotation-tasks/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to update rotation task')
+  }
+
+  return data.data
+}
@@ -0,0 +1,153 @@
+/**
+ * Server-Side Search Functions
+ *
+ * Full-text search over the entries of a workspace a user may view. The
+ * search_entries database function matches the search document of each
+ * entry (title, tags and non-sensitive content) and returns its rank and
+ * highlights; the access filter, field terms of the query, facet filters
+ * and pagination are applied on top of it.
+ * Server only - uses the cookie-based server Supabase client
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { applyEntryAccessFilter, getSharedEntryIds } from './access-control'
+import { maskEntryContent } from './entries-server'
+import type { UserRole } from './entries'
+import type { SearchFilters, SearchResult, SearchResults } from './search'
+import { countFacets, toEntryTsQuery } from '@/lib/utils/search'
+import { applyEntryQuery, type EntryQuery } from '@/lib/utils/entry-query'
+import { maskEntryFields } from '@/lib/utils/entry-fields'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * A row returned by the search_entries database function
+ */
+interface SearchHit {
+  id: string
+  user_id: string
+  category: string
+  classification: string
+  tags: string[] | null
+  is_sensitive: boolean | null
+  rank: number
+  title_highlight: string
+  snippet: string | null
+}
+
+/**
+ * Search the entries of a workspace, most relevant first
+ *
+ * @param supabase - Server Supabase client
+ * @param userId - User searching
+ * @param workspace - Workspace and the user's role in it
+ * @param query - Parsed search; words match as prefixes, field terms as
+ *   filters
+ * @param filters - Category, classification, tags and page
+ */
+export async function searchWorkspaceEntries(
+  supabase: ServerClient,
+  userId: string,
+  workspace: { id: string; role: UserRole },
+  query: EntryQuery,
+  filters: SearchFilters = {}
+): Promise<SearchResults> {
+  const { category, classification, tags = [], page = 1, limit = 10 } = filters
+  const tsQuery = toEntryTsQuery(query)
+  const fieldTerms = { terms: query.terms.filter(term => term.type === 'field') }
+  const empty = {
+    data: [],
+    count: 0,
+    page,
+    limit,
+    totalPages: 0,
+    facets: countFacets([]),
+  }
+
+  const args = { ws: workspace.id, search_query: tsQuery }
+  const sharedIds = await getSharedEntryIds(userId, workspace.role, supabase)
+
+  // Facets count every match, so each filter shows what choosing it would leave
+  const { data: matches, error: facetError } = await applyEntryQuery(
+    applyEntryAccessFilter(
+      supabase.rpc('search_entries', args).select('category, classification, tags'),
+      userId,
+      workspace.role,
+      sharedIds
+    ),
+    fieldTerms
+  )
+
+  if (facetError) {
+    throw new Error(`Failed to search entries: ${facetError.message}`)
+  }
+  const matched = (matches || []) as { category: string; classification: string; tags: string[] | null }[]
+  if (matched.length === 0) return empty
+
+  let search = applyEntryQuery(
+    applyEntryAccessFilter(
+      supabase.rpc('search_entries', args, { count: 'exact' }),
+      userId,
+      workspace.role,
+      sharedIds
+    ),
+    fieldTerms
+  )
+  if (category) {
+    search = search.eq('category', category)
+  }
+  if (classification) {
+    search = search.eq('classification', classification)
+  }
+  if (tags.length > 0) {
+    search = search.contains('tags', tags)
+  }
+
+  const from = (page - 1) * limit
+  const { data, error, count } = await search
+    .order('rank', { ascending: false })
+    .order('id')
+    .range(from, from + limit - 1)
+
+  if (error) {
+    throw new Error(`Failed to search entries: ${error.message}`)
+  }
+
+  const hits: SearchHit[] = data || []
+  const results: SearchResult[] = []
+  const ids = hits.map(hit => hit.id)
+
+  if (ids.length > 0) {
+    const { data: entries, error: entriesError } = await supabase
+      .from('knowledge_entries')
+      .select('*')
+      .in('id', ids)
+
+    if (entriesError) {
+      throw new Error(`Failed to fetch entries: ${entriesError.message}`)
+    }
+
+    // Keep the rank order of the hits
+    const byId = new Map((entries || []).map(entry => [entry.id, entry]))
+    hits.forEach(hit => {
+      const entry = byId.get(hit.id)
+      if (!entry) return
+      results.push({
+        ...entry,
+        content: maskEntryContent(entry),
+        fields: maskEntryFields(entry.category, entry.fields),
+        rank: hit.rank,
+        highlight: { title: hit.title_highlight, snippet: hit.snippet },
+      })
+    })
+  }
+
+  return {
+    data: results,
+    count: count || 0,
+    page,
+    limit,
+    totalPages: Math.ceil((count || 0) / limit),
+    facets: countFacets(matched),
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Search API Functions
+ *
+ * Types and browser helper for full-text entry search: ranked results
+ * with highlighted titles and snippets, and facet counts for narrowing
+ * results down.
+ */
+
+import type { EntryCategory, EntryClassification, KnowledgeEntry } from './entries'
+
+/**
+ * Markers around matched terms in highlights. Private-use characters keep
+ * clear of real entry text, and highlights are rendered as text rather
+ * than HTML (see splitHighlights in lib/utils/search.ts).
+ */
+export const HIGHLIGHT_START = '\uE000'
+export const HIGHLIGHT_END = '\uE001'
+
+export interface SearchHighlight {
+  title: string
+  /** Matching excerpt of the content; null for sensitive entries */
+  snippet: string | null
+}
+
+/**
+ * A search hit: the list view of the entry with its relevance
+ */
+export interface SearchResult extends KnowledgeEntry {
+  rank: number
+  highlight: SearchHighlight
+}
+
+/**
+ * Matches per category, classification and tag, before those filters are
+ * applied
+ */
+export interface SearchFacets {
+  category: Partial<Record<EntryCategory, number>>
+  classification: Partial<Record<EntryClassification, number>>
+  tags: { tag: string; count: number }[]
+}
+
+export interface SearchFilters {
+  category?: EntryCategory | null
+  classification?: EntryClassification | null
+  tags?: string[]
+  page?: number
+  limit?: number
+}
+
+export interface SearchResults {
+  data: SearchResult[]
+  count: number
+  page: number
+  limit: number
+  totalPages: number
+  facets: SearchFacets
+}
+
+/**
+ * Search the active workspace
+ *
+ * @param query - Search in the entry query language; words also match as prefixes
+ * @param filters - Category, classification and tags to narrow results to
+ */
+export async function searchKnowledgeBase(query: string, filters: SearchFilters = {}): Promise<SearchResults> {
+  const params = new URLSearchParams({ q: query })
+  if (filters.category) params.set('category', filters.category)
+  if (filters.classification) params.set('classification', filters.classification)
+  filters.tags?.forEach(tag => params.append('tag', tag))
+  if (filters.page) params.set('page', String(filters.page))
+  if (filters.limit) params.set('limit', String(filters.limit))
+
+  const response = await fetch(`/api/entries/search?${params}`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to search entries')
+  }
+
+  return data
+}
@@ -0,0 +1,29 @@
+/**
+ * Server-Side Trash Functions
+ *
+ * Deleted entries are kept in the trash (deleted_at set) for a retention
+ * period before the purge cron job removes them permanently.
+ * These functions should only be called from API Routes.
+ */
+
+/**
+ * Days a deleted entry stays in the trash when TRASH_RETENTION_DAYS is unset
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+/**
+ * Get the configured trash retention period in days
+ */
+export function getTrashRetentionDays(): number {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10)
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS
+}
+
+/**
+ * Get the date an entry deleted at the given time will be purged
+ */
+export function getPurgeDate(deletedAt: string, retentionDays: number = getTrashRetentionDays()): Date {
+  const purgeDate = new Date(deletedAt)
+  purgeDate.setDate(purgeDate.getDate() + retentionDays)
+  return purgeDate
+}
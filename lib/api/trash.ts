@@ -0,0 +1,49 @@
+/**
+ * Trash API Functions
+ *
+ * Browser helpers for listing and restoring deleted entries
+ */
+
+import type { EntryCategory, EntryClassification } from './entries'
+
+/**
+ * Entry in the trash (content is never returned)
+ */
+export interface TrashedEntry {
+  id: string
+  user_id: string
+  title: string
+  category: EntryCategory
+  classification: EntryClassification
+  deleted_at: string
+  deleted_by: string | null
+  purge_at: string
+}
+
+/**
+ * List entries in the trash, most recently deleted first
+ */
+export async function getTrashedEntries(): Promise<{ entries: TrashedEntry[]; retentionDays: number }> {
+  const response = await fetch('/api/entries/trash')
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load trash')
+  }
+
+  return { entries: data.data, retentionDays: data.retentionDays }
+}
+
+/**
+ * Restore an entry from the trash
+ */
+export async function restoreTrashedEntry(entryId: string): Promise<void> {
+  const response = await fetch(`/api/entries/${entryId}/restore`, {
+    method: 'POST',
+  })
+
+  if (!response.ok) {
+    const data = await response.json()
+    throw new Error(data.error || 'Failed to restore entry')
+  }
+}
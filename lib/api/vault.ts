@@ -0,0 +1,176 @@
+/**
+ * Zero-Knowledge Vault API Functions
+ *
+ * Browser helpers for client-encrypted entries. Passphrases, private keys
+ * and entry keys never leave the browser; only ciphertext and wrapped keys
+ * are sent to the server.
+ */
+
+import {
+  createVaultKeys,
+  generateEntryKey,
+  unlockPrivateKey,
+  unwrapEntryKey,
+  wrapEntryKey,
+  StoredVaultKeys,
+} from '@/lib/utils/vault-crypto'
+
+/**
+ * A teammate who can receive client-encrypted entries
+ */
+export interface VaultRecipient {
+  user_id: string
+  email: string
+  public_key: string
+}
+
+/**
+ * An unlocked vault for the current session
+ */
+export interface UnlockedVault {
+  userId: string
+  publicKey: string
+  privateKey: CryptoKey
+}
+
+/**
+ * Get the current user's stored vault keys
+ *
+ * @returns User ID and vault keys (null if the vault is not set up yet)
+ */
+export async function getVaultKeys(): Promise<{ userId: string; keys: StoredVaultKeys | null }> {
+  const response = await fetch('/api/vault/keys')
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load vault keys')
+  }
+
+  return { userId: data.userId, keys: data.data }
+}
+
+/**
+ * Unlock the current user's vault, creating it on first use
+ *
+ * @param passphrase - Vault passphrase
+ * @returns Unlocked vault
+ */
+export async function unlockVault(passphrase: string): Promise<UnlockedVault> {
+  let { userId, keys } = await getVaultKeys()
+
+  if (!keys) {
+    keys = await createVaultKeys(passphrase)
+
+    const response = await fetch('/api/vault/keys', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(keys),
+    })
+
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || 'Failed to set up vault')
+    }
+  }
+
+  const privateKey = await unlockPrivateKey(keys, passphrase)
+  return { userId, publicKey: keys.public_key, privateKey }
+}
+
+/**
+ * Create a new entry key wrapped for the vault owner
+ *
+ * @param vault - Unlocked vault of the entry creator
+ * @returns Entry key and the owner's key grant
+ */
+export async function createEntryKey(
+  vault: UnlockedVault
+): Promise<{ entryKey: CryptoKey; grant: { user_id: string; wrapped_key: string } }> {
+  const entryKey = await generateEntryKey()
+  const wrappedKey = await wrapEntryKey(entryKey, vault.publicKey)
+  return { entryKey, grant: { user_id: vault.userId, wrapped_key: wrappedKey } }
+}
+
+/**
+ * Fetch and unwrap the caller's key for an entry
+ *
+ * @param entryId - Entry ID
+ * @param vault - Unlocked vault
+ * @returns Entry key and, for the owner, the current recipients
+ */
+export async function getEntryKey(
+  entryId: string,
+  vault: UnlockedVault
+): Promise<{ entryKey: CryptoKey; recipients?: { user_id: string; email: string | null }[] }> {
+  const response = await fetch(`/api/entries/${entryId}/keys`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load entry key')
+  }
+
+  const entryKey = await unwrapEntryKey(data.data.wrapped_key, vault.privateKey)
+  return { entryKey, recipients: data.data.recipients }
+}
+
+/**
+ * List teammates with a vault set up
+ */
+export async function getVaultRecipients(): Promise<VaultRecipient[]> {
+  const response = await fetch('/api/vault/public-keys')
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load vault recipients')
+  }
+
+  return data.data
+}
+
+/**
+ * Share an entry key with teammates by wrapping it for their public keys
+ *
+ * @param entryId - Entry ID
+ * @param entryKey - Unwrapped entry key
+ * @param recipients - Teammates to share with
+ */
+export async function shareEntryKey(
+  entryId: string,
+  entryKey: CryptoKey,
+  recipients: VaultRecipient[]
+): Promise<void> {
+  const grants = await Promise.all(
+    recipients.map(async recipient => ({
+      user_id: recipient.user_id,
+      wrapped_key: await wrapEntryKey(entryKey, recipient.public_key),
+    }))
+  )
+
+  const response = await fetch(`/api/entries/${entryId}/keys`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ grants }),
+  })
+
+  if (!response.ok) {
+    const data = await response.json()
+    throw new Error(data.error || 'Failed to share entry')
+  }
+}
+
+/**
+ * Revoke a teammate's key for an entry
+ *
+ * Note: the content is not re-encrypted, so a recipient who already
+ * unwrapped the key could have kept a copy.
+ */
+export async function revokeEntryKey(entryId: string, userId: string): Promise<void> {
+  const response = await fetch(`/api/entries/${entryId}/keys?userId=${encodeURIComponent(userId)}`, {
+    method: 'DELETE',
+  })
+
+  if (!response.ok) {
+    const data = await response.json()
+    throw new Error(data.error || 'Failed to revoke access')
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Server-Side Entry Version Functions
+ *
+ * Snapshots of knowledge entries for history, diff and restore.
+ * Rows are copied as stored: encrypted content and fields stay encrypted
+ * under the entry's wrapped data key.
+ * These functions should only be called from API Routes.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import type { VersionChangeType } from './versions'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Entry columns captured in every snapshot
+ */
+export const SNAPSHOT_COLUMNS = [
+  'title',
+  'content',
+  'fields',
+  'category',
+  'classification',
+  'tags',
+  'is_sensitive',
+  'is_client_encrypted',
+  'encrypted_data_key',
+  'key_version',
+  'expiration_date',
+  'file_url',
+  'file_name',
+] as const
+
+/**
+ * Pick the snapshot columns from an entry or version row
+ */
+export function pickSnapshot(row: Record<string, any>): Record<string, any> {
+  const snapshot: Record<string, any> = {}
+  SNAPSHOT_COLUMNS.forEach(column => {
+    snapshot[column] = row[column] ?? null
+  })
+  return snapshot
+}
+
+/**
+ * Get the latest version number of an entry (0 if it has none)
+ */
+async function getLatestVersionNumber(supabase: ServerClient, entryId: string): Promise<number> {
+  const { data } = await supabase
+    .from('entry_versions')
+    .select('version_number')
+    .eq('entry_id', entryId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return data?.version_number || 0
+}
+
+/**
+ * Record a snapshot of an entry as its next version
+ *
+ * @param supabase - Server Supabase client
+ * @param entry - Stored entry row (after the change)
+ * @param userId - User who made the change
+ * @param changeType - Kind of change
+ * @param restoredFrom - Version number restored from (restore only)
+ */
+export async function recordEntryVersion(
+  supabase: ServerClient,
+  entry: Record<string, any>,
+  userId: string,
+  changeType: VersionChangeType,
+  restoredFrom: number | null = null
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const versionNumber = (await getLatestVersionNumber(supabase, entry.id)) + 1
+
+    const { error } = await supabase.from('entry_versions').insert({
+      entry_id: entry.id,
+      version_number: versionNumber,
+      ...pickSnapshot(entry),
+      change_type: changeType,
+      restored_from: restoredFrom,
+      created_by: userId,
+      created_at: new Date().toISOString(),
+    })
+
+    if (error) {
+      console.error('Error recording entry version:', error)
+      return { success: false, error: error.message }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in recordEntryVersion:', error)
+    return { success: false, error: 'Failed to record entry version' }
+  }
+}
+
+/**
+ * Snapshot the current state of an entry that predates version history,
+ * so its original content is not lost on the first change
+ *
+ * @param supabase - Server Supabase client
+ * @param entry - Stored entry row (before the change)
+ */
+export async function recordBaselineVersion(
+  supabase: ServerClient,
+  entry: Record<string, any>
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if ((await getLatestVersionNumber(supabase, entry.id)) > 0) {
+      return { success: true }
+    }
+
+    const { error } = await supabase.from('entry_versions').insert({
+      entry_id: entry.id,
+      version_number: 1,
+      ...pickSnapshot(entry),
+      change_type: 'create',
+      restored_from: null,
+      created_by: entry.created_by || entry.user_id,
+      created_at: entry.updated_at || entry.created_at,
+    })
+
+    if (error) {
+      console.error('Error recording baseline version:', error)
+      return { success: false, error: error.message }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in recordBaselineVersion:', error)
+    return { success: false, error: 'Failed to record baseline version' }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Entry Version API Functions
+ *
+ * Browser helpers for entry version history, diff and restore
+ */
+
+import type { EntryCategory, EntryClassification } from './entries'
+import type { EntryFields } from '@/lib/utils/entry-fields'
+
+/**
+ * Kind of change that produced a version
+ */
+export type VersionChangeType = 'create' | 'update' | 'restore'
+
+/**
+ * Version metadata shown in the history list
+ */
+export interface EntryVersionSummary {
+  id: string
+  entry_id: string
+  version_number: number
+  title: string
+  category: EntryCategory
+  classification: EntryClassification
+  change_type: VersionChangeType
+  restored_from: number | null
+  created_by: string | null
+  created_at: string
+}
+
+/**
+ * Full version snapshot (decrypted by the API)
+ */
+export interface EntryVersion extends EntryVersionSummary {
+  content: string
+  fields: EntryFields | null
+  tags: string[]
+  is_sensitive: boolean
+  is_client_encrypted: boolean
+  expiration_date: string | null
+  file_url: string | null
+  file_name: string | null
+}
+
+/**
+ * List versions of an entry, newest first
+ */
+export async function getEntryVersions(entryId: string): Promise<EntryVersionSummary[]> {
+  const response = await fetch(`/api/entries/${entryId}/versions`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load versions')
+  }
+
+  return data.data
+}
+
+/**
+ * Fetch a single version with its content
+ */
+export async function getEntryVersion(entryId: string, versionId: string): Promise<EntryVersion> {
+  const response = await fetch(`/api/entries/${entryId}/versions/${versionId}`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load version')
+  }
+
+  return data.data
+}
+
+/**
+ * Restore an entry to a previous version (recorded as a new version)
+ */
+export async function restoreEntryVersion(entryId: string, versionId: string): Promise<void> {
+  const response = await fetch(`/api/entries/${entryId}/versions/${versionId}/restore`, {
+    method: 'POST',
+  })
+
+  if (!response.ok) {
+    const data = await response.json()
+    throw new Error(data.error || 'Failed to restore version')
+  }
+}
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+type Row = Record<string, unknown>
+
+const tables = vi.hoisted(() => ({ current: {} as Record<string, Record<string, unknown>[]> }))
+
+vi.mock('next/headers', () => ({ cookies: async () => ({ get: () => undefined }) }))
+vi.mock('@/lib/supabase/server', () => ({ createClient: async () => tableClient() }))
+
+import { getUserWorkspaces, getWorkspaceRole } from './workspaces-server'
+
+/**
+ * A Supabase client over the rows in `tables`, supporting eq filters
+ */
+function tableClient() {
+  return {
+    from: (table: string) => {
+      const filters: [string, unknown][] = []
+      const rows = () => (tables.current[table] || []).filter(row => filters.every(([column, value]) => row[column] === value))
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          filters.push([column, value])
+          return query
+        },
+        single: async () => rows()[0]
+          ? { data: rows()[0], error: null }
+          : { data: null, error: { code: 'PGRST116', message: 'not found' } },
+        maybeSingle: async () => ({ data: rows()[0] || null, error: null }),
+        then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: rows(), error: null }),
+      }
+      return query
+    },
+  }
+}
+
+const USER_ID = '11111111-1111-1111-1111-111111111111'
+
+function setAccount(status: string) {
+  tables.current = {
+    user_roles: [{ user_id: USER_ID, role: 'manager', status }],
+    workspace_members: [
+      { workspace_id: 'ws-1', user_id: USER_ID, role: 'admin', workspaces: { id: 'ws-1', name: 'Ops' } },
+    ],
+  }
+}
+
+describe('workspace roles', () => {
+  beforeEach(() => setAccount('active'))
+
+  it('returns the workspace role of an active account', async () => {
+    expect(await getWorkspaceRole('ws-1', USER_ID)).toBe('admin')
+    expect(await getUserWorkspaces(USER_ID)).toEqual([{ id: 'ws-1', name: 'Ops', role: 'admin' }])
+  })
+
+  it.each(['deactivated', 'pending'])('gives a %s account no role in its workspaces', async status => {
+    setAccount(status)
+
+    expect(await getWorkspaceRole('ws-1', USER_ID)).toBeNull()
+    expect(await getUserWorkspaces(USER_ID)).toEqual([])
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Server-Side Workspace Functions
+ *
+ * Workspaces (teams) own entries, and each member has a role per workspace.
+ * Entry access uses the role in the entry's workspace, not the global role.
+ * Memberships only count while the account is active.
+ * These functions should only be called from Server Components or API Routes.
+ */
+
+import { cookies } from 'next/headers'
+import { createClient } from '@/lib/supabase/server'
+import { getUserRole, type UserRole } from './auth-server'
+import { ACTIVE_WORKSPACE_COOKIE, pickActiveWorkspace, toMemberships, type WorkspaceMembership } from './workspaces'
+
+export type { WorkspaceMembership }
+
+/**
+ * Get all workspaces a user belongs to, ordered by name
+ *
+ * @param userId - User ID
+ * @returns Workspaces with the user's role in each (none if the account is
+ *   not active)
+ */
+export async function getUserWorkspaces(userId: string): Promise<WorkspaceMembership[]> {
+  try {
+    // Pending and deactivated accounts have no role anywhere
+    if (!(await getUserRole(userId))) return []
+
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role, workspaces(id, name)')
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Error fetching workspaces:', error)
+      return []
+    }
+
+    return toMemberships(data || [])
+  } catch (error) {
+    console.error('Error in getUserWorkspaces:', error)
+    return []
+  }
+}
+
+/**
+ * Get the user's role in a workspace
+ *
+ * @param workspaceId - Workspace ID
+ * @param userId - User ID
+ * @returns Role, or null if the user is not a member or their account is
+ *   not active
+ */
+export async function getWorkspaceRole(workspaceId: string, userId: string): Promise<UserRole | null> {
+  try {
+    // Pending and deactivated accounts have no role anywhere
+    if (!(await getUserRole(userId))) return null
+
+    const supabase = await createClient()
+
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error || !data) return null
+
+    return data.role as UserRole
+  } catch (error) {
+    console.error('Error in getWorkspaceRole:', error)
+    return null
+  }
+}
+
+/**
+ * Get the workspace selected in the switcher
+ *
+ * Falls back to the first workspace the user belongs to when no workspace
+ * is selected or the user is no longer a member of the selected one.
+ *
+ * @param userId - User ID
+ * @returns Active workspace with the user's role, or null if the user has none
+ */
+export async function getActiveWorkspace(userId: string): Promise<WorkspaceMembership | null> {
+  const workspaces = await getUserWorkspaces(userId)
+  const cookieStore = await cookies()
+
+  return pickActiveWorkspace(workspaces, cookieStore.get(ACTIVE_WORKSPACE_COOKIE)?.value)
+}
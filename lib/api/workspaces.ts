@@ -0,0 +1,129 @@
+/**
+ * Workspace API Functions
+ *
+ * Browser helpers for listing, creating and switching workspaces
+ */
+
+import type { createClient } from '@/lib/supabase/client'
+import type { UserRole } from './entries'
+
+type BrowserClient = ReturnType<typeof createClient>
+
+/**
+ * Cookie holding the id of the workspace selected in the switcher
+ */
+export const ACTIVE_WORKSPACE_COOKIE = 'vb_workspace'
+
+/**
+ * A workspace the user belongs to, with their role in it
+ */
+export interface WorkspaceMembership {
+  id: string
+  name: string
+  role: UserRole
+}
+
+/**
+ * Pick the active workspace from the user's memberships
+ *
+ * Falls back to the first workspace when none is selected or the user is
+ * no longer a member of the selected one.
+ */
+export function pickActiveWorkspace(
+  workspaces: WorkspaceMembership[],
+  selectedId: string | undefined
+): WorkspaceMembership | null {
+  return workspaces.find(workspace => workspace.id === selectedId) || workspaces[0] || null
+}
+
+/**
+ * Get the id of the active workspace (browser only)
+ *
+ * Used to scope direct Supabase queries the same way the API routes do.
+ *
+ * @param supabase - Browser Supabase client
+ * @param userId - User ID
+ * @returns Workspace ID, or null if the user has no workspace
+ */
+export async function getActiveWorkspaceId(supabase: BrowserClient, userId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('workspace_members')
+    .select('role, workspaces(id, name)')
+    .eq('user_id', userId)
+
+  const selectedId = document.cookie
+    .split('; ')
+    .find(cookie => cookie.startsWith(`${ACTIVE_WORKSPACE_COOKIE}=`))
+    ?.split('=')[1]
+
+  return pickActiveWorkspace(toMemberships(data || []), selectedId)?.id || null
+}
+
+/**
+ * A `workspace_members` row joined with `workspaces`
+ */
+export interface MembershipRow {
+  role: UserRole
+  // An object at runtime; typed as an array by the untyped client
+  workspaces: { id: string; name: string } | { id: string; name: string }[] | null
+}
+
+/**
+ * Map `workspace_members` rows joined with `workspaces` to memberships, ordered by name
+ */
+export function toMemberships(rows: MembershipRow[]): WorkspaceMembership[] {
+  return rows
+    .flatMap(row => {
+      const workspace = Array.isArray(row.workspaces) ? row.workspaces[0] : row.workspaces
+      return workspace ? [{ id: workspace.id, name: workspace.name, role: row.role }] : []
+    })
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * List the user's workspaces and the active one
+ */
+export async function getWorkspaces(): Promise<{ workspaces: WorkspaceMembership[]; activeWorkspaceId: string | null }> {
+  const response = await fetch('/api/workspaces')
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load workspaces')
+  }
+
+  return { workspaces: data.data, activeWorkspaceId: data.activeWorkspaceId }
+}
+
+/**
+ * Create a workspace; the creator becomes its admin and it becomes active
+ */
+export async function createWorkspace(name: string): Promise<WorkspaceMembership> {
+  const response = await fetch('/api/workspaces', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name }),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to create workspace')
+  }
+
+  return data.data
+}
+
+/**
+ * Switch the active workspace
+ */
+export async function setActiveWorkspace(workspaceId: string): Promise<void> {
+  const response = await fetch('/api/workspaces/active', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ workspaceId }),
+  })
+
+  if (!response.ok) {
+    const data = await response.json()
+    throw new Error(data.error || 'Failed to switch workspace')
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Supabase Client with the Service Role
+ *
+ * For requests that carry no user session but are authenticated another
+ * way (calendar feed tokens, the cron secret). It bypasses row-level
+ * security, so callers must apply the user's access rules to every query
+ * themselves.
+ * Server only - never import this from client components
+ */
+
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Creates a Supabase client authenticated with the service role key
+ *
+ * @returns Supabase client instance
+ */
+export function createAdminClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error(
+      'Missing Supabase service role configuration. Please set SUPABASE_SERVICE_ROLE_KEY.'
+    )
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
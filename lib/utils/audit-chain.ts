@@ -0,0 +1,153 @@
+/**
+ * Audit Chain Utility Functions
+ *
+ * Hash chaining and checkpoint signatures for access_logs. The database
+ * trigger computes each record's hash when the row is inserted; these
+ * functions recompute it independently so verification does not have to
+ * trust the database. Checkpoints are signed with an Ed25519 key that
+ * never leaves the server environment.
+ * Server only - reads the signing key from the environment.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, KeyObject, sign, verify } from 'crypto'
+
+/**
+ * prev_hash of the first record in the chain
+ */
+export const GENESIS_HASH = '0'.repeat(64)
+
+/**
+ * Columns of an access_logs row covered by its hash
+ */
+export interface ChainedLogRecord {
+  id: string
+  seq: number
+  entry_id: string | null
+  accessed_by: string | null
+  action: string
+  accessed_at: string
+  ip_address: string | null
+  user_agent: string | null
+  break_glass_grant_id: string | null
+  request_id: string | null
+  outcome: string | null
+  prev_hash: string
+  entry_prev_hash: string | null
+  record_hash: string
+}
+
+/**
+ * What a checkpoint attests: the chain head at a point in time
+ */
+export interface CheckpointPayload {
+  last_seq: number
+  last_hash: string
+  record_count: number
+  created_at: string
+}
+
+/**
+ * Build the string a record's hash is computed over
+ *
+ * Must match access_log_record_hash() in the database: fields joined with
+ * `|`, nulls as empty strings and the timestamp as a UTC ISO string with
+ * milliseconds. Records written before outcomes were logged have no
+ * outcome and leave out the request ID and outcome.
+ */
+export function canonicalizeLogRecord(record: Omit<ChainedLogRecord, 'id' | 'record_hash'>): string {
+  const fields: (string | number)[] = [
+    record.seq,
+    record.entry_id ?? '',
+    record.accessed_by ?? '',
+    record.action,
+    new Date(record.accessed_at).toISOString(),
+    record.ip_address ?? '',
+    record.user_agent ?? '',
+    record.break_glass_grant_id ?? '',
+    record.prev_hash,
+    record.entry_prev_hash ?? '',
+  ]
+
+  if (record.outcome) {
+    fields.push(record.request_id ?? '', record.outcome)
+  }
+
+  return fields.join('|')
+}
+
+/**
+ * Compute the SHA-256 hash (hex) of a record
+ */
+export function hashLogRecord(record: Omit<ChainedLogRecord, 'id' | 'record_hash'>): string {
+  return createHash('sha256').update(canonicalizeLogRecord(record), 'utf8').digest('hex')
+}
+
+/**
+ * Build the message a checkpoint signature covers
+ */
+export function checkpointMessage(payload: CheckpointPayload): string {
+  return [
+    payload.last_seq,
+    payload.last_hash,
+    payload.record_count,
+    new Date(payload.created_at).toISOString(),
+  ].join('|')
+}
+
+/**
+ * Get the checkpoint signing key from AUDIT_SIGNING_PRIVATE_KEY
+ * (PEM-encoded Ed25519 private key)
+ */
+function getSigningKey(): KeyObject {
+  const pem = process.env.AUDIT_SIGNING_PRIVATE_KEY
+
+  if (!pem) {
+    throw new Error('AUDIT_SIGNING_PRIVATE_KEY must be set to sign audit checkpoints')
+  }
+
+  const key = createPrivateKey(pem.replace(/\\n/g, '\n'))
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error('AUDIT_SIGNING_PRIVATE_KEY must be an Ed25519 key')
+  }
+
+  return key
+}
+
+/**
+ * Get the public half of the signing key, for auditors
+ *
+ * @returns PEM public key and its id (first 16 hex characters of the
+ * SHA-256 of the DER-encoded key)
+ */
+export function getCheckpointPublicKey(): { pem: string; keyId: string } {
+  const publicKey = createPublicKey(getSigningKey())
+  const der = publicKey.export({ type: 'spki', format: 'der' })
+
+  return {
+    pem: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    keyId: createHash('sha256').update(der).digest('hex').substring(0, 16),
+  }
+}
+
+/**
+ * Sign a checkpoint
+ *
+ * @returns Base64 signature and the id of the key that made it
+ */
+export function signCheckpoint(payload: CheckpointPayload): { signature: string; keyId: string } {
+  const signature = sign(null, Buffer.from(checkpointMessage(payload), 'utf8'), getSigningKey())
+  return { signature: signature.toString('base64'), keyId: getCheckpointPublicKey().keyId }
+}
+
+/**
+ * Check a checkpoint signature against the configured key
+ */
+export function verifyCheckpointSignature(payload: CheckpointPayload, signature: string): boolean {
+  try {
+    const publicKey = createPublicKey(getSigningKey())
+    return verify(null, Buffer.from(checkpointMessage(payload), 'utf8'), publicKey, Buffer.from(signature, 'base64'))
+  } catch (error) {
+    console.error('Error verifying checkpoint signature:', error)
+    return false
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Text Diff Utility
+ *
+ * Line-based diff (longest common subsequence) laid out as rows for a
+ * side-by-side view. Safe to import from both client and server code.
+ */
+
+/**
+ * One row of a side-by-side diff
+ */
+export interface DiffRow {
+  type: 'same' | 'changed' | 'added' | 'removed'
+  left: string | null
+  right: string | null
+}
+
+// Above this many cells the LCS table is skipped and the texts are shown as replaced
+const MAX_DIFF_CELLS = 1_000_000
+
+/**
+ * Diff two texts line by line
+ *
+ * @param before - Original text (left side)
+ * @param after - New text (right side)
+ * @returns Rows pairing removed lines with added lines where they line up
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const left = before.split('\n')
+  const right = after.split('\n')
+
+  if (left.length * right.length > MAX_DIFF_CELLS) {
+    return pairChanges(left, right)
+  }
+
+  // lcs[i][j] = length of the LCS of left[i..] and right[j..]
+  const lcs: number[][] = Array.from({ length: left.length + 1 }, () => new Array(right.length + 1).fill(0))
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lcs[i][j] = left[i] === right[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const rows: DiffRow[] = []
+  let removed: string[] = []
+  let added: string[] = []
+  let i = 0
+  let j = 0
+
+  const flush = () => {
+    rows.push(...pairChanges(removed, added))
+    removed = []
+    added = []
+  }
+
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && left[i] === right[j]) {
+      flush()
+      rows.push({ type: 'same', left: left[i], right: right[j] })
+      i++
+      j++
+    } else if (j >= right.length || (i < left.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(left[i++])
+    } else {
+      added.push(right[j++])
+    }
+  }
+  flush()
+
+  return rows
+}
+
+/**
+ * Pair a block of removed lines with a block of added lines
+ */
+function pairChanges(removed: string[], added: string[]): DiffRow[] {
+  const rows: DiffRow[] = []
+
+  for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+    const left = k < removed.length ? removed[k] : null
+    const right = k < added.length ? added[k] : null
+    rows.push({
+      type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added',
+      left,
+      right,
+    })
+  }
+
+  return rows
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { conditionalDecrypt, DecryptionError, encryptEntry } from './encryption'
+
+const ENTRY_ID = '33333333-3333-3333-3333-333333333333'
+const NO_KEY = { id: ENTRY_ID, encrypted_data_key: null, key_version: null }
+
+describe('conditionalDecrypt', () => {
+  it('returns content of entries that are not sensitive as stored', () => {
+    expect(conditionalDecrypt('plain value', false, NO_KEY)).toBe('plain value')
+  })
+
+  it('decrypts envelope ciphertexts with the entry data key', () => {
+    const encrypted = encryptEntry(ENTRY_ID, { content: 'secret value', isSensitive: true })
+    const entry = { id: ENTRY_ID, ...encrypted }
+
+    expect(conditionalDecrypt(encrypted.content!, true, entry)).toBe('secret value')
+  })
+
+  it('throws for sensitive content stored as plain text', () => {
+    expect(() => conditionalDecrypt('secret value', true, NO_KEY)).toThrow(DecryptionError)
+  })
+
+  it('throws for current-format ciphertext without its data key', () => {
+    const encrypted = encryptEntry(ENTRY_ID, { content: 'secret value', isSensitive: true })
+
+    expect(() => conditionalDecrypt(encrypted.content!, true, NO_KEY)).toThrow(DecryptionError)
+  })
+})
@@ -1,118 +1,529 @@
 /**
  * Encryption Utility Functions
- * 
- * Provides AES-256 encryption/decryption for sensitive data
- * Uses environment variable for encryption key
+ *
+ * Provides AES-256-GCM authenticated encryption for sensitive data
+ * Uses envelope encryption: each entry gets its own random data key,
+ * which is wrapped by a versioned master key from the environment.
+ * Ciphertexts are bound to their entry id as associated data.
  */
 
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
 import CryptoJS from 'crypto-js'
 
+/**
+ * Prefix identifying the current ciphertext format
+ * Layout after the prefix: base64(iv | auth tag | ciphertext)
+ */
+export const CIPHERTEXT_PREFIX = 'vb2:'
+
+const IV_LENGTH = 12
+const AUTH_TAG_LENGTH = 16
+
+/**
+ * Encrypted content ready to be stored on a knowledge_entries row
+ */
+export interface EncryptedContent {
+  content: string
+  encrypted_data_key: string | null
+  key_version: number | null
+}
+
+/**
+ * Structured field values stored on a knowledge_entries row
+ */
+export type EntryFieldValues = Record<string, string | string[]>
+
+/**
+ * Encrypted content and fields sharing one wrapped data key
+ */
+export interface EncryptedEntry extends EncryptedContent {
+  fields: EntryFieldValues | null
+}
+
+/**
+ * Key material stored alongside an encrypted entry
+ */
+export interface EntryKeyInfo {
+  id: string
+  encrypted_data_key?: string | null
+  key_version?: number | null
+}
+
+/**
+ * Raised when a ciphertext cannot be authenticated or decrypted
+ */
+export class DecryptionError extends Error {
+  constructor(message: string = 'Failed to decrypt text') {
+    super(message)
+    this.name = 'DecryptionError'
+  }
+}
+
 /**
  * Get encryption key from environment variable
  * Falls back to a default key if not set (NOT RECOMMENDED for production)
  */
 function getEncryptionKey(): string {
   const key = process.env.ENCRYPTION_SECRET_KEY
-  
+
   if (!key) {
     // Only use default in development
     if (process.env.NODE_ENV === 'production') {
       throw new Error('ENCRYPTION_SECRET_KEY must be set in production environment')
     }
-    
+
     // Development fallback key (32 characters for AES-256)
     return 'dev-fallback-key-32chars-long!'
   }
-  
+
   return key
 }
 
 /**
- * Encrypt sensitive text using AES-256
- * 
- * @param plainText - The text to encrypt
- * @returns Encrypted text (base64 encoded)
+ * Get all configured master keys, indexed by version
+ *
+ * Reads ENCRYPTION_MASTER_KEYS as a comma-separated list of
+ * `version:base64key` pairs (e.g. "1:abc...,2:def..."). When unset,
+ * version 1 is derived from ENCRYPTION_SECRET_KEY so existing
+ * installations keep working without extra configuration.
+ */
+function getMasterKeys(): Map<number, Buffer> {
+  const keys = new Map<number, Buffer>()
+  const configured = process.env.ENCRYPTION_MASTER_KEYS
+
+  if (!configured) {
+    keys.set(1, createHash('sha256').update(getEncryptionKey()).digest())
+    return keys
+  }
+
+  configured.split(',').forEach(pair => {
+    const [version, key] = pair.trim().split(':')
+    const parsedVersion = parseInt(version)
+
+    if (!key || isNaN(parsedVersion)) {
+      throw new Error('ENCRYPTION_MASTER_KEYS must be formatted as version:base64key pairs')
+    }
+
+    const keyBytes = Buffer.from(key, 'base64')
+    if (keyBytes.length !== 32) {
+      throw new Error(`Master key version ${parsedVersion} must be 32 bytes`)
+    }
+
+    keys.set(parsedVersion, keyBytes)
+  })
+
+  return keys
+}
+
+/**
+ * Get the master key version used for new data keys
+ * Defaults to the highest configured version
  */
-export function encryptText(plainText: string): string {
-  if (!plainText) return ''
-  
+export function getActiveKeyVersion(): number {
+  const configured = process.env.ENCRYPTION_ACTIVE_KEY_VERSION
+  const keys = getMasterKeys()
+
+  if (configured) {
+    const version = parseInt(configured)
+    if (!keys.has(version)) {
+      throw new Error(`ENCRYPTION_ACTIVE_KEY_VERSION ${configured} has no matching master key`)
+    }
+    return version
+  }
+
+  return Math.max(...Array.from(keys.keys()))
+}
+
+/**
+ * Get the master key for a specific version
+ */
+function getMasterKey(version: number): Buffer {
+  const key = getMasterKeys().get(version)
+  if (!key) {
+    throw new Error(`Master key version ${version} is not configured`)
+  }
+  return key
+}
+
+/**
+ * Associated data binding entry content to its row
+ */
+function contentAad(entryId: string): string {
+  return `entry:${entryId}`
+}
+
+/**
+ * Associated data binding a structured field to its row and field name
+ */
+function fieldAad(entryId: string, field: string): string {
+  return `entry:${entryId}:field:${field}`
+}
+
+/**
+ * Associated data binding a wrapped data key to its row and master key version
+ */
+function dataKeyAad(entryId: string, version: number): string {
+  return `key:${entryId}:v${version}`
+}
+
+/**
+ * Encrypt bytes with AES-256-GCM
+ * Output format: vb2:base64(iv | auth tag | ciphertext)
+ */
+function sealWithKey(plain: Buffer, key: Buffer, aad: string): string {
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  cipher.setAAD(Buffer.from(aad, 'utf8'))
+
+  const ciphertext = Buffer.concat([cipher.update(plain), cipher.final()])
+  const authTag = cipher.getAuthTag()
+
+  return CIPHERTEXT_PREFIX + Buffer.concat([iv, authTag, ciphertext]).toString('base64')
+}
+
+/**
+ * Decrypt and authenticate a ciphertext produced by sealWithKey
+ */
+function openWithKey(sealed: string, key: Buffer, aad: string): Buffer {
+  if (!sealed.startsWith(CIPHERTEXT_PREFIX)) {
+    throw new DecryptionError('Unrecognized ciphertext format')
+  }
+
+  const payload = Buffer.from(sealed.slice(CIPHERTEXT_PREFIX.length), 'base64')
+  if (payload.length < IV_LENGTH + AUTH_TAG_LENGTH) {
+    throw new DecryptionError('Ciphertext is truncated')
+  }
+
+  const iv = payload.subarray(0, IV_LENGTH)
+  const authTag = payload.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH)
+  const ciphertext = payload.subarray(IV_LENGTH + AUTH_TAG_LENGTH)
+
   try {
-    const key = getEncryptionKey()
-    const encrypted = CryptoJS.AES.encrypt(plainText, key).toString()
-    return encrypted
-  } catch (error) {
-    throw new Error('Failed to encrypt text')
+    const decipher = createDecipheriv('aes-256-gcm', key, iv)
+    decipher.setAAD(Buffer.from(aad, 'utf8'))
+    decipher.setAuthTag(authTag)
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()])
+  } catch {
+    throw new DecryptionError('Ciphertext failed authentication')
   }
 }
 
 /**
- * Decrypt encrypted text
- * 
+ * Decrypt the pre-GCM envelope format: base64(iv):base64(ciphertext), AES-256-CBC
+ */
+function openLegacyEnvelope(encryptedText: string, key: Buffer): Buffer {
+  const [ivPart, cipherPart] = encryptedText.split(':')
+  if (!ivPart || !cipherPart) {
+    throw new DecryptionError('Malformed envelope ciphertext')
+  }
+
+  try {
+    const decipher = createDecipheriv('aes-256-cbc', key, Buffer.from(ivPart, 'base64'))
+    return Buffer.concat([decipher.update(Buffer.from(cipherPart, 'base64')), decipher.final()])
+  } catch {
+    throw new DecryptionError('Decryption failed - invalid key or corrupted data')
+  }
+}
+
+/**
+ * Wrap a data key with a master key
+ *
+ * @param dataKey - Raw 32-byte data key
+ * @param entryId - Entry the data key belongs to
+ * @param version - Master key version (defaults to the active version)
+ * @returns Wrapped data key and the master key version used
+ */
+export function wrapDataKey(
+  dataKey: Buffer,
+  entryId: string,
+  version: number = getActiveKeyVersion()
+): { encryptedDataKey: string; keyVersion: number } {
+  return {
+    encryptedDataKey: sealWithKey(dataKey, getMasterKey(version), dataKeyAad(entryId, version)),
+    keyVersion: version,
+  }
+}
+
+/**
+ * Unwrap a data key with the master key it was wrapped under
+ *
+ * @param encryptedDataKey - Wrapped data key
+ * @param version - Master key version
+ * @param entryId - Entry the data key belongs to
+ * @returns Raw 32-byte data key
+ */
+export function unwrapDataKey(encryptedDataKey: string, version: number, entryId: string): Buffer {
+  const masterKey = getMasterKey(version)
+
+  if (encryptedDataKey.startsWith(CIPHERTEXT_PREFIX)) {
+    return openWithKey(encryptedDataKey, masterKey, dataKeyAad(entryId, version))
+  }
+
+  // Pre-GCM envelopes wrapped the hex encoded data key
+  return Buffer.from(openLegacyEnvelope(encryptedDataKey, masterKey).toString('utf8'), 'hex')
+}
+
+/**
+ * Re-wrap a data key under another master key version
+ * The entry content itself is never decrypted
+ *
+ * @param encryptedDataKey - Currently wrapped data key
+ * @param fromVersion - Master key version it is wrapped under
+ * @param entryId - Entry the data key belongs to
+ * @param toVersion - Target master key version (defaults to the active version)
+ */
+export function rewrapDataKey(
+  encryptedDataKey: string,
+  fromVersion: number,
+  entryId: string,
+  toVersion: number = getActiveKeyVersion()
+): { encryptedDataKey: string; keyVersion: number } {
+  const dataKey = unwrapDataKey(encryptedDataKey, fromVersion, entryId)
+  return wrapDataKey(dataKey, entryId, toVersion)
+}
+
+/**
+ * Encrypt text under a freshly generated data key
+ *
+ * @param plainText - The text to encrypt
+ * @param entryId - Entry the ciphertext is bound to
+ * @returns Ciphertext with its wrapped data key and key version
+ */
+export function encryptEnvelope(plainText: string, entryId: string): EncryptedContent {
+  const dataKey = randomBytes(32)
+  const { encryptedDataKey, keyVersion } = wrapDataKey(dataKey, entryId)
+
+  return {
+    content: sealWithKey(Buffer.from(plainText, 'utf8'), dataKey, contentAad(entryId)),
+    encrypted_data_key: encryptedDataKey,
+    key_version: keyVersion,
+  }
+}
+
+/**
+ * Decrypt envelope-encrypted text
+ *
+ * @param cipherText - Content encrypted under the entry's data key
+ * @param encryptedDataKey - Wrapped data key
+ * @param version - Master key version
+ * @param entryId - Entry the ciphertext is bound to
+ * @returns Decrypted plain text
+ */
+export function decryptEnvelope(
+  cipherText: string,
+  encryptedDataKey: string,
+  version: number,
+  entryId: string
+): string {
+  const dataKey = unwrapDataKey(encryptedDataKey, version, entryId)
+
+  const plain = cipherText.startsWith(CIPHERTEXT_PREFIX)
+    ? openWithKey(cipherText, dataKey, contentAad(entryId))
+    : openLegacyEnvelope(cipherText, dataKey)
+
+  return plain.toString('utf8')
+}
+
+/**
+ * Decrypt text from the original CryptoJS passphrase format
+ *
+ * @deprecated Only used to read entries written before envelope encryption
  * @param encryptedText - The encrypted text (base64 encoded)
  * @returns Decrypted plain text
  */
 export function decryptText(encryptedText: string): string {
   if (!encryptedText) return ''
-  
+
   try {
     const key = getEncryptionKey()
     const decrypted = CryptoJS.AES.decrypt(encryptedText, key)
     const plainText = decrypted.toString(CryptoJS.enc.Utf8)
-    
+
     if (!plainText) {
       throw new Error('Decryption failed - invalid key or corrupted data')
     }
-    
+
     return plainText
   } catch (error) {
-    throw new Error('Failed to decrypt text')
+    throw new DecryptionError()
   }
 }
 
 /**
  * Check if a string appears to be encrypted
- * 
+ *
  * @param text - Text to check
- * @returns true if text looks encrypted
+ * @returns true if text is in the current format or looks like a legacy ciphertext
  */
 export function isEncrypted(text: string): boolean {
   if (!text) return false
-  
-  // AES encrypted strings are base64 and typically contain '=' padding
-  // and have a specific pattern
-  const base64Pattern = /^[A-Za-z0-9+/]+={0,2}$/
-  return base64Pattern.test(text) && text.length > 40
+  if (text.startsWith(CIPHERTEXT_PREFIX)) return true
+
+  // Legacy CryptoJS output is base64 starting with "Salted__"
+  return text.startsWith('U2FsdGVkX1')
+}
+
+/**
+ * Encrypt entry content and sensitive fields under a single data key
+ *
+ * Content is encrypted when the entry is sensitive; fields listed in
+ * sensitiveFields are always encrypted. An existing data key is reused
+ * so parts of the entry that are not being rewritten stay decryptable.
+ *
+ * @param entryId - Entry the ciphertexts are bound to
+ * @param payload - Content, entry sensitivity, field values and sensitive field keys
+ * @param existing - Current key material of the entry, if any
+ * @returns Row fields: content, fields and the wrapped data key
+ */
+export function encryptEntry(
+  entryId: string,
+  payload: {
+    content: string
+    isSensitive: boolean
+    fields?: EntryFieldValues | null
+    sensitiveFields?: string[]
+  },
+  existing?: EntryKeyInfo
+): EncryptedEntry {
+  const { content, isSensitive, fields = null, sensitiveFields = [] } = payload
+  const shouldEncryptContent = isSensitive && !!content
+  const fieldsToEncrypt = fields
+    ? sensitiveFields.filter(key => typeof fields[key] === 'string' && fields[key] !== '')
+    : []
+
+  let dataKey: Buffer | null = null
+  let keyInfo: Pick<EncryptedContent, 'encrypted_data_key' | 'key_version'> = {
+    encrypted_data_key: null,
+    key_version: null,
+  }
+
+  if (existing?.encrypted_data_key && existing.key_version) {
+    dataKey = unwrapDataKey(existing.encrypted_data_key, existing.key_version, entryId)
+    keyInfo = { encrypted_data_key: existing.encrypted_data_key, key_version: existing.key_version }
+  } else if (shouldEncryptContent || fieldsToEncrypt.length > 0) {
+    dataKey = randomBytes(32)
+    const { encryptedDataKey, keyVersion } = wrapDataKey(dataKey, entryId)
+    keyInfo = { encrypted_data_key: encryptedDataKey, key_version: keyVersion }
+  }
+
+  try {
+    const encryptedFields = fields ? { ...fields } : null
+    fieldsToEncrypt.forEach(key => {
+      encryptedFields![key] = sealWithKey(
+        Buffer.from(fields![key] as string, 'utf8'),
+        dataKey!,
+        fieldAad(entryId, key)
+      )
+    })
+
+    return {
+      content: shouldEncryptContent
+        ? sealWithKey(Buffer.from(content, 'utf8'), dataKey!, contentAad(entryId))
+        : content,
+      fields: encryptedFields,
+      ...keyInfo,
+    }
+  } catch (error) {
+    throw new Error('Failed to encrypt text')
+  }
+}
+
+/**
+ * Decrypt the sensitive fields of an entry
+ *
+ * @param fields - Stored field values
+ * @param sensitiveFields - Keys of fields that are stored encrypted
+ * @param entry - Entry id, wrapped data key and key version
+ * @returns Field values with sensitive fields decrypted
+ */
+export function decryptEntryFields(
+  fields: EntryFieldValues | null,
+  sensitiveFields: string[],
+  entry: EntryKeyInfo
+): EntryFieldValues | null {
+  if (!fields) return fields
+
+  const encryptedKeys = sensitiveFields.filter(key => typeof fields[key] === 'string' && fields[key] !== '')
+  if (encryptedKeys.length === 0) return fields
+
+  if (!entry.encrypted_data_key || !entry.key_version) {
+    throw new DecryptionError('Missing data key for encrypted fields')
+  }
+
+  try {
+    const dataKey = unwrapDataKey(entry.encrypted_data_key, entry.key_version, entry.id)
+    const decrypted = { ...fields }
+
+    encryptedKeys.forEach(key => {
+      decrypted[key] = openWithKey(fields[key] as string, dataKey, fieldAad(entry.id, key)).toString('utf8')
+    })
+
+    return decrypted
+  } catch (error) {
+    if (error instanceof DecryptionError) throw error
+    throw new DecryptionError()
+  }
 }
 
 /**
  * Encrypt only if marked as sensitive
- * 
+ *
  * @param text - Text to conditionally encrypt
  * @param isSensitive - Whether the text should be encrypted
- * @returns Encrypted text if sensitive, original text otherwise
+ * @param entryId - Entry the ciphertext is bound to
+ * @returns Row fields: encrypted content with its wrapped data key, or the original text
  */
-export function conditionalEncrypt(text: string, isSensitive: boolean): string {
-  if (!isSensitive) return text
-  return encryptText(text)
+export function conditionalEncrypt(
+  text: string,
+  isSensitive: boolean,
+  entryId: string
+): EncryptedContent {
+  const { content, encrypted_data_key, key_version } = encryptEntry(entryId, {
+    content: text,
+    isSensitive,
+  })
+  return { content, encrypted_data_key, key_version }
 }
 
 /**
  * Decrypt only if needed
- * 
+ *
+ * Entries with a wrapped data key are decrypted via their envelope;
+ * entries without one are treated as legacy passphrase ciphertexts.
+ * Throws DecryptionError when a ciphertext is tampered, truncated or
+ * bound to a different entry, and when sensitive content is not stored
+ * as a ciphertext at all.
+ *
  * @param text - Text to conditionally decrypt
  * @param isSensitive - Whether the text is encrypted
+ * @param entry - Entry id, wrapped data key and key version
  * @returns Decrypted text if sensitive, original text otherwise
  */
-export function conditionalDecrypt(text: string, isSensitive: boolean): string {
-  if (!isSensitive) return text
-  
-  // Check if actually encrypted before attempting decryption
-  if (!isEncrypted(text)) return text
-  
-  try {
-    return decryptText(text)
-  } catch {
-    // If decryption fails, return original (might be legacy unencrypted data)
-    return text
+export function conditionalDecrypt(
+  text: string,
+  isSensitive: boolean,
+  entry: EntryKeyInfo
+): string {
+  if (!isSensitive || !text) return text
+
+  if (entry.encrypted_data_key && entry.key_version) {
+    try {
+      return decryptEnvelope(text, entry.encrypted_data_key, entry.key_version, entry.id)
+    } catch (error) {
+      if (error instanceof DecryptionError) throw error
+      throw new DecryptionError()
+    }
   }
+
+  if (text.startsWith(CIPHERTEXT_PREFIX)) {
+    // Current-format ciphertext without its data key cannot be valid
+    throw new DecryptionError('Missing data key for encrypted content')
+  }
+
+  // Sensitive content is never served as stored plain text
+  if (!isEncrypted(text)) {
+    throw new DecryptionError('Sensitive content is not encrypted')
+  }
+
+  return decryptText(text)
 }
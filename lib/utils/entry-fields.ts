@@ -0,0 +1,256 @@
+/**
+ * Entry Field Schemas
+ *
+ * Typed, per-category fields for structured entries (credentials, links, SOPs)
+ * with per-field sensitivity. Safe to import from both client and server code.
+ */
+
+import type { EntryCategory } from '@/lib/api/entries'
+
+/**
+ * Supported field input types
+ */
+export type EntryFieldType = 'text' | 'secret' | 'totp' | 'url' | 'textarea' | 'list'
+
+/**
+ * Field definition within a category schema
+ */
+export interface EntryFieldDefinition {
+  key: string
+  label: string
+  type: EntryFieldType
+  required?: boolean
+  sensitive?: boolean
+  placeholder?: string
+}
+
+/**
+ * Stored field values (list fields hold string arrays)
+ */
+export type EntryFields = Record<string, string | string[]>
+
+/**
+ * Mask shown in place of sensitive field values
+ */
+export const MASKED_FIELD_VALUE = '••••••••'
+
+const MAX_FIELD_LENGTH = 10000
+const MAX_LIST_ITEMS = 200
+
+/**
+ * Check that a TOTP field holds a base32 seed or an otpauth://totp URI
+ */
+function isValidTotpSecret(value: string): boolean {
+  if (value.toLowerCase().startsWith('otpauth://')) {
+    try {
+      const url = new URL(value)
+      return url.host === 'totp' && isValidTotpSecret(url.searchParams.get('secret') || '')
+    } catch {
+      return false
+    }
+  }
+  return /^[A-Z2-7]+=*$/i.test(value.replace(/\s/g, ''))
+}
+
+/**
+ * Field schema for each entry category
+ */
+export const ENTRY_FIELD_SCHEMAS: Record<EntryCategory, EntryFieldDefinition[]> = {
+  credential: [
+    { key: 'username', label: 'Username', type: 'text', placeholder: 'admin@example.com' },
+    { key: 'password', label: 'Password', type: 'secret', required: true, sensitive: true },
+    { key: 'url', label: 'URL', type: 'url', placeholder: 'https://' },
+    { key: 'totp', label: 'TOTP Secret', type: 'totp', sensitive: true, placeholder: 'Base32 seed or otpauth:// URI' },
+    { key: 'notes', label: 'Notes', type: 'textarea' },
+  ],
+  link: [
+    { key: 'url', label: 'URL', type: 'url', required: true, placeholder: 'https://' },
+    { key: 'description', label: 'Description', type: 'textarea' },
+  ],
+  sop: [
+    { key: 'steps', label: 'Steps', type: 'list', required: true, placeholder: 'One step per line' },
+  ],
+  document: [],
+}
+
+/**
+ * Get the field schema for a category
+ */
+export function getFieldSchema(category: EntryCategory): EntryFieldDefinition[] {
+  return ENTRY_FIELD_SCHEMAS[category] || []
+}
+
+/**
+ * Check if a category uses structured fields
+ */
+export function hasFieldSchema(category: EntryCategory): boolean {
+  return getFieldSchema(category).length > 0
+}
+
+/**
+ * Get the keys of sensitive fields for a category
+ */
+export function getSensitiveFieldKeys(category: EntryCategory): string[] {
+  return getFieldSchema(category)
+    .filter(field => field.sensitive)
+    .map(field => field.key)
+}
+
+/**
+ * Check whether a field value is empty
+ */
+function isEmptyValue(value: string | string[] | undefined | null): boolean {
+  if (value === undefined || value === null) return true
+  if (Array.isArray(value)) return value.length === 0
+  return value.trim().length === 0
+}
+
+/**
+ * Validate and normalize field values against the category schema
+ *
+ * @param category - Entry category
+ * @param fields - Raw field values from a request body
+ * @returns Normalized fields (empty values dropped) or a validation error
+ */
+export function validateEntryFields(
+  category: EntryCategory,
+  fields: unknown
+): { valid: true; fields: EntryFields } | { valid: false; error: string } {
+  const schema = getFieldSchema(category)
+
+  if (schema.length === 0) {
+    return { valid: false, error: `Category "${category}" does not support structured fields` }
+  }
+
+  if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+    return { valid: false, error: 'fields must be an object' }
+  }
+
+  const input = fields as Record<string, unknown>
+  const allowedKeys = schema.map(field => field.key)
+  const unknownKey = Object.keys(input).find(key => !allowedKeys.includes(key))
+  if (unknownKey) {
+    return { valid: false, error: `Unknown field "${unknownKey}" for category "${category}"` }
+  }
+
+  const normalized: EntryFields = {}
+
+  for (const field of schema) {
+    const value = input[field.key]
+
+    if (field.type === 'list') {
+      if (value !== undefined && value !== null && !Array.isArray(value)) {
+        return { valid: false, error: `${field.label} must be a list` }
+      }
+      const items = ((value as unknown[]) || [])
+        .map(item => (typeof item === 'string' ? item.trim() : item))
+        .filter(item => item !== '')
+
+      if (items.some(item => typeof item !== 'string' || item.length > MAX_FIELD_LENGTH)) {
+        return { valid: false, error: `${field.label} must contain text items` }
+      }
+      if (items.length > MAX_LIST_ITEMS) {
+        return { valid: false, error: `${field.label} cannot have more than ${MAX_LIST_ITEMS} items` }
+      }
+      if (items.length > 0) normalized[field.key] = items as string[]
+    } else {
+      if (value !== undefined && value !== null && typeof value !== 'string') {
+        return { valid: false, error: `${field.label} must be text` }
+      }
+      const text = ((value as string) || '').trim()
+
+      if (text.length > MAX_FIELD_LENGTH) {
+        return { valid: false, error: `${field.label} is too long` }
+      }
+      if (text && field.type === 'url') {
+        try {
+          const url = new URL(text)
+          if (!['http:', 'https:'].includes(url.protocol)) throw new Error()
+        } catch {
+          return { valid: false, error: `${field.label} must be a valid http(s) URL` }
+        }
+      }
+      if (text && field.type === 'totp' && !isValidTotpSecret(text)) {
+        return { valid: false, error: `${field.label} must be a base32 secret or otpauth://totp URI` }
+      }
+      if (text) normalized[field.key] = text
+    }
+
+    if (field.required && isEmptyValue(normalized[field.key])) {
+      return { valid: false, error: `${field.label} is required` }
+    }
+  }
+
+  return { valid: true, fields: normalized }
+}
+
+/**
+ * Replace sensitive field values with a mask for list views
+ *
+ * @param category - Entry category
+ * @param fields - Stored field values
+ * @returns Fields with sensitive values masked
+ */
+export function maskEntryFields(
+  category: EntryCategory,
+  fields: EntryFields | null
+): EntryFields | null {
+  if (!fields) return fields
+
+  const sensitiveKeys = getSensitiveFieldKeys(category)
+  const masked: EntryFields = { ...fields }
+
+  sensitiveKeys.forEach(key => {
+    if (masked[key] !== undefined) {
+      masked[key] = MASKED_FIELD_VALUE
+    }
+  })
+
+  return masked
+}
+
+/**
+ * Format a field value as plain text (for exports and copying)
+ */
+export function formatFieldValue(value: string | string[]): string {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => `${index + 1}. ${item}`).join('\n')
+  }
+  return value
+}
+
+/**
+ * Convert form input values (list fields as one item per line) into field values
+ */
+export function fieldsFromForm(
+  category: EntryCategory,
+  values: Record<string, string>
+): EntryFields {
+  const fields: EntryFields = {}
+
+  getFieldSchema(category).forEach(field => {
+    const value = values[field.key] || ''
+    fields[field.key] = field.type === 'list'
+      ? value.split('\n').map(item => item.trim()).filter(item => item.length > 0)
+      : value
+  })
+
+  return fields
+}
+
+/**
+ * Convert stored field values into form input values
+ */
+export function fieldsToForm(
+  category: EntryCategory,
+  fields: EntryFields | null
+): Record<string, string> {
+  const values: Record<string, string> = {}
+
+  getFieldSchema(category).forEach(field => {
+    const value = fields?.[field.key]
+    values[field.key] = Array.isArray(value) ? value.join('\n') : value || ''
+  })
+
+  return values
+}
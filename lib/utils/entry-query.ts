@@ -0,0 +1,260 @@
+/**
+ * Entry Query Language
+ *
+ * Parses the search text of entry lists into a typed query and compiles it
+ * into PostgREST filters. The language:
+ *
+ * - `word` matches titles, tags and non-sensitive content; `*` matches any
+ *   characters
+ * - `"exact phrase"` matches the phrase as a whole
+ * - `tag:aws`, `category:credential`, `classification:internal` match a
+ *   field (`tag:"two words"` for values with spaces)
+ * - `-` before any of the above excludes its matches
+ *
+ * Terms are combined with AND. Values are quoted when compiled, so commas,
+ * parentheses or dots in a search cannot change the filter.
+ */
+
+import type { EntryCategory, EntryClassification } from '@/lib/api/entries'
+
+export const QUERY_FIELDS = ['tag', 'category', 'classification'] as const
+
+export type QueryField = typeof QUERY_FIELDS[number]
+
+const CATEGORIES: EntryCategory[] = ['credential', 'sop', 'link', 'document']
+const CLASSIFICATIONS: EntryClassification[] = ['public', 'internal', 'confidential', 'restricted']
+
+/**
+ * Longest search accepted
+ */
+export const MAX_QUERY_LENGTH = 200
+
+/**
+ * Most terms in a search
+ */
+export const MAX_QUERY_TERMS = 10
+
+/**
+ * Characters allowed in tag values (tags are matched as array literals)
+ */
+const TAG_PATTERN = /^[\p{L}\p{N} _.\-/+#@:]+$/u
+
+/**
+ * A term of a parsed query
+ */
+export type QueryTerm =
+  | { type: 'word'; value: string; negated: boolean }
+  | { type: 'phrase'; value: string; negated: boolean }
+  | { type: 'field'; field: QueryField; value: string; negated: boolean }
+
+/**
+ * A parsed query: entries must match every term
+ */
+export interface EntryQuery {
+  terms: QueryTerm[]
+}
+
+export type QueryErrorReason =
+  | 'TOO_LONG'
+  | 'TOO_MANY_TERMS'
+  | 'UNTERMINATED_PHRASE'
+  | 'EMPTY_TERM'
+  | 'EMPTY_VALUE'
+  | 'INVALID_VALUE'
+
+/**
+ * Why a query could not be parsed, and where (character offset)
+ */
+export interface QueryError {
+  reason: QueryErrorReason
+  message: string
+  position: number
+}
+
+function isSpace(char: string | undefined): boolean {
+  return char !== undefined && /\s/.test(char)
+}
+
+/**
+ * Read a quoted string starting at the opening quote
+ *
+ * @returns The string and the offset after the closing quote, or null if
+ *   it is not closed
+ */
+function readQuoted(input: string, start: number): { value: string; end: number } | null {
+  const close = input.indexOf('"', start + 1)
+  if (close === -1) return null
+  return { value: input.slice(start + 1, close), end: close + 1 }
+}
+
+/**
+ * Read a bare word: everything up to the next whitespace
+ */
+function readBare(input: string, start: number): { value: string; end: number } {
+  let end = start
+  while (end < input.length && !isSpace(input[end])) end++
+  return { value: input.slice(start, end), end }
+}
+
+/**
+ * Check a field value, normalising it
+ */
+function checkFieldValue(field: QueryField, value: string, position: number): { value: string } | { error: QueryError } {
+  if (field === 'category' || field === 'classification') {
+    const allowed: string[] = field === 'category' ? CATEGORIES : CLASSIFICATIONS
+    const normalised = value.toLowerCase()
+    if (!allowed.includes(normalised)) {
+      return {
+        error: {
+          reason: 'INVALID_VALUE',
+          message: `${field} must be one of: ${allowed.join(', ')}`,
+          position,
+        },
+      }
+    }
+    return { value: normalised }
+  }
+
+  if (!TAG_PATTERN.test(value)) {
+    return {
+      error: {
+        reason: 'INVALID_VALUE',
+        message: 'tag may only contain letters, digits, spaces and _ . - / + # @ :',
+        position,
+      },
+    }
+  }
+  return { value }
+}
+
+/**
+ * Parse search text
+ *
+ * @returns The query, or the first error found
+ */
+export function parseEntryQuery(input: string): { query: EntryQuery } | { error: QueryError } {
+  if (input.length > MAX_QUERY_LENGTH) {
+    return {
+      error: {
+        reason: 'TOO_LONG',
+        message: `Search must be at most ${MAX_QUERY_LENGTH} characters`,
+        position: MAX_QUERY_LENGTH,
+      },
+    }
+  }
+
+  const terms: QueryTerm[] = []
+  let i = 0
+
+  while (i < input.length) {
+    if (isSpace(input[i])) {
+      i++
+      continue
+    }
+
+    const start = i
+    const negated = input[i] === '-'
+    if (negated) i++
+
+    if (i >= input.length || isSpace(input[i])) {
+      return { error: { reason: 'EMPTY_TERM', message: 'Nothing to exclude after -', position: start } }
+    }
+
+    let term: QueryTerm
+    const field = /^([a-z]+):/i.exec(input.slice(i))
+    const fieldName = field?.[1].toLowerCase() as QueryField | undefined
+
+    if (input[i] === '"') {
+      const quoted = readQuoted(input, i)
+      if (!quoted) {
+        return { error: { reason: 'UNTERMINATED_PHRASE', message: 'Phrase is missing its closing quote', position: i } }
+      }
+      if (!quoted.value.trim()) {
+        return { error: { reason: 'EMPTY_TERM', message: 'Phrase is empty', position: i } }
+      }
+      term = { type: 'phrase', value: quoted.value, negated }
+      i = quoted.end
+    } else if (field && fieldName && QUERY_FIELDS.includes(fieldName)) {
+      const valueStart = i + field[0].length
+      const read = input[valueStart] === '"' ? readQuoted(input, valueStart) : readBare(input, valueStart)
+      if (!read) {
+        return { error: { reason: 'UNTERMINATED_PHRASE', message: 'Value is missing its closing quote', position: valueStart } }
+      }
+      if (!read.value.trim()) {
+        return { error: { reason: 'EMPTY_VALUE', message: `${fieldName} needs a value`, position: valueStart } }
+      }
+      const checked = checkFieldValue(fieldName, read.value.trim(), valueStart)
+      if ('error' in checked) return checked
+      term = { type: 'field', field: fieldName, value: checked.value, negated }
+      i = read.end
+    } else {
+      // Unknown prefixes (like https:) are part of the word
+      const read = readBare(input, i)
+      term = { type: 'word', value: read.value, negated }
+      i = read.end
+    }
+
+    if (terms.length === MAX_QUERY_TERMS) {
+      return {
+        error: { reason: 'TOO_MANY_TERMS', message: `Search can have at most ${MAX_QUERY_TERMS} terms`, position: start },
+      }
+    }
+    terms.push(term)
+  }
+
+  return { query: { terms } }
+}
+
+/**
+ * Quote a value for a PostgREST filter
+ */
+export function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/**
+ * Build an ilike pattern containing the text; only `*` is a wildcard
+ */
+function containsPattern(text: string): string {
+  const escaped = text.replace(/\\/g, '\\\\').replace(/%/g, '\\%').replace(/_/g, '\\_')
+  return quoteFilterValue(`*${escaped}*`)
+}
+
+/**
+ * Compile a term into a PostgREST logical filter
+ */
+function compileTerm(term: QueryTerm): string {
+  if (term.type === 'field') {
+    if (term.field === 'tag') {
+      return `tags.${term.negated ? 'not.' : ''}cs.{"${term.value}"}`
+    }
+    return `${term.field}.${term.negated ? 'neq' : 'eq'}.${term.value}`
+  }
+
+  // Content is only searched where it is stored as plain text, and only
+  // words that could be a tag are matched against tags
+  const pattern = containsPattern(term.value)
+  const tag = TAG_PATTERN.test(term.value) ? `{"${term.value}"}` : null
+
+  if (term.negated) {
+    const excluded = [
+      `title.not.ilike.${pattern}`,
+      ...(tag ? [`or(tags.is.null,tags.not.cs.${tag})`] : []),
+      `or(is_sensitive.is.true,is_client_encrypted.is.true,content.not.ilike.${pattern})`,
+    ]
+    return `and(${excluded.join(',')})`
+  }
+  return [
+    `title.ilike.${pattern}`,
+    ...(tag ? [`tags.cs.${tag}`] : []),
+    `and(is_sensitive.not.is.true,is_client_encrypted.not.is.true,content.ilike.${pattern})`,
+  ].join(',')
+}
+
+/**
+ * Apply a parsed query to an entries query
+ */
+export function applyEntryQuery<Q extends { or: (filters: string) => Q }>(builder: Q, query: EntryQuery): Q {
+  // Each call is ANDed with the others
+  return query.terms.reduce((filtered, term) => filtered.or(compileTerm(term)), builder)
+}
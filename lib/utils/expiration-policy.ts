@@ -0,0 +1,126 @@
+/**
+ * Expiration Policy Engine
+ *
+ * Picks the policy that governs an entry, works out the expiration date
+ * it imposes and classifies how urgent an expiration date is. Used by the
+ * entry routes, the expiring entries API and the daily cron job, so they
+ * all agree.
+ */
+
+import type { ExpirationPolicy, ExpiryStatus } from '@/lib/api/expiration-policies'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Urgency windows (days before expiration)
+ */
+export interface ExpiryWindows {
+  critical_days: number
+  warning_days: number
+  notice_days: number
+}
+
+/**
+ * Windows for entries no policy covers
+ */
+export const DEFAULT_EXPIRY_WINDOWS: ExpiryWindows = {
+  critical_days: 7,
+  warning_days: 14,
+  notice_days: 30,
+}
+
+/**
+ * The entry attributes policies match on
+ */
+export interface PolicyTarget {
+  category: string
+  classification: string
+  tags?: string[] | null
+}
+
+function matches(policy: ExpirationPolicy, entry: PolicyTarget): boolean {
+  return policy.enabled &&
+    (!policy.category || policy.category === entry.category) &&
+    (!policy.classification || policy.classification === entry.classification) &&
+    (!policy.tag || (entry.tags || []).includes(policy.tag))
+}
+
+function specificity(policy: ExpirationPolicy): number {
+  return [policy.category, policy.classification, policy.tag].filter(Boolean).length
+}
+
+/**
+ * The policy governing an entry: the matching enabled policy with the
+ * highest priority, then the most criteria, then the oldest
+ */
+export function resolveExpirationPolicy(
+  policies: ExpirationPolicy[],
+  entry: PolicyTarget
+): ExpirationPolicy | null {
+  return policies
+    .filter(policy => matches(policy, entry))
+    .sort((a, b) =>
+      b.priority - a.priority ||
+      specificity(b) - specificity(a) ||
+      a.created_at.localeCompare(b.created_at)
+    )[0] || null
+}
+
+/**
+ * Urgency windows for an entry
+ */
+export function getExpiryWindows(policy: ExpirationPolicy | null): ExpiryWindows {
+  return policy
+    ? { critical_days: policy.critical_days, warning_days: policy.warning_days, notice_days: policy.notice_days }
+    : { ...DEFAULT_EXPIRY_WINDOWS }
+}
+
+/**
+ * Whole days from now until an expiration date (negative once past)
+ */
+export function getDaysUntilExpiration(expirationDate: string, now = new Date()): number {
+  return Math.ceil((new Date(expirationDate).getTime() - now.getTime()) / DAY_MS)
+}
+
+/**
+ * Urgency of an expiration date, or null if it is outside every window
+ */
+export function getExpiryStatus(daysUntilExpiration: number, windows: ExpiryWindows = DEFAULT_EXPIRY_WINDOWS): ExpiryStatus | null {
+  if (daysUntilExpiration < 0) return 'expired'
+  if (daysUntilExpiration <= windows.critical_days) return 'critical'
+  if (daysUntilExpiration <= windows.warning_days) return 'warning'
+  if (daysUntilExpiration <= windows.notice_days) return 'notice'
+  return null
+}
+
+/**
+ * Expiration date for an entry under its policy
+ *
+ * A policy with `expire_after_days` sets a latest expiration date,
+ * counted from when the content last changed. An earlier requested date
+ * is kept; a later one (or none) is brought forward.
+ *
+ * @param policy - Governing policy
+ * @param requested - Date asked for or already set (null for none)
+ * @param changedAt - When the content last changed
+ */
+export function applyExpirationPolicy(
+  policy: ExpirationPolicy | null,
+  requested: string | null,
+  changedAt: Date
+): string | null {
+  if (!policy?.expire_after_days) return requested
+
+  const deadline = new Date(changedAt.getTime() + policy.expire_after_days * DAY_MS)
+  return requested && new Date(requested) <= deadline ? requested : deadline.toISOString()
+}
+
+/**
+ * Days ahead to look for entries that may be inside a window
+ */
+export function getLookaheadDays(policies: ExpirationPolicy[], window: keyof ExpiryWindows): number {
+  return Math.max(
+    DEFAULT_EXPIRY_WINDOWS[window],
+    ...policies.filter(policy => policy.enabled).map(policy => policy[window])
+  )
+}
@@ -0,0 +1,122 @@
+/**
+ * iCalendar Utilities
+ *
+ * Builds RFC 5545 calendars of all-day events for subscription feeds:
+ * text escaping, 75-octet line folding and CRLF line endings.
+ */
+
+/**
+ * An all-day event
+ */
+export interface CalendarEvent {
+  /** Globally unique and stable across feed refreshes */
+  uid: string
+  date: Date
+  summary: string
+  description: string
+  url: string
+  categories?: string[]
+  /** Show a reminder this many days before (none if omitted) */
+  reminderDays?: number
+}
+
+const MAX_LINE_OCTETS = 75
+
+/**
+ * Escape a TEXT value
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets, continuation
+ * lines starting with a space
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char)
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Build a calendar
+ *
+ * @param name - Calendar name shown by clients
+ * @param events - All-day events (dates are taken in UTC)
+ * @param now - Generation time, used as each event's DTSTAMP
+ */
+export function buildCalendar(name: string, events: CalendarEvent[], now = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//VaultBoard//Credential Expirations//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+  ]
+
+  events.forEach(event => {
+    const end = new Date(event.date)
+    end.setUTCDate(end.getUTCDate() + 1)
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatDateTime(now)}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+      `DTEND;VALUE=DATE:${formatDate(end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      `URL:${event.url}`,
+      'TRANSP:TRANSPARENT'
+    )
+    if (event.categories?.length) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`)
+    }
+    if (event.reminderDays !== undefined) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:-P${event.reminderDays}D`,
+        'END:VALARM'
+      )
+    }
+    lines.push('END:VEVENT')
+  })
+
+  lines.push('END:VCALENDAR')
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
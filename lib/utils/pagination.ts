@@ -0,0 +1,82 @@
+/**
+ * Cursor Pagination Utilities
+ *
+ * Keyset pagination of entry lists: a cursor holds the sort value and id
+ * of the last entry of a page, and the next page starts right after it.
+ * Unlike offsets, pages do not shift when entries are created or deleted
+ * meanwhile. Nulls sort last in both directions, with the id breaking ties.
+ */
+
+import { quoteFilterValue } from './entry-query'
+
+/**
+ * Fields entry lists can be sorted by, and so paged through with a cursor
+ */
+export const ENTRY_SORT_FIELDS = ['created_at', 'updated_at', 'last_accessed_at', 'title'] as const
+
+export type EntrySortField = typeof ENTRY_SORT_FIELDS[number]
+
+/**
+ * Position after the last entry of a page
+ */
+export interface EntryCursor {
+  value: string | null
+  id: string
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function isEntrySortField(field: string): field is EntrySortField {
+  return (ENTRY_SORT_FIELDS as readonly string[]).includes(field)
+}
+
+/**
+ * Encode the cursor following an entry
+ */
+export function encodeCursor(
+  entry: { id: string } & Partial<Record<EntrySortField, string | null>>,
+  sortBy: EntrySortField
+): string {
+  const cursor: EntryCursor = { value: entry[sortBy] ?? null, id: entry.id }
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+/**
+ * Decode a cursor from a request
+ *
+ * @returns The cursor, or null if it is malformed
+ */
+export function decodeCursor(cursor: string): EntryCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (typeof parsed?.id !== 'string' || !UUID_PATTERN.test(parsed.id)) return null
+    if (parsed.value !== null && typeof parsed.value !== 'string') return null
+    return { value: parsed.value, id: parsed.id }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Build the `.or()` filter matching the entries after a cursor
+ *
+ * @param sortBy - Sort field of the list
+ * @param ascending - Sort direction of the list
+ * @param cursor - Position after the last entry of the previous page
+ */
+export function buildCursorFilter(sortBy: EntrySortField, ascending: boolean, cursor: EntryCursor): string {
+  const op = ascending ? 'gt' : 'lt'
+  const id = quoteFilterValue(cursor.id)
+
+  // Past the last non-null value only the nulls remain
+  if (cursor.value === null) {
+    return `and(${sortBy}.is.null,id.${op}.${id})`
+  }
+
+  const value = quoteFilterValue(cursor.value)
+  return [
+    `${sortBy}.${op}.${value}`,
+    `and(${sortBy}.eq.${value},id.${op}.${id})`,
+    `${sortBy}.is.null`,
+  ].join(',')
+}
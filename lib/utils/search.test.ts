@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { toEntryTsQuery } from './search'
+import { parseEntryQuery } from './entry-query'
+
+function tsQuery(input: string): string | null {
+  const parsed = parseEntryQuery(input)
+  if ('error' in parsed) throw new Error(parsed.error.message)
+  return toEntryTsQuery(parsed.query)
+}
+
+describe('toEntryTsQuery', () => {
+  it('matches words as prefixes', () => {
+    expect(tsQuery('AWS prod-db')).toBe('aws:* & (prod:* & db:*)')
+  })
+
+  it('matches phrases as consecutive words', () => {
+    expect(tsQuery('"root password" vpn')).toBe('(root <-> password) & vpn:*')
+  })
+
+  it('negates excluded words and phrases', () => {
+    expect(tsQuery('aws -staging -"prod db"')).toBe('aws:* & !staging:* & !(prod <-> db)')
+  })
+
+  it('leaves field terms to the caller', () => {
+    expect(tsQuery('tag:aws -category:sop vpn')).toBe('vpn:*')
+    expect(tsQuery('tag:aws classification:internal')).toBeNull()
+  })
+
+  it('drops tsquery operators from the input', () => {
+    expect(tsQuery('a|b !c <-> d:*')).toBe('(a:* & b:*) & c:* & d:*')
+  })
+})
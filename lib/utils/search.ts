@@ -0,0 +1,86 @@
+/**
+ * Search Utilities
+ *
+ * Turning a parsed entry query into a Postgres tsquery, counting facets
+ * and splitting highlights for rendering.
+ */
+
+import { HIGHLIGHT_END, HIGHLIGHT_START, SearchFacets } from '@/lib/api/search'
+import type { EntryQuery } from './entry-query'
+
+/**
+ * Most tags returned as facets
+ */
+const MAX_TAG_FACETS = 20
+
+/**
+ * Build a tsquery from the words and phrases of a parsed query
+ *
+ * Words match as prefixes, phrases as consecutive words, and excluded
+ * terms are negated. Only letters and digits are kept, so no tsquery
+ * operators can be injected: `aws -"prod db"` becomes
+ * `aws:* & !(prod <-> db)`. Field terms are left to the caller.
+ *
+ * @returns The tsquery, or null if the query has no words
+ */
+export function toEntryTsQuery(query: EntryQuery): string | null {
+  const parts = query.terms.flatMap(term => {
+    if (term.type === 'field') return []
+    const words = term.value.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+    if (words.length === 0) return []
+
+    const matched = term.type === 'phrase'
+      ? words.join(' <-> ')
+      : words.map(word => `${word}:*`).join(' & ')
+    const grouped = words.length > 1 ? `(${matched})` : matched
+    return [term.negated ? `!${grouped}` : grouped]
+  })
+
+  return parts.length > 0 ? parts.join(' & ') : null
+}
+
+/**
+ * Count matches per category, classification and tag
+ */
+export function countFacets(
+  rows: { category: string; classification: string; tags: string[] | null }[]
+): SearchFacets {
+  const facets: SearchFacets = { category: {}, classification: {}, tags: [] }
+  const tags = new Map<string, number>()
+
+  rows.forEach(row => {
+    const category = row.category as keyof SearchFacets['category']
+    const classification = row.classification as keyof SearchFacets['classification']
+    facets.category[category] = (facets.category[category] || 0) + 1
+    facets.classification[classification] = (facets.classification[classification] || 0) + 1
+    ;(row.tags || []).forEach(tag => tags.set(tag, (tags.get(tag) || 0) + 1))
+  })
+
+  facets.tags = [...tags.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+    .slice(0, MAX_TAG_FACETS)
+
+  return facets
+}
+
+/**
+ * Split a highlight into plain and matched segments
+ */
+export function splitHighlights(text: string): { text: string; match: boolean }[] {
+  const segments: { text: string; match: boolean }[] = []
+
+  text.split(HIGHLIGHT_START).forEach((part, index) => {
+    if (index === 0) {
+      if (part) segments.push({ text: part, match: false })
+      return
+    }
+    const end = part.indexOf(HIGHLIGHT_END)
+    const matched = end === -1 ? part : part.slice(0, end)
+    const rest = end === -1 ? '' : part.slice(end + HIGHLIGHT_END.length)
+    if (matched) segments.push({ text: matched, match: true })
+    if (rest) segments.push({ text: rest, match: false })
+  })
+
+  return segments
+}
@@ -0,0 +1,238 @@
+/**
+ * Minimal SMTP Client
+ *
+ * Sends plain-text mail over SMTP with implicit TLS (port 465) or
+ * STARTTLS, authenticating with AUTH PLAIN. Credentials are never sent
+ * over an unencrypted connection.
+ * Server only - uses Node's net and tls modules
+ */
+
+import net from 'net'
+import tls from 'tls'
+import { hostname } from 'os'
+import { randomUUID } from 'crypto'
+
+const TIMEOUT_MS = 15000
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+}
+
+export interface MailMessage {
+  from: string
+  to: string
+  subject: string
+  text: string
+}
+
+/**
+ * Thrown when the server refuses a command or the connection fails
+ */
+export class SmtpError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SmtpError'
+  }
+}
+
+/**
+ * One connection to an SMTP server, read a line at a time
+ */
+class SmtpSession {
+  private socket!: net.Socket
+  private buffer = ''
+  private lines: string[] = []
+  private wake: (() => void) | null = null
+  private failure: Error | null = null
+
+  constructor(socket: net.Socket) {
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket
+    this.buffer = ''
+    socket.setTimeout(TIMEOUT_MS)
+
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8')
+      let index
+      while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+        this.lines.push(this.buffer.slice(0, index))
+        this.buffer = this.buffer.slice(index + 2)
+      }
+      this.wake?.()
+    })
+    socket.on('error', error => this.fail(error))
+    socket.on('timeout', () => {
+      this.fail(new SmtpError('SMTP connection timed out'))
+      socket.destroy()
+    })
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')))
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure || error
+    this.wake?.()
+  }
+
+  private async readLine(): Promise<string> {
+    while (this.lines.length === 0) {
+      if (this.failure) throw this.failure
+      await new Promise<void>(resolve => { this.wake = resolve })
+      this.wake = null
+    }
+    return this.lines.shift()!
+  }
+
+  /**
+   * Send a command (or nothing, for the greeting) and read the reply,
+   * which may span several `250-` lines
+   *
+   * @param verb - Command name for error messages, so arguments such as
+   *               credentials never appear in them
+   */
+  async command(line: string | null, expected: number[], verb = line?.split(' ')[0] || 'greeting'): Promise<string[]> {
+    if (line !== null) {
+      this.socket.write(`${line}\r\n`)
+    }
+
+    const reply: string[] = []
+    let current
+    do {
+      current = await this.readLine()
+      reply.push(current.substring(4))
+    } while (current[3] === '-')
+
+    const code = parseInt(current.substring(0, 3))
+    if (!expected.includes(code)) {
+      throw new SmtpError(`SMTP ${verb} failed: ${code} ${reply.join(' ')}`)
+    }
+
+    return reply
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS
+   */
+  async upgrade(servername: string) {
+    const plain = this.socket
+    plain.removeAllListeners('data')
+    plain.removeAllListeners('timeout')
+    plain.removeAllListeners('close')
+    // Anything received before the handshake is not trusted
+    this.lines = []
+
+    const secure = tls.connect({ socket: plain, servername })
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve)
+      secure.once('error', reject)
+    })
+    this.attach(secure)
+  }
+
+  write(data: string) {
+    this.socket.write(data)
+  }
+
+  close() {
+    this.socket.destroy()
+  }
+}
+
+/**
+ * Reject header values that could inject further headers
+ */
+function headerValue(value: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new SmtpError('Mail headers cannot contain line breaks')
+  }
+  return value
+}
+
+/**
+ * RFC 2047 encoding for non-ASCII header text
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+/**
+ * Bare address from `Name <address>` or `address`
+ */
+function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/)
+  return (match ? match[1] : mailbox).trim()
+}
+
+/**
+ * The message in wire format. The body is base64, so no line of it can
+ * start with a dot or exceed the line length limit.
+ */
+function formatMessage(message: MailMessage): string {
+  const domain = addressOf(message.from).split('@')[1] || 'localhost'
+  const body = Buffer.from(message.text, 'utf8').toString('base64').match(/.{1,76}/g) || []
+
+  return [
+    `From: ${headerValue(message.from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(headerValue(message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...body,
+  ].join('\r\n')
+}
+
+/**
+ * Send one message
+ *
+ * @param config - Server and credentials
+ * @param message - Message to send
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const data = formatMessage(message)
+
+  const socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port })
+  const session = new SmtpSession(socket)
+
+  try {
+    await session.command(null, [220])
+    const extensions = await session.command(`EHLO ${hostname()}`, [250])
+
+    if (!config.secure) {
+      if (extensions.some(ext => ext.toUpperCase() === 'STARTTLS')) {
+        await session.command('STARTTLS', [220])
+        await session.upgrade(config.host)
+        await session.command(`EHLO ${hostname()}`, [250])
+      } else if (config.user) {
+        throw new SmtpError('SMTP server does not offer STARTTLS; refusing to send credentials in plain text')
+      }
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.password || ''}`, 'utf8').toString('base64')
+      await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH')
+    }
+
+    await session.command(`MAIL FROM:<${headerValue(addressOf(message.from))}>`, [250])
+    await session.command(`RCPT TO:<${headerValue(addressOf(message.to))}>`, [250, 251])
+    await session.command('DATA', [354])
+    session.write(`${data}\r\n`)
+    await session.command('.', [250], 'DATA')
+    await session.command('QUIT', [221]).catch(() => undefined)
+  } finally {
+    session.close()
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * TOTP Utility Functions
+ *
+ * Time-based one-time passwords (RFC 6238) for MFA seeds stored on
+ * credential entries. Accepts a base32 secret or an otpauth:// URI.
+ * Server only - secrets are decrypted and codes generated in API routes.
+ */
+
+import { createHmac } from 'crypto'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+/**
+ * Parsed TOTP parameters
+ */
+export interface TotpConfig {
+  secret: Buffer
+  digits: number
+  period: number
+  algorithm: 'sha1' | 'sha256' | 'sha512'
+}
+
+/**
+ * A generated code and its validity window
+ */
+export interface TotpCode {
+  code: string
+  remainingSeconds: number
+  period: number
+  digits: number
+}
+
+/**
+ * Decode an RFC 4648 base32 string (spaces and padding are ignored)
+ */
+export function decodeBase32(value: string): Buffer {
+  const normalized = value.replace(/[\s=]/g, '').toUpperCase()
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error('Invalid base32 character in TOTP secret')
+    }
+
+    buffer = (buffer << 5) | index
+    bits += 5
+
+    if (bits >= 8) {
+      bytes.push((buffer >> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * Parse a stored TOTP secret
+ *
+ * @param value - Base32 secret or otpauth://totp/ URI
+ * @returns TOTP parameters (defaults: 6 digits, 30 seconds, SHA-1)
+ */
+export function parseTotpSecret(value: string): TotpConfig {
+  const config: TotpConfig = { secret: Buffer.alloc(0), digits: 6, period: 30, algorithm: 'sha1' }
+  let secret = value.trim()
+
+  if (secret.toLowerCase().startsWith('otpauth://')) {
+    const url = new URL(secret)
+    if (url.host !== 'totp') {
+      throw new Error('Only otpauth://totp URIs are supported')
+    }
+
+    secret = url.searchParams.get('secret') || ''
+
+    const digits = parseInt(url.searchParams.get('digits') || '6')
+    const period = parseInt(url.searchParams.get('period') || '30')
+    const algorithm = (url.searchParams.get('algorithm') || 'SHA1').toLowerCase()
+
+    if (![6, 7, 8].includes(digits)) {
+      throw new Error('TOTP digits must be 6, 7 or 8')
+    }
+    if (isNaN(period) || period < 1 || period > 300) {
+      throw new Error('TOTP period must be between 1 and 300 seconds')
+    }
+    if (!['sha1', 'sha256', 'sha512'].includes(algorithm)) {
+      throw new Error('TOTP algorithm must be SHA1, SHA256 or SHA512')
+    }
+
+    config.digits = digits
+    config.period = period
+    config.algorithm = algorithm as TotpConfig['algorithm']
+  }
+
+  config.secret = decodeBase32(secret)
+  if (config.secret.length === 0) {
+    throw new Error('TOTP secret is empty')
+  }
+
+  return config
+}
+
+/**
+ * Generate the current TOTP code
+ *
+ * @param config - TOTP parameters
+ * @param timestamp - Time in milliseconds (defaults to now)
+ * @returns Code and seconds until it rotates
+ */
+export function generateTotp(config: TotpConfig, timestamp: number = Date.now()): TotpCode {
+  const seconds = Math.floor(timestamp / 1000)
+  const counter = Math.floor(seconds / config.period)
+
+  const counterBytes = Buffer.alloc(8)
+  counterBytes.writeBigUInt64BE(BigInt(counter))
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const hmac = createHmac(config.algorithm, config.secret).update(counterBytes).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return {
+    code: (binary % 10 ** config.digits).toString().padStart(config.digits, '0'),
+    remainingSeconds: config.period - (seconds % config.period),
+    period: config.period,
+    digits: config.digits,
+  }
+}
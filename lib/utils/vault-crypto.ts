@@ -0,0 +1,236 @@
+/**
+ * Client-Side Vault Crypto
+ *
+ * Web Crypto primitives for zero-knowledge entries. Content is encrypted in
+ * the browser under a per-entry AES-256-GCM key; the entry key is wrapped for
+ * each recipient's RSA-OAEP public key. Each user's private key is stored
+ * server-side only after being encrypted with a key derived from their vault
+ * passphrase (PBKDF2-SHA256), so the server never sees plaintext or keys.
+ *
+ * Browser only - do not call these functions from server code.
+ */
+
+/**
+ * Prefix identifying client-encrypted content
+ * Layout after the prefix: base64(iv | ciphertext with auth tag)
+ */
+export const CLIENT_CIPHERTEXT_PREFIX = 'zk1:'
+
+/**
+ * PBKDF2 iterations for new vaults (OWASP recommendation for SHA-256)
+ */
+export const DEFAULT_KDF_ITERATIONS = 600000
+
+const IV_LENGTH = 12
+
+type Bytes = Uint8Array<ArrayBuffer>
+
+const RSA_PARAMS: RsaHashedKeyGenParams = {
+  name: 'RSA-OAEP',
+  modulusLength: 3072,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256',
+}
+
+/**
+ * Vault key material as stored on the server
+ */
+export interface StoredVaultKeys {
+  public_key: string
+  encrypted_private_key: string
+  kdf_salt: string
+  kdf_iterations: number
+}
+
+/**
+ * Encode bytes as base64
+ */
+export function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)
+  let binary = ''
+  for (let i = 0; i < view.length; i++) {
+    binary += String.fromCharCode(view[i])
+  }
+  return btoa(binary)
+}
+
+/**
+ * Decode base64 into bytes
+ */
+export function fromBase64(value: string): Bytes {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Encrypt bytes with AES-GCM, returning base64(iv | ciphertext)
+ */
+async function seal(key: CryptoKey, plain: Bytes): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain)
+
+  const payload = new Uint8Array(IV_LENGTH + ciphertext.byteLength)
+  payload.set(iv, 0)
+  payload.set(new Uint8Array(ciphertext), IV_LENGTH)
+  return toBase64(payload)
+}
+
+/**
+ * Decrypt base64(iv | ciphertext) produced by seal
+ */
+async function open(key: CryptoKey, sealed: string): Promise<ArrayBuffer> {
+  const payload = fromBase64(sealed)
+  const iv = payload.subarray(0, IV_LENGTH)
+  const ciphertext = payload.subarray(IV_LENGTH)
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext)
+}
+
+/**
+ * Derive a key-encryption key from the user's vault passphrase
+ */
+export async function deriveVaultKey(
+  passphrase: string,
+  salt: Bytes,
+  iterations: number = DEFAULT_KDF_ITERATIONS
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Generate a new vault key pair, locking the private key with the passphrase
+ *
+ * @param passphrase - User's vault passphrase
+ * @returns Key material to store on the server
+ */
+export async function createVaultKeys(passphrase: string): Promise<StoredVaultKeys> {
+  const keyPair = await crypto.subtle.generateKey(RSA_PARAMS, true, [
+    'wrapKey',
+    'unwrapKey',
+  ])
+
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const vaultKey = await deriveVaultKey(passphrase, salt)
+
+  const publicKey = await crypto.subtle.exportKey('spki', keyPair.publicKey)
+  const privateKey = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey)
+
+  return {
+    public_key: toBase64(publicKey),
+    encrypted_private_key: await seal(vaultKey, new Uint8Array(privateKey)),
+    kdf_salt: toBase64(salt),
+    kdf_iterations: DEFAULT_KDF_ITERATIONS,
+  }
+}
+
+/**
+ * Unlock the private key with the vault passphrase
+ *
+ * @throws Error if the passphrase is wrong
+ */
+export async function unlockPrivateKey(
+  stored: StoredVaultKeys,
+  passphrase: string
+): Promise<CryptoKey> {
+  const vaultKey = await deriveVaultKey(
+    passphrase,
+    fromBase64(stored.kdf_salt),
+    stored.kdf_iterations
+  )
+
+  let privateKey: ArrayBuffer
+  try {
+    privateKey = await open(vaultKey, stored.encrypted_private_key)
+  } catch {
+    throw new Error('Incorrect vault passphrase')
+  }
+
+  return crypto.subtle.importKey('pkcs8', privateKey, RSA_PARAMS, false, ['unwrapKey'])
+}
+
+/**
+ * Import a recipient's public key for wrapping entry keys
+ */
+export async function importPublicKey(publicKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('spki', fromBase64(publicKey), RSA_PARAMS, false, ['wrapKey'])
+}
+
+/**
+ * Generate a random per-entry content key
+ */
+export async function generateEntryKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+    'encrypt',
+    'decrypt',
+  ])
+}
+
+/**
+ * Wrap an entry key for a recipient
+ *
+ * @param entryKey - Entry content key
+ * @param publicKey - Recipient public key (base64 SPKI)
+ * @returns Wrapped key (base64)
+ */
+export async function wrapEntryKey(entryKey: CryptoKey, publicKey: string): Promise<string> {
+  const recipientKey = await importPublicKey(publicKey)
+  const wrapped = await crypto.subtle.wrapKey('raw', entryKey, recipientKey, { name: 'RSA-OAEP' })
+  return toBase64(wrapped)
+}
+
+/**
+ * Unwrap an entry key with the caller's private key
+ */
+export async function unwrapEntryKey(wrappedKey: string, privateKey: CryptoKey): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(wrappedKey),
+    privateKey,
+    { name: 'RSA-OAEP' },
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Encrypt entry content in the browser
+ */
+export async function encryptContent(entryKey: CryptoKey, plainText: string): Promise<string> {
+  return CLIENT_CIPHERTEXT_PREFIX + (await seal(entryKey, new TextEncoder().encode(plainText)))
+}
+
+/**
+ * Decrypt client-encrypted entry content
+ *
+ * @throws Error if the content is not client-encrypted or fails authentication
+ */
+export async function decryptContent(entryKey: CryptoKey, cipherText: string): Promise<string> {
+  if (!cipherText.startsWith(CLIENT_CIPHERTEXT_PREFIX)) {
+    throw new Error('Content is not client-encrypted')
+  }
+
+  try {
+    const plain = await open(entryKey, cipherText.slice(CLIENT_CIPHERTEXT_PREFIX.length))
+    return new TextDecoder().decode(plain)
+  } catch {
+    throw new Error('Failed to decrypt content')
+  }
+}
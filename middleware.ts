@@ -16,6 +16,8 @@ const publicRoutes = [
   '/auth/login',
   '/auth/signup',
   '/auth/callback',
+  '/api/invitations/lookup',
+  '/api/calendar/feed',
 ]
 
 /**
@@ -24,6 +26,12 @@ const publicRoutes = [
 const protectedRoutes = [
   '/dashboard',
   '/entries',
+  '/trash',
+  '/admin',
+  '/invitations',
+  '/approvals',
+  '/notifications',
+  '/profile',
   '/api',
 ]
 